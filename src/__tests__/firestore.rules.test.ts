@@ -0,0 +1,632 @@
+import { readFileSync } from "node:fs";
+import { afterAll, beforeAll, beforeEach, describe, it } from "vitest";
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import {
+  collection,
+  deleteDoc,
+  doc,
+  Firestore,
+  getDoc,
+  getDocs,
+  query,
+  setDoc,
+  updateDoc,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+
+// Run with `npm run test:rules`, which starts the Firestore emulator
+const PROJECT_ID = "demo-float34";
+
+type Role =
+  | "admin"
+  | "manager" // manages prop_1
+  | "accessor" // property manager with access to prop_2
+  | "provider" // prov_1, which services prop_1
+  | "pending" // manager of prop_1 not yet activated
+  | "anonymous";
+
+const ROLES: Role[] = [
+  "admin",
+  "manager",
+  "accessor",
+  "provider",
+  "pending",
+  "anonymous",
+];
+const STAFF: Role[] = ["admin", "manager", "accessor", "provider"];
+const SIGNED_IN: Role[] = [...STAFF, "pending"];
+
+const profile = (role: string, status: string, scope: object = {}) => ({
+  role,
+  status,
+  email: "user@float34.test",
+  ...scope,
+});
+
+const users: Record<Exclude<Role, "anonymous">, object> = {
+  admin: profile("admin", "active"),
+  manager: profile("property_manager", "active", {
+    managedProperties: ["prop_1"],
+  }),
+  accessor: profile("property_manager", "active", {
+    accessiblePropertyIds: ["prop_2"],
+  }),
+  provider: profile("service_provider", "active", { providerId: "prov_1" }),
+  pending: profile("property_manager", "pending", {
+    managedProperties: ["prop_1"],
+  }),
+};
+
+const invoice = (propertyId: string, providerId: string) => ({
+  invoiceNumber: `INV-${propertyId}-${providerId}`,
+  propertyId,
+  providerId,
+  description: "Monthly cleaning",
+  status: "sent",
+  total: 1000,
+});
+
+// Records each test starts from, by path
+const records: Record<string, object> = {
+  "properties/prop_1": { name: "Downtown Office Tower" },
+  "properties/prop_2": { name: "Riverside Business Park" },
+  "serviceProviders/prov_1": {
+    name: "CleanPro",
+    status: "active",
+    propertyIds: ["prop_1"],
+  },
+  "serviceProviders/prov_2": {
+    name: "MaintainTech",
+    status: "active",
+    propertyIds: ["prop_2"],
+  },
+  "invoices/inv_1": invoice("prop_1", "prov_1"),
+  "invoices/inv_2": invoice("prop_2", "prov_2"),
+  "invoices/inv_1/statusHistory/entry_1": {
+    status: "sent",
+    changedBy: "admin",
+  },
+  "expenses/exp_1": { propertyId: "prop_1", amount: 100 },
+  "payments/pay_1": { amount: 1000, invoiceIds: ["inv_1"] },
+  "creditNotes/cn_1": {
+    propertyId: "prop_1",
+    providerId: "prov_1",
+    invoiceId: "inv_1",
+  },
+  "recurringInvoiceTemplates/tpl_1": {
+    propertyId: "prop_1",
+    providerId: "prov_1",
+  },
+  "budgets/bud_1": { propertyId: "prop_1", amount: 5000 },
+  "financialData/roll_1": { propertyId: "prop_1", providerId: "prov_1" },
+  "financialData/roll_2": { propertyId: "prop_2", providerId: "prov_2" },
+  "settings/reporting": { reportingCurrency: "USD" },
+  "fxRates/rate_1": { baseCurrency: "EUR", quoteCurrency: "USD", rate: 1.1 },
+  "invoiceSequences/global-2024": { next: 2, lastNumberId: "INV-0001" },
+  "invoiceNumbers/INV-0001": {
+    invoiceNumber: "INV-0001",
+    invoiceId: "inv_1",
+    sequenceKey: "global-2024",
+    sequence: 1,
+    status: "issued",
+  },
+  "auditLogs/log_1": {
+    actorId: "admin",
+    action: "update",
+    entityType: "invoice",
+    entityId: "inv_1",
+  },
+};
+
+let env: RulesTestEnvironment;
+
+function firestoreFor(role: Role): Firestore {
+  const context =
+    role === "anonymous"
+      ? env.unauthenticatedContext()
+      : env.authenticatedContext(role);
+  return context.firestore() as unknown as Firestore;
+}
+
+beforeAll(async () => {
+  env = await initializeTestEnvironment({
+    projectId: PROJECT_ID,
+    firestore: {
+      rules: readFileSync(
+        new URL("../../firestore.rules", import.meta.url),
+        "utf8"
+      ),
+    },
+  });
+});
+
+beforeEach(async () => {
+  await env.clearFirestore();
+  await env.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore() as unknown as Firestore;
+    await Promise.all([
+      ...Object.entries(users).map(([uid, data]) =>
+        setDoc(doc(db, "users", uid), { uid, ...data })
+      ),
+      ...Object.entries(records).map(([path, data]) =>
+        setDoc(doc(db, path), data)
+      ),
+    ]);
+  });
+});
+
+afterAll(async () => {
+  await env?.cleanup();
+});
+
+/**
+ * One test per role: the allowed roles must succeed, every other role
+ * must be denied
+ */
+function expectAccess(
+  action: string,
+  allowed: Role[],
+  run: (db: Firestore, uid: string) => Promise<unknown>
+) {
+  ROLES.forEach((role) => {
+    const allow = allowed.includes(role);
+    it(`${role} ${allow ? "can" : "cannot"} ${action}`, async () => {
+      const attempt = run(firestoreFor(role), role);
+      await (allow ? assertSucceeds(attempt) : assertFails(attempt));
+    });
+  });
+}
+
+describe("reads", () => {
+  const readAccess: [string, Role[]][] = [
+    ["invoices/inv_1", ["admin", "manager", "provider"]],
+    ["invoices/inv_2", ["admin", "accessor"]],
+    ["invoices/inv_1/statusHistory/entry_1", ["admin", "manager", "provider"]],
+    ["expenses/exp_1", ["admin", "manager"]],
+    ["payments/pay_1", ["admin"]],
+    ["creditNotes/cn_1", ["admin", "manager", "provider"]],
+    ["recurringInvoiceTemplates/tpl_1", ["admin", "manager", "provider"]],
+    ["budgets/bud_1", ["admin", "manager"]],
+    ["financialData/roll_1", ["admin", "manager", "provider"]],
+    ["financialData/roll_2", ["admin", "accessor"]],
+    ["properties/prop_1", ["admin", "manager", "provider"]],
+    ["properties/prop_2", ["admin", "accessor"]],
+    ["serviceProviders/prov_1", STAFF],
+    ["serviceProviders/prov_2", ["admin", "manager", "accessor"]],
+    ["settings/reporting", STAFF],
+    ["fxRates/rate_1", STAFF],
+    ["invoiceSequences/global-2024", STAFF],
+    ["users/manager", ["admin", "manager"]],
+    ["users/pending", ["admin", "pending"]],
+    ["auditLogs/log_1", ["admin"]],
+  ];
+
+  readAccess.forEach(([path, allowed]) =>
+    describe(path, () =>
+      expectAccess(`read ${path}`, allowed, (db) => getDoc(doc(db, path)))
+    )
+  );
+
+  describe("invoice queries", () => {
+    expectAccess("list invoices of prop_1", ["admin", "manager"], (db) =>
+      getDocs(
+        query(collection(db, "invoices"), where("propertyId", "==", "prop_1"))
+      )
+    );
+    expectAccess("list invoices of prov_1", ["admin", "provider"], (db) =>
+      getDocs(
+        query(collection(db, "invoices"), where("providerId", "==", "prov_1"))
+      )
+    );
+    expectAccess("list every invoice", ["admin"], (db) =>
+      getDocs(collection(db, "invoices"))
+    );
+  });
+
+  // The scoped listings of ScopeService
+  describe("property-scoped queries", () => {
+    expectAccess("list invoices in [prop_1]", ["admin", "manager"], (db) =>
+      getDocs(
+        query(
+          collection(db, "invoices"),
+          where("propertyId", "in", ["prop_1"])
+        )
+      )
+    );
+    expectAccess("list invoices in [prop_1, prop_2]", ["admin"], (db) =>
+      getDocs(
+        query(
+          collection(db, "invoices"),
+          where("propertyId", "in", ["prop_1", "prop_2"])
+        )
+      )
+    );
+    expectAccess("list rollups in [prop_2]", ["admin", "accessor"], (db) =>
+      getDocs(
+        query(
+          collection(db, "financialData"),
+          where("propertyId", "in", ["prop_2"])
+        )
+      )
+    );
+  });
+});
+
+describe("invoice writes", () => {
+  expectAccess(
+    "create an invoice for prop_1 from prov_1",
+    ["admin", "manager", "provider"],
+    (db) => setDoc(doc(db, "invoices/new"), invoice("prop_1", "prov_1"))
+  );
+  expectAccess(
+    "create an invoice for prop_2 from prov_1",
+    ["admin", "accessor"],
+    (db) => setDoc(doc(db, "invoices/new"), invoice("prop_2", "prov_1"))
+  );
+  expectAccess(
+    "edit inv_1",
+    ["admin", "manager", "provider"],
+    (db) => updateDoc(doc(db, "invoices/inv_1"), { description: "Edited" })
+  );
+  expectAccess("record a payment on inv_1", ["admin"], (db) =>
+    updateDoc(doc(db, "invoices/inv_1"), { amountPaid: 1000 })
+  );
+  expectAccess("approve inv_1", ["admin", "manager"], (db) =>
+    updateDoc(doc(db, "invoices/inv_1"), { status: "paid" })
+  );
+  expectAccess("change the total of inv_1", ["admin", "manager"], (db) =>
+    updateDoc(doc(db, "invoices/inv_1"), {
+      total: 5000,
+      lineItems: [{ description: "Extra", quantity: 1, unitPrice: 5000 }],
+    })
+  );
+  expectAccess("move inv_1 to prop_2", ["admin"], (db) =>
+    updateDoc(doc(db, "invoices/inv_1"), { propertyId: "prop_2" })
+  );
+  expectAccess("delete inv_1", ["admin"], (db) =>
+    deleteDoc(doc(db, "invoices/inv_1"))
+  );
+  expectAccess(
+    "create an invoice with its first status",
+    ["admin", "manager", "provider"],
+    (db, uid) => {
+      const batch = writeBatch(db);
+      batch.set(doc(db, "invoices/new"), invoice("prop_1", "prov_1"));
+      batch.set(doc(db, "invoices/new/statusHistory/new"), {
+        fromStatus: null,
+        toStatus: "sent",
+        changedBy: uid,
+      });
+      return batch.commit();
+    }
+  );
+  expectAccess(
+    "change the status of inv_1 with its history",
+    ["admin", "manager"],
+    (db, uid) => {
+      const batch = writeBatch(db);
+      batch.update(doc(db, "invoices/inv_1"), { status: "cancelled" });
+      batch.set(doc(db, "invoices/inv_1/statusHistory/new"), {
+        fromStatus: "sent",
+        toStatus: "cancelled",
+        changedBy: uid,
+      });
+      return batch.commit();
+    }
+  );
+  expectAccess(
+    "add to the status history of inv_1 without a status change",
+    [],
+    (db, uid) =>
+      setDoc(doc(db, "invoices/inv_1/statusHistory/new"), {
+        fromStatus: "sent",
+        toStatus: "cancelled",
+        changedBy: uid,
+      })
+  );
+  expectAccess("rewrite the status history of inv_1", [], (db) =>
+    updateDoc(doc(db, "invoices/inv_1/statusHistory/entry_1"), {
+      status: "draft",
+    })
+  );
+  expectAccess("update the rollup of prop_1 and prov_1", ["admin"], (db) =>
+    updateDoc(doc(db, "financialData/roll_1"), { revenue: 2000 })
+  );
+});
+
+describe("invoice numbering", () => {
+  // Number a new invoice as InvoiceNumberingService does
+  const allocate = (
+    db: Firestore,
+    propertyId: string,
+    providerId: string,
+    next = 3
+  ) => {
+    const batch = writeBatch(db);
+    batch.set(doc(db, "invoices/new"), invoice(propertyId, providerId));
+    batch.set(doc(db, "invoiceNumbers/INV-0002"), {
+      invoiceNumber: "INV-0002",
+      invoiceId: "new",
+      sequenceKey: "global-2024",
+      sequence: 2,
+      status: "issued",
+    });
+    batch.set(doc(db, "invoiceSequences/global-2024"), {
+      next,
+      lastNumberId: "INV-0002",
+    });
+    return batch.commit();
+  };
+
+  expectAccess(
+    "number a new invoice for prop_1 from prov_1",
+    ["admin", "manager", "provider"],
+    (db) => allocate(db, "prop_1", "prov_1")
+  );
+  expectAccess(
+    "number a new invoice for prop_2 from prov_2",
+    ["admin", "accessor"],
+    (db) => allocate(db, "prop_2", "prov_2")
+  );
+  expectAccess("skip ahead in a sequence", ["admin"], (db) =>
+    allocate(db, "prop_1", "prov_1", 10)
+  );
+  expectAccess("move a sequence on without a number", ["admin"], (db) =>
+    updateDoc(doc(db, "invoiceSequences/global-2024"), { next: 10 })
+  );
+  expectAccess("allocate a number to no invoice", ["admin"], (db) =>
+    setDoc(doc(db, "invoiceNumbers/INV-0002"), {
+      invoiceNumber: "INV-0002",
+      invoiceId: "new",
+      status: "issued",
+    })
+  );
+  expectAccess("void the number of inv_1", ["admin", "manager"], (db) =>
+    updateDoc(doc(db, "invoiceNumbers/INV-0001"), { status: "void" })
+  );
+  expectAccess("give the number of inv_1 to inv_2", ["admin"], (db) =>
+    updateDoc(doc(db, "invoiceNumbers/INV-0001"), { invoiceId: "inv_2" })
+  );
+});
+
+describe("property-scoped writes", () => {
+  expectAccess("record an expense for prop_1", ["admin", "manager"], (db) =>
+    setDoc(doc(db, "expenses/new"), { propertyId: "prop_1", amount: 50 })
+  );
+  expectAccess("issue a credit note for prop_1", ["admin", "manager"], (db) =>
+    setDoc(doc(db, "creditNotes/new"), {
+      propertyId: "prop_1",
+      providerId: "prov_1",
+      invoiceId: "inv_1",
+    })
+  );
+  expectAccess(
+    "add a recurring template for prop_1",
+    ["admin", "manager"],
+    (db) =>
+      setDoc(doc(db, "recurringInvoiceTemplates/new"), {
+        propertyId: "prop_1",
+        providerId: "prov_1",
+      })
+  );
+  expectAccess("set a budget for prop_1", ["admin"], (db) =>
+    setDoc(doc(db, "budgets/new"), { propertyId: "prop_1", amount: 1 })
+  );
+  expectAccess("record a payment", ["admin"], (db) =>
+    setDoc(doc(db, "payments/new"), { amount: 10, invoiceIds: ["inv_1"] })
+  );
+  expectAccess("update prop_1", ["admin", "manager"], (db) =>
+    updateDoc(doc(db, "properties/prop_1"), { name: "Renamed" })
+  );
+  expectAccess("create a property", ["admin"], (db) =>
+    setDoc(doc(db, "properties/new"), { name: "New Property" })
+  );
+  expectAccess("delete prop_1", ["admin"], (db) =>
+    deleteDoc(doc(db, "properties/prop_1"))
+  );
+});
+
+describe("provider writes", () => {
+  expectAccess("update the phone of prov_1", ["admin", "provider"], (db) =>
+    updateDoc(doc(db, "serviceProviders/prov_1"), { phone: "555-0100" })
+  );
+  expectAccess("approve prov_1", ["admin"], (db) =>
+    updateDoc(doc(db, "serviceProviders/prov_1"), { status: "suspended" })
+  );
+  expectAccess(
+    "add a compliance document to prov_1",
+    ["admin", "provider"],
+    (db) =>
+      updateDoc(doc(db, "serviceProviders/prov_1"), {
+        complianceDocuments: [{ id: "doc_1", type: "insurance" }],
+      })
+  );
+  expectAccess("verify the compliance of prov_1", ["admin"], (db) =>
+    updateDoc(doc(db, "serviceProviders/prov_1"), {
+      complianceStatus: { backgroundCheck: true },
+    })
+  );
+  expectAccess("register a pending provider", SIGNED_IN, (db, uid) =>
+    setDoc(doc(db, "serviceProviders/new"), {
+      name: "New Co",
+      status: "pending",
+      createdBy: uid,
+    })
+  );
+  expectAccess("register a provider as someone else", ["admin"], (db) =>
+    setDoc(doc(db, "serviceProviders/new"), {
+      name: "New Co",
+      status: "pending",
+      createdBy: "other",
+    })
+  );
+  expectAccess("register an active provider", ["admin"], (db) =>
+    setDoc(doc(db, "serviceProviders/new"), {
+      name: "New Co",
+      status: "active",
+    })
+  );
+});
+
+describe("settings writes", () => {
+  expectAccess("change the reporting currency", ["admin"], (db) =>
+    setDoc(doc(db, "settings/reporting"), { reportingCurrency: "EUR" })
+  );
+  expectAccess("add an FX rate", ["admin"], (db) =>
+    setDoc(doc(db, "fxRates/new"), { rate: 1.2 })
+  );
+});
+
+describe("profile writes", () => {
+  expectAccess("edit their own profile", SIGNED_IN, (db, uid) =>
+    updateDoc(doc(db, "users", uid), { firstName: "Renamed" })
+  );
+  expectAccess("make themselves admin", ["admin"], (db, uid) =>
+    updateDoc(doc(db, "users", uid), { role: "admin" })
+  );
+  expectAccess("change their own status", ["admin"], (db, uid) =>
+    updateDoc(doc(db, "users", uid), { status: "inactive" })
+  );
+  expectAccess("grant themselves prop_2", ["admin"], (db, uid) =>
+    updateDoc(doc(db, "users", uid), { managedProperties: ["prop_2"] })
+  );
+  expectAccess("edit the pending profile", ["admin", "pending"], (db) =>
+    updateDoc(doc(db, "users/pending"), { firstName: "Renamed" })
+  );
+  expectAccess("delete a profile", ["admin"], (db) =>
+    deleteDoc(doc(db, "users/pending"))
+  );
+
+  describe("registration", () => {
+    const register = (data: object) => {
+      const db = env.authenticatedContext("newcomer").firestore();
+      return setDoc(doc(db as unknown as Firestore, "users/newcomer"), {
+        uid: "newcomer",
+        role: "service_provider",
+        status: "pending",
+        ...data,
+      });
+    };
+
+    it("allows a pending profile without access", async () => {
+      await assertSucceeds(register({ providerIds: [] }));
+    });
+
+    it("denies an admin profile", async () => {
+      await assertFails(register({ role: "admin" }));
+    });
+
+    it("denies an active profile", async () => {
+      await assertFails(register({ status: "active" }));
+    });
+
+    it("denies a profile that grants access", async () => {
+      await assertFails(register({ providerId: "prov_1" }));
+      await assertFails(register({ accessiblePropertyIds: ["prop_1"] }));
+    });
+
+    describe("linking the registered provider", () => {
+      beforeEach(async () => {
+        await env.withSecurityRulesDisabled(async (context) => {
+          const db = context.firestore() as unknown as Firestore;
+          await Promise.all([
+            setDoc(doc(db, "users/newcomer"), {
+              uid: "newcomer",
+              role: "service_provider",
+              status: "pending",
+            }),
+            setDoc(doc(db, "serviceProviders/prov_new"), {
+              name: "New Co",
+              status: "pending",
+              createdBy: "newcomer",
+            }),
+            setDoc(doc(db, "serviceProviders/prov_newer"), {
+              name: "Newer Co",
+              status: "pending",
+              createdBy: "newcomer",
+            }),
+          ]);
+        });
+      });
+
+      const link = (providerId: string) => {
+        const db = env.authenticatedContext("newcomer").firestore();
+        return updateDoc(doc(db as unknown as Firestore, "users/newcomer"), {
+          providerId,
+        });
+      };
+
+      it("allows the pending provider they registered", async () => {
+        await assertSucceeds(link("prov_new"));
+      });
+
+      it("denies a provider someone else registered", async () => {
+        await assertFails(link("prov_1"));
+      });
+
+      it("denies relinking once linked", async () => {
+        await assertSucceeds(link("prov_new"));
+        await assertFails(link("prov_newer"));
+      });
+    });
+  });
+});
+
+describe("audit logs", () => {
+  const entry = (uid: string, data: object = {}) => ({
+    actorId: uid,
+    action: "update",
+    entityType: "user",
+    entityId: uid,
+    changes: { firstName: { before: null, after: "Renamed" } },
+    timestamp: "2024-03-01T00:00:00.000Z",
+    ...data,
+  });
+  // Change the user's own profile and audit it in one batch
+  const audited = (db: Firestore, uid: string, data: object = {}) => {
+    const batch = writeBatch(db);
+    batch.update(doc(db, "users", uid), { firstName: "Renamed" });
+    batch.set(doc(db, "auditLogs/new"), entry(uid, data));
+    return batch.commit();
+  };
+
+  expectAccess("record their own change", SIGNED_IN, (db, uid) =>
+    audited(db, uid)
+  );
+  expectAccess("record a change as someone else", [], (db, uid) =>
+    audited(db, uid, { actorId: "other" })
+  );
+  expectAccess("record an entry with other fields", [], (db, uid) =>
+    audited(db, uid, { approved: true })
+  );
+  expectAccess("record a change to another record", [], (db, uid) =>
+    audited(db, uid, { entityType: "property", entityId: "prop_1" })
+  );
+  expectAccess("record a change that was not made", [], (db, uid) =>
+    setDoc(doc(db, "auditLogs/new"), entry(uid))
+  );
+  expectAccess("record a change as a create", [], (db, uid) =>
+    audited(db, uid, { action: "create" })
+  );
+  expectAccess("change an audit log", [], (db) =>
+    updateDoc(doc(db, "auditLogs/log_1"), { action: "create" })
+  );
+  expectAccess("delete an audit log", [], (db) =>
+    deleteDoc(doc(db, "auditLogs/log_1"))
+  );
+});
+
+describe("admin claim", () => {
+  it("grants admin access without a profile", async () => {
+    const db = env
+      .authenticatedContext("claims-admin", { role: "admin" })
+      .firestore() as unknown as Firestore;
+    await assertSucceeds(getDoc(doc(db, "payments/pay_1")));
+  });
+});
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestUser } from "@/lib/auth/serverAuth";
+import { loadInvoicePdfData, renderInvoicesZip } from "@/lib/pdf/invoicePdf";
+import { getAdminInvoicePdfSource } from "@/lib/pdf/adminSource";
+
+export const runtime = "nodejs";
+
+// Keep a single request from rendering an unbounded number of documents
+const MAX_INVOICES = 500;
+
+/**
+ * Render several invoices as PDFs bundled in a zip archive. The invoices
+ * are read from Firestore, and the caller needs invoice:read on each.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const body = (await request.json()) as { invoiceIds?: unknown };
+    const invoiceIds = Array.isArray(body?.invoiceIds)
+      ? [...new Set(body.invoiceIds)].filter(
+          (id): id is string => typeof id === "string" && id !== ""
+        )
+      : [];
+
+    if (invoiceIds.length === 0) {
+      return NextResponse.json({ error: "No invoices" }, { status: 400 });
+    }
+    if (invoiceIds.length > MAX_INVOICES) {
+      return NextResponse.json(
+        { error: `Export is limited to ${MAX_INVOICES} invoices` },
+        { status: 400 }
+      );
+    }
+
+    const result = await loadInvoicePdfData(
+      user.profile,
+      invoiceIds,
+      getAdminInvoicePdfSource()
+    );
+    if ("error" in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const zip = await renderInvoicesZip(result.documents);
+    const date = new Date().toISOString().split("T")[0];
+    return new NextResponse(Buffer.from(zip), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="invoices-${date}.zip"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting invoice PDFs:", error);
+    return NextResponse.json(
+      { error: "Failed to export invoice PDFs" },
+      { status: 500 }
+    );
+  }
+}
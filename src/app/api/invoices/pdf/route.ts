@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestUser } from "@/lib/auth/serverAuth";
+import {
+  getInvoicePdfFilename,
+  loadInvoicePdfData,
+  renderInvoicePdf,
+} from "@/lib/pdf/invoicePdf";
+import { getAdminInvoicePdfSource } from "@/lib/pdf/adminSource";
+
+// pdf-lib needs Node APIs
+export const runtime = "nodejs";
+
+/**
+ * Render one invoice as a PDF. The invoice is read from Firestore, never
+ * taken from the request, and the caller needs invoice:read on it.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const body = (await request.json()) as { invoiceId?: string };
+    if (typeof body?.invoiceId !== "string" || !body.invoiceId) {
+      return NextResponse.json({ error: "Missing invoice" }, { status: 400 });
+    }
+
+    const result = await loadInvoicePdfData(
+      user.profile,
+      [body.invoiceId],
+      getAdminInvoicePdfSource()
+    );
+    if ("error" in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const [data] = result.documents;
+    const pdf = await renderInvoicePdf(data);
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${getInvoicePdfFilename(
+          data.invoice
+        )}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error rendering invoice PDF:", error);
+    return NextResponse.json(
+      { error: "Failed to render invoice PDF" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getFirestore } from "firebase-admin/firestore";
+import {
+  decryptField,
+  encryptField,
+  encryptForStorage,
+  getKeyring,
+  isLegacyEncoded,
+  needsRotation,
+} from "@/lib/crypto/fieldEncryption";
+import {
+  mapProviderSecrets,
+  pickProviderSecrets,
+  ProviderSecrets,
+  ProviderSecretsRequest,
+  ProviderSecretsResponse,
+} from "@/lib/crypto/providerSecrets";
+import { getAdminApp, getRequestUser } from "@/lib/auth/serverAuth";
+import { can } from "@/lib/auth/permissions";
+
+// node:crypto is not available on the edge runtime
+export const runtime = "nodejs";
+
+/**
+ * Encrypt, decrypt or re-encrypt the secret fields of service providers,
+ * for the signed-in user in the ID token of the request.
+ * - encrypt: any signed-in user, e.g. when registering a provider
+ * - decrypt: admins, and a provider's own users; the secrets are read from
+ *   the stored provider, never taken from the request
+ * - rotate: admins only
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const body = (await request.json()) as ProviderSecretsRequest;
+    const keyring = getKeyring();
+    const response: ProviderSecretsResponse = {
+      providers: [],
+      changed: [],
+      legacyValues: 0,
+    };
+
+    switch (body.action) {
+      case "encrypt":
+      case "rotate": {
+        if (!Array.isArray(body.providers)) {
+          return NextResponse.json(
+            { error: "Missing providers" },
+            { status: 400 }
+          );
+        }
+        const isAdmin = can(user.profile, "settings:manage");
+        if (body.action === "rotate" && !isAdmin) {
+          return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        }
+
+        body.providers.forEach((provider) => {
+          let changed = false;
+          response.providers.push(
+            mapProviderSecrets(provider, (value) => {
+              // Values read back from Firestore may already be encrypted,
+              // or still in the legacy encoding
+              if (body.action === "encrypt") {
+                return encryptForStorage(value, keyring);
+              }
+              if (!needsRotation(value, keyring)) return value;
+              changed = true;
+              if (isLegacyEncoded(value)) response.legacyValues++;
+              return encryptField(decryptField(value, keyring), keyring);
+            })
+          );
+          response.changed.push(changed);
+        });
+        break;
+      }
+
+      case "decrypt": {
+        if (!Array.isArray(body.providerIds)) {
+          return NextResponse.json(
+            { error: "Missing providerIds" },
+            { status: 400 }
+          );
+        }
+        const allowed = body.providerIds.every((providerId) =>
+          can(user.profile, "provider:write", { providerId })
+        );
+        if (!allowed) {
+          return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        }
+
+        const db = getFirestore(getAdminApp());
+        for (const providerId of body.providerIds) {
+          const snapshot = await db
+            .doc(`serviceProviders/${providerId}`)
+            .get();
+          const stored = pickProviderSecrets(
+            (snapshot.data() || {}) as ProviderSecrets
+          );
+          response.providers.push(
+            stored
+              ? mapProviderSecrets(stored, (value) =>
+                  decryptField(value, keyring)
+                )
+              : {}
+          );
+          response.changed.push(false);
+        }
+        break;
+      }
+
+      default:
+        return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+    }
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error processing provider secrets:", error);
+    return NextResponse.json(
+      { error: "Failed to process provider secrets" },
+      { status: 500 }
+    );
+  }
+}
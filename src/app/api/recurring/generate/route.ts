@@ -0,0 +1,53 @@
+import { timingSafeEqual } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { getFirestore } from "firebase-admin/firestore";
+import { getAdminApp } from "@/lib/auth/serverAuth";
+import { setRepositories } from "@/repositories";
+import {
+  createAdminRepositories,
+} from "@/repositories/adminFirestoreRepository";
+import { RecurringInvoiceService } from "@/services/recurringInvoiceService";
+
+export const runtime = "nodejs";
+
+/**
+ * Generate the due invoices of every active recurring template, as the
+ * "Generate due invoices" button does. For a scheduler such as Cloud
+ * Scheduler to call daily with "Authorization: Bearer $CRON_SECRET".
+ * Generation is idempotent, so overlapping runs create no duplicates.
+ */
+export async function POST(request: NextRequest) {
+  if (!isScheduler(request)) {
+    return NextResponse.json({ error: "Not authorized" }, { status: 401 });
+  }
+
+  try {
+    // No user is signed in here, so every template is in scope
+    setRepositories(createAdminRepositories(getFirestore(getAdminApp())));
+    const result = await RecurringInvoiceService.generateDueInvoices();
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error generating recurring invoices:", error);
+    return NextResponse.json(
+      { error: "Failed to generate recurring invoices" },
+      { status: 500 }
+    );
+  } finally {
+    setRepositories(null);
+  }
+}
+
+// Compare in constant time, so the secret cannot be guessed byte by byte
+function isScheduler(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  const token = /^Bearer (.+)$/.exec(
+    request.headers.get("authorization") || ""
+  )?.[1];
+  if (!secret || !token) return false;
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(token);
+  return (
+    expected.length === actual.length && timingSafeEqual(expected, actual)
+  );
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getFirestore } from "firebase-admin/firestore";
+import { Invoice } from "@/types/float34";
+import { getAdminApp, getRequestUser } from "@/lib/auth/serverAuth";
+import { can } from "@/lib/auth/permissions";
+import {
+  isRollupKey,
+  recomputeRollups,
+  RollupRefreshRequest,
+  RollupRefreshResponse,
+} from "@/lib/financial/rollups";
+
+export const runtime = "nodejs";
+
+const MAX_KEYS = 50;
+
+/**
+ * Recompute financial rollups after an invoice write. Only the server
+ * writes rollups: each named rollup is rebuilt from the invoices of its
+ * month, so a client can ask for a refresh but not choose the totals.
+ * Callers need invoice:write on every rollup's property or provider.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const body = (await request.json()) as RollupRefreshRequest;
+    if (
+      !Array.isArray(body.keys) ||
+      body.keys.length > MAX_KEYS ||
+      !body.keys.every(isRollupKey)
+    ) {
+      return NextResponse.json({ error: "Invalid rollups" }, { status: 400 });
+    }
+    const allowed = body.keys.every((key) =>
+      can(user.profile, "invoice:write", {
+        propertyId: key.propertyId,
+        providerId: key.providerId,
+      })
+    );
+    if (!allowed) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const db = getFirestore(getAdminApp());
+    const response: RollupRefreshResponse = { updated: 0, deleted: 0 };
+    const rollups = await recomputeRollups(body.keys, async (period) => {
+      // Issue dates are YYYY-MM-DD or ISO strings, so a month is a prefix
+      const snapshot = await db
+        .collection("invoices")
+        .where("issueDate", ">=", period)
+        .where("issueDate", "<=", `${period}\uf8ff`)
+        .get();
+      return snapshot.docs.map(
+        (doc) => ({ id: doc.id, ...doc.data() }) as Invoice
+      );
+    });
+
+    const now = new Date().toISOString();
+    const batch = db.batch();
+    rollups.forEach((rollup, id) => {
+      const ref = db.doc(`financialData/${id}`);
+      if (rollup) {
+        batch.set(ref, { ...rollup, updatedAt: now });
+        response.updated++;
+      } else {
+        batch.delete(ref);
+        response.deleted++;
+      }
+    });
+    await batch.commit();
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error refreshing financial rollups:", error);
+    return NextResponse.json(
+      { error: "Failed to refresh financial rollups" },
+      { status: 500 }
+    );
+  }
+}
@@ -218,10 +218,16 @@ export default function LoginPage() {
 
       if (providerResult.success) {
         // Link the service provider to the user profile
-        await UserService.linkServiceProvider(
+        const linkResult = await UserService.linkServiceProvider(
           user.uid,
           providerResult.providerId!
         );
+        if (!linkResult.success) {
+          setError(
+            `Your account was created, but could not be linked to your provider profile: ${linkResult.error}. Please contact an administrator.`
+          );
+          return;
+        }
 
         setSuccess("Account created successfully! You can now log in.");
         setShowSignupModal(false);
@@ -13,11 +13,22 @@ import {
   Receipt,
   TrendingUp,
   Building2,
+  Settings,
+  ScrollText,
+  UserCog,
 } from "lucide-react";
 import Link from "next/link";
 import clsx from "clsx";
+import { useAuth } from "@/contexts/AuthContext";
+import { Action, can } from "@/lib/auth/permissions";
 
-const navItems = [
+// Items with a permission are only shown to users who have it
+const navItems: {
+  name: string;
+  href: string;
+  icon: React.ReactNode;
+  permission?: Action;
+}[] = [
   { name: "Home", href: "/dashboard/home", icon: <Home size={20} /> },
   {
     name: "Notifications",
@@ -28,31 +39,55 @@ const navItems = [
     name: "Service Providers",
     href: "/dashboard/service-providers",
     icon: <Users size={20} />,
+    permission: "provider:write",
   },
   {
     name: "Properties",
     href: "/dashboard/properties",
     icon: <Building2 size={20} />,
+    permission: "property:read",
   },
   {
     name: "Analytics",
     href: "/dashboard/analytics",
     icon: <BarChart size={20} />,
+    permission: "analytics:read",
   },
   {
     name: "Invoices",
     href: "/dashboard/invoices",
     icon: <Receipt size={20} />,
+    permission: "invoice:read",
   },
   {
     name: "Financial Reports",
     href: "/dashboard/financial-reports",
     icon: <TrendingUp size={20} />,
+    permission: "invoice:read",
+  },
+  {
+    name: "Audit Log",
+    href: "/dashboard/audit-log",
+    icon: <ScrollText size={20} />,
+    permission: "audit:read",
+  },
+  {
+    name: "Users",
+    href: "/dashboard/users",
+    icon: <UserCog size={20} />,
+    permission: "user:manage",
+  },
+  {
+    name: "Settings",
+    href: "/dashboard/settings",
+    icon: <Settings size={20} />,
+    permission: "settings:manage",
   },
 ];
 
 export default function Sidebar() {
   const [collapsed, setCollapsed] = useState(false);
+  const { userProfile } = useAuth();
 
   return (
     <div
@@ -83,19 +118,23 @@ export default function Sidebar() {
       </div>
 
       <nav className="flex flex-col">
-        {navItems.map(({ name, href, icon }) => (
-          <Link
-            key={name}
-            href={href}
-            className={clsx(
-              "flex items-center gap-3 px-4 py-3 hover:bg-gray-100 transition-colors",
-              collapsed && "justify-center"
-            )}
-          >
-            {icon}
-            {!collapsed && <span>{name}</span>}
-          </Link>
-        ))}
+        {navItems
+          .filter(
+            ({ permission }) => !permission || can(userProfile, permission)
+          )
+          .map(({ name, href, icon }) => (
+            <Link
+              key={name}
+              href={href}
+              className={clsx(
+                "flex items-center gap-3 px-4 py-3 hover:bg-gray-100 transition-colors",
+                collapsed && "justify-center"
+              )}
+            >
+              {icon}
+              {!collapsed && <span>{name}</span>}
+            </Link>
+          ))}
       </nav>
     </div>
   );
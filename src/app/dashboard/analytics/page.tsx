@@ -34,14 +34,50 @@ import {
   AreaChart,
   BarChart,
   Bar,
+  ComposedChart,
+  Legend,
 } from "recharts";
 import { Float34Api } from "@/lib/api";
-import { Invoice } from "@/types/float34";
+import {
+  CashFlowForecast,
+  CashFlowGranularity,
+  CombinedFinancialsResponse,
+  CombinedRankItem,
+  Invoice,
+  InvoiceStatus,
+  PropertyFinancialAggregate,
+  ProviderFinancialAggregate,
+  ProviderFinancialsResponse,
+  ProviderRankItem,
+} from "@/types/float34";
 import { ServiceProviderService } from "@/services/serviceProviderService";
+import ExportReportButton from "@/components/ExportReportButton";
+import UnconvertedCurrencyNotice from "@/components/UnconvertedCurrencyNotice";
+import {
+  FinancialReportFilters,
+  getYearMonthRange,
+} from "@/lib/export/financialReport";
+import { CurrencyService } from "@/services/currencyService";
+import { PeriodService } from "@/services/periodService";
 import { useAuth } from "@/contexts/AuthContext";
+import { can, getPropertyScope } from "@/lib/auth/permissions";
+
+// Per-property or per-provider totals with their trend
+type FinancialSeries = PropertyFinancialAggregate | ProviderFinancialAggregate;
+
+function getSeriesId(item: FinancialSeries): string {
+  return "propertyId" in item ? item.propertyId : item.providerId;
+}
+
+function getSeriesName(item: FinancialSeries): string {
+  return "propertyName" in item ? item.propertyName : item.providerName;
+}
 
 // Helper functions
-function formatCurrency(amount: number, currency: string = "USD"): string {
+function formatCurrency(
+  amount: number,
+  currency: string = CurrencyService.getCachedReportingCurrency()
+): string {
   return new Intl.NumberFormat("en-US", {
     style: "currency",
     currency: currency,
@@ -108,13 +144,41 @@ function formatPeriodLabel(
         });
       }
       return period;
+    case "QUARTER":
+      // Convert "2024-Q1" to "Q1 2024", or "Q1 FY2024" for fiscal years
+      const quarterMatch = period.match(/^(\d{4})-Q([1-4])$/);
+      if (quarterMatch) {
+        return `Q${quarterMatch[2]} ${formatFiscalYear(quarterMatch[1])}`;
+      }
+      return period;
     case "YEAR":
+      return formatFiscalYear(period);
+    case "DAY":
+      const dayMatch = period.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+      if (dayMatch) {
+        return new Date(
+          parseInt(dayMatch[1]),
+          parseInt(dayMatch[2]) - 1,
+          parseInt(dayMatch[3])
+        ).toLocaleDateString("en-US", {
+          month: "short",
+          day: "numeric",
+          year: "numeric",
+        });
+      }
       return period;
     default:
       return period;
   }
 }
 
+// Fiscal years not starting in January are named after the year they end in
+function formatFiscalYear(year: string): string {
+  return PeriodService.getCachedFiscalYearStartMonth() === 1
+    ? year
+    : `FY${year}`;
+}
+
 // KPI Card Component
 function KPICard({
   title,
@@ -476,7 +540,7 @@ function RevenueTrendChart({
   series,
   height = "h-80",
 }: {
-  series: any[];
+  series: FinancialSeries[];
   height?: string;
 }) {
   if (!series || series.length === 0) {
@@ -501,10 +565,9 @@ function RevenueTrendChart({
   // Check if we have aggregated data for all properties
   const aggregatedSeries = series.find(
     (item) =>
-      item.propertyId === "all" ||
-      item.propertyName === "All Properties" ||
-      item.providerId === "all" ||
-      item.providerName === "All Service Providers"
+      getSeriesId(item) === "all" ||
+      getSeriesName(item) === "All Properties" ||
+      getSeriesName(item) === "All Service Providers"
   );
 
   if (
@@ -558,10 +621,9 @@ function RevenueTrendChart({
     chartData = series
       .filter((item) => item.revenue > 0)
       .map((item, index) => ({
-        period: item.propertyName || item.providerName || `Item ${index + 1}`,
+        period: getSeriesName(item) || `Item ${index + 1}`,
         revenue: item.revenue,
-        shortLabel:
-          item.propertyName || item.providerName || `Item ${index + 1}`,
+        shortLabel: getSeriesName(item) || `Item ${index + 1}`,
       }))
       .slice(0, 8); // Show up to 8 items
   }
@@ -626,7 +688,7 @@ function RevenueTrendChart({
               tickLine={false}
               axisLine={false}
               tickFormatter={(value) =>
-                formatCurrency(value, "USD").replace("$", "")
+                formatCurrency(value).replace("$", "")
               }
             />
             <Tooltip
@@ -682,6 +744,138 @@ function RevenueTrendChart({
   );
 }
 
+// Cash-Flow Forecast Chart Component
+function CashFlowForecastChart({
+  forecast,
+  granularity,
+  onGranularityChange,
+  height = "h-80",
+}: {
+  forecast: CashFlowForecast | null;
+  granularity: CashFlowGranularity;
+  onGranularityChange: (granularity: CashFlowGranularity) => void;
+  height?: string;
+}) {
+  const chartData = (forecast?.periods || []).map((period) => ({
+    period: formatPeriodLabel(period.period, granularity),
+    incoming: period.incoming,
+    outgoing: -period.outgoing,
+    cumulative: period.cumulative,
+  }));
+  const hasData = chartData.some(
+    (item) => item.incoming !== 0 || item.outgoing !== 0
+  );
+
+  return (
+    <div className={`bg-white rounded-lg shadow-sm border p-6 ${height}`}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <Activity className="text-emerald-600" size={24} />
+          <h3 className="text-lg font-medium text-gray-900">
+            Cash-Flow Forecast
+          </h3>
+        </div>
+        <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+          {(["WEEK", "MONTH"] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => onGranularityChange(option)}
+              className={`px-3 py-1 text-sm ${
+                granularity === option
+                  ? "bg-blue-600 text-white"
+                  : "bg-white text-gray-700 hover:bg-gray-50"
+              }`}
+            >
+              {option === "WEEK" ? "Weekly" : "Monthly"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!hasData ? (
+        <div className="flex items-center justify-center h-64">
+          <p className="text-sm text-gray-600">
+            No open invoices or upcoming payments to forecast
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="w-full h-80 mb-4">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart
+                data={chartData}
+                margin={{ top: 5, right: 30, left: 20, bottom: 35 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+                <XAxis
+                  dataKey="period"
+                  stroke="#6B7280"
+                  fontSize={12}
+                  tickLine={false}
+                  axisLine={false}
+                  dy={15}
+                />
+                <YAxis
+                  stroke="#6B7280"
+                  fontSize={12}
+                  tickLine={false}
+                  axisLine={false}
+                  tickFormatter={(value) =>
+                    formatCurrency(value).replace("$", "")
+                  }
+                />
+                <Tooltip
+                  formatter={(value: number) => formatCurrency(value)}
+                  labelFormatter={(label) => `Period: ${label}`}
+                  contentStyle={{
+                    backgroundColor: "white",
+                    border: "1px solid #E5E7EB",
+                    borderRadius: "8px",
+                    boxShadow: "0 4px 6px -1px rgba(0, 0, 0, 0.1)",
+                  }}
+                />
+                <Legend verticalAlign="top" height={30} />
+                <Bar dataKey="incoming" name="Incoming" fill="#10B981" />
+                <Bar dataKey="outgoing" name="Outgoing" fill="#EF4444" />
+                <Line
+                  type="monotone"
+                  dataKey="cumulative"
+                  name="Cumulative net"
+                  stroke="#3B82F6"
+                  strokeWidth={3}
+                  dot={{ fill: "#3B82F6", strokeWidth: 2, r: 3 }}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          {/* Totals for the forecast horizon */}
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div>
+              <div className="text-sm text-gray-600">Expected In</div>
+              <div className="text-lg font-semibold text-green-600">
+                {formatCurrency(forecast?.totals.incoming || 0)}
+              </div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-600">Expected Out</div>
+              <div className="text-lg font-semibold text-red-600">
+                {formatCurrency(forecast?.totals.outgoing || 0)}
+              </div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-600">Net</div>
+              <div className="text-lg font-semibold text-blue-600">
+                {formatCurrency(forecast?.totals.net || 0)}
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
 // Property Performance Comparison Component
 function PropertyPerformanceTable({
   byProperty,
@@ -757,7 +951,7 @@ function ServiceProviderPerformanceTable({
   byProvider,
   height = "h-80",
 }: {
-  byProvider: any[];
+  byProvider: ProviderRankItem[];
   height?: string;
 }) {
   if (!byProvider || byProvider.length === 0) {
@@ -827,7 +1021,7 @@ function ProfitMarginTable({
   series,
   height = "h-64",
 }: {
-  series: any[];
+  series: FinancialSeries[];
   height?: string;
 }) {
   if (!series || series.length === 0) {
@@ -904,7 +1098,7 @@ function GrowthMetricsTable({
   series,
   height = "h-64",
 }: {
-  series: any[];
+  series: FinancialSeries[];
   height?: string;
 }) {
   if (!series || series.length === 0) {
@@ -975,7 +1169,7 @@ function InvoicePerformanceTable({
   series,
   height = "h-64",
 }: {
-  series: any[];
+  series: FinancialSeries[];
   height?: string;
 }) {
   if (!series || series.length === 0) {
@@ -1054,7 +1248,7 @@ function CombinedPerformanceTable({
   combinedData,
   height = "h-80",
 }: {
-  combinedData: any[];
+  combinedData: CombinedRankItem[];
   height?: string;
 }) {
   if (!combinedData || combinedData.length === 0) {
@@ -1276,7 +1470,7 @@ function FallbackRevenueChart({
   series,
   height = "h-80",
 }: {
-  series: any[];
+  series: FinancialSeries[];
   height?: string;
 }) {
   if (!series || series.length === 0) {
@@ -1299,7 +1493,7 @@ function FallbackRevenueChart({
   const chartData = series
     .filter((item) => item.revenue > 0)
     .map((item, index) => ({
-      name: item.propertyName || item.providerName || `Item ${index + 1}`,
+      name: getSeriesName(item) || `Item ${index + 1}`,
       revenue: item.revenue,
       profit: item.profit || 0,
     }))
@@ -1355,7 +1549,7 @@ function FallbackRevenueChart({
               tickLine={false}
               axisLine={false}
               tickFormatter={(value) =>
-                formatCurrency(value, "USD").replace("$", "")
+                formatCurrency(value).replace("$", "")
               }
             />
             <Tooltip
@@ -1405,6 +1599,8 @@ export default function AnalyticsPage() {
   const pathname = usePathname();
   const searchParams = useSearchParams();
   const { user, userProfile, loading: authLoading } = useAuth();
+  // Managers' figures only cover the properties assigned to them
+  const isScoped = getPropertyScope(userProfile, "analytics:read") !== null;
 
   // URL state
   const propertyId = searchParams.get("propertyId") || "";
@@ -1417,31 +1613,33 @@ export default function AnalyticsPage() {
   const [providers, setProviders] = useState<any[]>([]);
   const [availableYears, setAvailableYears] = useState<string[]>([]);
   const [availableMonths, setAvailableMonths] = useState<string[]>([]);
-  const [financialData, setFinancialData] = useState<{
-    summary: {
-      revenue: number;
-      expenses?: number;
-      profit?: number;
-      marginPct?: number;
-      invoicesPaidPct?: number;
-    };
-    byProperty: PropertyRankItem[];
-    series?: any[];
-  } | null>(null);
-  const [serviceProviderData, setServiceProviderData] = useState<{
-    summary: {
-      revenue: number;
-      expenses?: number;
-      profit?: number;
-      marginPct?: number;
-      invoicesPaidPct?: number;
-    };
-    byProvider: any[];
-    series?: any[];
-  } | null>(null);
-  const [combinedData, setCombinedData] = useState<any[]>([]);
+  const [financialData, setFinancialData] =
+    useState<CombinedFinancialsResponse | null>(null);
+  const [serviceProviderData, setServiceProviderData] =
+    useState<ProviderFinancialsResponse | null>(null);
+  const [combinedData, setCombinedData] = useState<CombinedRankItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [forecast, setForecast] = useState<CashFlowForecast | null>(null);
+  const [forecastGranularity, setForecastGranularity] =
+    useState<CashFlowGranularity>("MONTH");
+
+  // Project cash flow for the next 12 weeks or 6 months
+  useEffect(() => {
+    if (!user || !userProfile || !can(userProfile, "analytics:read")) return;
+
+    getApi()
+      .getCashFlowForecast({
+        granularity: forecastGranularity,
+        periods: forecastGranularity === "WEEK" ? 12 : 6,
+        propertyId: propertyId || undefined,
+        providerId: providerId || undefined,
+      })
+      .then(setForecast)
+      .catch((error) =>
+        console.error("Error fetching cash-flow forecast:", error)
+      );
+  }, [user, userProfile, propertyId, providerId, forecastGranularity]);
 
   // Get selected property name for display
   const selectedProperty = properties.find((p) => p.id === propertyId);
@@ -1456,10 +1654,10 @@ export default function AnalyticsPage() {
         return;
       }
 
-      // Check if user has admin role for analytics access
-      if (userProfile.role !== "admin") {
+      // Check if user may use analytics access
+      if (!can(userProfile, "analytics:read")) {
         console.log(
-          "User does not have admin role, redirecting to coming-soon"
+          "User lacks analytics:read permission, redirecting to coming-soon"
         );
         router.push("/dashboard/coming-soon");
         return;
@@ -1480,7 +1678,7 @@ export default function AnalyticsPage() {
   }
 
   // Show loading state while redirecting
-  if (!user || !userProfile || userProfile.role !== "admin") {
+  if (!user || !userProfile || !can(userProfile, "analytics:read")) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50 flex items-center justify-center">
         <div className="text-center">
@@ -1494,7 +1692,7 @@ export default function AnalyticsPage() {
   // Fetch data only when authenticated
   const fetchData = async () => {
     // Don't fetch if not authenticated
-    if (!user || !userProfile || userProfile.role !== "admin") {
+    if (!user || !userProfile || !can(userProfile, "analytics:read")) {
       return;
     }
 
@@ -1520,6 +1718,7 @@ export default function AnalyticsPage() {
         granularity: "MONTH", // Fixed to monthly for now
         from: "2024-01", // Fixed start date
         to: new Date().toISOString().split("T")[0], // Current date
+        compare: { mode: "previous_period" },
       });
 
       console.log("🔍 Financial data received:", data);
@@ -1578,7 +1777,7 @@ export default function AnalyticsPage() {
 
   useEffect(() => {
     // Only fetch data when authenticated and has proper role
-    if (user && userProfile && userProfile.role === "admin") {
+    if (user && userProfile && can(userProfile, "analytics:read")) {
       fetchData();
     }
   }, [user, userProfile, propertyId, providerId, yearFilter, monthFilter]);
@@ -1586,7 +1785,7 @@ export default function AnalyticsPage() {
   // Fetch properties only when authenticated
   useEffect(() => {
     const fetchProperties = async () => {
-      if (!user || !userProfile || userProfile.role !== "admin") return;
+      if (!user || !userProfile || !can(userProfile, "analytics:read")) return;
 
       try {
         const props = await getApi().listProperties();
@@ -1602,7 +1801,7 @@ export default function AnalyticsPage() {
   // Fetch providers only when authenticated
   useEffect(() => {
     const fetchProviders = async () => {
-      if (!user || !userProfile || userProfile.role !== "admin") return;
+      if (!user || !userProfile || !can(userProfile, "analytics:read")) return;
 
       try {
         console.log("🔍 Fetching service providers for analytics...");
@@ -1628,7 +1827,7 @@ export default function AnalyticsPage() {
   // Fetch available years and months from invoice data
   useEffect(() => {
     const fetchAvailableDates = async () => {
-      if (!user || !userProfile || userProfile.role !== "admin") return;
+      if (!user || !userProfile || !can(userProfile, "analytics:read")) return;
 
       try {
         // Import InvoiceService dynamically to avoid circular dependencies
@@ -1833,6 +2032,17 @@ export default function AnalyticsPage() {
     }
   })();
 
+  const exportFilters: FinancialReportFilters = {
+    ...getYearMonthRange(yearFilter, monthFilter, {
+      from: "2024-01-01",
+      to: new Date().toISOString().split("T")[0],
+    }),
+    granularity: "MONTH",
+    propertyId: propertyId || undefined,
+    providerId: providerId || undefined,
+    status: (searchParams.get("status") as InvoiceStatus) || undefined,
+  };
+
   return (
     <div className="p-6">
       {/* Header */}
@@ -1843,26 +2053,38 @@ export default function AnalyticsPage() {
               Financial Analytics
             </h1>
             <p className="text-gray-600">
-              In-depth analysis for {selectedProperty?.name || "All Properties"}{" "}
+              In-depth analysis for{" "}
+              {selectedProperty?.name ||
+                (isScoped ? "Your Properties" : "All Properties")}{" "}
               • {timePeriodText}
             </p>
           </div>
           <div className="flex items-center space-x-3">
-            <button
-              onClick={handleSeedServiceProviders}
-              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
-            >
-              🌱 Seed Service Providers
-            </button>
-            <button
-              onClick={handleSeedAllData}
-              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-            >
-              🌱 Seed All Data
-            </button>
+            <ExportReportButton
+              filters={exportFilters}
+              filenamePrefix="analytics-report"
+            />
+            {can(userProfile, "settings:manage") && (
+              <>
+                <button
+                  onClick={handleSeedServiceProviders}
+                  className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                >
+                  🌱 Seed Service Providers
+                </button>
+                <button
+                  onClick={handleSeedAllData}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  🌱 Seed All Data
+                </button>
+              </>
+            )}
           </div>
         </div>
 
+        <UnconvertedCurrencyNotice />
+
         {/* Smart Filter Suggestions */}
         {!propertyId && !providerId && (
           <div className="mt-3 p-3 bg-blue-50 border border-blue-200 rounded-lg">
@@ -2078,6 +2300,7 @@ export default function AnalyticsPage() {
             >
               <option value="all">All Statuses</option>
               <option value="paid">Paid</option>
+              <option value="partially_paid">Partially Paid</option>
               <option value="sent">Sent</option>
               <option value="overdue">Overdue</option>
               <option value="draft">Draft</option>
@@ -2335,9 +2558,9 @@ export default function AnalyticsPage() {
           iconBg="bg-green-100"
           iconColor="text-green-600"
           trend={
-            series?.[0]?.revenueDeltaPct
+            summary.revenueDeltaPct
               ? {
-                  value: series[0].revenueDeltaPct,
+                  value: summary.revenueDeltaPct,
                   label: "vs previous period",
                 }
               : undefined
@@ -2361,9 +2584,9 @@ export default function AnalyticsPage() {
             iconBg="bg-blue-100"
             iconColor="text-blue-600"
             trend={
-              series?.[0]?.profitDeltaPct
+              summary.profitDeltaPct
                 ? {
-                    value: series[0].profitDeltaPct,
+                    value: summary.profitDeltaPct,
                     label: "vs previous period",
                   }
                 : undefined
@@ -2391,6 +2614,14 @@ export default function AnalyticsPage() {
           <FallbackRevenueChart series={series || []} height="h-[500px]" />
         )}
 
+        {/* Forward-looking counterpart to the revenue trend */}
+        <CashFlowForecastChart
+          forecast={forecast}
+          granularity={forecastGranularity}
+          onGranularityChange={setForecastGranularity}
+          height="h-[500px]"
+        />
+
         {/* Property Performance Comparison or Combined Performance */}
         {propertyId && providerId ? (
           <CombinedPerformanceTable
@@ -0,0 +1,315 @@
+"use client";
+
+import { Fragment, useState, useEffect, useCallback } from "react";
+import {
+  ChevronDown,
+  ChevronRight,
+  RefreshCw,
+  ScrollText,
+  Search,
+} from "lucide-react";
+import { AuditLogSearchParams, AuditService } from "@/services/auditService";
+import { AuditAction, AuditEntityType, AuditLogEntry } from "@/types/float34";
+import { useAuth } from "@/contexts/AuthContext";
+import { can } from "@/lib/auth/permissions";
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  property: "Property",
+  serviceProvider: "Service Provider",
+  invoice: "Invoice",
+  user: "User",
+};
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  create: "bg-green-100 text-green-800",
+  update: "bg-blue-100 text-blue-800",
+  delete: "bg-red-100 text-red-800",
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null) return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+};
+
+export default function AuditLogPage() {
+  const { userProfile } = useAuth();
+  const canRead = can(userProfile, "audit:read");
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState<AuditLogSearchParams>({});
+  const [search, setSearch] = useState("");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const fetchEntries = useCallback(async () => {
+    if (!canRead) return;
+    try {
+      setLoading(true);
+      setEntries(await AuditService.getEntries(filters));
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, canRead]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const updateFilter = (changes: Partial<AuditLogSearchParams>) =>
+    setFilters((current) => ({ ...current, ...changes }));
+
+  // Free-text search over who, what and which fields changed
+  const searchTerm = search.trim().toLowerCase();
+  const visibleEntries = entries.filter(
+    (entry) =>
+      !searchTerm ||
+      [
+        entry.actorId,
+        entry.actorEmail,
+        entry.entityId,
+        ...Object.keys(entry.changes),
+      ].some((text) => text?.toLowerCase().includes(searchTerm))
+  );
+
+  if (!canRead) {
+    return (
+      <div className="p-6">
+        <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+        <p className="text-gray-600">Only administrators can view the audit log.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+          <p className="text-gray-600">
+            Every change to properties, service providers, invoices and users
+          </p>
+        </div>
+        <button
+          onClick={fetchEntries}
+          disabled={loading}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          <RefreshCw
+            className={`h-4 w-4 mr-2 ${loading ? "animate-spin" : ""}`}
+          />
+          Refresh
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-3">
+          <div className="relative lg:col-span-2">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search user, record or field"
+              className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg"
+            />
+          </div>
+          <select
+            value={filters.entityType || ""}
+            onChange={(e) =>
+              updateFilter({
+                entityType: (e.target.value || undefined) as AuditEntityType,
+              })
+            }
+            className="px-3 py-2 border border-gray-300 rounded-lg"
+          >
+            <option value="">All records</option>
+            {Object.entries(ENTITY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.action || ""}
+            onChange={(e) =>
+              updateFilter({
+                action: (e.target.value || undefined) as AuditAction,
+              })
+            }
+            className="px-3 py-2 border border-gray-300 rounded-lg"
+          >
+            <option value="">All actions</option>
+            <option value="create">Created</option>
+            <option value="update">Updated</option>
+            <option value="delete">Deleted</option>
+          </select>
+          <input
+            type="date"
+            value={filters.from || ""}
+            onChange={(e) =>
+              updateFilter({ from: e.target.value || undefined })
+            }
+            className="px-3 py-2 border border-gray-300 rounded-lg"
+            title="From"
+          />
+          <input
+            type="date"
+            value={filters.to || ""}
+            onChange={(e) => updateFilter({ to: e.target.value || undefined })}
+            className="px-3 py-2 border border-gray-300 rounded-lg"
+            title="To"
+          />
+        </div>
+      </div>
+
+      {filters.entityId && (
+        <div className="mb-4 p-3 rounded-lg text-sm bg-blue-50 text-blue-800">
+          Showing the history of {filters.entityId}.{" "}
+          <button
+            onClick={() => updateFilter({ entityId: undefined })}
+            className="underline"
+          >
+            Show all records
+          </button>
+        </div>
+      )}
+
+      {/* Entries */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : visibleEntries.length === 0 ? (
+          <div className="text-center py-12">
+            <ScrollText className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">
+              No audit entries
+            </h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Changes will appear here as they are made.
+            </p>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3"></th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  When
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  User
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Action
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Record
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Fields
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {visibleEntries.map((entry) => {
+                const expanded = expandedId === entry.id;
+                const fields = Object.keys(entry.changes);
+                return (
+                  <Fragment key={entry.id}>
+                    <tr
+                      onClick={() => setExpandedId(expanded ? null : entry.id)}
+                      className="hover:bg-gray-50 cursor-pointer"
+                    >
+                      <td className="px-6 py-4 text-gray-400">
+                        {expanded ? (
+                          <ChevronDown className="h-4 w-4" />
+                        ) : (
+                          <ChevronRight className="h-4 w-4" />
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700 whitespace-nowrap">
+                        {new Date(entry.timestamp).toLocaleString()}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {entry.actorEmail || entry.actorId}
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        <span
+                          className={`px-2 py-1 rounded-full text-xs font-medium ${
+                            ACTION_STYLES[entry.action]
+                          }`}
+                        >
+                          {entry.action}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700">
+                        <div>{ENTITY_LABELS[entry.entityType]}</div>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            updateFilter({ entityId: entry.entityId });
+                          }}
+                          className="text-blue-600 hover:underline"
+                          title="Show the history of this record"
+                        >
+                          {entry.entityId}
+                        </button>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500">
+                        {fields.length > 3
+                          ? `${fields.slice(0, 3).join(", ")} +${
+                              fields.length - 3
+                            }`
+                          : fields.join(", ")}
+                      </td>
+                    </tr>
+                    {expanded && (
+                      <tr className="bg-gray-50">
+                        <td></td>
+                        <td colSpan={5} className="px-6 py-4">
+                          <table className="w-full text-sm">
+                            <thead>
+                              <tr className="text-left text-gray-500">
+                                <th className="pr-4 py-1 font-medium">Field</th>
+                                <th className="pr-4 py-1 font-medium">
+                                  Before
+                                </th>
+                                <th className="py-1 font-medium">After</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {Object.entries(entry.changes).map(
+                                ([field, { before, after }]) => (
+                                  <tr key={field} className="align-top">
+                                    <td className="pr-4 py-1 font-medium text-gray-900">
+                                      {field}
+                                    </td>
+                                    <td className="pr-4 py-1 text-red-700 break-all">
+                                      {formatValue(before)}
+                                    </td>
+                                    <td className="py-1 text-green-700 break-all">
+                                      {formatValue(after)}
+                                    </td>
+                                  </tr>
+                                )
+                              )}
+                            </tbody>
+                          </table>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { auth } from "@/services/firebaseConfig";
 import UserService from "@/services/userService";
+import { getLandingPath } from "@/lib/auth/permissions";
 import { Building, Clock, ArrowLeft, User } from "lucide-react";
 
 export default function ComingSoonPage() {
@@ -26,9 +27,10 @@ export default function ComingSoonPage() {
           return;
         }
 
-        // Only allow service providers to access this page
-        if (profile.role !== "service_provider") {
-          router.push("/dashboard/home");
+        // Users with dashboard or portal access have no need for this page
+        const landingPath = getLandingPath(profile);
+        if (landingPath !== "/dashboard/coming-soon") {
+          router.push(landingPath);
           return;
         }
 
@@ -109,42 +111,46 @@ export default function ComingSoonPage() {
 
           {/* Title */}
           <h1 className="text-4xl font-bold text-gray-900 mb-4">
-            Coming Soon!
+            Almost There!
           </h1>
 
           {/* Subtitle */}
           <p className="text-xl text-gray-600 mb-8">
-            We're working hard to build your service provider dashboard
+            Your provider portal opens once your account is approved
           </p>
 
           {/* Description */}
           <div className="bg-white rounded-2xl shadow-xl p-8 mb-8">
             <p className="text-gray-600 mb-6 leading-relaxed">
-              Thank you for joining Flow34! We're currently developing a
-              comprehensive dashboard specifically designed for service
-              providers like you. This will include features like:
+              Thank you for joining Flow34! An administrator will review your
+              registration and link your account to your business. In the
+              provider portal you can then:
             </p>
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-left max-w-2xl mx-auto">
               <div className="flex items-center space-x-3">
                 <div className="h-2 w-2 bg-blue-600 rounded-full"></div>
                 <span className="text-gray-700">
-                  Service request management
+                  Keep your business profile up to date
                 </span>
               </div>
               <div className="flex items-center space-x-3">
                 <div className="h-2 w-2 bg-blue-600 rounded-full"></div>
-                <span className="text-gray-700">Financial reporting</span>
+                <span className="text-gray-700">
+                  Upload compliance documents
+                </span>
               </div>
               <div className="flex items-center space-x-3">
                 <div className="h-2 w-2 bg-blue-600 rounded-full"></div>
                 <span className="text-gray-700">
-                  Property access management
+                  Submit invoices for the properties you serve
                 </span>
               </div>
               <div className="flex items-center space-x-3">
                 <div className="h-2 w-2 bg-blue-600 rounded-full"></div>
-                <span className="text-gray-700">Performance analytics</span>
+                <span className="text-gray-700">
+                  Track the payment of your invoices
+                </span>
               </div>
             </div>
           </div>
@@ -152,8 +158,8 @@ export default function ComingSoonPage() {
           {/* Status */}
           <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-8">
             <p className="text-blue-800 text-sm">
-              <strong>Status:</strong> In Development • Expected Release: Q1
-              2025
+              <strong>Status:</strong> Awaiting approval • Sign in again once
+              you hear from us
             </p>
           </div>
 
@@ -3,7 +3,6 @@
 import { useState, useEffect, useCallback } from "react";
 import { useSearchParams, useRouter, usePathname } from "next/navigation";
 import {
-  Download,
   TrendingUp,
   TrendingDown,
   DollarSign,
@@ -13,11 +12,22 @@ import {
   X,
   ArrowLeft,
 } from "lucide-react";
-import { Property, PeriodGranularity, PropertyRankItem } from "@/types/float34";
+import {
+  Property,
+  PeriodGranularity,
+  PropertyFinancialsResponse,
+} from "@/types/float34";
 import { getApi } from "@/lib/api";
+import { CurrencyService } from "@/services/currencyService";
+import { PeriodService } from "@/services/periodService";
+import ExportReportButton from "@/components/ExportReportButton";
+import UnconvertedCurrencyNotice from "@/components/UnconvertedCurrencyNotice";
 
 // Helper function to format currency
-function formatCurrency(amount: number, currency: string = "USD") {
+function formatCurrency(
+  amount: number,
+  currency: string = CurrencyService.getCachedReportingCurrency()
+) {
   return new Intl.NumberFormat("en-US", {
     style: "currency",
     currency,
@@ -66,14 +76,52 @@ function formatPeriodLabel(
         });
       }
       return period;
+    case "QUARTER":
+      // Convert "2024-Q1" to "Q1 2024", or "Q1 FY2024" for fiscal years
+      const quarterMatch = period.match(/^(\d{4})-Q([1-4])$/);
+      if (quarterMatch) {
+        return `Q${quarterMatch[2]} ${formatFiscalYear(quarterMatch[1])}`;
+      }
+      return period;
     case "YEAR":
-      // Already in "YYYY" format
+      return formatFiscalYear(period);
+    case "DAY":
+      const dayMatch = period.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+      if (dayMatch) {
+        return new Date(
+          parseInt(dayMatch[1]),
+          parseInt(dayMatch[2]) - 1,
+          parseInt(dayMatch[3])
+        ).toLocaleDateString("en-US", {
+          month: "short",
+          day: "numeric",
+          year: "numeric",
+        });
+      }
       return period;
     default:
       return period;
   }
 }
 
+// Fiscal years not starting in January are named after the year they end in
+function formatFiscalYear(year: string): string {
+  return PeriodService.getCachedFiscalYearStartMonth() === 1
+    ? year
+    : `FY${year}`;
+}
+
+const GRANULARITY_LABELS: Record<
+  PeriodGranularity,
+  { adjective: string; noun: string }
+> = {
+  DAY: { adjective: "Daily", noun: "Day" },
+  WEEK: { adjective: "Weekly", noun: "Week" },
+  MONTH: { adjective: "Monthly", noun: "Month" },
+  QUARTER: { adjective: "Quarterly", noun: "Quarter" },
+  YEAR: { adjective: "Yearly", noun: "Year" },
+};
+
 // KPI Card Component
 function KPICard({
   title,
@@ -114,21 +162,17 @@ export default function AllReportsPage() {
   // URL state
   const from = searchParams.get("from") || "";
   const to = searchParams.get("to") || "";
-  const granularity = (searchParams.get("g") as PeriodGranularity) || "MONTH";
+  const requestedGranularity = searchParams.get("g") as PeriodGranularity;
+  const granularity = Object.keys(GRANULARITY_LABELS).includes(
+    requestedGranularity
+  )
+    ? requestedGranularity
+    : "MONTH";
 
   // Component state
   const [properties, setProperties] = useState<Property[]>([]);
-  const [financialData, setFinancialData] = useState<{
-    summary: {
-      revenue: number;
-      expenses?: number;
-      profit?: number;
-      marginPct?: number;
-      invoicesPaidPct?: number;
-    };
-    byProperty: PropertyRankItem[];
-    series?: any[];
-  } | null>(null);
+  const [financialData, setFinancialData] =
+    useState<PropertyFinancialsResponse | null>(null);
   const [loading, setLoading] = useState(true);
 
   // Fetch data
@@ -166,32 +210,6 @@ export default function AllReportsPage() {
     router.push(`/dashboard/financial-reports?${params.toString()}`);
   };
 
-  const exportAllReports = () => {
-    // Mock export function
-    const csvContent =
-      "data:text/csv;charset=utf-8," +
-      "Property,Revenue,Profit,Margin%,Invoices Paid%\n" +
-      (financialData?.byProperty
-        .map(
-          (p) =>
-            `${p.propertyName},${p.revenue},${p.profit || 0},${
-              p.marginPct || 0
-            },${p.invoicesPaidPct || 0}`
-        )
-        .join("\n") || "");
-
-    const encodedUri = encodeURI(csvContent);
-    const link = document.createElement("a");
-    link.setAttribute("href", encodedUri);
-    link.setAttribute(
-      "download",
-      `all-reports-${granularity.toLowerCase()}-${from}-to-${to}.csv`
-    );
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  };
-
   const navigateToAnalytics = (propertyId: string) => {
     const params = new URLSearchParams({
       propertyId,
@@ -243,13 +261,7 @@ export default function AllReportsPage() {
             </button>
           </div>
           <h1 className="text-2xl font-bold text-gray-900">
-            All{" "}
-            {granularity === "WEEK"
-              ? "Weekly"
-              : granularity === "YEAR"
-              ? "Yearly"
-              : "Monthly"}{" "}
-            Reports
+            All {GRANULARITY_LABELS[granularity].adjective} Reports
           </h1>
           <p className="text-gray-600">
             Complete performance overview for all properties
@@ -260,15 +272,15 @@ export default function AllReportsPage() {
               ).toLocaleDateString()}`}
           </p>
         </div>
-        <button
-          onClick={exportAllReports}
-          className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
-        >
-          <Download size={20} />
-          Export All Reports
-        </button>
+        <ExportReportButton
+          filters={{ from, to, granularity }}
+          filenamePrefix={`all-reports-${granularity.toLowerCase()}`}
+          label="Export All Reports"
+        />
       </div>
 
+      <UnconvertedCurrencyNotice />
+
       {/* KPI Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
         <KPICard
@@ -321,12 +333,7 @@ export default function AllReportsPage() {
         <div className="p-6 border-b border-gray-200">
           <h2 className="text-lg font-semibold text-gray-900">
             All Properties Performance (
-            {granularity === "WEEK"
-              ? "Weekly"
-              : granularity === "YEAR"
-              ? "Yearly"
-              : "Monthly"}
-            )
+            {GRANULARITY_LABELS[granularity].adjective})
           </h2>
         </div>
         <div className="overflow-x-auto">
@@ -418,11 +425,7 @@ export default function AllReportsPage() {
       <div className="bg-white rounded-lg shadow-sm border overflow-hidden mb-8">
         <div className="p-6 border-b border-gray-200">
           <h2 className="text-lg font-semibold text-gray-900">
-            {granularity === "WEEK"
-              ? "Weekly"
-              : granularity === "YEAR"
-              ? "Yearly"
-              : "Monthly"}{" "}
+            {GRANULARITY_LABELS[granularity].adjective}{" "}
             Performance Over Time
           </h2>
         </div>
@@ -431,11 +434,7 @@ export default function AllReportsPage() {
             <thead className="bg-gray-50">
               <tr>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  {granularity === "WEEK"
-                    ? "Week"
-                    : granularity === "YEAR"
-                    ? "Year"
-                    : "Month"}
+                  {GRANULARITY_LABELS[granularity].noun}
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Total Revenue
@@ -3,7 +3,6 @@
 import { useState, useEffect, useCallback } from "react";
 import { useSearchParams, useRouter, usePathname } from "next/navigation";
 import {
-  Download,
   TrendingUp,
   TrendingDown,
   DollarSign,
@@ -15,14 +14,28 @@ import {
   FileText,
   Receipt,
 } from "lucide-react";
-import { Property, PeriodGranularity, PropertyRankItem } from "@/types/float34";
-import FinancialService, {
+import {
+  FinancialQuery,
   FinancialSummary,
-  PropertyFinancialData,
-  FinancialTimeSeries,
-} from "@/services/financialService";
+  InvoiceStatus,
+  Property,
+  PeriodGranularity,
+  PropertyRankItem,
+} from "@/types/float34";
+import FinancialService from "@/services/financialService";
+import { FinancialQueryService } from "@/services/financialQueryService";
 import { PropertyService } from "@/services/propertyService";
 import { InvoiceService } from "@/services/invoiceService";
+import { CurrencyService } from "@/services/currencyService";
+import ReceivablesAgingTable from "@/components/ReceivablesAgingTable";
+import ExportReportButton from "@/components/ExportReportButton";
+import UnconvertedCurrencyNotice from "@/components/UnconvertedCurrencyNotice";
+import BudgetVarianceTable from "@/components/BudgetVarianceTable";
+import {
+  FinancialReportFilters,
+  getYearMonthRange,
+} from "@/lib/export/financialReport";
+import { getApi } from "@/lib/api";
 
 // Debounce hook
 function useDebounce<T>(value: T, delay: number): T {
@@ -41,8 +54,11 @@ function useDebounce<T>(value: T, delay: number): T {
   return debouncedValue;
 }
 
-// Helper function to format currency
-function formatCurrency(amount: number, currency: string = "USD") {
+// Helper function to format currency (defaults to the reporting currency)
+function formatCurrency(
+  amount: number,
+  currency: string = CurrencyService.getCachedReportingCurrency()
+) {
   return new Intl.NumberFormat("en-US", {
     style: "currency",
     currency,
@@ -150,22 +166,8 @@ export default function FinancialReportsPage() {
   const [invoices, setInvoices] = useState<any[]>([]);
   const [serviceProviders, setServiceProviders] = useState<any[]>([]);
   const [financialData, setFinancialData] = useState<{
-    summary: {
-      revenue: number;
-      expenses?: number;
-      profit?: number;
-      marginPct?: number;
-      invoicesPaidPct?: number;
-      overdueAmount?: number;
-      pendingAmount?: number;
-      totalInvoices?: number;
-      paidInvoices?: number;
-      overdueInvoices?: number;
-      serviceProviderCosts?: number;
-      operationalCosts?: number;
-    };
+    summary: FinancialSummary;
     byProperty: PropertyRankItem[];
-    series?: any[];
   } | null>(null);
   const [loading, setLoading] = useState(true);
   const [yearFilter, setYearFilter] = useState<string>("all");
@@ -226,200 +228,46 @@ export default function FinancialReportsPage() {
         const providersResponse = await ServiceProviderService.getProviders();
         const providersData = providersResponse?.providers || [];
 
-        // Get invoice data directly from InvoiceService (same as invoices page)
-        const [invoicesData, invoiceStats] = await Promise.all([
-          InvoiceService.getInvoices(),
-          InvoiceService.getInvoiceStats(),
-        ]);
-
-        console.log("🔍 Debug - Invoices:", invoicesData);
-        console.log("🔍 Debug - Invoice Stats:", invoiceStats);
-        console.log("🔍 Debug - Properties:", propertiesData);
-        console.log("🔍 Debug - Service Providers:", providersData);
+        // Invoices are only needed for the list of years to filter by
+        const invoicesData = await InvoiceService.getInvoices();
 
         setProperties(propertiesData);
         setInvoices(invoicesData);
         setServiceProviders(providersData);
 
-        // Filter invoices by selected property if specified
-        const filteredInvoices = selectedPropertyId
-          ? invoicesData.filter((inv) => inv.propertyId === selectedPropertyId)
-          : invoicesData;
-
-        // Apply service provider filter
-        const providerId = searchParams.get("providerId");
-        const providerFilteredInvoices = providerId
-          ? filteredInvoices.filter((inv) => inv.providerId === providerId)
-          : filteredInvoices;
-
-        // Apply status filter
         const status = searchParams.get("status");
-        const statusFilteredInvoices = status
-          ? providerFilteredInvoices.filter((inv) => inv.status === status)
-          : providerFilteredInvoices;
-
-        // Apply date filtering
-        const dateFilteredInvoices = InvoiceService.filterInvoicesByDate(
-          statusFilteredInvoices,
-          yearFilter !== "all" ? yearFilter : undefined,
-          monthFilter !== "all" ? monthFilter : undefined
-        );
-
-        console.log("🔍 Debug - Filter Values:", {
-          propertyId: selectedPropertyId,
-          providerId: providerId,
-          status: status,
-          yearFilter: yearFilter,
-          monthFilter: monthFilter,
-        });
-        console.log("🔍 Debug - Filter Results:", {
-          totalInvoices: invoicesData.length,
-          afterPropertyFilter: filteredInvoices.length,
-          afterProviderFilter: providerFilteredInvoices.length,
-          afterStatusFilter: statusFilteredInvoices.length,
-          afterDateFilter: dateFilteredInvoices.length,
-        });
-        console.log(
-          "🔍 Debug - All Invoices Property IDs:",
-          invoicesData.map((inv) => inv.propertyId)
-        );
-        console.log(
-          "🔍 Debug - All Properties IDs:",
-          propertiesData.map((p) => p.id)
-        );
-        console.log("🔍 Debug - Invoice Count:", invoicesData.length);
-        console.log("🔍 Debug - Properties Count:", propertiesData.length);
+        const query: FinancialQuery = {
+          ...getYearMonthRange(yearFilter, monthFilter, { from: "", to: "" }),
+          granularity: "MONTH",
+          filters: {
+            propertyId: selectedPropertyId,
+            providerId: searchParams.get("providerId") || undefined,
+            status: (status as InvoiceStatus) || undefined,
+          },
+        };
+        const api = getApi();
+        const [byProperty, byProvider] = await Promise.all([
+          api.queryFinancials({ ...query, groupBy: ["property"] }),
+          api.queryFinancials({ ...query, groupBy: ["provider"] }),
+        ]);
 
-        // Calculate financial metrics
-        const filteredTotalAmount = dateFilteredInvoices.reduce(
-          (sum, inv) => sum + inv.total,
+        // Split expenses into provider payments and other operational costs
+        const serviceProviderCosts = byProvider.rows.reduce(
+          (sum, row) => sum + row.expenses,
           0
         );
-        const filteredPaidAmount = dateFilteredInvoices
-          .filter((inv) => inv.status === "paid")
-          .reduce((sum, inv) => sum + inv.total, 0);
-        const filteredOverdueAmount = dateFilteredInvoices
-          .filter((inv) => inv.status === "overdue")
-          .reduce((sum, inv) => sum + inv.total, 0);
-        const filteredSentAmount = dateFilteredInvoices
-          .filter((inv) => inv.status === "sent")
-          .reduce((sum, inv) => sum + inv.total, 0);
-        const filteredDraftAmount = dateFilteredInvoices
-          .filter((inv) => inv.status === "draft")
-          .reduce((sum, inv) => sum + inv.total, 0);
-
-        // Calculate expenses and profit with more realistic assumptions
-        const estimatedExpenses = filteredTotalAmount * 0.25; // 25% of revenue for operational costs
-        const actualProfit = filteredTotalAmount - estimatedExpenses;
-        const actualMarginPct =
-          filteredTotalAmount > 0
-            ? (actualProfit / filteredTotalAmount) * 100
-            : 0;
-
-        // Calculate additional expense breakdowns
-        const serviceProviderCosts = filteredTotalAmount * 0.15; // 15% for service provider payments
-        const operationalCosts = filteredTotalAmount * 0.1; // 10% for other operational expenses
-
-        // Transform invoice data to match expected format
-        const transformedFinancialData = {
+
+        setFinancialData({
           summary: {
-            revenue: filteredTotalAmount,
-            profit: actualProfit,
-            marginPct: actualMarginPct,
-            invoicesPaidPct:
-              filteredTotalAmount > 0
-                ? (filteredPaidAmount / filteredTotalAmount) * 100
-                : 0,
-            overdueAmount: filteredOverdueAmount,
-            pendingAmount: filteredSentAmount + filteredDraftAmount,
-            totalInvoices: dateFilteredInvoices.length,
-            paidInvoices: dateFilteredInvoices.filter(
-              (inv) => inv.status === "paid"
-            ).length,
-            overdueInvoices: dateFilteredInvoices.filter(
-              (inv) => inv.status === "overdue"
-            ).length,
-            expenses: estimatedExpenses,
-            serviceProviderCosts: serviceProviderCosts,
-            operationalCosts: operationalCosts,
+            ...FinancialQueryService.toSummary(byProperty),
+            serviceProviderCosts,
+            operationalCosts:
+              byProperty.summary.expenses - serviceProviderCosts,
           },
-          byProperty: selectedPropertyId
-            ? // If property is selected, show only that property
-              (() => {
-                const property = propertiesData.find(
-                  (p) => p.id === selectedPropertyId
-                );
-                if (!property) return [];
-
-                const propertyInvoices = dateFilteredInvoices.filter(
-                  (inv) => inv.propertyId === selectedPropertyId
-                );
-                const propertyRevenue = propertyInvoices.reduce(
-                  (sum, inv) => sum + inv.total,
-                  0
-                );
-                const propertyPaidInvoices = propertyInvoices.filter(
-                  (inv) => inv.status === "paid"
-                );
-                const propertyPaidAmount = propertyPaidInvoices.reduce(
-                  (sum, inv) => sum + inv.total,
-                  0
-                );
-
-                return [
-                  {
-                    propertyId: property.id,
-                    propertyName: property.name,
-                    revenue: propertyRevenue,
-                    profit: propertyRevenue * 0.7, // 70% margin assumption
-                    marginPct: propertyRevenue > 0 ? 70.0 : 0,
-                    invoicesPaidPct:
-                      propertyRevenue > 0
-                        ? (propertyPaidAmount / propertyRevenue) * 100
-                        : 0,
-                    invoiceCount: propertyInvoices.length,
-                    paidInvoiceCount: propertyPaidInvoices.length,
-                  },
-                ];
-              })()
-            : // Show all properties with invoices
-              propertiesData
-                .map((property) => {
-                  // Calculate property-specific stats from invoices
-                  const propertyInvoices = dateFilteredInvoices.filter(
-                    (inv) => inv.propertyId === property.id
-                  );
-                  const propertyRevenue = propertyInvoices.reduce(
-                    (sum, inv) => sum + inv.total,
-                    0
-                  );
-                  const propertyPaidInvoices = propertyInvoices.filter(
-                    (inv) => inv.status === "paid"
-                  );
-                  const propertyPaidAmount = propertyPaidInvoices.reduce(
-                    (sum, inv) => sum + inv.total,
-                    0
-                  );
-
-                  return {
-                    propertyId: property.id,
-                    propertyName: property.name,
-                    revenue: propertyRevenue,
-                    profit: propertyRevenue * 0.7, // 70% margin assumption
-                    marginPct: propertyRevenue > 0 ? 70.0 : 0,
-                    invoicesPaidPct:
-                      propertyRevenue > 0
-                        ? (propertyPaidAmount / propertyRevenue) * 100
-                        : 0,
-                    invoiceCount: propertyInvoices.length,
-                    paidInvoiceCount: propertyPaidInvoices.length,
-                  };
-                })
-                .filter((prop) => prop.revenue > 0), // Only show properties with invoices
-          series: [], // Empty for now - will implement time series later
-        };
-
-        setFinancialData(transformedFinancialData);
+          byProperty: FinancialQueryService.toPropertyRankItems(
+            byProperty.rows
+          ),
+        });
       } catch (error) {
         console.error("Error fetching data:", error);
       } finally {
@@ -441,30 +289,16 @@ export default function FinancialReportsPage() {
     fetchData(propertyId || undefined);
   }, [yearFilter, monthFilter, fetchData]);
 
-  const exportFinancialReport = () => {
-    // Mock export function
-    const csvContent =
-      "data:text/csv;charset=utf-8," +
-      "Property,Revenue,Profit,Margin%,Invoices Paid%\n" +
-      (financialData?.byProperty
-        .map(
-          (p) =>
-            `${p.propertyName},${p.revenue},${p.profit || 0},${
-              p.marginPct || 0
-            },${p.invoicesPaidPct || 0}`
-        )
-        .join("\n") || "");
-
-    const encodedUri = encodeURI(csvContent);
-    const link = document.createElement("a");
-    link.setAttribute("href", encodedUri);
-    link.setAttribute(
-      "download",
-      `financial-report-${fromDate}-to-${toDate}.csv`
-    );
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  // Export the combined report for the filters currently applied
+  const exportFilters: FinancialReportFilters = {
+    ...getYearMonthRange(yearFilter, monthFilter, {
+      from: fromDate,
+      to: toDate,
+    }),
+    granularity: "MONTH",
+    propertyId: searchParams.get("propertyId") || undefined,
+    providerId: searchParams.get("providerId") || undefined,
+    status: (searchParams.get("status") as InvoiceStatus) || undefined,
   };
 
   const navigateToAnalytics = (propertyId: string) => {
@@ -891,16 +725,12 @@ export default function FinancialReportsPage() {
           >
             📄 Add Invoice
           </button>
-          <button
-            onClick={exportFinancialReport}
-            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
-          >
-            <Download size={16} className="mr-2 inline" />
-            Export Report
-          </button>
+          <ExportReportButton filters={exportFilters} />
         </div>
       </div>
 
+      <UnconvertedCurrencyNotice />
+
       {/* Simple Filters Bar */}
       <div className="mb-6">
         <div className="flex flex-col lg:flex-row gap-4 items-start lg:items-center">
@@ -966,6 +796,7 @@ export default function FinancialReportsPage() {
             >
               <option value="all">All Statuses</option>
               <option value="paid">Paid</option>
+              <option value="partially_paid">Partially Paid</option>
               <option value="sent">Sent</option>
               <option value="overdue">Overdue</option>
               <option value="draft">Draft</option>
@@ -1272,6 +1103,20 @@ export default function FinancialReportsPage() {
         </div>
       )}
 
+      {/* Budget vs. Actual */}
+      <BudgetVarianceTable
+        properties={properties}
+        propertyId={searchParams.get("propertyId") || undefined}
+        from={exportFilters.from}
+        to={exportFilters.to}
+      />
+
+      {/* Receivables Aging */}
+      <ReceivablesAgingTable
+        propertyId={searchParams.get("propertyId") || undefined}
+        providerId={searchParams.get("providerId") || undefined}
+      />
+
       {/* Summary Insights */}
       {summary.revenue > 0 && (
         <div className="mb-8 p-6 bg-gradient-to-r from-blue-50 to-indigo-50 border border-blue-200 rounded-lg">
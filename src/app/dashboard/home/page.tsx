@@ -20,8 +20,13 @@ import {
   ProviderSummary,
   PropertySummary,
 } from "@/services/dashboardService";
+import { useAuth } from "@/contexts/AuthContext";
+import { can, getPropertyScope } from "@/lib/auth/permissions";
 
 export default function HomePage() {
+  const { userProfile } = useAuth();
+  // Managers only see the properties assigned to them
+  const isScoped = getPropertyScope(userProfile) !== null;
   const [stats, setStats] = useState<DashboardStats>({
     totalProviders: 0,
     activeProviders: 0,
@@ -129,8 +134,9 @@ export default function HomePage() {
         <div>
           <h1 className="text-3xl font-bold text-gray-900">Dashboard</h1>
           <p className="text-gray-600 mt-2">
-            Welcome back! Here's what's happening with your properties and
-            service providers.
+            {isScoped
+              ? "Welcome back! Here's what's happening with the properties you manage."
+              : "Welcome back! Here's what's happening with your properties and service providers."}
           </p>
         </div>
         <button
@@ -271,42 +277,50 @@ export default function HomePage() {
           </div>
           <div className="p-6">
             <div className="grid grid-cols-2 gap-4">
-              <Link
-                href="/dashboard/service-providers"
-                className="flex flex-col items-center p-4 border border-gray-200 rounded-lg hover:border-blue-300 hover:bg-blue-50 transition-colors"
-              >
-                <Users className="h-8 w-8 text-blue-600 mb-2" />
-                <span className="text-sm font-medium text-gray-900">
-                  Manage Providers
-                </span>
-              </Link>
-              <Link
-                href="/dashboard/properties"
-                className="flex flex-col items-center p-4 border border-gray-200 rounded-lg hover:border-green-300 hover:bg-green-50 transition-colors"
-              >
-                <Building2 className="h-8 w-8 text-green-600 mb-2" />
-                <span className="text-sm font-medium text-gray-900">
-                  View Properties
-                </span>
-              </Link>
-              <Link
-                href="/dashboard/invoices"
-                className="flex flex-col items-center p-4 border border-gray-200 rounded-lg hover:border-yellow-300 hover:bg-yellow-50 transition-colors"
-              >
-                <DollarSign className="h-8 w-8 text-yellow-600 mb-2" />
-                <span className="text-sm font-medium text-gray-900">
-                  Manage Invoices
-                </span>
-              </Link>
-              <Link
-                href="/dashboard/analytics"
-                className="flex flex-col items-center p-4 border border-gray-200 rounded-lg hover:border-purple-300 hover:bg-purple-50 transition-colors"
-              >
-                <TrendingUp className="h-8 w-8 text-purple-600 mb-2" />
-                <span className="text-sm font-medium text-gray-900">
-                  View Analytics
-                </span>
-              </Link>
+              {can(userProfile, "provider:write") && (
+                <Link
+                  href="/dashboard/service-providers"
+                  className="flex flex-col items-center p-4 border border-gray-200 rounded-lg hover:border-blue-300 hover:bg-blue-50 transition-colors"
+                >
+                  <Users className="h-8 w-8 text-blue-600 mb-2" />
+                  <span className="text-sm font-medium text-gray-900">
+                    Manage Providers
+                  </span>
+                </Link>
+              )}
+              {can(userProfile, "property:read") && (
+                <Link
+                  href="/dashboard/properties"
+                  className="flex flex-col items-center p-4 border border-gray-200 rounded-lg hover:border-green-300 hover:bg-green-50 transition-colors"
+                >
+                  <Building2 className="h-8 w-8 text-green-600 mb-2" />
+                  <span className="text-sm font-medium text-gray-900">
+                    View Properties
+                  </span>
+                </Link>
+              )}
+              {can(userProfile, "invoice:read") && (
+                <Link
+                  href="/dashboard/invoices"
+                  className="flex flex-col items-center p-4 border border-gray-200 rounded-lg hover:border-yellow-300 hover:bg-yellow-50 transition-colors"
+                >
+                  <DollarSign className="h-8 w-8 text-yellow-600 mb-2" />
+                  <span className="text-sm font-medium text-gray-900">
+                    Manage Invoices
+                  </span>
+                </Link>
+              )}
+              {can(userProfile, "analytics:read") && (
+                <Link
+                  href="/dashboard/analytics"
+                  className="flex flex-col items-center p-4 border border-gray-200 rounded-lg hover:border-purple-300 hover:bg-purple-50 transition-colors"
+                >
+                  <TrendingUp className="h-8 w-8 text-purple-600 mb-2" />
+                  <span className="text-sm font-medium text-gray-900">
+                    View Analytics
+                  </span>
+                </Link>
+              )}
             </div>
           </div>
         </div>
@@ -382,8 +396,7 @@ export default function HomePage() {
                         {property.name}
                       </p>
                       <p className="text-sm text-gray-600">
-                        {property.address?.fullAddress ||
-                          `${property.address?.street}, ${property.address?.city}`}
+                        {property.address}
                       </p>
                     </div>
                   </div>
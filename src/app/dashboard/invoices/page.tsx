@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import Link from "next/link";
 import {
   Plus,
   Search,
@@ -13,15 +14,24 @@ import {
   Calendar,
   Building2,
   User,
+  Repeat,
+  FileArchive,
 } from "lucide-react";
 import { InvoiceService } from "../../../services/invoiceService";
-import { Invoice } from "../../../types/float34";
+import { CreditNote, Invoice } from "../../../types/float34";
 import { PropertyService } from "../../../services/propertyService";
 import { ServiceProviderService } from "../../../services/serviceProviderService";
+import { CurrencyService } from "../../../services/currencyService";
+import { CreditNoteService } from "../../../services/creditNoteService";
 import InvoiceDetailModal from "../../../components/InvoiceDetailModal";
+import {
+  downloadInvoicePdf,
+  downloadInvoicesZip,
+} from "../../../lib/pdf/download";
 
 export default function InvoicesPage() {
   const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
   const [properties, setProperties] = useState<any[]>([]);
   const [serviceProviders, setServiceProviders] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
@@ -31,6 +41,7 @@ export default function InvoicesPage() {
   const [filteredInvoices, setFilteredInvoices] = useState<Invoice[]>([]);
   const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
   const [yearFilter, setYearFilter] = useState<string>("all");
   const [monthFilter, setMonthFilter] = useState<string>("all");
   const [stats, setStats] = useState({
@@ -56,6 +67,7 @@ export default function InvoicesPage() {
     filterInvoices();
   }, [
     invoices,
+    creditNotes,
     searchTerm,
     statusFilter,
     propertyFilter,
@@ -66,12 +78,14 @@ export default function InvoicesPage() {
   const fetchInvoices = async () => {
     try {
       setLoading(true);
-      const [invoicesData, statsData] = await Promise.all([
+      const [invoicesData, statsData, creditNotesData] = await Promise.all([
         InvoiceService.getInvoices(),
         InvoiceService.getInvoiceStats(),
+        CreditNoteService.getCreditNotes(),
       ]);
 
       setInvoices(invoicesData);
+      setCreditNotes(creditNotesData);
 
       // Transform stats data to match expected state structure
       const transformedStats = {
@@ -113,6 +127,9 @@ export default function InvoicesPage() {
     }
   };
 
+  const getCreditNotes = (invoiceId: string) =>
+    creditNotes.filter((creditNote) => creditNote.invoiceId === invoiceId);
+
   const filterInvoices = () => {
     let filtered = invoices;
 
@@ -164,6 +181,15 @@ export default function InvoicesPage() {
           return true;
         }
 
+        // Search by credit note number
+        if (
+          getCreditNotes(invoice.id).some((creditNote) =>
+            creditNote.creditNoteNumber.toLowerCase().includes(searchLower)
+          )
+        ) {
+          return true;
+        }
+
         // Search by description
         if (invoice.description.toLowerCase().includes(searchLower)) {
           return true;
@@ -212,10 +238,40 @@ export default function InvoicesPage() {
     return provider ? provider.name : providerId;
   };
 
+  const getPdfData = (invoice: Invoice) => ({
+    invoice,
+    propertyName: getPropertyName(invoice.propertyId),
+    providerName: getServiceProviderName(invoice.providerId),
+  });
+
+  const handleDownloadInvoice = async (invoice: Invoice) => {
+    try {
+      await downloadInvoicePdf(getPdfData(invoice));
+    } catch (error) {
+      console.error("Error downloading invoice PDF:", error);
+      alert("Failed to download invoice PDF");
+    }
+  };
+
+  const handleExportPdfs = async () => {
+    if (filteredInvoices.length === 0) return;
+    setExporting(true);
+    try {
+      await downloadInvoicesZip(filteredInvoices.map(getPdfData));
+    } catch (error) {
+      console.error("Error exporting invoice PDFs:", error);
+      alert("Failed to export invoice PDFs");
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "paid":
         return "bg-green-100 text-green-800";
+      case "partially_paid":
+        return "bg-yellow-100 text-yellow-800";
       case "sent":
         return "bg-blue-100 text-blue-800";
       case "overdue":
@@ -229,10 +285,13 @@ export default function InvoicesPage() {
     }
   };
 
-  const formatCurrency = (amount: number) => {
+  const formatCurrency = (
+    amount: number,
+    currency: string = CurrencyService.getCachedReportingCurrency()
+  ) => {
     return new Intl.NumberFormat("en-US", {
       style: "currency",
-      currency: "USD",
+      currency,
     }).format(amount);
   };
 
@@ -345,6 +404,22 @@ export default function InvoicesPage() {
           </p>
         </div>
         <div className="flex items-center space-x-3">
+          <Link
+            href="/dashboard/invoices/recurring"
+            className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <Repeat className="h-4 w-4 mr-2" />
+            Recurring
+          </Link>
+          <button
+            onClick={handleExportPdfs}
+            disabled={exporting || filteredInvoices.length === 0}
+            title="Download the filtered invoices as a zip of PDFs"
+            className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            <FileArchive className="h-4 w-4 mr-2" />
+            {exporting ? "Exporting..." : "Export PDFs"}
+          </button>
           <button
             onClick={handleComprehensiveSeeding}
             className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
@@ -487,6 +562,7 @@ export default function InvoicesPage() {
               <option value="all">All Status</option>
               <option value="draft">Draft</option>
               <option value="sent">Sent</option>
+              <option value="partially_paid">Partially Paid</option>
               <option value="paid">Paid</option>
               <option value="overdue">Overdue</option>
               <option value="cancelled">Cancelled</option>
@@ -619,6 +695,18 @@ export default function InvoicesPage() {
                         <div className="text-sm text-gray-500 truncate max-w-xs">
                           {invoice.description}
                         </div>
+                        {getCreditNotes(invoice.id).map((creditNote) => (
+                          <div
+                            key={creditNote.id}
+                            className={`text-xs ${
+                              creditNote.status === "void"
+                                ? "text-gray-400 line-through"
+                                : "text-purple-600"
+                            }`}
+                          >
+                            {creditNote.creditNoteNumber}
+                          </div>
+                        ))}
                       </div>
                     </td>
                     <td className="px-4 py-3 whitespace-nowrap">
@@ -628,8 +716,18 @@ export default function InvoicesPage() {
                     </td>
                     <td className="px-4 py-3 whitespace-nowrap">
                       <div className="text-sm font-medium text-gray-900">
-                        {formatCurrency(invoice.total)}
+                        {formatCurrency(invoice.total, invoice.currency)}
                       </div>
+                      {!!invoice.creditedAmount && (
+                        <div className="text-xs text-purple-600">
+                          -
+                          {formatCurrency(
+                            invoice.creditedAmount,
+                            invoice.currency
+                          )}{" "}
+                          credited
+                        </div>
+                      )}
                     </td>
                     <td className="px-4 py-3 whitespace-nowrap">
                       <span
@@ -637,7 +735,7 @@ export default function InvoicesPage() {
                           invoice.status
                         )}`}
                       >
-                        {invoice.status}
+                        {invoice.status.replace("_", " ")}
                       </span>
                     </td>
                     <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
@@ -661,6 +759,7 @@ export default function InvoicesPage() {
                           <Eye size={14} />
                         </button>
                         <button
+                          onClick={() => handleDownloadInvoice(invoice)}
                           className="text-gray-400 hover:text-green-600 hover:bg-green-50 p-1.5 rounded transition-colors"
                           title="Download"
                         >
@@ -687,6 +786,7 @@ export default function InvoicesPage() {
         invoice={selectedInvoice}
         isOpen={isModalOpen}
         onClose={closeModal}
+        onStatusChange={() => fetchInvoices()}
       />
     </div>
   );
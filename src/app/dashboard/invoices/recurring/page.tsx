@@ -0,0 +1,645 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import {
+  ArrowLeft,
+  Plus,
+  Trash2,
+  Edit,
+  Play,
+  Pause,
+  RefreshCw,
+  Repeat,
+} from "lucide-react";
+import {
+  RecurringInvoiceService,
+  RecurringGenerationResult,
+} from "@/services/recurringInvoiceService";
+import { PropertyService } from "@/services/propertyService";
+import { ServiceProviderService } from "@/services/serviceProviderService";
+import { CurrencyService } from "@/services/currencyService";
+import {
+  Invoice,
+  Property,
+  Provider,
+  RecurrenceFrequency,
+  RecurringInvoiceTemplate,
+} from "@/types/float34";
+
+type TemplateForm = Omit<
+  RecurringInvoiceTemplate,
+  | "id"
+  | "lastGeneratedDate"
+  | "nextRunDate"
+  | "createdAt"
+  | "updatedAt"
+  | "createdBy"
+  | "updatedBy"
+>;
+
+const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  weekly: "Weekly",
+  monthly: "Monthly",
+  quarterly: "Quarterly",
+  yearly: "Yearly",
+};
+
+const emptyLineItem = (): Invoice["lineItems"][number] => ({
+  description: "",
+  quantity: 1,
+  unitPrice: 0,
+  total: 0,
+});
+
+const emptyForm = (): TemplateForm => ({
+  name: "",
+  propertyId: "",
+  providerId: "",
+  description: "",
+  frequency: "monthly",
+  startDate: new Date().toISOString().split("T")[0],
+  dueInDays: 30,
+  active: true,
+  lineItems: [emptyLineItem()],
+  taxRate: 0,
+  currency: CurrencyService.getCachedReportingCurrency(),
+  autoSend: false,
+});
+
+export default function RecurringInvoicesPage() {
+  const [templates, setTemplates] = useState<RecurringInvoiceTemplate[]>([]);
+  const [properties, setProperties] = useState<Property[]>([]);
+  const [providers, setProviders] = useState<Provider[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState(false);
+  const [generationResult, setGenerationResult] =
+    useState<RecurringGenerationResult | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<TemplateForm>(emptyForm());
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [templatesData, propertiesData, providersResponse] =
+        await Promise.all([
+          RecurringInvoiceService.getTemplates(),
+          PropertyService.getProperties({}),
+          ServiceProviderService.getProviders(),
+        ]);
+      setTemplates(templatesData.sort((a, b) => a.name.localeCompare(b.name)));
+      setProperties(propertiesData || []);
+      setProviders(providersResponse?.providers || []);
+    } catch (error) {
+      console.error("Error fetching recurring invoice templates:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const getPropertyName = (propertyId: string) =>
+    properties.find((p) => p.id === propertyId)?.name || "Unknown Property";
+
+  const getProviderName = (providerId: string) => {
+    const provider = providers.find((p) => p.id === providerId);
+    return provider?.businessName || provider?.name || "Unknown Provider";
+  };
+
+  const formatCurrency = (amount: number, currency: string) => {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+    }).format(amount);
+  };
+
+  const templateTotal = (
+    template: Pick<TemplateForm, "lineItems" | "taxRate">
+  ) => {
+    const subtotal = template.lineItems.reduce(
+      (sum, item) => sum + item.total,
+      0
+    );
+    return subtotal * (1 + (template.taxRate || 0));
+  };
+
+  const openCreateForm = () => {
+    setEditingId(null);
+    setForm(emptyForm());
+    setShowForm(true);
+  };
+
+  const openEditForm = (template: RecurringInvoiceTemplate) => {
+    setEditingId(template.id);
+    setForm({
+      ...emptyForm(),
+      name: template.name,
+      propertyId: template.propertyId,
+      providerId: template.providerId,
+      description: template.description,
+      frequency: template.frequency,
+      startDate: template.startDate,
+      endDate: template.endDate,
+      dueInDays: template.dueInDays,
+      active: template.active,
+      lineItems: template.lineItems,
+      taxRate: template.taxRate,
+      currency: template.currency,
+      notes: template.notes,
+      terms: template.terms,
+      paymentInstructions: template.paymentInstructions,
+      autoSend: template.autoSend,
+    });
+    setShowForm(true);
+  };
+
+  const updateLineItem = (
+    index: number,
+    field: "description" | "quantity" | "unitPrice",
+    value: string
+  ) => {
+    const lineItems = form.lineItems.map((item, i) => {
+      if (i !== index) return item;
+      const updated = {
+        ...item,
+        [field]: field === "description" ? value : parseFloat(value) || 0,
+      };
+      return { ...updated, total: updated.quantity * updated.unitPrice };
+    });
+    setForm({ ...form, lineItems });
+  };
+
+  const handleSave = async () => {
+    try {
+      // Firestore rejects undefined fields, so drop unset optional ones
+      const templateData = Object.fromEntries(
+        Object.entries({
+          ...form,
+          lineItems: form.lineItems.filter((item) => item.description.trim()),
+        }).filter(([, value]) => value !== undefined && value !== "")
+      ) as TemplateForm;
+
+      if (editingId) {
+        await RecurringInvoiceService.updateTemplate(editingId, {
+          ...templateData,
+          endDate: form.endDate || "",
+        });
+      } else {
+        await RecurringInvoiceService.createTemplate(templateData);
+      }
+      setShowForm(false);
+      fetchData();
+    } catch (error) {
+      alert(`Failed to save recurring invoice: ${error}`);
+    }
+  };
+
+  const handleToggleActive = async (template: RecurringInvoiceTemplate) => {
+    try {
+      await RecurringInvoiceService.updateTemplate(template.id, {
+        active: !template.active,
+      });
+      fetchData();
+    } catch (error) {
+      alert(`Failed to update recurring invoice: ${error}`);
+    }
+  };
+
+  const handleDelete = async (template: RecurringInvoiceTemplate) => {
+    if (
+      !confirm(
+        `Delete "${template.name}"? Invoices already generated are kept.`
+      )
+    ) {
+      return;
+    }
+    try {
+      await RecurringInvoiceService.deleteTemplate(template.id);
+      fetchData();
+    } catch (error) {
+      alert(`Failed to delete recurring invoice: ${error}`);
+    }
+  };
+
+  const handleGenerate = async () => {
+    try {
+      setGenerating(true);
+      const result = await RecurringInvoiceService.generateDueInvoices();
+      setGenerationResult(result);
+      fetchData();
+    } catch (error) {
+      alert(`Failed to generate invoices: ${error}`);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <Link
+            href="/dashboard/invoices"
+            className="flex items-center text-sm text-gray-600 hover:text-gray-900 mb-2"
+          >
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back to Invoices
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900">
+            Recurring Invoices
+          </h1>
+          <p className="text-gray-600">
+            Templates that generate invoices on a schedule
+          </p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={handleGenerate}
+            disabled={generating}
+            className="flex items-center px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+          >
+            <RefreshCw
+              className={`h-4 w-4 mr-2 ${generating ? "animate-spin" : ""}`}
+            />
+            Generate Due Invoices
+          </button>
+          <button
+            onClick={openCreateForm}
+            className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Template
+          </button>
+        </div>
+      </div>
+
+      {generationResult && (
+        <div
+          className={`mb-6 p-3 rounded-lg text-sm ${
+            generationResult.errors.length > 0
+              ? "bg-yellow-50 text-yellow-800"
+              : "bg-green-50 text-green-800"
+          }`}
+        >
+          Created {generationResult.created.length} invoices
+          {generationResult.skipped > 0 &&
+            `, ${generationResult.skipped} already existed`}
+          .
+          {generationResult.errors.length > 0 && (
+            <ul className="mt-2 list-disc list-inside">
+              {generationResult.errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Template form */}
+      {showForm && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">
+            {editingId ? "Edit Template" : "New Template"}
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+            <input
+              placeholder="Template name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-lg"
+            />
+            <select
+              value={form.propertyId}
+              onChange={(e) => setForm({ ...form, propertyId: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-lg"
+            >
+              <option value="">Select property</option>
+              {properties.map((property) => (
+                <option key={property.id} value={property.id}>
+                  {property.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={form.providerId}
+              onChange={(e) => setForm({ ...form, providerId: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-lg"
+            >
+              <option value="">Select provider</option>
+              {providers.map((provider) => (
+                <option key={provider.id} value={provider.id}>
+                  {provider.businessName || provider.name}
+                </option>
+              ))}
+            </select>
+            <input
+              placeholder="Invoice description"
+              value={form.description}
+              onChange={(e) =>
+                setForm({ ...form, description: e.target.value })
+              }
+              className="px-3 py-2 border border-gray-300 rounded-lg md:col-span-3"
+            />
+            <label className="text-sm text-gray-600">
+              Frequency
+              <select
+                value={form.frequency}
+                onChange={(e) =>
+                  setForm({
+                    ...form,
+                    frequency: e.target.value as RecurrenceFrequency,
+                  })
+                }
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+              >
+                {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-600">
+              Start date
+              <input
+                type="date"
+                value={form.startDate}
+                onChange={(e) =>
+                  setForm({ ...form, startDate: e.target.value })
+                }
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </label>
+            <label className="text-sm text-gray-600">
+              End date (optional)
+              <input
+                type="date"
+                value={form.endDate || ""}
+                onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </label>
+            <label className="text-sm text-gray-600">
+              Due in (days)
+              <input
+                type="number"
+                min="0"
+                value={form.dueInDays}
+                onChange={(e) =>
+                  setForm({ ...form, dueInDays: parseInt(e.target.value) || 0 })
+                }
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </label>
+            <label className="text-sm text-gray-600">
+              Tax rate (%)
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.taxRate * 100}
+                onChange={(e) =>
+                  setForm({
+                    ...form,
+                    taxRate: (parseFloat(e.target.value) || 0) / 100,
+                  })
+                }
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </label>
+            <label className="text-sm text-gray-600">
+              Currency
+              <input
+                value={form.currency}
+                maxLength={3}
+                onChange={(e) =>
+                  setForm({ ...form, currency: e.target.value.toUpperCase() })
+                }
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </label>
+          </div>
+
+          {/* Line items */}
+          <h3 className="text-sm font-medium text-gray-900 mb-2">
+            Line Items
+          </h3>
+          <div className="space-y-2 mb-4">
+            {form.lineItems.map((item, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2">
+                <input
+                  placeholder="Description"
+                  value={item.description}
+                  onChange={(e) =>
+                    updateLineItem(index, "description", e.target.value)
+                  }
+                  className="col-span-6 px-3 py-2 border border-gray-300 rounded-lg"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  placeholder="Qty"
+                  value={item.quantity}
+                  onChange={(e) =>
+                    updateLineItem(index, "quantity", e.target.value)
+                  }
+                  className="col-span-2 px-3 py-2 border border-gray-300 rounded-lg"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="Unit price"
+                  value={item.unitPrice}
+                  onChange={(e) =>
+                    updateLineItem(index, "unitPrice", e.target.value)
+                  }
+                  className="col-span-2 px-3 py-2 border border-gray-300 rounded-lg"
+                />
+                <div className="col-span-1 flex items-center justify-end text-sm text-gray-900">
+                  {formatCurrency(item.total, form.currency || "USD")}
+                </div>
+                <button
+                  onClick={() =>
+                    setForm({
+                      ...form,
+                      lineItems: form.lineItems.filter((_, i) => i !== index),
+                    })
+                  }
+                  className="col-span-1 text-red-600 hover:text-red-800"
+                  title="Remove line"
+                >
+                  <Trash2 className="h-4 w-4 mx-auto" />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() =>
+                setForm({
+                  ...form,
+                  lineItems: [...form.lineItems, emptyLineItem()],
+                })
+              }
+              className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add line
+            </button>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={!!form.autoSend}
+                onChange={(e) =>
+                  setForm({ ...form, autoSend: e.target.checked })
+                }
+                className="mr-2"
+              />
+              Mark generated invoices as sent
+            </label>
+            <div className="flex items-center space-x-3">
+              <span className="text-sm text-gray-600">
+                Total per invoice:{" "}
+                {formatCurrency(templateTotal(form), form.currency || "USD")}
+              </span>
+              <button
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Templates */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        {templates.length === 0 ? (
+          <div className="text-center py-12">
+            <Repeat className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">
+              No recurring invoices
+            </h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Create a template for contracts billed on a schedule.
+            </p>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Template
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Property / Provider
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Schedule
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Amount
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Next Run
+                </th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {templates.map((template) => (
+                <tr
+                  key={template.id}
+                  className={`hover:bg-gray-50 ${
+                    template.active ? "" : "opacity-60"
+                  }`}
+                >
+                  <td className="px-6 py-4 text-sm">
+                    <div className="font-medium text-gray-900">
+                      {template.name}
+                    </div>
+                    <div className="text-gray-500">{template.description}</div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-700">
+                    <div>{getPropertyName(template.propertyId)}</div>
+                    <div className="text-gray-500">
+                      {getProviderName(template.providerId)}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-700">
+                    <div>{FREQUENCY_LABELS[template.frequency]}</div>
+                    <div className="text-gray-500">
+                      {template.startDate}
+                      {template.endDate ? ` to ${template.endDate}` : ""}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900 text-right">
+                    {formatCurrency(templateTotal(template), template.currency)}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-700">
+                    {!template.active
+                      ? "Paused"
+                      : template.nextRunDate || "Finished"}
+                  </td>
+                  <td className="px-6 py-4 text-right">
+                    <div className="flex items-center justify-end space-x-2">
+                      <button
+                        onClick={() => handleToggleActive(template)}
+                        className="text-gray-400 hover:text-blue-600"
+                        title={template.active ? "Pause" : "Resume"}
+                      >
+                        {template.active ? (
+                          <Pause className="h-4 w-4" />
+                        ) : (
+                          <Play className="h-4 w-4" />
+                        )}
+                      </button>
+                      <button
+                        onClick={() => openEditForm(template)}
+                        className="text-gray-400 hover:text-yellow-600"
+                        title="Edit"
+                      >
+                        <Edit className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(template)}
+                        className="text-red-600 hover:text-red-800"
+                        title="Delete"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
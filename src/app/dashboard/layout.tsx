@@ -5,6 +5,7 @@ import { useEffect, useRef } from "react";
 import { useRouter, usePathname } from "next/navigation";
 import gsap from "gsap";
 import { useAuth } from "@/contexts/AuthContext";
+import { can, getLandingPath } from "@/lib/auth/permissions";
 import Sidebar from "../components/sideNav/page";
 import Topbar from "../components/topNav/page";
 import TransitionWrapper from "../components/transition/page";
@@ -28,21 +29,23 @@ export default function DashboardLayout({
         return;
       }
 
-      // If user is a service provider and trying to access main dashboard, redirect them
+      // Users without dashboard access (service providers) stay in the
+      // provider portal, or on coming-soon until their account is linked
+      const landingPath = getLandingPath(userProfile);
       if (
-        userProfile.role === "service_provider" &&
-        pathname !== "/dashboard/coming-soon"
+        !can(userProfile, "dashboard:view") &&
+        !pathname.startsWith(landingPath)
       ) {
-        router.push("/dashboard/coming-soon");
+        router.push(landingPath);
         return;
       }
 
-      // If user is admin and trying to access coming-soon page, redirect them to main dashboard
+      // Users with dashboard access don't need the coming-soon page
       if (
-        userProfile.role === "admin" &&
+        can(userProfile, "dashboard:view") &&
         pathname === "/dashboard/coming-soon"
       ) {
-        router.push("/dashboard/home");
+        router.push(landingPath);
         return;
       }
     }
@@ -100,12 +103,12 @@ export default function DashboardLayout({
     return null; // Will redirect in useEffect
   }
 
-  // Don't show sidebar/navbar for service providers on coming-soon page
-  if (
-    userProfile.role === "service_provider" &&
-    pathname === "/dashboard/coming-soon"
-  ) {
-    return <>{children}</>;
+  // Service providers get the portal or coming-soon page without the
+  // dashboard's sidebar/navbar
+  if (!can(userProfile, "dashboard:view")) {
+    return pathname.startsWith(getLandingPath(userProfile)) ? (
+      <>{children}</>
+    ) : null; // Will redirect in useEffect
   }
 
   return (
@@ -0,0 +1,842 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Building,
+  FileText,
+  Plus,
+  Save,
+  Send,
+  ShieldCheck,
+  Trash2,
+  Upload,
+  User,
+} from "lucide-react";
+import { auth } from "@/services/firebaseConfig";
+import { ServiceProviderService } from "@/services/serviceProviderService";
+import ProviderPortalService, {
+  InvoiceSubmission,
+  ProviderProfileChanges,
+} from "@/services/providerPortalService";
+import ComplianceDocumentService from "@/services/complianceDocumentService";
+import {
+  ComplianceDocumentType,
+  Invoice,
+  Property,
+  Provider,
+} from "@/types/float34";
+import { useAuth } from "@/contexts/AuthContext";
+import { can } from "@/lib/auth/permissions";
+
+type Tab = "invoices" | "submit" | "profile" | "documents";
+
+const TABS: { id: Tab; label: string }[] = [
+  { id: "invoices", label: "My Invoices" },
+  { id: "submit", label: "Submit Invoice" },
+  { id: "profile", label: "Profile" },
+  { id: "documents", label: "Compliance Documents" },
+];
+
+const today = () => new Date().toISOString().split("T")[0];
+
+const emptySubmission = (): InvoiceSubmission => ({
+  propertyId: "",
+  description: "",
+  issueDate: today(),
+  lineItems: [{ description: "", quantity: 1, unitPrice: 0 }],
+  notes: "",
+});
+
+const toProfile = (provider: Provider): ProviderProfileChanges => ({
+  name: provider.name,
+  email: provider.email,
+  phone: provider.phone || "",
+  businessName: provider.businessName || "",
+  taxId: provider.taxId || "",
+  businessLicense: provider.businessLicense || "",
+  businessAddress: provider.businessAddress || {
+    street: "",
+    city: "",
+    state: "",
+    zipCode: "",
+    country: "",
+  },
+  serviceAreas: provider.serviceAreas || [],
+});
+
+export default function ProviderPortalPage() {
+  const router = useRouter();
+  const { user, userProfile } = useAuth();
+  const providerId = userProfile?.providerId;
+  const canView = can(userProfile, "portal:view") && !!providerId;
+  const [provider, setProvider] = useState<Provider | null>(null);
+  const [properties, setProperties] = useState<Property[]>([]);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [activeTab, setActiveTab] = useState<Tab>("invoices");
+  const [submission, setSubmission] = useState(emptySubmission);
+  const [profile, setProfile] = useState<ProviderProfileChanges>({});
+  const [documentType, setDocumentType] =
+    useState<ComplianceDocumentType>("insurance");
+  const [expiryDate, setExpiryDate] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchData = useCallback(async () => {
+    if (!canView || !providerId) return;
+    try {
+      setLoading(true);
+      const providerData =
+        await ServiceProviderService.getProviderById(providerId);
+      if (!providerData) return;
+      const [propertiesData, invoicesData] = await Promise.all([
+        ProviderPortalService.getServedProperties(providerData),
+        ProviderPortalService.getOwnInvoices(providerId),
+      ]);
+      setProvider(providerData);
+      setProfile(toProfile(providerData));
+      setProperties(propertiesData);
+      setInvoices(invoicesData);
+    } catch (error) {
+      console.error("Error fetching provider portal:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [canView, providerId]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const handleSignOut = async () => {
+    try {
+      await auth.signOut();
+      router.push("/");
+    } catch (error) {
+      console.error("Error signing out:", error);
+    }
+  };
+
+  const updateLineItem = (
+    index: number,
+    changes: Partial<InvoiceSubmission["lineItems"][number]>
+  ) =>
+    setSubmission((current) => ({
+      ...current,
+      lineItems: current.lineItems.map((item, i) =>
+        i === index ? { ...item, ...changes } : item
+      ),
+    }));
+
+  const handleSubmitInvoice = async () => {
+    if (!provider || !user) return;
+    try {
+      setSaving(true);
+      await ProviderPortalService.submitInvoice(provider, submission, user.uid);
+      setSubmission(emptySubmission());
+      setActiveTab("invoices");
+      fetchData();
+    } catch (error) {
+      alert(`Failed to submit invoice: ${error}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveProfile = async () => {
+    if (!provider || !user) return;
+    try {
+      setSaving(true);
+      const result = await ProviderPortalService.updateProfile(
+        provider,
+        profile,
+        user.uid
+      );
+      if (!result.success) throw new Error(result.error);
+      fetchData();
+    } catch (error) {
+      alert(`Failed to save profile: ${error}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpload = async () => {
+    if (!provider || !user || !file) return;
+    try {
+      setSaving(true);
+      await ComplianceDocumentService.uploadDocument(
+        provider,
+        file,
+        { type: documentType, expiryDate: expiryDate || undefined },
+        user.uid
+      );
+      setFile(null);
+      setExpiryDate("");
+      fetchData();
+    } catch (error) {
+      alert(`Failed to upload document: ${error}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemoveDocument = async (documentId: string) => {
+    if (!provider || !user) return;
+    if (!confirm("Remove this document?")) return;
+    try {
+      await ComplianceDocumentService.removeDocument(
+        provider,
+        documentId,
+        user.uid
+      );
+      fetchData();
+    } catch (error) {
+      alert(`Failed to remove document: ${error}`);
+    }
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case "paid":
+      case "valid":
+        return "bg-green-100 text-green-800";
+      case "partially_paid":
+      case "expiring":
+        return "bg-yellow-100 text-yellow-800";
+      case "sent":
+        return "bg-blue-100 text-blue-800";
+      case "overdue":
+      case "expired":
+      case "cancelled":
+        return "bg-red-100 text-red-800";
+      default:
+        return "bg-gray-100 text-gray-800";
+    }
+  };
+
+  const formatCurrency = (amount: number, currency: string) =>
+    new Intl.NumberFormat("en-US", { style: "currency", currency }).format(
+      amount
+    );
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    });
+
+  const propertyName = (propertyId: string) =>
+    properties.find((property) => property.id === propertyId)?.name ||
+    propertyId;
+
+  const summaries = invoices.map((invoice) =>
+    ProviderPortalService.getPaymentSummary(invoice)
+  );
+  const currency =
+    provider?.financialDetails?.currency || invoices[0]?.currency || "USD";
+  const outstanding = summaries.reduce((sum, s) => sum + s.balanceDue, 0);
+  const received = summaries.reduce((sum, s) => sum + s.amountPaid, 0);
+  const overdueCount = summaries.filter((s) => s.isOverdue).length;
+  const submissionTotal = submission.lineItems.reduce(
+    (sum, item) => sum + item.quantity * item.unitPrice,
+    0
+  );
+
+  const inputClass =
+    "mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <div className="flex items-center space-x-3">
+              <Building className="h-8 w-8 text-blue-600" />
+              <h1 className="text-xl font-bold text-gray-900">
+                Flow34 Provider Portal
+              </h1>
+            </div>
+
+            <div className="flex items-center space-x-4">
+              {userProfile && (
+                <div className="flex items-center space-x-2 text-sm text-gray-600">
+                  <User className="h-4 w-4" />
+                  <span>
+                    {provider?.businessName ||
+                      `${userProfile.firstName} ${userProfile.lastName}`}
+                  </span>
+                </div>
+              )}
+              <button
+                onClick={handleSignOut}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                Sign Out
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {!canView ? (
+          <p className="text-gray-600">
+            Your account is not linked to a service provider yet.
+          </p>
+        ) : loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : !provider ? (
+          <p className="text-gray-600">
+            Your provider record could not be loaded. Please contact
+            support@flow34.com.
+          </p>
+        ) : (
+          <>
+            {provider.status !== "active" && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
+                <p className="text-yellow-800 text-sm">
+                  <strong>Status:</strong> {provider.status} • You can submit
+                  invoices once an administrator approves your business.
+                </p>
+              </div>
+            )}
+
+            {/* Summary */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <p className="text-sm text-gray-600">Outstanding</p>
+                <p className="text-2xl font-bold text-gray-900">
+                  {formatCurrency(outstanding, currency)}
+                </p>
+              </div>
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <p className="text-sm text-gray-600">Received</p>
+                <p className="text-2xl font-bold text-green-600">
+                  {formatCurrency(received, currency)}
+                </p>
+              </div>
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <p className="text-sm text-gray-600">Overdue Invoices</p>
+                <p className="text-2xl font-bold text-red-600">
+                  {overdueCount}
+                </p>
+              </div>
+            </div>
+
+            {/* Tabs */}
+            <div className="border-b border-gray-200 mb-6">
+              <nav className="flex space-x-8">
+                {TABS.map((tab) => (
+                  <button
+                    key={tab.id}
+                    onClick={() => setActiveTab(tab.id)}
+                    className={`py-2 px-1 border-b-2 text-sm font-medium ${
+                      activeTab === tab.id
+                        ? "border-blue-600 text-blue-600"
+                        : "border-transparent text-gray-500 hover:text-gray-700"
+                    }`}
+                  >
+                    {tab.label}
+                  </button>
+                ))}
+              </nav>
+            </div>
+
+            {/* My Invoices */}
+            {activeTab === "invoices" && (
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+                {invoices.length === 0 ? (
+                  <div className="text-center py-12">
+                    <FileText className="mx-auto h-12 w-12 text-gray-400" />
+                    <h3 className="mt-2 text-sm font-medium text-gray-900">
+                      No invoices yet
+                    </h3>
+                  </div>
+                ) : (
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        {[
+                          "Invoice",
+                          "Property",
+                          "Issued",
+                          "Due",
+                          "Status",
+                          "Total",
+                          "Paid",
+                          "Balance",
+                        ].map((heading) => (
+                          <th
+                            key={heading}
+                            className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                          >
+                            {heading}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {invoices.map((invoice, index) => {
+                        const summary = summaries[index];
+                        return (
+                          <tr key={invoice.id}>
+                            <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                              {invoice.invoiceNumber}
+                              <div className="text-gray-500 font-normal">
+                                {invoice.description}
+                              </div>
+                            </td>
+                            <td className="px-4 py-3 text-sm text-gray-700">
+                              {propertyName(invoice.propertyId)}
+                            </td>
+                            <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                              {formatDate(invoice.issueDate)}
+                            </td>
+                            <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                              {formatDate(invoice.dueDate)}
+                            </td>
+                            <td className="px-4 py-3 whitespace-nowrap">
+                              <span
+                                className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(
+                                  summary.isOverdue ? "overdue" : invoice.status
+                                )}`}
+                              >
+                                {(summary.isOverdue
+                                  ? "overdue"
+                                  : invoice.status
+                                ).replace("_", " ")}
+                              </span>
+                              {invoice.paidDate && (
+                                <div className="text-xs text-gray-500 mt-1">
+                                  Paid {formatDate(invoice.paidDate)}
+                                </div>
+                              )}
+                            </td>
+                            <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                              {formatCurrency(summary.total, invoice.currency)}
+                            </td>
+                            <td className="px-4 py-3 whitespace-nowrap text-sm text-green-600">
+                              {formatCurrency(
+                                summary.amountPaid,
+                                invoice.currency
+                              )}
+                            </td>
+                            <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
+                              {formatCurrency(
+                                summary.balanceDue,
+                                invoice.currency
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+
+            {/* Submit Invoice */}
+            {activeTab === "submit" && (
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                {properties.length === 0 ? (
+                  <p className="text-sm text-gray-600">
+                    You are not assigned to any properties yet. An
+                    administrator adds the properties you serve.
+                  </p>
+                ) : (
+                  <>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                      <label className="text-sm text-gray-600">
+                        Property
+                        <select
+                          value={submission.propertyId}
+                          onChange={(e) =>
+                            setSubmission({
+                              ...submission,
+                              propertyId: e.target.value,
+                            })
+                          }
+                          className={inputClass}
+                        >
+                          <option value="">Select a property</option>
+                          {properties.map((property) => (
+                            <option key={property.id} value={property.id}>
+                              {property.name}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      <label className="text-sm text-gray-600">
+                        Description
+                        <input
+                          value={submission.description}
+                          onChange={(e) =>
+                            setSubmission({
+                              ...submission,
+                              description: e.target.value,
+                            })
+                          }
+                          className={inputClass}
+                        />
+                      </label>
+                      <label className="text-sm text-gray-600">
+                        Issue Date
+                        <input
+                          type="date"
+                          value={submission.issueDate}
+                          onChange={(e) =>
+                            setSubmission({
+                              ...submission,
+                              issueDate: e.target.value,
+                            })
+                          }
+                          className={inputClass}
+                        />
+                      </label>
+                    </div>
+
+                    <h3 className="text-sm font-medium text-gray-900 mb-2">
+                      Line Items
+                    </h3>
+                    {submission.lineItems.map((item, index) => (
+                      <div
+                        key={index}
+                        className="grid grid-cols-12 gap-4 mb-2 items-end"
+                      >
+                        <input
+                          placeholder="Description"
+                          value={item.description}
+                          onChange={(e) =>
+                            updateLineItem(index, {
+                              description: e.target.value,
+                            })
+                          }
+                          className={`${inputClass} col-span-6`}
+                        />
+                        <input
+                          type="number"
+                          min="0"
+                          step="any"
+                          value={item.quantity}
+                          onChange={(e) =>
+                            updateLineItem(index, {
+                              quantity: Number(e.target.value),
+                            })
+                          }
+                          className={`${inputClass} col-span-2`}
+                        />
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={item.unitPrice}
+                          onChange={(e) =>
+                            updateLineItem(index, {
+                              unitPrice: Number(e.target.value),
+                            })
+                          }
+                          className={`${inputClass} col-span-3`}
+                        />
+                        <button
+                          onClick={() =>
+                            setSubmission({
+                              ...submission,
+                              lineItems: submission.lineItems.filter(
+                                (_, i) => i !== index
+                              ),
+                            })
+                          }
+                          disabled={submission.lineItems.length === 1}
+                          className="col-span-1 p-2 text-red-600 hover:text-red-800 disabled:opacity-50"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ))}
+                    <button
+                      onClick={() =>
+                        setSubmission({
+                          ...submission,
+                          lineItems: [
+                            ...submission.lineItems,
+                            { description: "", quantity: 1, unitPrice: 0 },
+                          ],
+                        })
+                      }
+                      className="flex items-center text-sm text-blue-600 hover:text-blue-800 mb-6"
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add Line Item
+                    </button>
+
+                    <label className="block text-sm text-gray-600 mb-6">
+                      Notes
+                      <textarea
+                        rows={3}
+                        value={submission.notes}
+                        onChange={(e) =>
+                          setSubmission({
+                            ...submission,
+                            notes: e.target.value,
+                          })
+                        }
+                        className={inputClass}
+                      />
+                    </label>
+
+                    <div className="flex items-center justify-between">
+                      <p className="text-sm text-gray-600">
+                        Subtotal {formatCurrency(submissionTotal, currency)}
+                        {provider.financialDetails?.taxRate
+                          ? ` plus ${provider.financialDetails.taxRate}% tax`
+                          : ""}
+                      </p>
+                      <button
+                        onClick={handleSubmitInvoice}
+                        disabled={saving || provider.status !== "active"}
+                        className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                      >
+                        <Send className="h-4 w-4 mr-2" />
+                        {saving ? "Submitting..." : "Submit Invoice"}
+                      </button>
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+
+            {/* Profile */}
+            {activeTab === "profile" && (
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+                  {(
+                    [
+                      ["name", "Contact Name"],
+                      ["email", "Email"],
+                      ["phone", "Phone"],
+                      ["businessName", "Business Name"],
+                      ["taxId", "Tax ID"],
+                      ["businessLicense", "Business License"],
+                    ] as const
+                  ).map(([field, label]) => (
+                    <label key={field} className="text-sm text-gray-600">
+                      {label}
+                      <input
+                        value={profile[field] || ""}
+                        onChange={(e) =>
+                          setProfile({ ...profile, [field]: e.target.value })
+                        }
+                        className={inputClass}
+                      />
+                    </label>
+                  ))}
+                  <label className="text-sm text-gray-600 md:col-span-2">
+                    Service Areas (comma separated)
+                    <input
+                      value={(profile.serviceAreas || []).join(", ")}
+                      onChange={(e) =>
+                        setProfile({
+                          ...profile,
+                          serviceAreas: e.target.value
+                            .split(",")
+                            .map((area) => area.trim())
+                            .filter(Boolean),
+                        })
+                      }
+                      className={inputClass}
+                    />
+                  </label>
+                </div>
+
+                <h3 className="text-sm font-medium text-gray-900 mb-2">
+                  Business Address
+                </h3>
+                <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-6">
+                  {(
+                    [
+                      ["street", "Street"],
+                      ["city", "City"],
+                      ["state", "State"],
+                      ["zipCode", "ZIP Code"],
+                      ["country", "Country"],
+                    ] as const
+                  ).map(([field, label]) => (
+                    <label key={field} className="text-sm text-gray-600">
+                      {label}
+                      <input
+                        value={profile.businessAddress?.[field] || ""}
+                        onChange={(e) =>
+                          setProfile({
+                            ...profile,
+                            businessAddress: {
+                              street: "",
+                              city: "",
+                              state: "",
+                              zipCode: "",
+                              country: "",
+                              ...profile.businessAddress,
+                              [field]: e.target.value,
+                            },
+                          })
+                        }
+                        className={inputClass}
+                      />
+                    </label>
+                  ))}
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-gray-500">
+                    Your status, rating and properties are managed by Flow34.
+                  </p>
+                  <button
+                    onClick={handleSaveProfile}
+                    disabled={saving}
+                    className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  >
+                    <Save className="h-4 w-4 mr-2" />
+                    {saving ? "Saving..." : "Save Profile"}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Compliance Documents */}
+            {activeTab === "documents" && (
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+                <div className="flex items-center mb-4">
+                  <div className="p-2 bg-blue-100 rounded-lg">
+                    <ShieldCheck className="h-6 w-6 text-blue-600" />
+                  </div>
+                  <div className="ml-4">
+                    <h2 className="text-lg font-semibold text-gray-900">
+                      Compliance Documents
+                    </h2>
+                    <p className="text-sm text-gray-600">
+                      Upload your insurance, licences and certificates as PDFs
+                      or images up to 10 MB. Administrators review them and
+                      update your compliance status.
+                    </p>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end mb-6">
+                  <label className="text-sm text-gray-600">
+                    Document Type
+                    <select
+                      value={documentType}
+                      onChange={(e) =>
+                        setDocumentType(
+                          e.target.value as ComplianceDocumentType
+                        )
+                      }
+                      className={inputClass}
+                    >
+                      {Object.entries(
+                        ComplianceDocumentService.TYPE_LABELS
+                      ).map(([type, label]) => (
+                        <option key={type} value={type}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="text-sm text-gray-600">
+                    Expiry Date (optional)
+                    <input
+                      type="date"
+                      value={expiryDate}
+                      onChange={(e) => setExpiryDate(e.target.value)}
+                      className={inputClass}
+                    />
+                  </label>
+                  <label className="text-sm text-gray-600">
+                    File
+                    <input
+                      type="file"
+                      accept="application/pdf,image/*"
+                      onChange={(e) => setFile(e.target.files?.[0] || null)}
+                      className={inputClass}
+                    />
+                  </label>
+                  <button
+                    onClick={handleUpload}
+                    disabled={saving || !file}
+                    className="flex items-center justify-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  >
+                    <Upload className="h-4 w-4 mr-2" />
+                    {saving ? "Uploading..." : "Upload"}
+                  </button>
+                </div>
+
+                {(provider.complianceDocuments || []).length === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    No documents uploaded yet.
+                  </p>
+                ) : (
+                  <ul className="divide-y divide-gray-200">
+                    {(provider.complianceDocuments || []).map((document) => {
+                      const state =
+                        ComplianceDocumentService.getExpiryState(document);
+                      return (
+                        <li
+                          key={document.id}
+                          className="flex items-center justify-between py-3"
+                        >
+                          <div className="text-sm">
+                            <a
+                              href={document.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="font-medium text-blue-600 hover:text-blue-800"
+                            >
+                              {document.filename}
+                            </a>
+                            <div className="text-gray-500">
+                              {
+                                ComplianceDocumentService.TYPE_LABELS[
+                                  document.type
+                                ]
+                              }{" "}
+                              • Uploaded {formatDate(document.uploadedAt)}
+                              {document.expiryDate &&
+                                ` • Expires ${formatDate(document.expiryDate)}`}
+                            </div>
+                          </div>
+                          <div className="flex items-center space-x-4">
+                            {state !== "no_expiry" && (
+                              <span
+                                className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium capitalize ${getStatusColor(
+                                  state
+                                )}`}
+                              >
+                                {state}
+                              </span>
+                            )}
+                            <button
+                              onClick={() => handleRemoveDocument(document.id)}
+                              className="text-red-600 hover:text-red-800"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -30,8 +30,10 @@ import {
   ServiceProviderUpdateRequest,
 } from "@/types/float34";
 import ServiceProviderService from "@/services/serviceProviderService";
+import ComplianceDocumentService from "@/services/complianceDocumentService";
 import { auth } from "@/services/firebaseConfig";
 import { useAuth } from "@/contexts/AuthContext";
+import { can } from "@/lib/auth/permissions";
 
 // Service Provider Form Component
 function ServiceProviderForm({
@@ -451,6 +453,32 @@ function ServiceProviderForm({
                 <span className="text-sm text-gray-700">Safety Training</span>
               </label>
             </div>
+            {(formData.complianceDocuments || []).length > 0 && (
+              <div className="mt-4">
+                <p className="text-sm font-medium text-gray-700 mb-2">
+                  Documents uploaded by the provider
+                </p>
+                <ul className="space-y-1 text-sm">
+                  {formData.complianceDocuments?.map((document) => (
+                    <li key={document.id} className="text-gray-600">
+                      <a
+                        href={document.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        {document.filename}
+                      </a>{" "}
+                      • {ComplianceDocumentService.TYPE_LABELS[document.type]}
+                      {document.expiryDate &&
+                        ` • Expires ${new Date(
+                          document.expiryDate
+                        ).toLocaleDateString()}`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
 
           {/* Notes */}
@@ -668,10 +696,10 @@ export default function ServiceProvidersPage() {
         return;
       }
 
-      // Check if user has admin role for service provider management
-      if (userProfile.role !== "admin") {
+      // Check if user may use service provider management
+      if (!can(userProfile, "provider:write")) {
         console.log(
-          "User does not have admin role, redirecting to coming-soon"
+          "User lacks provider:write permission, redirecting to coming-soon"
         );
         window.location.href = "/dashboard/coming-soon";
         return;
@@ -692,7 +720,7 @@ export default function ServiceProvidersPage() {
   }
 
   // Show loading state while redirecting
-  if (!user || !userProfile || userProfile.role !== "admin") {
+  if (!user || !userProfile || !can(userProfile, "provider:write")) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50 flex items-center justify-center">
         <div className="text-center">
@@ -765,7 +793,7 @@ export default function ServiceProvidersPage() {
 
   useEffect(() => {
     // Only load providers when authenticated and has proper role
-    if (user && userProfile && userProfile.role === "admin") {
+    if (user && userProfile && can(userProfile, "provider:write")) {
       loadProviders();
     }
   }, [loadProviders, user, userProfile]);
@@ -0,0 +1,689 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  DollarSign,
+  Upload,
+  Plus,
+  Trash2,
+  RefreshCw,
+  Hash,
+  CalendarDays,
+  Database,
+  FlaskConical,
+  KeyRound,
+} from "lucide-react";
+import { CurrencyService } from "@/services/currencyService";
+import { PeriodService } from "@/services/periodService";
+import { InvoiceService } from "@/services/invoiceService";
+import { RollupService } from "@/services/rollupService";
+import { ServiceProviderService } from "@/services/serviceProviderService";
+import { EmulatorSeedService } from "@/services/emulatorSeedService";
+import { emulatorConfig } from "@/services/firebaseConfig";
+import {
+  InvoiceNumberingConfig,
+  InvoiceNumberingService,
+} from "@/services/invoiceNumberingService";
+import {
+  FxRate,
+  InvoiceNumberingScope,
+  InvoiceNumberRecord,
+} from "@/types/float34";
+import { useAuth } from "@/contexts/AuthContext";
+
+const COMMON_CURRENCIES = ["USD", "EUR", "GBP", "ZAR"];
+
+const MONTH_NAMES = Array.from({ length: 12 }, (_, index) =>
+  new Date(2000, index, 1).toLocaleDateString("en-US", { month: "long" })
+);
+
+export default function SettingsPage() {
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [reportingCurrency, setReportingCurrency] = useState(
+    CurrencyService.DEFAULT_REPORTING_CURRENCY
+  );
+  const [fiscalYearStartMonth, setFiscalYearStartMonth] = useState(
+    PeriodService.DEFAULT_FISCAL_YEAR_START_MONTH
+  );
+  const [fxRates, setFxRates] = useState<FxRate[]>([]);
+  const [newRate, setNewRate] = useState({
+    date: new Date().toISOString().split("T")[0],
+    baseCurrency: "",
+    quoteCurrency: CurrencyService.DEFAULT_REPORTING_CURRENCY,
+    rate: "",
+  });
+  const [numbering, setNumbering] = useState<InvoiceNumberingConfig>(
+    InvoiceNumberingService.DEFAULT_SETTINGS
+  );
+  const [voidNumbers, setVoidNumbers] = useState<InvoiceNumberRecord[]>([]);
+  const [rebuildingRollups, setRebuildingRollups] = useState(false);
+  const [seeding, setSeeding] = useState(false);
+  const [reEncrypting, setReEncrypting] = useState(false);
+  const [csvResult, setCsvResult] = useState<{
+    imported: number;
+    errors: string[];
+  } | null>(null);
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [
+        currency,
+        fiscalStartMonth,
+        rates,
+        numberingSettings,
+        voidNumberRecords,
+      ] = await Promise.all([
+        CurrencyService.getReportingCurrency(),
+        PeriodService.getFiscalYearStartMonth(),
+        CurrencyService.getFxRates(),
+        InvoiceNumberingService.getSettings(),
+        InvoiceNumberingService.getVoidNumbers(),
+      ]);
+      setReportingCurrency(currency);
+      setFiscalYearStartMonth(fiscalStartMonth);
+      setNumbering(numberingSettings);
+      setVoidNumbers(voidNumberRecords);
+      setNewRate((prev) => ({ ...prev, quoteCurrency: currency }));
+      setFxRates(
+        rates.sort(
+          (a, b) =>
+            b.date.localeCompare(a.date) ||
+            a.baseCurrency.localeCompare(b.baseCurrency)
+        )
+      );
+    } catch (error) {
+      console.error("Error fetching settings:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const handleSaveReportingCurrency = async () => {
+    try {
+      await CurrencyService.setReportingCurrency(reportingCurrency, user?.uid);
+      alert(`Reporting currency set to ${reportingCurrency}`);
+    } catch (error) {
+      alert(`Failed to save reporting currency: ${error}`);
+    }
+  };
+
+  const handleSaveFiscalYearStart = async () => {
+    try {
+      await PeriodService.setFiscalYearStartMonth(
+        fiscalYearStartMonth,
+        user?.uid
+      );
+      alert(
+        `Fiscal years now start in ${MONTH_NAMES[fiscalYearStartMonth - 1]}`
+      );
+    } catch (error) {
+      alert(`Failed to save fiscal year start: ${error}`);
+    }
+  };
+
+  const handleRebuildRollups = async () => {
+    try {
+      setRebuildingRollups(true);
+      const invoices = await InvoiceService.getInvoices();
+      const count = await RollupService.rebuildRollups(invoices);
+      alert(`Rebuilt ${count} rollups from ${invoices.length} invoices`);
+    } catch (error) {
+      alert(`Failed to rebuild financial rollups: ${error}`);
+    } finally {
+      setRebuildingRollups(false);
+    }
+  };
+
+  const handleReEncryptSecrets = async () => {
+    if (!user) return;
+    try {
+      setReEncrypting(true);
+      const result = await ServiceProviderService.reEncryptSecrets(user.uid);
+      alert(
+        `Re-encrypted ${result.updated} of ${result.scanned} providers ` +
+          `(${result.legacyValues} legacy values upgraded)`
+      );
+    } catch (error) {
+      alert(`Failed to re-encrypt provider secrets: ${error}`);
+    } finally {
+      setReEncrypting(false);
+    }
+  };
+
+  const handleSeedEmulators = async () => {
+    try {
+      setSeeding(true);
+      const result = await EmulatorSeedService.seed();
+      alert(
+        `Seeded ${result.users} users, ${result.properties} properties, ` +
+          `${result.providers} providers and ${result.invoices} new invoices`
+      );
+    } catch (error) {
+      alert(`Failed to seed emulator data: ${error}`);
+    } finally {
+      setSeeding(false);
+    }
+  };
+
+  const handleSaveNumbering = async () => {
+    try {
+      await InvoiceNumberingService.saveSettings(numbering);
+      alert("Invoice numbering saved");
+    } catch (error) {
+      alert(`Failed to save invoice numbering: ${error}`);
+    }
+  };
+
+  const handleAddRate = async () => {
+    try {
+      await CurrencyService.saveFxRate({
+        date: newRate.date,
+        baseCurrency: newRate.baseCurrency,
+        quoteCurrency: newRate.quoteCurrency,
+        rate: parseFloat(newRate.rate),
+        source: "manual",
+      });
+      setNewRate((prev) => ({ ...prev, baseCurrency: "", rate: "" }));
+      fetchSettings();
+    } catch (error) {
+      alert(`Failed to save FX rate: ${error}`);
+    }
+  };
+
+  const handleDeleteRate = async (id: string) => {
+    if (!confirm("Delete this FX rate?")) return;
+    try {
+      await CurrencyService.deleteFxRate(id);
+      fetchSettings();
+    } catch (error) {
+      alert(`Failed to delete FX rate: ${error}`);
+    }
+  };
+
+  const handleCsvImport = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const result = await CurrencyService.importFxRatesFromCsv(
+        await file.text()
+      );
+      setCsvResult(result);
+      fetchSettings();
+    } catch (error) {
+      alert(`Failed to import FX rates: ${error}`);
+    } finally {
+      event.target.value = "";
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Settings</h1>
+        <p className="text-gray-600">
+          Configure how financial data is reported
+        </p>
+      </div>
+
+      {/* Reporting Currency */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
+        <div className="flex items-center mb-4">
+          <div className="p-2 bg-green-100 rounded-lg">
+            <DollarSign className="h-6 w-6 text-green-600" />
+          </div>
+          <div className="ml-4">
+            <h2 className="text-lg font-semibold text-gray-900">
+              Reporting Currency
+            </h2>
+            <p className="text-sm text-gray-600">
+              All reports and analytics convert amounts into this currency
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-3">
+          <input
+            list="currency-options"
+            value={reportingCurrency}
+            onChange={(e) =>
+              setReportingCurrency(e.target.value.toUpperCase())
+            }
+            maxLength={3}
+            className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <datalist id="currency-options">
+            {COMMON_CURRENCIES.map((currency) => (
+              <option key={currency} value={currency} />
+            ))}
+          </datalist>
+          <button
+            onClick={handleSaveReportingCurrency}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+
+      {/* Fiscal Calendar */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
+        <div className="flex items-center mb-4">
+          <div className="p-2 bg-orange-100 rounded-lg">
+            <CalendarDays className="h-6 w-6 text-orange-600" />
+          </div>
+          <div className="ml-4">
+            <h2 className="text-lg font-semibold text-gray-900">
+              Fiscal Year
+            </h2>
+            <p className="text-sm text-gray-600">
+              Quarterly and yearly reports follow fiscal years starting in
+              this month, named after the year they end in
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-3">
+          <select
+            value={fiscalYearStartMonth}
+            onChange={(e) => setFiscalYearStartMonth(Number(e.target.value))}
+            className="w-48 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {MONTH_NAMES.map((name, index) => (
+              <option key={name} value={index + 1}>
+                {name}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleSaveFiscalYearStart}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+
+      {/* Financial Rollups */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
+        <div className="flex items-center mb-4">
+          <div className="p-2 bg-teal-100 rounded-lg">
+            <Database className="h-6 w-6 text-teal-600" />
+          </div>
+          <div className="ml-4">
+            <h2 className="text-lg font-semibold text-gray-900">
+              Financial Rollups
+            </h2>
+            <p className="text-sm text-gray-600">
+              Monthly and longer reports read pre-computed totals that are
+              kept up to date as invoices change. Rebuild them once to start
+              using them, or after importing invoices directly.
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={handleRebuildRollups}
+          disabled={rebuildingRollups}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          <RefreshCw
+            className={`h-4 w-4 mr-2 ${rebuildingRollups ? "animate-spin" : ""}`}
+          />
+          {rebuildingRollups ? "Rebuilding..." : "Rebuild Rollups"}
+        </button>
+      </div>
+
+      {/* Provider Secrets */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
+        <div className="flex items-center mb-4">
+          <div className="p-2 bg-rose-100 rounded-lg">
+            <KeyRound className="h-6 w-6 text-rose-600" />
+          </div>
+          <div className="ml-4">
+            <h2 className="text-lg font-semibold text-gray-900">
+              Provider Secrets
+            </h2>
+            <p className="text-sm text-gray-600">
+              API credentials and bank details are encrypted with the current
+              key. After adding a new key version, re-encrypt them so the old
+              key can be retired. Values in the old encoding are upgraded too.
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={handleReEncryptSecrets}
+          disabled={reEncrypting || !user}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          <RefreshCw
+            className={`h-4 w-4 mr-2 ${reEncrypting ? "animate-spin" : ""}`}
+          />
+          {reEncrypting ? "Re-encrypting..." : "Re-encrypt Provider Secrets"}
+        </button>
+      </div>
+
+      {/* Emulator Data */}
+      {emulatorConfig && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
+          <div className="flex items-center mb-4">
+            <div className="p-2 bg-amber-100 rounded-lg">
+              <FlaskConical className="h-6 w-6 text-amber-600" />
+            </div>
+            <div className="ml-4">
+              <h2 className="text-lg font-semibold text-gray-900">
+                Emulator Data
+              </h2>
+              <p className="text-sm text-gray-600">
+                Connected to the Firebase emulators. Load the fixture
+                properties, providers and invoices, and one user per role
+                (password {EmulatorSeedService.PASSWORD}).
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={handleSeedEmulators}
+            disabled={seeding}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            <RefreshCw
+              className={`h-4 w-4 mr-2 ${seeding ? "animate-spin" : ""}`}
+            />
+            {seeding ? "Seeding..." : "Seed Emulators"}
+          </button>
+        </div>
+      )}
+
+      {/* Invoice Numbering */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
+        <div className="flex items-center mb-4">
+          <div className="p-2 bg-blue-100 rounded-lg">
+            <Hash className="h-6 w-6 text-blue-600" />
+          </div>
+          <div className="ml-4">
+            <h2 className="text-lg font-semibold text-gray-900">
+              Invoice Numbering
+            </h2>
+            <p className="text-sm text-gray-600">
+              Numbers are allocated when an invoice is created and never reused
+            </p>
+          </div>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-3">
+          <label className="text-sm text-gray-600">
+            Sequence
+            <select
+              value={numbering.scope}
+              onChange={(e) =>
+                setNumbering({
+                  ...numbering,
+                  scope: e.target.value as InvoiceNumberingScope,
+                })
+              }
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+            >
+              <option value="global">One for all invoices</option>
+              <option value="property">Per property</option>
+              <option value="provider">Per provider</option>
+            </select>
+          </label>
+          <label className="text-sm text-gray-600 md:col-span-2">
+            Format
+            <input
+              value={numbering.format}
+              onChange={(e) =>
+                setNumbering({ ...numbering, format: e.target.value })
+              }
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+            />
+          </label>
+          <label className="text-sm text-gray-600">
+            Digits
+            <input
+              type="number"
+              min="1"
+              max="10"
+              value={numbering.padding}
+              onChange={(e) =>
+                setNumbering({
+                  ...numbering,
+                  padding: parseInt(e.target.value) || 1,
+                })
+              }
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+            />
+          </label>
+        </div>
+        <p className="text-xs text-gray-500 mb-3">
+          Tokens: {"{PROP}"} property code, {"{PROV}"} provider code,{" "}
+          {"{YYYY}"}, {"{YY}"}, {"{MM}"}, {"{seq}"}. Example:{" "}
+          {InvoiceNumberingService.formatNumber(numbering, {
+            issueDate: new Date().toISOString(),
+            sequence: 1,
+            propertyCode: "FM",
+            providerCode: "CPS",
+          })}
+        </p>
+        <div className="flex items-center justify-between">
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={numbering.resetYearly}
+              onChange={(e) =>
+                setNumbering({ ...numbering, resetYearly: e.target.checked })
+              }
+              className="mr-2"
+            />
+            Restart numbering each year
+          </label>
+          <button
+            onClick={handleSaveNumbering}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Save
+          </button>
+        </div>
+
+        {voidNumbers.length > 0 && (
+          <div className="mt-6">
+            <h3 className="text-sm font-medium text-gray-900 mb-2">
+              Void numbers ({voidNumbers.length})
+            </h3>
+            <table className="min-w-full divide-y divide-gray-200">
+              <tbody className="divide-y divide-gray-100">
+                {voidNumbers.map((record) => (
+                  <tr key={record.id}>
+                    <td className="py-2 text-sm text-gray-900">
+                      {record.invoiceNumber}
+                    </td>
+                    <td className="py-2 text-sm text-gray-600">
+                      {record.voidReason}
+                    </td>
+                    <td className="py-2 text-sm text-gray-500 text-right">
+                      {record.voidedAt &&
+                        new Date(record.voidedAt).toLocaleDateString()}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* FX Rates */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">FX Rates</h2>
+            <p className="text-sm text-gray-600">
+              The latest rate on or before each transaction date is used
+            </p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={fetchSettings}
+              className="p-2 text-gray-600 hover:text-gray-900"
+              title="Refresh"
+            >
+              <RefreshCw className="h-5 w-5" />
+            </button>
+            <label className="flex items-center px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors cursor-pointer">
+              <Upload className="h-4 w-4 mr-2" />
+              Import CSV
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleCsvImport}
+                className="hidden"
+              />
+            </label>
+          </div>
+        </div>
+
+        <p className="text-xs text-gray-500 mb-4">
+          CSV columns: date,base,quote,rate (e.g. 2024-01-31,ZAR,USD,0.053)
+        </p>
+
+        {csvResult && (
+          <div
+            className={`mb-4 p-3 rounded-lg text-sm ${
+              csvResult.errors.length > 0
+                ? "bg-yellow-50 text-yellow-800"
+                : "bg-green-50 text-green-800"
+            }`}
+          >
+            Imported {csvResult.imported} rates.
+            {csvResult.errors.length > 0 && (
+              <ul className="mt-2 list-disc list-inside">
+                {csvResult.errors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {/* Manual entry */}
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-3 mb-6">
+          <input
+            type="date"
+            value={newRate.date}
+            onChange={(e) => setNewRate({ ...newRate, date: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg"
+          />
+          <input
+            placeholder="From (e.g. ZAR)"
+            value={newRate.baseCurrency}
+            maxLength={3}
+            onChange={(e) =>
+              setNewRate({
+                ...newRate,
+                baseCurrency: e.target.value.toUpperCase(),
+              })
+            }
+            className="px-3 py-2 border border-gray-300 rounded-lg"
+          />
+          <input
+            placeholder="To (e.g. USD)"
+            value={newRate.quoteCurrency}
+            maxLength={3}
+            onChange={(e) =>
+              setNewRate({
+                ...newRate,
+                quoteCurrency: e.target.value.toUpperCase(),
+              })
+            }
+            className="px-3 py-2 border border-gray-300 rounded-lg"
+          />
+          <input
+            type="number"
+            step="any"
+            min="0"
+            placeholder="Rate"
+            value={newRate.rate}
+            onChange={(e) => setNewRate({ ...newRate, rate: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg"
+          />
+          <button
+            onClick={handleAddRate}
+            className="flex items-center justify-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rate
+          </button>
+        </div>
+
+        {fxRates.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">
+            No FX rates recorded. Amounts in other currencies are left out
+            of reports until a rate is added.
+          </p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Date
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Pair
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Rate
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Source
+                </th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {fxRates.map((rate) => (
+                <tr key={rate.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    {rate.date}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    {rate.baseCurrency}/{rate.quoteCurrency}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900 text-right">
+                    {rate.rate}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500 capitalize">
+                    {rate.source}
+                  </td>
+                  <td className="px-6 py-4 text-right">
+                    <button
+                      onClick={() => handleDeleteRate(rate.id)}
+                      className="text-red-600 hover:text-red-800"
+                      title="Delete rate"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
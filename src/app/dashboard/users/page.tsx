@@ -0,0 +1,304 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Save, ShieldCheck, UserCog } from "lucide-react";
+import UserService, { UserProfile } from "@/services/userService";
+import { PropertyService } from "@/services/propertyService";
+import { ServiceProviderService } from "@/services/serviceProviderService";
+import { Property, Provider } from "@/types/float34";
+import { useAuth } from "@/contexts/AuthContext";
+import { can, Role, ROLE_LABELS, ROLE_PERMISSIONS } from "@/lib/auth/permissions";
+
+type Assignment = Pick<
+  UserProfile,
+  "role" | "status" | "managedProperties" | "providerId"
+>;
+
+const STATUSES: UserProfile["status"][] = ["active", "pending", "inactive"];
+
+const toAssignment = (user: UserProfile): Assignment => ({
+  role: user.role,
+  status: user.status || "active",
+  managedProperties: user.managedProperties || [],
+  providerId: user.providerId || "",
+});
+
+export default function UsersPage() {
+  const { user: currentUser, userProfile } = useAuth();
+  const canManage = can(userProfile, "user:manage");
+  const [users, setUsers] = useState<UserProfile[]>([]);
+  const [properties, setProperties] = useState<Property[]>([]);
+  const [providers, setProviders] = useState<Provider[]>([]);
+  const [assignments, setAssignments] = useState<Record<string, Assignment>>(
+    {}
+  );
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    if (!canManage) return;
+    try {
+      setLoading(true);
+      const [usersData, propertiesData, providersResponse] =
+        await Promise.all([
+          UserService.getUsers(),
+          PropertyService.getProperties({}),
+          ServiceProviderService.getProviders({}, undefined, 1000),
+        ]);
+      setUsers(usersData);
+      setAssignments(
+        Object.fromEntries(
+          usersData.map((user) => [user.uid, toAssignment(user)])
+        )
+      );
+      setProperties(propertiesData || []);
+      setProviders(providersResponse?.providers || []);
+    } catch (error) {
+      console.error("Error fetching users:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [canManage]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const updateAssignment = (uid: string, changes: Partial<Assignment>) =>
+    setAssignments((current) => ({
+      ...current,
+      [uid]: { ...current[uid], ...changes },
+    }));
+
+  const isChanged = (user: UserProfile) =>
+    JSON.stringify(toAssignment(user)) !==
+    JSON.stringify(assignments[user.uid]);
+
+  const handleSave = async (user: UserProfile) => {
+    const assignment = assignments[user.uid];
+    try {
+      setSavingId(user.uid);
+      // Clear the scope that does not apply to the new role
+      const result = await UserService.updateUserProfile(user.uid, {
+        role: assignment.role,
+        status: assignment.status,
+        managedProperties:
+          assignment.role === "property_manager"
+            ? assignment.managedProperties
+            : [],
+        providerId:
+          assignment.role === "service_provider" ? assignment.providerId : "",
+        ...(currentUser && { updatedBy: currentUser.uid }),
+      });
+      if (!result.success) throw new Error(result.error);
+      fetchData();
+    } catch (error) {
+      alert(`Failed to update ${user.email}: ${error}`);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  if (!canManage) {
+    return (
+      <div className="p-6">
+        <h1 className="text-2xl font-bold text-gray-900">Users</h1>
+        <p className="text-gray-600">Only administrators can assign roles.</p>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Users</h1>
+        <p className="text-gray-600">
+          Assign roles, activate new accounts and set what each user can see
+        </p>
+      </div>
+
+      {/* Users */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 mb-8">
+        {users.length === 0 ? (
+          <div className="text-center py-12">
+            <UserCog className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">
+              No users
+            </h3>
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  User
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Role
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Scope
+                </th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {users.map((user) => {
+                const assignment = assignments[user.uid];
+                // Admins cannot lock themselves out
+                const isSelf = user.uid === currentUser?.uid;
+                return (
+                  <tr key={user.uid} className="align-top">
+                    <td className="px-6 py-4 text-sm">
+                      <div className="font-medium text-gray-900">
+                        {user.displayName ||
+                          `${user.firstName || ""} ${user.lastName || ""}`}
+                      </div>
+                      <div className="text-gray-500">{user.email}</div>
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      <select
+                        value={assignment.role}
+                        disabled={isSelf}
+                        onChange={(e) =>
+                          updateAssignment(user.uid, {
+                            role: e.target.value as Role,
+                          })
+                        }
+                        className="px-3 py-2 border border-gray-300 rounded-lg"
+                      >
+                        {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                          <option key={role} value={role}>
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      <select
+                        value={assignment.status}
+                        disabled={isSelf}
+                        onChange={(e) =>
+                          updateAssignment(user.uid, {
+                            status: e.target.value as UserProfile["status"],
+                          })
+                        }
+                        className="px-3 py-2 border border-gray-300 rounded-lg capitalize"
+                      >
+                        {STATUSES.map((status) => (
+                          <option key={status} value={status}>
+                            {status}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {assignment.role === "admin" && "All records"}
+                      {assignment.role === "property_manager" && (
+                        <select
+                          multiple
+                          value={assignment.managedProperties}
+                          onChange={(e) =>
+                            updateAssignment(user.uid, {
+                              managedProperties: Array.from(
+                                e.target.selectedOptions,
+                                (option) => option.value
+                              ),
+                            })
+                          }
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                        >
+                          {properties.map((property) => (
+                            <option key={property.id} value={property.id}>
+                              {property.name}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                      {assignment.role === "service_provider" && (
+                        <select
+                          value={assignment.providerId}
+                          onChange={(e) =>
+                            updateAssignment(user.uid, {
+                              providerId: e.target.value,
+                            })
+                          }
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                        >
+                          <option value="">No provider</option>
+                          {providers.map((provider) => (
+                            <option key={provider.id} value={provider.id}>
+                              {provider.businessName || provider.name}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      <button
+                        onClick={() => handleSave(user)}
+                        disabled={!isChanged(user) || savingId === user.uid}
+                        className="flex items-center px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                      >
+                        <Save className="h-4 w-4 mr-2" />
+                        {savingId === user.uid ? "Saving..." : "Save"}
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Role permissions */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center mb-4">
+          <div className="p-2 bg-blue-100 rounded-lg">
+            <ShieldCheck className="h-6 w-6 text-blue-600" />
+          </div>
+          <div className="ml-4">
+            <h2 className="text-lg font-semibold text-gray-900">
+              Role Permissions
+            </h2>
+            <p className="text-sm text-gray-600">
+              Scoped permissions only cover the properties a manager is
+              assigned, or a service provider&apos;s own records.
+            </p>
+          </div>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {Object.entries(ROLE_PERMISSIONS).map(([role, permissions]) => (
+            <div key={role}>
+              <h3 className="text-sm font-medium text-gray-900 mb-2">
+                {ROLE_LABELS[role as Role]}
+              </h3>
+              <ul className="text-sm text-gray-600 space-y-1">
+                {permissions.map((permission) => (
+                  <li key={permission} className="font-mono text-xs">
+                    {permission}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
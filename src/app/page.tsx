@@ -9,6 +9,7 @@ import {
 import { auth } from "@/services/firebaseConfig";
 import { ServiceProviderService } from "@/services/serviceProviderService";
 import UserService from "@/services/userService";
+import { getLandingPath } from "@/lib/auth/permissions";
 
 export default function LoginPage() {
   const [loginType, setLoginType] = useState("admin"); // "admin" or "service"
@@ -62,10 +63,11 @@ export default function LoginPage() {
         return;
       }
 
-      // Check if login type matches user's actual role
-      const expectedRole = loginType === "admin" ? "admin" : "service_provider";
+      // Check if login type matches user's actual role: the Dev34 login is
+      // for admins and property managers, the SP login for service providers
+      const isServiceProvider = userProfile.role === "service_provider";
 
-      if (userProfile.role !== expectedRole) {
+      if (isServiceProvider !== (loginType === "service")) {
         setError(
           `This account is registered as a ${userProfile.role.replace(
             "_",
@@ -81,13 +83,10 @@ export default function LoginPage() {
 
       setSuccess("Login successful! Redirecting...");
 
-      // Route based on user type
-      if (userProfile.role === "admin") {
-        setTimeout(() => router.push("/dashboard/home"), 1000);
-      } else {
-        // Service providers go to a "Coming Soon" page
-        setTimeout(() => router.push("/dashboard/coming-soon"), 1000);
-      }
+      // Route based on what the user may access: the dashboard, the
+      // provider portal, or a waiting page until the account is approved
+      const landingPath = getLandingPath(userProfile);
+      setTimeout(() => router.push(landingPath), 1000);
     } catch (error: any) {
       console.error("Login error:", error);
       setError(getErrorMessage(error.code));
@@ -212,10 +211,17 @@ export default function LoginPage() {
 
       if (providerResult.success) {
         // Link the service provider to the user profile
-        await UserService.linkServiceProvider(
+        const linkResult = await UserService.linkServiceProvider(
           user.uid,
           providerResult.providerId!
         );
+        if (!linkResult.success) {
+          await auth.signOut();
+          setError(
+            `Your account was created, but could not be linked to your provider profile: ${linkResult.error}. Please contact an administrator.`
+          );
+          return;
+        }
 
         // IMPORTANT: Sign out the user immediately after signup
         // This prevents auto-login and ensures they select the correct login type
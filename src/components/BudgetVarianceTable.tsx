@@ -0,0 +1,336 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Plus, Target } from "lucide-react";
+import { BudgetService } from "@/services/budgetService";
+import { CurrencyService } from "@/services/currencyService";
+import {
+  BudgetKind,
+  BudgetVarianceRow,
+  ExpenseCategory,
+  PeriodGranularity,
+  Property,
+} from "@/types/float34";
+
+interface BudgetVarianceTableProps {
+  properties: Property[];
+  propertyId?: string;
+  from: string;
+  to: string;
+}
+
+const EXPENSE_CATEGORIES: ExpenseCategory[] = [
+  "labor",
+  "materials",
+  "overhead",
+  "utilities",
+  "maintenance",
+];
+
+const PERIOD_PLACEHOLDERS: Record<PeriodGranularity, string> = {
+  DAY: "2025-03-05",
+  WEEK: "2025-W10",
+  MONTH: "2025-03",
+  QUARTER: "2025-Q1",
+  YEAR: "2025",
+};
+
+export default function BudgetVarianceTable({
+  properties,
+  propertyId,
+  from,
+  to,
+}: BudgetVarianceTableProps) {
+  const [rows, setRows] = useState<BudgetVarianceRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [granularity, setGranularity] = useState<PeriodGranularity>("MONTH");
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState({
+    propertyId: propertyId || "",
+    kind: "expense" as BudgetKind,
+    category: "" as ExpenseCategory | "",
+    granularity: "MONTH" as PeriodGranularity,
+    period: "",
+    amount: "",
+  });
+
+  const fetchVariance = useCallback(async () => {
+    setLoading(true);
+    try {
+      setRows(
+        await BudgetService.getBudgetVariance(from, to, granularity, propertyId)
+      );
+    } catch (error) {
+      console.error("Error fetching budget variance:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to, granularity, propertyId]);
+
+  useEffect(() => {
+    fetchVariance();
+  }, [fetchVariance]);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: CurrencyService.getCachedReportingCurrency(),
+    }).format(amount);
+  };
+
+  const handleCreateBudget = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await BudgetService.createBudget({
+        propertyId: form.propertyId,
+        kind: form.kind,
+        ...(form.kind === "expense" &&
+          form.category && { category: form.category }),
+        granularity: form.granularity,
+        period: form.period.trim(),
+        amount: parseFloat(form.amount),
+        currency: CurrencyService.getCachedReportingCurrency(),
+      });
+      setShowForm(false);
+      setForm({ ...form, period: "", amount: "" });
+      await fetchVariance();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to save budget");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const overBudgetCount = rows.filter((row) => !row.favorable).length;
+
+  return (
+    <div className="mb-8 bg-white rounded-lg shadow-sm border border-gray-200">
+      <div className="flex items-center justify-between p-6 border-b border-gray-200">
+        <div className="flex items-center">
+          <div className="p-2 bg-indigo-100 rounded-lg">
+            <Target className="h-6 w-6 text-indigo-600" />
+          </div>
+          <div className="ml-4">
+            <h3 className="text-lg font-semibold text-gray-900">
+              Budget vs. Actual
+            </h3>
+            <p className="text-sm text-gray-600">
+              {overBudgetCount > 0
+                ? `${overBudgetCount} of ${rows.length} budget lines off target`
+                : "All budget lines on target"}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-3">
+          <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+            {(["WEEK", "MONTH", "QUARTER", "YEAR"] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setGranularity(option)}
+                className={`px-3 py-1 text-sm ${
+                  granularity === option
+                    ? "bg-blue-600 text-white"
+                    : "bg-white text-gray-700 hover:bg-gray-50"
+                }`}
+              >
+                {option.charAt(0) + option.slice(1).toLowerCase()}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => setShowForm(!showForm)}
+            className="flex items-center px-3 py-1 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+          >
+            <Plus size={14} className="mr-1" />
+            Add Budget
+          </button>
+        </div>
+      </div>
+
+      {showForm && (
+        <form
+          onSubmit={handleCreateBudget}
+          className="grid grid-cols-1 md:grid-cols-7 gap-3 p-6 border-b border-gray-200 bg-gray-50"
+        >
+          <select
+            value={form.propertyId}
+            onChange={(e) => setForm({ ...form, propertyId: e.target.value })}
+            required
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          >
+            <option value="">Property</option>
+            {properties.map((property) => (
+              <option key={property.id} value={property.id}>
+                {property.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={form.kind}
+            onChange={(e) =>
+              setForm({ ...form, kind: e.target.value as BudgetKind })
+            }
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          >
+            <option value="expense">Expense budget</option>
+            <option value="revenue">Revenue target</option>
+          </select>
+          <select
+            value={form.category}
+            onChange={(e) =>
+              setForm({
+                ...form,
+                category: e.target.value as ExpenseCategory | "",
+              })
+            }
+            disabled={form.kind === "revenue"}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm disabled:opacity-50"
+          >
+            <option value="">All categories</option>
+            {EXPENSE_CATEGORIES.map((category) => (
+              <option key={category} value={category}>
+                {category.charAt(0).toUpperCase() + category.slice(1)}
+              </option>
+            ))}
+          </select>
+          <select
+            value={form.granularity}
+            onChange={(e) =>
+              setForm({
+                ...form,
+                granularity: e.target.value as PeriodGranularity,
+              })
+            }
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          >
+            <option value="WEEK">Weekly</option>
+            <option value="MONTH">Monthly</option>
+            <option value="QUARTER">Quarterly</option>
+            <option value="YEAR">Yearly</option>
+          </select>
+          <input
+            type="text"
+            value={form.period}
+            onChange={(e) => setForm({ ...form, period: e.target.value })}
+            placeholder={PERIOD_PLACEHOLDERS[form.granularity]}
+            required
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={form.amount}
+            onChange={(e) => setForm({ ...form, amount: e.target.value })}
+            placeholder="Amount"
+            required
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm disabled:opacity-50"
+          >
+            {saving ? "Saving..." : "Save"}
+          </button>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="p-6 animate-pulse">
+          <div className="h-24 bg-gray-200 rounded"></div>
+        </div>
+      ) : rows.length === 0 ? (
+        <p className="text-gray-500 text-center py-8">
+          No budgets set for this period.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Period
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Property
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Budget
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Budgeted
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actual
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Variance
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rows.map((row) => (
+                <tr
+                  key={`${row.propertyId}-${row.kind}-${row.category}-${row.period}`}
+                  className={row.favorable ? "hover:bg-gray-50" : "bg-red-50"}
+                >
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    {row.period}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    {row.propertyName}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">
+                    {row.kind === "revenue"
+                      ? "Revenue"
+                      : `Expenses${row.category ? ` - ${row.category}` : ""}`}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-right text-gray-900">
+                    {formatCurrency(row.budgeted)}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-right text-gray-900">
+                    {formatCurrency(row.actual)}
+                  </td>
+                  <td
+                    className={`px-6 py-4 text-sm text-right font-medium ${
+                      row.favorable ? "text-green-600" : "text-red-600"
+                    }`}
+                  >
+                    {row.variance > 0 ? "+" : ""}
+                    {formatCurrency(row.variance)}
+                    {row.budgeted > 0 && (
+                      <span className="ml-1 text-xs">
+                        ({row.variancePct.toFixed(1)}%)
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-right">
+                    <span
+                      className={`px-2 py-1 text-xs font-semibold rounded-full ${
+                        row.favorable
+                          ? "bg-green-100 text-green-800"
+                          : "bg-red-100 text-red-800"
+                      }`}
+                    >
+                      {row.favorable
+                        ? "On track"
+                        : row.kind === "expense"
+                          ? "Over budget"
+                          : "Below target"}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
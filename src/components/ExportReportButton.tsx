@@ -0,0 +1,70 @@
+"use client";
+
+import { useState } from "react";
+import { Download, FileSpreadsheet, FileText } from "lucide-react";
+import {
+  ExportFormat,
+  FinancialReportFilters,
+  exportFinancialReport,
+} from "@/lib/export/financialReport";
+
+interface ExportReportButtonProps {
+  filters: FinancialReportFilters;
+  filenamePrefix?: string;
+  label?: string;
+  className?: string;
+}
+
+export default function ExportReportButton({
+  filters,
+  filenamePrefix,
+  label = "Export Report",
+  className = "flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm disabled:opacity-50",
+}: ExportReportButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setOpen(false);
+    setExporting(true);
+    try {
+      await exportFinancialReport(filters, format, filenamePrefix);
+    } catch (error) {
+      console.error("Error exporting financial report:", error);
+      alert("Failed to export the report");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={exporting}
+        className={className}
+      >
+        <Download size={16} className="mr-2" />
+        {exporting ? "Exporting..." : label}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-44 bg-white border border-gray-200 rounded-lg shadow-lg z-10">
+          <button
+            onClick={() => handleExport("csv")}
+            className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 rounded-t-lg"
+          >
+            <FileText size={16} className="mr-2" />
+            CSV
+          </button>
+          <button
+            onClick={() => handleExport("xlsx")}
+            className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 rounded-b-lg"
+          >
+            <FileSpreadsheet size={16} className="mr-2" />
+            Excel (XLSX)
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
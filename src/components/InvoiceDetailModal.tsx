@@ -10,30 +10,218 @@ import {
   User,
   Calendar,
   DollarSign,
+  History,
+  CreditCard,
+  FileMinus,
 } from "lucide-react";
-import { Invoice, InvoiceLineItem } from "../types/float34";
+import {
+  CreditNote,
+  Invoice,
+  InvoiceLineItem,
+  InvoiceStatus,
+  InvoiceStatusChange,
+  Payment,
+} from "../types/float34";
+import { InvoiceService } from "../services/invoiceService";
+import { PaymentService } from "../services/paymentService";
+import { CreditNoteService } from "../services/creditNoteService";
+import { downloadInvoicePdf } from "../lib/pdf/download";
 
 interface InvoiceDetailModalProps {
   invoice: Invoice | null;
   isOpen: boolean;
   onClose: () => void;
+  onStatusChange?: (invoiceId: string, status: InvoiceStatus) => void;
 }
 
 export default function InvoiceDetailModal({
   invoice,
   isOpen,
   onClose,
+  onStatusChange,
 }: InvoiceDetailModalProps) {
   const [providerName, setProviderName] = useState<string>("");
   const [propertyName, setPropertyName] = useState<string>("");
+  const [status, setStatus] = useState<InvoiceStatus | null>(null);
+  const [statusHistory, setStatusHistory] = useState<InvoiceStatusChange[]>(
+    []
+  );
+  const [changingStatus, setChangingStatus] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const [amountPaid, setAmountPaid] = useState(0);
+  const [creditedAmount, setCreditedAmount] = useState(0);
+  const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
+  const [showCreditForm, setShowCreditForm] = useState(false);
+  const [creditReason, setCreditReason] = useState("");
+  // Amount to credit per invoice line, keyed by line index
+  const [creditLines, setCreditLines] = useState<Record<number, string>>({});
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [showPaymentForm, setShowPaymentForm] = useState(false);
+  const [paymentForm, setPaymentForm] = useState({
+    amount: "",
+    method: "bank_transfer" as Payment["method"],
+    reference: "",
+    paymentDate: new Date().toISOString().split("T")[0],
+  });
 
   useEffect(() => {
     if (invoice) {
       // Fetch provider and property names
       fetchProviderAndPropertyNames();
+      setStatus(invoice.status);
+      setAmountPaid(PaymentService.getAmountPaid(invoice));
+      setCreditedAmount(invoice.creditedAmount || 0);
+      setShowPaymentForm(false);
+      setShowCreditForm(false);
+      fetchStatusHistory(invoice.id);
+      fetchPayments(invoice.id);
+      fetchCreditNotes(invoice.id);
     }
   }, [invoice]);
 
+  const fetchStatusHistory = async (invoiceId: string) => {
+    const history = await InvoiceService.getStatusHistory(invoiceId);
+    setStatusHistory(history);
+  };
+
+  const fetchPayments = async (invoiceId: string) => {
+    const invoicePayments = await PaymentService.getPaymentsForInvoice(
+      invoiceId
+    );
+    setPayments(invoicePayments);
+  };
+
+  const fetchCreditNotes = async (invoiceId: string) => {
+    const invoiceCreditNotes =
+      await CreditNoteService.getCreditNotesForInvoice(invoiceId);
+    setCreditNotes(invoiceCreditNotes);
+  };
+
+  // Reload the invoice after a payment or credit note changes its balance
+  // and status
+  const refreshInvoice = async (invoiceId: string) => {
+    const updated = await InvoiceService.getInvoiceById(invoiceId);
+    if (updated) {
+      setStatus(updated.status);
+      setAmountPaid(PaymentService.getAmountPaid(updated));
+      setCreditedAmount(updated.creditedAmount || 0);
+      onStatusChange?.(invoiceId, updated.status);
+    }
+    await Promise.all([
+      fetchStatusHistory(invoiceId),
+      fetchPayments(invoiceId),
+      fetchCreditNotes(invoiceId),
+    ]);
+  };
+
+  const handleRecordPayment = async () => {
+    if (!invoice) return;
+    const amount = parseFloat(paymentForm.amount);
+
+    try {
+      setChangingStatus(true);
+      await PaymentService.recordPayment({
+        amount,
+        currency: invoice.currency,
+        paymentDate: paymentForm.paymentDate,
+        method: paymentForm.method,
+        ...(paymentForm.reference && { reference: paymentForm.reference }),
+        allocations: [{ invoiceId: invoice.id, amount }],
+      });
+      setShowPaymentForm(false);
+      setPaymentForm((prev) => ({ ...prev, amount: "", reference: "" }));
+      await refreshInvoice(invoice.id);
+    } catch (error) {
+      alert(`Failed to record payment: ${error}`);
+    } finally {
+      setChangingStatus(false);
+    }
+  };
+
+  const handleIssueCreditNote = async (type: "full" | "partial") => {
+    if (!invoice) return;
+
+    try {
+      setChangingStatus(true);
+      if (type === "full") {
+        await CreditNoteService.createFullCreditNote(
+          { ...invoice, creditedAmount },
+          creditReason
+        );
+      } else {
+        await CreditNoteService.createCreditNote(invoice.id, {
+          reason: creditReason,
+          lineItems: invoice.lineItems
+            .map((item, index) => ({
+              lineItemIndex: index,
+              description: item.description,
+              quantity: 1,
+              unitPrice: parseFloat(creditLines[index]) || 0,
+              total: parseFloat(creditLines[index]) || 0,
+            }))
+            .filter((item) => item.total > 0),
+        });
+      }
+      setShowCreditForm(false);
+      setCreditReason("");
+      setCreditLines({});
+      await refreshInvoice(invoice.id);
+    } catch (error) {
+      alert(`Failed to issue credit note: ${error}`);
+    } finally {
+      setChangingStatus(false);
+    }
+  };
+
+  const handleVoidCreditNote = async (creditNoteId: string) => {
+    if (!invoice) return;
+    const reason = prompt("Reason for voiding this credit note:");
+    if (!reason) return;
+
+    try {
+      setChangingStatus(true);
+      await CreditNoteService.voidCreditNote(creditNoteId, reason);
+      await refreshInvoice(invoice.id);
+    } catch (error) {
+      alert(`Failed to void credit note: ${error}`);
+    } finally {
+      setChangingStatus(false);
+    }
+  };
+
+  const handleReversePayment = async (paymentId: string) => {
+    if (!invoice) return;
+    const reason = prompt("Reason for reversing this payment:");
+    if (reason === null) return;
+
+    try {
+      setChangingStatus(true);
+      await PaymentService.reversePayment(paymentId, reason || undefined);
+      await refreshInvoice(invoice.id);
+    } catch (error) {
+      alert(`Failed to reverse payment: ${error}`);
+    } finally {
+      setChangingStatus(false);
+    }
+  };
+
+  const handleStatusChange = async (toStatus: InvoiceStatus) => {
+    if (!invoice) return;
+    const note = prompt(`Note for moving this invoice to ${toStatus}:`) || "";
+
+    try {
+      setChangingStatus(true);
+      await InvoiceService.transitionStatus(invoice.id, toStatus, { note });
+      setStatus(toStatus);
+      await fetchStatusHistory(invoice.id);
+      onStatusChange?.(invoice.id, toStatus);
+    } catch (error) {
+      alert(`Failed to change status: ${error}`);
+    } finally {
+      setChangingStatus(false);
+    }
+  };
+
   const fetchProviderAndPropertyNames = async () => {
     try {
       // Import services dynamically to avoid circular dependencies
@@ -43,11 +231,11 @@ export default function InvoiceDetailModal({
       const { PropertyService } = await import("@/services/propertyService");
 
       if (invoice?.providerId) {
-        const provider = await ServiceProviderService.getProviderById(
+        const name = await ServiceProviderService.getProviderName(
           invoice.providerId
         );
-        if (provider) {
-          setProviderName(provider.businessName || provider.name);
+        if (name) {
+          setProviderName(name);
         }
       }
 
@@ -67,7 +255,7 @@ export default function InvoiceDetailModal({
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat("en-US", {
       style: "currency",
-      currency: "USD",
+      currency: invoice?.currency || "USD",
     }).format(amount);
   };
 
@@ -83,12 +271,16 @@ export default function InvoiceDetailModal({
     switch (status) {
       case "paid":
         return "bg-green-100 text-green-800";
+      case "partially_paid":
+        return "bg-yellow-100 text-yellow-800";
       case "sent":
         return "bg-blue-100 text-blue-800";
       case "overdue":
         return "bg-red-100 text-red-800";
       case "draft":
         return "bg-gray-100 text-gray-800";
+      case "cancelled":
+        return "bg-red-100 text-red-800";
       default:
         return "bg-gray-100 text-gray-800";
     }
@@ -98,10 +290,28 @@ export default function InvoiceDetailModal({
     window.print();
   };
 
-  const handleDownload = () => {
-    // Create a printable version and download as PDF
-    // This is a placeholder - you can implement PDF generation later
-    alert("PDF download functionality coming soon!");
+  const handleDownload = async () => {
+    if (!invoice) return;
+    setDownloading(true);
+    try {
+      // The local backend renders the invoice as shown, with the latest
+      // status and payments; the server reads the stored invoice
+      await downloadInvoicePdf({
+        invoice: {
+          ...invoice,
+          status: status || invoice.status,
+          amountPaid,
+          creditedAmount,
+        },
+        propertyName,
+        providerName,
+      });
+    } catch (error) {
+      console.error("Error downloading invoice PDF:", error);
+      alert("Failed to download invoice PDF");
+    } finally {
+      setDownloading(false);
+    }
   };
 
   const handleBackdropClick = (e: React.MouseEvent) => {
@@ -112,6 +322,22 @@ export default function InvoiceDetailModal({
 
   if (!isOpen || !invoice) return null;
 
+  const currentStatus = status || invoice.status;
+  const balanceDue = PaymentService.getBalanceDue({
+    ...invoice,
+    status: currentStatus,
+    amountPaid,
+    creditedAmount,
+  });
+  const canIssueCreditNote =
+    currentStatus !== "draft" &&
+    currentStatus !== "cancelled" &&
+    creditedAmount < invoice.total;
+  const canRecordPayment =
+    currentStatus === "sent" ||
+    currentStatus === "overdue" ||
+    currentStatus === "partially_paid";
+
   return (
     <div
       className="fixed inset-0 bg-white/10 backdrop-blur-md flex items-center justify-center z-50 p-4 animate-in fade-in duration-300 transition-all duration-300"
@@ -129,10 +355,11 @@ export default function InvoiceDetailModal({
           <div className="flex items-center space-x-2">
             <button
               onClick={handleDownload}
-              className="flex items-center px-3 py-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+              disabled={downloading}
+              className="flex items-center px-3 py-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50"
             >
               <Download size={16} className="mr-2" />
-              Download
+              {downloading ? "Preparing..." : "Download"}
             </button>
             <button
               onClick={handlePrint}
@@ -175,10 +402,10 @@ export default function InvoiceDetailModal({
               <p className="text-gray-600">#{invoice.invoiceNumber}</p>
               <div
                 className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium mt-2 ${getStatusColor(
-                  invoice.status
+                  currentStatus
                 )}`}
               >
-                {invoice.status.toUpperCase()}
+                {currentStatus.replace("_", " ").toUpperCase()}
               </div>
             </div>
           </div>
@@ -338,6 +565,30 @@ export default function InvoiceDetailModal({
                     </span>
                   </div>
                 </div>
+                {creditedAmount > 0 && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">Credited:</span>
+                    <span className="text-purple-700">
+                      -{formatCurrency(creditedAmount)}
+                    </span>
+                  </div>
+                )}
+                {(amountPaid > 0 || creditedAmount > 0) && (
+                  <>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-600">Amount Paid:</span>
+                      <span className="text-green-700">
+                        {formatCurrency(amountPaid)}
+                      </span>
+                    </div>
+                    <div className="flex justify-between text-sm font-semibold">
+                      <span className="text-gray-900">Balance Due:</span>
+                      <span className="text-gray-900">
+                        {formatCurrency(balanceDue)}
+                      </span>
+                    </div>
+                  </>
+                )}
               </div>
             </div>
           </div>
@@ -354,6 +605,323 @@ export default function InvoiceDetailModal({
             </div>
           )}
 
+          {/* Payments */}
+          <div className="mb-8">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                <CreditCard size={16} className="mr-2" />
+                Payments
+              </h3>
+              {canRecordPayment && (
+                <button
+                  onClick={() => {
+                    setPaymentForm((prev) => ({
+                      ...prev,
+                      amount: balanceDue.toFixed(2),
+                    }));
+                    setShowPaymentForm(!showPaymentForm);
+                  }}
+                  disabled={changingStatus}
+                  className="px-3 py-1 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                >
+                  Record Payment
+                </button>
+              )}
+            </div>
+            {showPaymentForm && (
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-3 mb-4 bg-gray-50 p-4 rounded-lg">
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="Amount"
+                  value={paymentForm.amount}
+                  onChange={(e) =>
+                    setPaymentForm({ ...paymentForm, amount: e.target.value })
+                  }
+                  className="px-3 py-2 border border-gray-300 rounded-lg"
+                />
+                <select
+                  value={paymentForm.method}
+                  onChange={(e) =>
+                    setPaymentForm({
+                      ...paymentForm,
+                      method: e.target.value as Payment["method"],
+                    })
+                  }
+                  className="px-3 py-2 border border-gray-300 rounded-lg"
+                >
+                  <option value="bank_transfer">Bank Transfer</option>
+                  <option value="check">Check</option>
+                  <option value="card">Card</option>
+                  <option value="cash">Cash</option>
+                  <option value="digital_wallet">Digital Wallet</option>
+                </select>
+                <input
+                  placeholder="Reference"
+                  value={paymentForm.reference}
+                  onChange={(e) =>
+                    setPaymentForm({
+                      ...paymentForm,
+                      reference: e.target.value,
+                    })
+                  }
+                  className="px-3 py-2 border border-gray-300 rounded-lg"
+                />
+                <input
+                  type="date"
+                  value={paymentForm.paymentDate}
+                  onChange={(e) =>
+                    setPaymentForm({
+                      ...paymentForm,
+                      paymentDate: e.target.value,
+                    })
+                  }
+                  className="px-3 py-2 border border-gray-300 rounded-lg"
+                />
+                <button
+                  onClick={handleRecordPayment}
+                  disabled={changingStatus}
+                  className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                >
+                  Save
+                </button>
+              </div>
+            )}
+            {payments.length > 0 ? (
+              <table className="w-full">
+                <tbody className="divide-y divide-gray-200">
+                  {payments.map((payment) => {
+                    const allocated =
+                      payment.allocations.find(
+                        (allocation) => allocation.invoiceId === invoice.id
+                      )?.amount || 0;
+                    return (
+                      <tr key={payment.id}>
+                        <td className="py-2 text-sm text-gray-900">
+                          {formatDate(payment.paymentDate)}
+                        </td>
+                        <td className="py-2 text-sm text-gray-600 capitalize">
+                          {payment.method.replace("_", " ")}
+                          {payment.reference && ` (${payment.reference})`}
+                        </td>
+                        <td
+                          className={`py-2 text-sm text-right ${
+                            payment.status === "reversed"
+                              ? "text-gray-400 line-through"
+                              : "text-gray-900"
+                          }`}
+                        >
+                          {formatCurrency(allocated)}
+                        </td>
+                        <td className="py-2 text-sm text-right">
+                          {payment.status === "reversed" ? (
+                            <span className="text-gray-500">Reversed</span>
+                          ) : (
+                            <button
+                              onClick={() => handleReversePayment(payment.id)}
+                              disabled={changingStatus}
+                              className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                            >
+                              Reverse
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-sm text-gray-500">No payments recorded.</p>
+            )}
+          </div>
+
+          {/* Credit Notes */}
+          <div className="mb-8">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                <FileMinus size={16} className="mr-2" />
+                Credit Notes
+              </h3>
+              {canIssueCreditNote && (
+                <button
+                  onClick={() => setShowCreditForm(!showCreditForm)}
+                  disabled={changingStatus}
+                  className="px-3 py-1 text-sm bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+                >
+                  Issue Credit Note
+                </button>
+              )}
+            </div>
+            {showCreditForm && (
+              <div className="mb-4 bg-gray-50 p-4 rounded-lg space-y-3">
+                <input
+                  placeholder="Reason (required)"
+                  value={creditReason}
+                  onChange={(e) => setCreditReason(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                />
+                {invoice.lineItems?.map((item, index) => (
+                  <div
+                    key={index}
+                    className="flex items-center justify-between text-sm"
+                  >
+                    <span className="text-gray-700">
+                      {item.description} ({formatCurrency(item.total)})
+                    </span>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      max={item.total}
+                      placeholder="Credit amount"
+                      value={creditLines[index] || ""}
+                      onChange={(e) =>
+                        setCreditLines({
+                          ...creditLines,
+                          [index]: e.target.value,
+                        })
+                      }
+                      className="w-36 px-3 py-1 border border-gray-300 rounded-lg"
+                    />
+                  </div>
+                ))}
+                <p className="text-xs text-gray-500">
+                  Line amounts are before tax; tax is credited at the
+                  invoice&apos;s rate.
+                </p>
+                <div className="flex justify-end space-x-2">
+                  <button
+                    onClick={() => handleIssueCreditNote("partial")}
+                    disabled={changingStatus || !creditReason.trim()}
+                    className="px-3 py-1 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-white disabled:opacity-50"
+                  >
+                    Credit Selected Lines
+                  </button>
+                  <button
+                    onClick={() => handleIssueCreditNote("full")}
+                    disabled={changingStatus || !creditReason.trim()}
+                    className="px-3 py-1 text-sm bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+                  >
+                    Credit Full Balance
+                  </button>
+                </div>
+              </div>
+            )}
+            {creditNotes.length > 0 ? (
+              <table className="w-full">
+                <tbody className="divide-y divide-gray-200">
+                  {creditNotes.map((creditNote) => (
+                    <tr key={creditNote.id}>
+                      <td className="py-2 text-sm text-gray-900">
+                        {creditNote.creditNoteNumber}
+                      </td>
+                      <td className="py-2 text-sm text-gray-600">
+                        {formatDate(creditNote.issueDate)}
+                      </td>
+                      <td className="py-2 text-sm text-gray-600">
+                        {creditNote.reason}
+                        {creditNote.status === "void" &&
+                          ` (void: ${creditNote.voidReason})`}
+                      </td>
+                      <td
+                        className={`py-2 text-sm text-right ${
+                          creditNote.status === "void"
+                            ? "text-gray-400 line-through"
+                            : "text-purple-700"
+                        }`}
+                      >
+                        -{formatCurrency(creditNote.total)}
+                      </td>
+                      <td className="py-2 text-sm text-right">
+                        {creditNote.status !== "void" && (
+                          <button
+                            onClick={() => handleVoidCreditNote(creditNote.id)}
+                            disabled={changingStatus}
+                            className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                          >
+                            Void
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-sm text-gray-500">No credit notes issued.</p>
+            )}
+          </div>
+
+          {/* Status History */}
+          <div className="mb-8">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                <History size={16} className="mr-2" />
+                Status History
+              </h3>
+              <div className="flex items-center space-x-2">
+                {InvoiceService.getAllowedTransitions(currentStatus).map(
+                  (nextStatus) => (
+                    <button
+                      key={nextStatus}
+                      onClick={() => handleStatusChange(nextStatus)}
+                      disabled={changingStatus}
+                      className="px-3 py-1 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50 capitalize"
+                    >
+                      Mark {nextStatus}
+                    </button>
+                  )
+                )}
+              </div>
+            </div>
+            {statusHistory.length > 0 ? (
+              <ol className="relative border-l border-gray-200 ml-2">
+                {statusHistory.map((change) => (
+                  <li key={change.id} className="mb-4 ml-4">
+                    <div className="absolute w-3 h-3 bg-blue-600 rounded-full -left-1.5 mt-1.5 border border-white"></div>
+                    <div className="flex items-center space-x-2">
+                      {change.fromStatus && (
+                        <>
+                          <span
+                            className={`px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(
+                              change.fromStatus
+                            )}`}
+                          >
+                            {change.fromStatus}
+                          </span>
+                          <span className="text-gray-400">→</span>
+                        </>
+                      )}
+                      <span
+                        className={`px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(
+                          change.toStatus
+                        )}`}
+                      >
+                        {change.toStatus}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-600 mt-1">
+                      {new Date(change.changedAt).toLocaleString()} by{" "}
+                      {change.changedByEmail || change.changedBy}
+                    </p>
+                    {change.note && (
+                      <p className="text-sm text-gray-700 mt-1">
+                        {change.note}
+                      </p>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            ) : (
+              <p className="text-sm text-gray-500">
+                No status changes recorded. Created{" "}
+                {formatDate(invoice.createdAt)} as {invoice.status}.
+              </p>
+            )}
+          </div>
+
           {/* Footer */}
           <div className="border-t border-gray-200 pt-6">
             <div className="text-center text-gray-600">
@@ -0,0 +1,320 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Clock, X } from "lucide-react";
+import { getApi } from "@/lib/api";
+import { AGING_BUCKETS } from "@/services/agingService";
+import { InvoiceService } from "@/services/invoiceService";
+import {
+  AgingBucket,
+  Invoice,
+  ReceivablesAgingReport,
+  ReceivablesAgingRow,
+} from "@/types/float34";
+import InvoiceDetailModal from "./InvoiceDetailModal";
+
+interface ReceivablesAgingTableProps {
+  propertyId?: string;
+  providerId?: string;
+}
+
+const BUCKET_LABELS: Record<AgingBucket, string> = {
+  current: "Current",
+  "1-30": "1-30 days",
+  "31-60": "31-60 days",
+  "61-90": "61-90 days",
+  "90+": "90+ days",
+};
+
+const BUCKET_COLORS: Record<AgingBucket, string> = {
+  current: "text-green-700",
+  "1-30": "text-yellow-700",
+  "31-60": "text-orange-700",
+  "61-90": "text-red-600",
+  "90+": "text-red-800",
+};
+
+export default function ReceivablesAgingTable({
+  propertyId,
+  providerId,
+}: ReceivablesAgingTableProps) {
+  const [report, setReport] = useState<ReceivablesAgingReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [groupBy, setGroupBy] = useState<"property" | "provider">("property");
+  const [drillDown, setDrillDown] = useState<{
+    entityId?: string;
+    entityName: string;
+    bucket?: AgingBucket;
+  } | null>(null);
+  const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
+
+  const fetchAging = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await getApi().getReceivablesAging({
+        propertyId,
+        providerId,
+      });
+      setReport(data);
+    } catch (error) {
+      console.error("Error fetching receivables aging:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [propertyId, providerId]);
+
+  useEffect(() => {
+    fetchAging();
+    setDrillDown(null);
+  }, [fetchAging]);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: report?.currency || "USD",
+    }).format(amount);
+  };
+
+  const openInvoice = async (invoiceId: string) => {
+    const invoice = await InvoiceService.getInvoiceById(invoiceId);
+    if (invoice) {
+      setSelectedInvoice(invoice);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="mb-8 bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center justify-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!report) return null;
+
+  const rows: ReceivablesAgingRow[] =
+    groupBy === "property" ? report.byProperty : report.byProvider;
+
+  const drillDownInvoices = drillDown
+    ? report.invoices.filter(
+        (invoice) =>
+          (!drillDown.entityId ||
+            (groupBy === "property"
+              ? invoice.propertyId === drillDown.entityId
+              : invoice.providerId === drillDown.entityId)) &&
+          (!drillDown.bucket || invoice.bucket === drillDown.bucket)
+      )
+    : [];
+
+  const renderAmount = (
+    amount: number,
+    entityName: string,
+    entityId?: string,
+    bucket?: AgingBucket
+  ) =>
+    amount > 0 ? (
+      <button
+        onClick={() => setDrillDown({ entityId, entityName, bucket })}
+        className={`hover:underline ${
+          bucket ? BUCKET_COLORS[bucket] : "text-gray-900 font-semibold"
+        }`}
+      >
+        {formatCurrency(amount)}
+      </button>
+    ) : (
+      <span className="text-gray-400">-</span>
+    );
+
+  return (
+    <div className="mb-8 bg-white rounded-lg shadow-sm border border-gray-200">
+      <div className="flex items-center justify-between p-6 border-b border-gray-200">
+        <div className="flex items-center">
+          <div className="p-2 bg-red-100 rounded-lg">
+            <Clock className="h-6 w-6 text-red-600" />
+          </div>
+          <div className="ml-4">
+            <h3 className="text-lg font-semibold text-gray-900">
+              Receivables Aging
+            </h3>
+            <p className="text-sm text-gray-600">
+              {formatCurrency(report.totalOutstanding)} outstanding,{" "}
+              {formatCurrency(report.overdueAmount)} past due as of{" "}
+              {new Date(report.asOf).toLocaleDateString()}
+            </p>
+          </div>
+        </div>
+        <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+          {(["property", "provider"] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => {
+                setGroupBy(option);
+                setDrillDown(null);
+              }}
+              className={`px-3 py-1 text-sm ${
+                groupBy === option
+                  ? "bg-blue-600 text-white"
+                  : "bg-white text-gray-700 hover:bg-gray-50"
+              }`}
+            >
+              By {option === "property" ? "Property" : "Provider"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-gray-500 text-center py-8">
+          No outstanding invoices.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {groupBy === "property" ? "Property" : "Provider"}
+                </th>
+                {AGING_BUCKETS.map((bucket) => (
+                  <th
+                    key={bucket}
+                    className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider"
+                  >
+                    {BUCKET_LABELS[bucket]}
+                  </th>
+                ))}
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Total
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rows.map((row) => (
+                <tr key={row.entityId} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    {row.entityName}
+                    <span className="ml-2 text-xs text-gray-500">
+                      ({row.invoiceCount})
+                    </span>
+                  </td>
+                  {AGING_BUCKETS.map((bucket) => (
+                    <td key={bucket} className="px-6 py-4 text-sm text-right">
+                      {renderAmount(
+                        row.buckets[bucket],
+                        row.entityName,
+                        row.entityId,
+                        bucket
+                      )}
+                    </td>
+                  ))}
+                  <td className="px-6 py-4 text-sm text-right">
+                    {renderAmount(row.total, row.entityName, row.entityId)}
+                  </td>
+                </tr>
+              ))}
+              <tr className="bg-gray-50 font-semibold">
+                <td className="px-6 py-4 text-sm text-gray-900">Total</td>
+                {AGING_BUCKETS.map((bucket) => (
+                  <td key={bucket} className="px-6 py-4 text-sm text-right">
+                    {renderAmount(
+                      report.totals[bucket],
+                      "All",
+                      undefined,
+                      bucket
+                    )}
+                  </td>
+                ))}
+                <td className="px-6 py-4 text-sm text-right">
+                  {renderAmount(report.totalOutstanding, "All")}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Drill-down */}
+      {drillDown && (
+        <div className="border-t border-gray-200 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h4 className="text-md font-semibold text-gray-900">
+              {drillDown.entityName} -{" "}
+              {drillDown.bucket ? BUCKET_LABELS[drillDown.bucket] : "All"} (
+              {drillDownInvoices.length} invoices)
+            </h4>
+            <button
+              onClick={() => setDrillDown(null)}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead>
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                  Invoice
+                </th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                  Property
+                </th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                  Provider
+                </th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                  Due Date
+                </th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                  Days Past Due
+                </th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                  Outstanding
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {drillDownInvoices.map((invoice) => (
+                <tr
+                  key={invoice.invoiceId}
+                  onClick={() => openInvoice(invoice.invoiceId)}
+                  className="hover:bg-gray-50 cursor-pointer"
+                >
+                  <td className="px-4 py-2 text-sm text-blue-600">
+                    {invoice.invoiceNumber}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-700">
+                    {invoice.propertyName}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-700">
+                    {invoice.providerName}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-700">
+                    {new Date(invoice.dueDate).toLocaleDateString()}
+                  </td>
+                  <td
+                    className={`px-4 py-2 text-sm text-right ${
+                      BUCKET_COLORS[invoice.bucket]
+                    }`}
+                  >
+                    {invoice.daysPastDue}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-right text-gray-900">
+                    {formatCurrency(invoice.outstanding)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <InvoiceDetailModal
+        invoice={selectedInvoice}
+        isOpen={!!selectedInvoice}
+        onClose={() => setSelectedInvoice(null)}
+      />
+    </div>
+  );
+}
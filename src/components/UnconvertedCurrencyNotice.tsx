@@ -0,0 +1,30 @@
+"use client";
+
+import { AlertTriangle } from "lucide-react";
+import Link from "next/link";
+import { CurrencyService } from "@/services/currencyService";
+
+/**
+ * Warns that report totals leave out amounts in currencies with no FX rate
+ * into the reporting currency. Render it after the report data has loaded.
+ */
+export default function UnconvertedCurrencyNotice() {
+  const currencies = CurrencyService.getUnconvertedCurrencies();
+  if (currencies.length === 0) return null;
+
+  return (
+    <div className="mb-6 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+      <div className="flex items-start gap-3 text-sm text-yellow-800">
+        <AlertTriangle size={16} className="mt-0.5 flex-shrink-0" />
+        <p>
+          Totals leave out amounts in {currencies.join(", ")}, as there is no
+          FX rate into {CurrencyService.getCachedReportingCurrency()}.{" "}
+          <Link href="/dashboard/settings" className="underline">
+            Add the rates in Settings
+          </Link>
+          .
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -68,17 +68,19 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
               setUserProfile(profile);
               setError(null);
             } else {
-              // Create default user profile with access to all properties (for development)
+              // Create a pending profile without access; an admin activates
+              // it and assigns the role and properties
               console.log("Creating default user profile for:", user.uid);
               const createResult = await UserService.createOrUpdateUserProfile(
                 user.uid,
                 {
                   email: user.email || "",
                   displayName: user.displayName || "",
-                  role: "admin", // Give admin access for development
-                  propertyIds: [], // Will be populated based on user's actual properties
-                  accessiblePropertyIds: [], // Will be populated based on user's access
-                  providerIds: [], // Will be populated based on user's providers
+                  role: "property_manager",
+                  status: "pending",
+                  propertyIds: [],
+                  accessiblePropertyIds: [],
+                  providerIds: [],
                 }
               );
 
@@ -2,79 +2,80 @@ import {
   Provider,
   Property,
   PeriodGranularity,
-  PropertyRankItem,
-  PropertyFinancialAggregate,
+  ReceivablesAgingReport,
+  InvoiceStatus,
+  CashFlowForecast,
+  CashFlowGranularity,
+  ComparisonParams,
+  FinancialQuery,
+  FinancialQueryResult,
+  PropertyFinancialsResponse,
+  ProviderFinancialsResponse,
+  CombinedFinancialsResponse,
 } from "@/types/float34";
+import { DataBackend, getDataBackend } from "@/repositories";
 import { InvoiceApi } from "./invoiceApi";
 
+// Listings and financials only cover the properties the signed-in user may
+// see, see ScopeService
 export interface Float34Api {
   listProviders(params?: {
     q?: string;
     propertyId?: string;
   }): Promise<Provider[]>;
   listProperties(): Promise<Property[]>;
+  // Typed query behind all financial reports
+  queryFinancials(query: FinancialQuery): Promise<FinancialQueryResult>;
   getPropertyFinancials(params: {
     propertyId?: string; // if omitted => all properties rolled-up list
     from: string; // ISO start
     to: string; // ISO end
     granularity: PeriodGranularity;
-  }): Promise<{
-    summary: {
-      revenue: number;
-      expenses?: number;
-      profit?: number;
-      marginPct?: number;
-      invoicesPaidPct?: number;
-    };
-    byProperty: PropertyRankItem[]; // ranked list
-    series?: PropertyFinancialAggregate[]; // one per property OR one (if propertyId specified)
-  }>;
+    compare?: ComparisonParams; // adds baseline figures and deltas
+  }): Promise<PropertyFinancialsResponse>;
   getServiceProviderFinancials(params: {
     providerId?: string; // if omitted => all providers rolled-up list
     from: string; // ISO start
     to: string; // ISO end
     granularity: PeriodGranularity;
-  }): Promise<{
-    summary: {
-      revenue: number;
-      expenses?: number;
-      profit?: number;
-      marginPct?: number;
-      invoicesPaidPct?: number;
-    };
-    byProvider: any[]; // ranked list
-    series?: any[]; // one per provider OR one (if providerId specified)
-  }>;
+    compare?: ComparisonParams; // adds baseline figures and deltas
+  }): Promise<ProviderFinancialsResponse>;
   // New method for combined filtering
   getCombinedFinancials(params: {
     propertyId?: string;
     providerId?: string;
+    status?: InvoiceStatus;
     from: string;
     to: string;
     granularity: PeriodGranularity;
-  }): Promise<{
-    summary: {
-      revenue: number;
-      expenses?: number;
-      profit?: number;
-      marginPct?: number;
-      invoicesPaidPct?: number;
-    };
-    byProperty: PropertyRankItem[];
-    byProvider: any[];
-    series?: any[];
-    combinedData?: {
-      propertyName: string;
-      providerName: string;
-      revenue: number;
-      profit?: number;
-      marginPct?: number;
-      invoicesPaidPct?: number;
-    }[];
-  }>;
+    compare?: ComparisonParams; // adds baseline figures and deltas
+  }): Promise<CombinedFinancialsResponse>;
+  getReceivablesAging(params?: {
+    asOf?: string; // ISO date ages are measured against, defaults to today
+    propertyId?: string;
+    providerId?: string;
+  }): Promise<ReceivablesAgingReport>;
+  getCashFlowForecast(params: {
+    granularity: CashFlowGranularity;
+    periods: number; // how many periods to project, starting with the current
+    asOf?: string; // ISO date the forecast starts from, defaults to today
+    propertyId?: string;
+    providerId?: string;
+  }): Promise<CashFlowForecast>;
 }
 
+let api: { backend: DataBackend; instance: Float34Api } | null = null;
+
+/**
+ * API for the configured data backend. InvoiceApi builds every report from
+ * the services, which read through the backend's repositories, so with
+ * NEXT_PUBLIC_DATA_BACKEND=local the dashboard runs on the local records
+ * without reaching Firebase.
+ */
 export function getApi(): Float34Api {
-  // Now using real invoice data from Firebase instead of mock data
-  return new InvoiceApi();
+  const backend = getDataBackend();
+  if (api?.backend !== backend) {
+    api = { backend, instance: new InvoiceApi() };
+  }
+  return api.instance;
 }
@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import {
+  ACTIONS,
+  AccessSubject,
+  can,
+  getLandingPath,
+  getPropertyScope,
+} from "../permissions";
+
+const admin: AccessSubject = { role: "admin", status: "active" };
+const manager: AccessSubject = {
+  role: "property_manager",
+  status: "active",
+  managedProperties: ["prop_1"],
+  accessiblePropertyIds: ["prop_2"],
+};
+const provider: AccessSubject = {
+  role: "service_provider",
+  status: "active",
+  providerId: "prov_1",
+};
+
+describe("can", () => {
+  it("lets admins do everything", () => {
+    ACTIONS.forEach((action) => {
+      expect(can(admin, action, { propertyId: "prop_9" })).toBe(true);
+    });
+  });
+
+  it("denies users without an active profile", () => {
+    expect(can(null, "invoice:read")).toBe(false);
+    expect(can(undefined, "invoice:read")).toBe(false);
+    expect(can({ ...admin, status: "pending" }, "invoice:read")).toBe(false);
+    expect(can({ ...admin, status: "inactive" }, "invoice:read")).toBe(false);
+  });
+
+  it("treats profiles without a status as active", () => {
+    expect(can({ role: "admin" }, "audit:read")).toBe(true);
+  });
+
+  it("limits managers to their properties", () => {
+    expect(can(manager, "invoice:approve", { propertyId: "prop_1" })).toBe(
+      true
+    );
+    expect(can(manager, "property:write", { propertyId: "prop_2" })).toBe(
+      true
+    );
+    expect(can(manager, "invoice:read", { propertyId: "prop_3" })).toBe(false);
+    expect(can(manager, "invoice:read", {})).toBe(false);
+    expect(can(manager, "payment:manage", { propertyId: "prop_1" })).toBe(
+      false
+    );
+    expect(can(manager, "property:create")).toBe(false);
+    expect(can(manager, "user:manage")).toBe(false);
+  });
+
+  it("limits providers to their own records", () => {
+    expect(can(provider, "invoice:create", { providerId: "prov_1" })).toBe(
+      true
+    );
+    expect(can(provider, "provider:write", { providerId: "prov_1" })).toBe(
+      true
+    );
+    expect(can(provider, "provider:write", { providerId: "prov_2" })).toBe(
+      false
+    );
+    expect(can(provider, "invoice:approve", { providerId: "prov_1" })).toBe(
+      false
+    );
+    expect(can(provider, "dashboard:view")).toBe(false);
+    expect(can(provider, "portal:view")).toBe(true);
+  });
+
+  it("grants scoped permissions without a resource, e.g. for menus", () => {
+    expect(can(manager, "invoice:read")).toBe(true);
+    expect(can(provider, "invoice:read")).toBe(true);
+    expect(can(provider, "property:read")).toBe(false);
+  });
+
+  it("does not match an empty provider id", () => {
+    expect(
+      can({ ...provider, providerId: "" }, "invoice:read", { providerId: "" })
+    ).toBe(false);
+  });
+});
+
+describe("getPropertyScope", () => {
+  it("does not scope admins", () => {
+    expect(getPropertyScope(admin)).toBeNull();
+    expect(getPropertyScope(admin, "analytics:read")).toBeNull();
+  });
+
+  it("limits managers to their managed and accessible properties", () => {
+    expect(getPropertyScope(manager)).toEqual(["prop_1", "prop_2"]);
+    expect(getPropertyScope(manager, "analytics:read")).toEqual([
+      "prop_1",
+      "prop_2",
+    ]);
+  });
+
+  it("gives nothing to users without the permission", () => {
+    expect(getPropertyScope(provider)).toEqual([]);
+    expect(getPropertyScope(manager, "audit:read")).toEqual([]);
+    expect(getPropertyScope({ ...admin, status: "inactive" })).toEqual([]);
+    expect(getPropertyScope(null)).toEqual([]);
+  });
+
+  it("does not scope providers' own records", () => {
+    expect(getPropertyScope(provider, "invoice:read", "prov_1")).toBeNull();
+    expect(getPropertyScope(provider, "invoice:read", "prov_2")).toEqual([]);
+    expect(getPropertyScope(manager, "invoice:read", "prov_1")).toEqual([
+      "prop_1",
+      "prop_2",
+    ]);
+  });
+});
+
+describe("getLandingPath", () => {
+  it("sends staff to the dashboard and providers to their portal", () => {
+    expect(getLandingPath(admin)).toBe("/dashboard/home");
+    expect(getLandingPath(manager)).toBe("/dashboard/home");
+    expect(getLandingPath(provider)).toBe("/dashboard/portal");
+  });
+
+  it("keeps unlinked and pending users on coming-soon", () => {
+    expect(getLandingPath({ ...provider, providerId: undefined })).toBe(
+      "/dashboard/coming-soon"
+    );
+    expect(getLandingPath({ ...provider, status: "pending" })).toBe(
+      "/dashboard/coming-soon"
+    );
+    expect(getLandingPath(null)).toBe("/dashboard/coming-soon");
+  });
+});
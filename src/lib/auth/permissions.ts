@@ -0,0 +1,143 @@
+import type { UserProfile } from "@/services/userService";
+
+// What a user can do, checked with can(). Mirrors firestore.rules, which
+// enforce the same model on the data itself; keep the two in step.
+
+export type Role = UserProfile["role"];
+
+export const ACTIONS = [
+  "dashboard:view",
+  "portal:view", // the service provider portal
+  "analytics:read",
+  "invoice:read",
+  "invoice:create",
+  "invoice:write",
+  "invoice:approve", // move invoices through statuses and credit them
+  "invoice:delete",
+  "payment:manage", // record and reverse payments
+  "property:read",
+  "property:create",
+  "property:write",
+  "property:delete",
+  "provider:read",
+  "provider:create",
+  "provider:write",
+  "provider:delete",
+  "user:manage", // assign roles, statuses and scopes
+  "audit:read",
+  "settings:manage",
+] as const;
+
+export type Action = (typeof ACTIONS)[number];
+
+// A scoped permission only applies to records in the user's scope: the
+// properties they manage, or their own service provider.
+export type Permission = Action | `${Action}-scoped`;
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [...ACTIONS],
+  property_manager: [
+    "dashboard:view",
+    "analytics:read-scoped",
+    "invoice:read-scoped",
+    "invoice:create-scoped",
+    "invoice:write-scoped",
+    "invoice:approve-scoped",
+    "property:read-scoped",
+    "property:write-scoped",
+    "provider:read",
+  ],
+  service_provider: [
+    "portal:view",
+    "invoice:read-scoped",
+    "invoice:create-scoped",
+    "invoice:write-scoped",
+    "provider:read-scoped",
+    "provider:write-scoped",
+  ],
+};
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: "Administrator",
+  property_manager: "Property Manager",
+  service_provider: "Service Provider",
+};
+
+export type AccessSubject = Pick<UserProfile, "role"> &
+  Partial<
+    Pick<
+      UserProfile,
+      "status" | "managedProperties" | "accessiblePropertyIds" | "providerId"
+    >
+  >;
+
+// The record acted on: its property and provider, where it has them
+export type AccessResource = {
+  propertyId?: string;
+  providerId?: string;
+};
+
+/**
+ * Whether the user may perform the action on the resource. Without a
+ * resource, whether they may perform it on any record at all, e.g. to show
+ * a menu item. Users who are not active have no permissions.
+ */
+export function can(
+  user: AccessSubject | null | undefined,
+  action: Action,
+  resource?: AccessResource
+): boolean {
+  // Profiles without a status predate it and count as active
+  if (!user || (user.status && user.status !== "active")) return false;
+
+  const permissions = ROLE_PERMISSIONS[user.role] || [];
+  if (permissions.includes(action)) return true;
+  if (!permissions.includes(`${action}-scoped`)) return false;
+  return !resource || isInScope(user, resource);
+}
+
+/**
+ * Property ids a user's scoped permissions cover
+ */
+export function getScopedPropertyIds(user: AccessSubject): string[] {
+  return [
+    ...(user.managedProperties || []),
+    ...(user.accessiblePropertyIds || []),
+  ];
+}
+
+/**
+ * Property ids the user's listings for an action are limited to, or null
+ * when their role may perform it on every property. Listings of one
+ * provider's records are not limited for that provider's own users.
+ */
+export function getPropertyScope(
+  user: AccessSubject | null | undefined,
+  action: Action = "property:read",
+  providerId?: string
+): string[] | null {
+  if (!user || !can(user, action)) return [];
+  if ((ROLE_PERMISSIONS[user.role] || []).includes(action)) return null;
+  if (providerId && can(user, action, { providerId })) return null;
+  return Array.from(new Set(getScopedPropertyIds(user)));
+}
+
+/**
+ * Where a signed-in user starts: the dashboard, the provider portal once
+ * their account is linked to a provider, or the waiting page
+ */
+export function getLandingPath(
+  user: AccessSubject | null | undefined
+): string {
+  if (can(user, "dashboard:view")) return "/dashboard/home";
+  if (can(user, "portal:view") && user?.providerId) return "/dashboard/portal";
+  return "/dashboard/coming-soon";
+}
+
+function isInScope(user: AccessSubject, resource: AccessResource): boolean {
+  return (
+    (!!resource.propertyId &&
+      getScopedPropertyIds(user).includes(resource.propertyId)) ||
+    (!!resource.providerId && resource.providerId === user.providerId)
+  );
+}
@@ -0,0 +1,72 @@
+import { App, getApps, initializeApp } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { getFirestore } from "firebase-admin/firestore";
+import type { UserProfile } from "@/services/userService";
+import { EMULATOR_PROJECT_ID, PROJECT_ID } from "@/lib/firebase/project";
+import { AccessSubject } from "./permissions";
+
+// Server only. Credentials come from the environment
+// (GOOGLE_APPLICATION_CREDENTIALS or the hosting platform's service
+// account); with the emulators none are needed.
+
+export type RequestUser = {
+  uid: string;
+  profile: AccessSubject | null;
+};
+
+/**
+ * Firebase Admin app, pointed at the emulators when the client is
+ */
+export function getAdminApp(): App {
+  const existing = getApps()[0];
+  if (existing) return existing;
+
+  if (process.env.NEXT_PUBLIC_USE_FIREBASE_EMULATORS === "true") {
+    const host = process.env.NEXT_PUBLIC_FIREBASE_EMULATOR_HOST || "localhost";
+    process.env.FIREBASE_AUTH_EMULATOR_HOST ||= `${host}:${
+      process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_PORT || 9099
+    }`;
+    process.env.FIRESTORE_EMULATOR_HOST ||= `${host}:${
+      process.env.NEXT_PUBLIC_FIRESTORE_EMULATOR_PORT || 8080
+    }`;
+    return initializeApp({ projectId: EMULATOR_PROJECT_ID });
+  }
+  return initializeApp({ projectId: PROJECT_ID });
+}
+
+/**
+ * The signed-in user making a request, from the Firebase ID token in its
+ * "Authorization: Bearer" header, with their profile. Null when the token
+ * is missing, expired or forged.
+ */
+export async function getRequestUser(
+  request: Request
+): Promise<RequestUser | null> {
+  const token = /^Bearer (.+)$/.exec(
+    request.headers.get("authorization") || ""
+  )?.[1];
+  if (!token) return null;
+
+  try {
+    const app = getAdminApp();
+    const decoded = await getAuth(app).verifyIdToken(token);
+    const snapshot = await getFirestore(app)
+      .doc(`users/${decoded.uid}`)
+      .get();
+    const profile = snapshot.exists
+      ? (snapshot.data() as UserProfile)
+      : null;
+
+    // The admin custom claim counts as the admin role, as in firestore.rules
+    if (decoded.role === "admin") {
+      return {
+        uid: decoded.uid,
+        profile: { ...profile, role: "admin", status: "active" },
+      };
+    }
+    return { uid: decoded.uid, profile };
+  } catch (error) {
+    console.warn("⚠️ Rejected request with an invalid ID token:", error);
+    return null;
+  }
+}
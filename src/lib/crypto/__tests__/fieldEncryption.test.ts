@@ -0,0 +1,187 @@
+import { describe, expect, it } from "vitest";
+import {
+  decryptField,
+  encryptField,
+  encryptForStorage,
+  getKeyring,
+  isEncrypted,
+  isLegacyEncoded,
+  needsRotation,
+} from "../fieldEncryption";
+import {
+  hasProviderSecrets,
+  mapProviderSecrets,
+  ProviderSecrets,
+} from "../providerSecrets";
+
+const KEY_1 = Buffer.alloc(32, 1).toString("base64");
+const KEY_2 = Buffer.alloc(32, 2).toString("base64");
+
+const keyring = getKeyring({ FIELD_ENCRYPTION_KEYS: `1:${KEY_1}` });
+const rotatedKeyring = getKeyring({
+  FIELD_ENCRYPTION_KEYS: `1:${KEY_1},2:${KEY_2}`,
+});
+
+describe("fieldEncryption", () => {
+  describe("getKeyring", () => {
+    it("uses the highest version unless one is configured", () => {
+      expect(rotatedKeyring.currentVersion).toBe(2);
+      expect(
+        getKeyring({
+          FIELD_ENCRYPTION_KEYS: `1:${KEY_1},2:${KEY_2}`,
+          FIELD_ENCRYPTION_KEY_VERSION: "1",
+        }).currentVersion
+      ).toBe(1);
+    });
+
+    it("rejects missing, short and unknown keys", () => {
+      expect(() => getKeyring({})).toThrow("not configured");
+      expect(() =>
+        getKeyring({ FIELD_ENCRYPTION_KEYS: "1:c2hvcnQ=" })
+      ).toThrow("32 bytes");
+      expect(() =>
+        getKeyring({
+          FIELD_ENCRYPTION_KEYS: `1:${KEY_1}`,
+          FIELD_ENCRYPTION_KEY_VERSION: "3",
+        })
+      ).toThrow("version 3");
+    });
+  });
+
+  describe("encryptField", () => {
+    it("round-trips values under a fresh IV each time", () => {
+      const first = encryptField("4111-2222 ü", keyring);
+      const second = encryptField("4111-2222 ü", keyring);
+
+      expect(first).toMatch(/^enc:v1:/);
+      expect(first).not.toBe(second);
+      expect(isEncrypted(first)).toBe(true);
+      expect(decryptField(first, keyring)).toBe("4111-2222 ü");
+      expect(decryptField(second, keyring)).toBe("4111-2222 ü");
+    });
+
+    it("detects tampered ciphertext", () => {
+      const parts = encryptField("123456789", keyring).split(":");
+      const ciphertext = Buffer.from(parts[4], "base64");
+      ciphertext[0] ^= 1;
+      parts[4] = ciphertext.toString("base64");
+
+      expect(() => decryptField(parts.join(":"), keyring)).toThrow();
+    });
+
+    it("fails without the key the value was encrypted with", () => {
+      const value = encryptField("123456789", rotatedKeyring);
+      expect(() => decryptField(value, keyring)).toThrow("version 2");
+    });
+  });
+
+  describe("legacy values", () => {
+    it("detects and decodes the old base64 encoding", () => {
+      expect(isLegacyEncoded(legacy("sk_live_abc/123"))).toBe(true);
+      expect(decryptField(legacy("sk_live_abc/123"), keyring)).toBe(
+        "sk_live_abc/123"
+      );
+    });
+
+    it("stores the decoded secret when a legacy value is saved again", () => {
+      const stored = encryptForStorage(legacy("021000021"), keyring);
+
+      expect(isEncrypted(stored)).toBe(true);
+      expect(decryptField(stored, keyring)).toBe("021000021");
+      expect(needsRotation(stored, keyring)).toBe(false);
+      expect(encryptForStorage(stored, keyring)).toBe(stored);
+      expect(
+        decryptField(encryptForStorage("sk_live_abc", keyring), keyring)
+      ).toBe("sk_live_abc");
+    });
+
+    it("leaves plain and encrypted values alone", () => {
+      expect(isLegacyEncoded("sk_live_abc/123")).toBe(false);
+      expect(isLegacyEncoded(encryptField("123", keyring))).toBe(false);
+      expect(decryptField("sk_live_abc/123", keyring)).toBe("sk_live_abc/123");
+    });
+  });
+
+  describe("needsRotation", () => {
+    it("flags legacy, plain and old-key values", () => {
+      expect(needsRotation(legacy("123456789"), rotatedKeyring)).toBe(true);
+      expect(needsRotation("123456789", rotatedKeyring)).toBe(true);
+      expect(
+        needsRotation(encryptField("123456789", keyring), rotatedKeyring)
+      ).toBe(true);
+      expect(
+        needsRotation(encryptField("123456789", rotatedKeyring), rotatedKeyring)
+      ).toBe(false);
+    });
+
+    it("keeps values readable after re-encrypting under the new key", () => {
+      const old = encryptField("021000021", keyring);
+      const rotated = encryptField(
+        decryptField(old, rotatedKeyring),
+        rotatedKeyring
+      );
+
+      expect(rotated).toMatch(/^enc:v2:/);
+      expect(decryptField(rotated, rotatedKeyring)).toBe("021000021");
+    });
+  });
+});
+
+describe("providerSecrets", () => {
+  const financialDetails = {
+    paymentMethods: [],
+    taxRate: 15,
+    currency: "USD",
+    paymentTerms: 30,
+  };
+  const provider: ProviderSecrets = {
+    apiConnections: {
+      quickbooks: {
+        apiKey: "key",
+        apiSecret: "secret",
+        endpoint: "https://quickbooks.example.com",
+        isActive: true,
+        syncStatus: "success",
+      },
+    },
+    financialDetails: {
+      ...financialDetails,
+      bankAccount: {
+        accountNumber: "123456789",
+        routingNumber: "021000021",
+        accountType: "checking",
+        bankName: "First Bank",
+      },
+    },
+  };
+
+  it("transforms only the secret values", () => {
+    const mapped = mapProviderSecrets(provider, (value) => `x-${value}`);
+
+    expect(mapped.apiConnections?.quickbooks).toEqual({
+      ...provider.apiConnections?.quickbooks,
+      apiKey: "x-key",
+      apiSecret: "x-secret",
+    });
+    expect(mapped.financialDetails).toEqual({
+      ...financialDetails,
+      bankAccount: {
+        accountNumber: "x-123456789",
+        routingNumber: "x-021000021",
+        accountType: "checking",
+        bankName: "First Bank",
+      },
+    });
+    expect(provider.apiConnections?.quickbooks.apiKey).toBe("key");
+  });
+
+  it("knows when a provider has no secrets", () => {
+    expect(hasProviderSecrets(provider)).toBe(true);
+    expect(hasProviderSecrets({ financialDetails })).toBe(false);
+  });
+});
+
+// What the old DataEncryption stored
+function legacy(value: string) {
+  return Buffer.from(encodeURIComponent(value)).toString("base64");
+}
@@ -0,0 +1,154 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+
+// Server only: the keys must never reach the browser bundle.
+//
+// Values are stored as "enc:v<version>:<iv>:<tag>:<ciphertext>" (base64
+// parts), encrypted with AES-256-GCM under the numbered key. Keys are set
+// with FIELD_ENCRYPTION_KEYS, e.g. "1:<base64>,2:<base64>", each 32 random
+// bytes (`openssl rand -base64 32`). New values use
+// FIELD_ENCRYPTION_KEY_VERSION, or the highest version. Keep old keys
+// configured until every value has been rotated off them.
+
+const PREFIX = "enc";
+const ALGORITHM = "aes-256-gcm";
+const IV_BYTES = 12;
+
+export type Keyring = {
+  keys: Map<number, Buffer>;
+  currentVersion: number;
+};
+
+/**
+ * Keys configured in the environment. Throws when they are missing or
+ * malformed, so nothing is ever stored unencrypted.
+ */
+export function getKeyring(
+  env: Record<string, string | undefined> = process.env
+): Keyring {
+  const keys = new Map<number, Buffer>();
+  (env.FIELD_ENCRYPTION_KEYS || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .forEach((entry) => {
+      const [version, key] = entry.split(":");
+      const bytes = Buffer.from(key || "", "base64");
+      if (!/^\d+$/.test(version) || bytes.length !== 32) {
+        throw new Error(
+          "FIELD_ENCRYPTION_KEYS entries must be <version>:<32 bytes base64>"
+        );
+      }
+      keys.set(Number(version), bytes);
+    });
+  if (keys.size === 0) {
+    throw new Error("FIELD_ENCRYPTION_KEYS is not configured");
+  }
+
+  const currentVersion = env.FIELD_ENCRYPTION_KEY_VERSION
+    ? Number(env.FIELD_ENCRYPTION_KEY_VERSION)
+    : Math.max(...keys.keys());
+  if (!keys.has(currentVersion)) {
+    throw new Error(`No encryption key with version ${currentVersion}`);
+  }
+  return { keys, currentVersion };
+}
+
+export function encryptField(value: string, keyring: Keyring): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(
+    ALGORITHM,
+    keyring.keys.get(keyring.currentVersion)!,
+    iv
+  );
+  const ciphertext = Buffer.concat([
+    cipher.update(value, "utf8"),
+    cipher.final(),
+  ]);
+  return [
+    PREFIX,
+    `v${keyring.currentVersion}`,
+    iv.toString("base64"),
+    cipher.getAuthTag().toString("base64"),
+    ciphertext.toString("base64"),
+  ].join(":");
+}
+
+/**
+ * Plain value of a stored field. Legacy base64 values are decoded and
+ * anything else unencrypted is returned as is. Throws when the value was
+ * tampered with or its key is not configured.
+ */
+export function decryptField(value: string, keyring: Keyring): string {
+  const parsed = parseEncrypted(value);
+  if (!parsed) return decodeLegacy(value) ?? value;
+
+  const key = keyring.keys.get(parsed.version);
+  if (!key) {
+    throw new Error(`No encryption key with version ${parsed.version}`);
+  }
+  const decipher = createDecipheriv(ALGORITHM, key, parsed.iv);
+  decipher.setAuthTag(parsed.tag);
+  return Buffer.concat([
+    decipher.update(parsed.ciphertext),
+    decipher.final(),
+  ]).toString("utf8");
+}
+
+/**
+ * Value to store for a secret saved by a user. Values read back already
+ * encrypted are kept; legacy values are decoded first, so the secret and
+ * not its old encoding is encrypted.
+ */
+export function encryptForStorage(value: string, keyring: Keyring): string {
+  if (isEncrypted(value)) return value;
+  return encryptField(decryptField(value, keyring), keyring);
+}
+
+/**
+ * Whether a stored value should be re-encrypted: legacy or plain values,
+ * and values under an older key
+ */
+export function needsRotation(value: string, keyring: Keyring): boolean {
+  return parseEncrypted(value)?.version !== keyring.currentVersion;
+}
+
+export function isEncrypted(value: string): boolean {
+  return parseEncrypted(value) !== null;
+}
+
+/**
+ * Whether a value was written by the old DataEncryption, which stored
+ * btoa(encodeURIComponent(value))
+ */
+export function isLegacyEncoded(value: string): boolean {
+  return decodeLegacy(value) !== null;
+}
+
+function decodeLegacy(value: string): string | null {
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(value) || value.length % 4 !== 0) {
+    return null;
+  }
+  const decoded = Buffer.from(value, "base64").toString("latin1");
+  // encodeURIComponent output is plain ASCII
+  if (!/^[A-Za-z0-9\-_.!~*'()%]*$/.test(decoded)) return null;
+  try {
+    const plain = decodeURIComponent(decoded);
+    // Only what the old encoder could have produced
+    return encodeURIComponent(plain) === decoded ? plain : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseEncrypted(value: string) {
+  const parts = value.split(":");
+  if (parts.length !== 5 || parts[0] !== PREFIX) return null;
+  const version = /^v(\d+)$/.exec(parts[1]);
+  if (!version) return null;
+  return {
+    version: Number(version[1]),
+    iv: Buffer.from(parts[2], "base64"),
+    tag: Buffer.from(parts[3], "base64"),
+    ciphertext: Buffer.from(parts[4], "base64"),
+  };
+}
@@ -0,0 +1,101 @@
+import { Provider } from "@/types/float34";
+
+// The parts of a provider holding secrets: API credentials and bank details
+export type ProviderSecrets = Pick<
+  Partial<Provider>,
+  "apiConnections" | "financialDetails"
+>;
+
+export type ProviderSecretsAction = "encrypt" | "decrypt" | "rotate";
+
+export type ProviderSecretsRequest =
+  | { action: "encrypt" | "rotate"; providers: ProviderSecrets[] }
+  // Decrypts what is stored on these providers
+  | { action: "decrypt"; providerIds: string[] };
+
+// Stands in for secret values that must not be shown or logged
+export const REDACTED_SECRET = "[redacted]";
+
+export type ProviderSecretsResponse = {
+  providers: ProviderSecrets[];
+  changed: boolean[]; // rotate: whether each provider was re-encrypted
+  legacyValues: number; // rotate: base64 values upgraded
+};
+
+/**
+ * Secret-bearing fields of a provider, or null when it has none
+ */
+export function pickProviderSecrets(
+  provider: ProviderSecrets
+): ProviderSecrets | null {
+  const secrets: ProviderSecrets = {};
+  if (provider.apiConnections) secrets.apiConnections = provider.apiConnections;
+  if (provider.financialDetails) {
+    secrets.financialDetails = provider.financialDetails;
+  }
+  return hasProviderSecrets(secrets) ? secrets : null;
+}
+
+/**
+ * Copy of the secrets with every secret value redacted, e.g. for the
+ * audit log
+ */
+export function redactProviderSecrets<T extends ProviderSecrets>(
+  provider: T
+): T {
+  return mapProviderSecrets(provider, () => REDACTED_SECRET);
+}
+
+/**
+ * Whether any API key, API secret, account or routing number is set
+ */
+export function hasProviderSecrets(provider: ProviderSecrets): boolean {
+  let found = false;
+  mapProviderSecrets(provider, (value) => {
+    found = true;
+    return value;
+  });
+  return found;
+}
+
+/**
+ * Copy of the secrets with every secret value passed through transform
+ */
+export function mapProviderSecrets<T extends ProviderSecrets>(
+  provider: T,
+  transform: (value: string) => string
+): T {
+  const mapped = { ...provider };
+
+  if (provider.apiConnections) {
+    mapped.apiConnections = Object.fromEntries(
+      Object.entries(provider.apiConnections).map(([name, connection]) => [
+        name,
+        {
+          ...connection,
+          apiKey: connection.apiKey && transform(connection.apiKey),
+          ...(connection.apiSecret && {
+            apiSecret: transform(connection.apiSecret),
+          }),
+        },
+      ])
+    );
+  }
+
+  const financialDetails = provider.financialDetails;
+  const bankAccount = financialDetails?.bankAccount;
+  if (financialDetails && bankAccount) {
+    mapped.financialDetails = {
+      ...financialDetails,
+      bankAccount: {
+        ...bankAccount,
+        accountNumber:
+          bankAccount.accountNumber && transform(bankAccount.accountNumber),
+        routingNumber:
+          bankAccount.routingNumber && transform(bankAccount.routingNumber),
+      },
+    };
+  }
+
+  return mapped;
+}
@@ -0,0 +1,213 @@
+import { Float34Api, getApi } from "@/lib/api";
+import { InvoiceStatus, PeriodGranularity } from "@/types/float34";
+import { saveBlob } from "../download";
+import {
+  CSV_MIME_TYPE,
+  ExportColumn,
+  ExportSheet,
+  toCsv,
+  toXlsx,
+} from "./spreadsheet";
+
+export type ExportFormat = "csv" | "xlsx";
+
+export type CombinedFinancials = Awaited<
+  ReturnType<Float34Api["getCombinedFinancials"]>
+>;
+
+export interface FinancialReportFilters {
+  from: string;
+  to: string;
+  granularity: PeriodGranularity;
+  propertyId?: string;
+  providerId?: string;
+  status?: InvoiceStatus;
+}
+
+export interface FinancialReportExport {
+  filters: FinancialReportFilters;
+  generatedAt: string;
+  currency: string;
+  propertyName?: string;
+  providerName?: string;
+  data: CombinedFinancials;
+}
+
+// Shared by every table with per-entity metrics
+const METRIC_COLUMNS: ExportColumn[] = [
+  { header: "Revenue", format: "currency" },
+  { header: "Expenses", format: "currency" },
+  { header: "Profit", format: "currency" },
+  { header: "Margin %", format: "percent" },
+  { header: "Invoices Paid %", format: "percent" },
+  { header: "Currency", format: "text" },
+];
+
+interface MetricRow {
+  revenue?: number;
+  expenses?: number;
+  profit?: number;
+  marginPct?: number;
+  invoicesPaidPct?: number;
+}
+
+/**
+ * Load everything the export needs for the selected filters
+ */
+export async function loadFinancialReport(
+  filters: FinancialReportFilters
+): Promise<FinancialReportExport> {
+  const api = getApi();
+  const [data, properties, providers] = await Promise.all([
+    api.getCombinedFinancials(filters),
+    filters.propertyId ? api.listProperties() : Promise.resolve([]),
+    filters.providerId ? api.listProviders() : Promise.resolve([]),
+  ]);
+
+  return {
+    filters,
+    generatedAt: new Date().toISOString(),
+    currency: data.summary.currency || "USD",
+    propertyName: properties.find((p) => p.id === filters.propertyId)?.name,
+    providerName: providers.find((p) => p.id === filters.providerId)?.name,
+    data,
+  };
+}
+
+/**
+ * Tables in the export: filters, summary, by property, by provider,
+ * time series and the property x provider breakdown
+ */
+export function buildFinancialReportSheets(
+  report: FinancialReportExport
+): ExportSheet[] {
+  const { data, filters, currency } = report;
+  const metrics = (row: MetricRow) => [
+    row.revenue ?? 0,
+    row.expenses,
+    row.profit,
+    row.marginPct,
+    row.invoicesPaidPct,
+    currency,
+  ];
+
+  return [
+    {
+      name: "Filters",
+      columns: [
+        { header: "Filter", format: "text" },
+        { header: "Value", format: "text" },
+      ],
+      rows: [
+        ["From", filters.from || "All"],
+        ["To", filters.to || "All"],
+        ["Granularity", filters.granularity],
+        ["Property", report.propertyName || filters.propertyId || "All"],
+        ["Provider", report.providerName || filters.providerId || "All"],
+        ["Status", filters.status || "All"],
+        ["Reporting Currency", currency],
+        ["Generated", report.generatedAt],
+      ],
+    },
+    {
+      name: "Summary",
+      columns: METRIC_COLUMNS,
+      rows: [metrics(data.summary)],
+    },
+    {
+      name: "By Property",
+      columns: [{ header: "Property", format: "text" }, ...METRIC_COLUMNS],
+      rows: data.byProperty.map((row) => [row.propertyName, ...metrics(row)]),
+    },
+    {
+      name: "By Provider",
+      columns: [
+        { header: "Provider", format: "text" },
+        { header: "Service", format: "text" },
+        ...METRIC_COLUMNS,
+      ],
+      rows: data.byProvider.map((row) => [
+        row.providerName,
+        row.service,
+        ...metrics(row),
+      ]),
+    },
+    {
+      name: "Time Series",
+      columns: [
+        { header: "Period", format: "text" },
+        { header: "Property", format: "text" },
+        { header: "Revenue", format: "currency" },
+        { header: "Expenses", format: "currency" },
+        { header: "Profit", format: "currency" },
+        { header: "Currency", format: "text" },
+      ],
+      rows: (data.series || [])
+        .flatMap((entity) =>
+          (entity.trend || []).map((point) => [
+            point.label,
+            entity.propertyName,
+            point.revenue,
+            point.expenses,
+            point.profit,
+            entity.currency || currency,
+          ])
+        )
+        .sort((a, b) => String(a[0]).localeCompare(String(b[0]))),
+    },
+    {
+      name: "Property x Provider",
+      columns: [
+        { header: "Property", format: "text" },
+        { header: "Provider", format: "text" },
+        ...METRIC_COLUMNS,
+      ],
+      rows: (data.combinedData || []).map((row) => [
+        row.propertyName,
+        row.providerName,
+        ...metrics(row),
+      ]),
+    },
+  ];
+}
+
+/**
+ * Load, serialise and download the financial report for the selected filters
+ */
+export async function exportFinancialReport(
+  filters: FinancialReportFilters,
+  format: ExportFormat,
+  filenamePrefix = "financial-report"
+): Promise<void> {
+  const sheets = buildFinancialReportSheets(
+    await loadFinancialReport(filters)
+  );
+  const blob =
+    format === "xlsx"
+      ? await toXlsx(sheets)
+      : new Blob([toCsv(sheets)], { type: CSV_MIME_TYPE });
+  const range =
+    filters.from && filters.to ? `-${filters.from}-to-${filters.to}` : "";
+
+  saveBlob(blob, `${filenamePrefix}${range}.${format}`);
+}
+
+/**
+ * Date range for the year/month dropdowns used on the report pages. A month
+ * without a year spans several ranges, so the fallback range is used.
+ */
+export function getYearMonthRange(
+  year: string,
+  month: string,
+  fallback: { from: string; to: string }
+): { from: string; to: string } {
+  if (year === "all") return fallback;
+
+  const y = Number(year);
+  if (month === "all") return { from: `${y}-01-01`, to: `${y}-12-31` };
+
+  const m = Number(month);
+  const lastDay = new Date(Date.UTC(y, m, 0)).getUTCDate();
+  const mm = String(m).padStart(2, "0");
+  return { from: `${y}-${mm}-01`, to: `${y}-${mm}-${lastDay}` };
+}
@@ -0,0 +1,286 @@
+import JSZip from "jszip";
+
+export type ExportColumnFormat = "text" | "currency" | "percent" | "integer";
+
+export interface ExportColumn {
+  header: string;
+  format: ExportColumnFormat;
+}
+
+export type ExportCell = string | number | null | undefined;
+
+export interface ExportSheet {
+  name: string;
+  columns: ExportColumn[];
+  rows: ExportCell[][];
+}
+
+export const CSV_MIME_TYPE = "text/csv;charset=utf-8";
+export const XLSX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+/**
+ * Serialise sheets into one CSV document. Each sheet becomes a titled section
+ * separated by a blank line. Percentages are written as percentage points,
+ * e.g. 12.5 for 12.5%.
+ */
+export function toCsv(sheets: ExportSheet[]): string {
+  const lines: string[] = [];
+
+  sheets.forEach((sheet, index) => {
+    if (index > 0) lines.push("");
+    if (sheets.length > 1) lines.push(escapeCsv(sheet.name));
+    lines.push(
+      sheet.columns.map((column) => escapeCsv(column.header)).join(",")
+    );
+    sheet.rows.forEach((row) => {
+      lines.push(
+        sheet.columns
+          .map((column, col) => formatCsvCell(row[col], column.format))
+          .join(",")
+      );
+    });
+  });
+
+  // RFC 4180 line endings; the BOM lets Excel detect UTF-8
+  return "\uFEFF" + lines.join("\r\n") + "\r\n";
+}
+
+/**
+ * Serialise sheets into an XLSX workbook, one worksheet per sheet, with
+ * number formats applied per column
+ */
+export async function toXlsx(sheets: ExportSheet[]): Promise<Blob> {
+  const zip = new JSZip();
+  const names = getSheetNames(sheets);
+  // Folder entries are not part of the package format
+  const add = (path: string, content: string) =>
+    zip.file(path, content, { createFolders: false });
+
+  add(
+    "[Content_Types].xml",
+    xml(
+      `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+        `<Default Extension="xml" ContentType="application/xml"/>` +
+        `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+        `<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>` +
+        sheets
+          .map(
+            (_, index) =>
+              `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+          )
+          .join("") +
+        `</Types>`
+    )
+  );
+  add(
+    "_rels/.rels",
+    xml(
+      `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>` +
+        `</Relationships>`
+    )
+  );
+  add(
+    "xl/workbook.xml",
+    xml(
+      `<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>` +
+        names
+          .map(
+            (name, index) =>
+              `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`
+          )
+          .join("") +
+        `</sheets></workbook>`
+    )
+  );
+  add(
+    "xl/_rels/workbook.xml.rels",
+    xml(
+      `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        sheets
+          .map(
+            (_, index) =>
+              `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+          )
+          .join("") +
+        `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+        `</Relationships>`
+    )
+  );
+  add("xl/styles.xml", xml(STYLES));
+  sheets.forEach((sheet, index) => {
+    add(`xl/worksheets/sheet${index + 1}.xml`, renderWorksheet(sheet));
+  });
+
+  return zip.generateAsync({
+    type: "blob",
+    mimeType: XLSX_MIME_TYPE,
+    compression: "DEFLATE",
+  });
+}
+
+// Cell style indexes into cellXfs below. Number formats use the built-in ids:
+// 1 = "0", 4 = "#,##0.00", 10 = "0.00%".
+const STYLE = {
+  text: 0,
+  header: 1,
+  currency: 2,
+  percent: 3,
+  integer: 4,
+} as const;
+
+const STYLES =
+  `<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+  `<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font>` +
+  `<font><b/><sz val="11"/><name val="Calibri"/></font></fonts>` +
+  `<fills count="2"><fill><patternFill patternType="none"/></fill>` +
+  `<fill><patternFill patternType="gray125"/></fill></fills>` +
+  `<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>` +
+  `<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>` +
+  `<cellXfs count="5">` +
+  `<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>` +
+  `<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>` +
+  `<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>` +
+  `<xf numFmtId="10" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>` +
+  `<xf numFmtId="1" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>` +
+  `</cellXfs></styleSheet>`;
+
+function renderWorksheet(sheet: ExportSheet): string {
+  const widths = sheet.columns.map((column, col) =>
+    Math.min(
+      60,
+      Math.max(
+        column.header.length,
+        ...sheet.rows.map(
+          (row) => formatCsvCell(row[col], column.format).length
+        )
+      ) + 2
+    )
+  );
+
+  const headerRow =
+    `<row r="1">` +
+    sheet.columns
+      .map((column, col) =>
+        inlineString(cellRef(col, 1), column.header, STYLE.header)
+      )
+      .join("") +
+    `</row>`;
+
+  const bodyRows = sheet.rows
+    .map((row, index) => {
+      const rowNumber = index + 2;
+      const cells = sheet.columns
+        .map((column, col) => {
+          const value = row[col];
+          const ref = cellRef(col, rowNumber);
+          if (value === null || value === undefined || value === "") {
+            return "";
+          }
+          if (column.format === "text" || typeof value === "string") {
+            return inlineString(ref, String(value), STYLE.text);
+          }
+          if (!Number.isFinite(value)) return "";
+          // Percent columns hold percentage points; Excel expects fractions
+          const stored = column.format === "percent" ? value / 100 : value;
+          const style = STYLE[column.format];
+          return `<c r="${ref}" s="${style}"><v>${stored}</v></c>`;
+        })
+        .join("");
+      return `<row r="${rowNumber}">${cells}</row>`;
+    })
+    .join("");
+
+  return xml(
+    `<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+      `<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>` +
+      `<cols>` +
+      widths
+        .map(
+          (width, col) =>
+            `<col min="${col + 1}" max="${col + 1}" width="${width}" customWidth="1"/>`
+        )
+        .join("") +
+      `</cols>` +
+      `<sheetData>${headerRow}${bodyRows}</sheetData>` +
+      `</worksheet>`
+  );
+}
+
+function formatCsvCell(value: ExportCell, format: ExportColumnFormat): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "string") return escapeCsv(value);
+  if (!Number.isFinite(value)) return "";
+
+  switch (format) {
+    case "currency":
+    case "percent":
+      return value.toFixed(2);
+    case "integer":
+      return String(Math.round(value));
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Quote a CSV field when needed. Text that a spreadsheet would read as a
+ * formula is prefixed with an apostrophe.
+ */
+function escapeCsv(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) || safe !== safe.trim()
+    ? `"${safe.replace(/"/g, '""')}"`
+    : safe;
+}
+
+function inlineString(ref: string, value: string, style: number): string {
+  const styleAttr = style ? ` s="${style}"` : "";
+  return `<c r="${ref}" t="inlineStr"${styleAttr}><is><t xml:space="preserve">${escapeXml(
+    value
+  )}</t></is></c>`;
+}
+
+/**
+ * Worksheet names must be unique, at most 31 characters and free of []:*?/\
+ */
+function getSheetNames(sheets: ExportSheet[]): string[] {
+  const used = new Set<string>();
+  return sheets.map((sheet, index) => {
+    const base =
+      sheet.name.replace(/[[\]:*?/\\]/g, " ").trim().slice(0, 31) ||
+      `Sheet${index + 1}`;
+    let name = base;
+    for (let copy = 2; used.has(name.toLowerCase()); copy++) {
+      name = `${base.slice(0, 31 - String(copy).length - 1)} ${copy}`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+function cellRef(col: number, row: number): string {
+  let letters = "";
+  for (let n = col + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return `${letters}${row}`;
+}
+
+function escapeXml(value: string): string {
+  return (
+    value
+      // Control characters are not allowed in XML 1.0
+      .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, "")
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+  );
+}
+
+function xml(body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${body}`;
+}
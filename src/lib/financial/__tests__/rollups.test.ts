@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildRollups,
+  getChangedRollups,
+  getIssueMonth,
+  getRollupId,
+  isRollupKey,
+} from "../rollups";
+import { Invoice } from "@/types/float34";
+
+// The services' fixtures load Firebase; these helpers are pure
+function makeInvoice(overrides: Partial<Invoice> = {}): Invoice {
+  return {
+    id: "inv_1",
+    invoiceNumber: "INV-0001",
+    propertyId: "prop_1",
+    providerId: "prov_1",
+    description: "Monthly cleaning",
+    issueDate: "2024-03-01",
+    dueDate: "2024-03-31",
+    status: "sent",
+    subtotal: 1000,
+    tax: 0,
+    total: 1000,
+    currency: "USD",
+    lineItems: [],
+    createdAt: "2024-03-01T00:00:00Z",
+    updatedAt: "2024-03-01T00:00:00Z",
+    createdBy: "test",
+    updatedBy: "test",
+    ...overrides,
+  };
+}
+
+describe("getIssueMonth", () => {
+  it("reads the month as written, whatever the time zone", () => {
+    expect(getIssueMonth("2024-03-01")).toBe("2024-03");
+    expect(getIssueMonth("2024-07-01T00:00:00.000Z")).toBe("2024-07");
+    expect(getIssueMonth({ seconds: Date.UTC(2024, 1, 29) / 1000 })).toBe(
+      "2024-02"
+    );
+    expect(getIssueMonth("March 2024")).toBeNull();
+    expect(getIssueMonth(undefined)).toBeNull();
+  });
+});
+
+describe("buildRollups", () => {
+  it("totals invoices by property, provider, month and status", () => {
+    const rollups = buildRollups([
+      makeInvoice({ id: "inv_1", total: 1000 }),
+      makeInvoice({ id: "inv_2", total: 500, issueDate: "2024-03-20" }),
+      makeInvoice({ id: "inv_3", status: "paid", issueDate: "2024-04-02" }),
+    ]);
+    expect(Array.from(rollups.values())).toEqual([
+      expect.objectContaining({
+        period: "2024-03",
+        status: "sent",
+        revenue: 1500,
+        amountPaid: 0,
+        invoiceCount: 2,
+      }),
+      expect.objectContaining({
+        period: "2024-04",
+        status: "paid",
+        revenue: 1000,
+        amountPaid: 1000,
+        paidInvoiceCount: 1,
+      }),
+    ]);
+  });
+
+  it("nets credit notes out of revenue", () => {
+    const rollups = buildRollups([
+      makeInvoice({ id: "inv_1", total: 1000, creditedAmount: 250 }),
+      makeInvoice({ id: "inv_2", total: 500, creditedAmount: 500 }),
+    ]);
+    expect(Array.from(rollups.values())).toEqual([
+      expect.objectContaining({ revenue: 750, invoiceCount: 2 }),
+    ]);
+  });
+});
+
+describe("buildRollups balances", () => {
+  it("keeps what is still owed by due date", () => {
+    const [rollup] = buildRollups([
+      makeInvoice({ id: "inv_1", amountPaid: 400 }),
+      makeInvoice({ id: "inv_2", total: 500 }),
+      makeInvoice({ id: "inv_3", dueDate: "2024-04-30" }),
+    ]).values();
+    expect(rollup).toMatchObject({
+      balanceDue: 2100,
+      balanceByDueDate: {
+        "2024-03-31": { balance: 1100, invoiceCount: 2 },
+        "2024-04-30": { balance: 1000, invoiceCount: 1 },
+      },
+    });
+  });
+
+  it("names the rollup when only the due date moves", () => {
+    const invoice = makeInvoice();
+    expect(
+      getChangedRollups([
+        { before: invoice, after: { ...invoice, dueDate: "2024-04-30" } },
+      ])
+    ).toHaveLength(1);
+  });
+});
+
+describe("getChangedRollups", () => {
+  const invoice = makeInvoice();
+
+  it("names the rollup of a new or deleted invoice", () => {
+    const [key] = getChangedRollups([{ before: null, after: invoice }]);
+    expect(key).toEqual({
+      propertyId: "prop_1",
+      providerId: "prov_1",
+      period: "2024-03",
+      currency: "USD",
+      status: "sent",
+      category: "",
+    });
+    expect(getChangedRollups([{ before: invoice, after: null }])).toEqual([
+      key,
+    ]);
+  });
+
+  it("names both rollups when an invoice moves between them", () => {
+    const paid = { ...invoice, status: "paid" as const };
+    expect(
+      getChangedRollups([{ before: invoice, after: paid }]).map(getRollupId)
+    ).toEqual([
+      "prop_1_prov_1_2024-03_USD_sent_none",
+      "prop_1_prov_1_2024-03_USD_paid_none",
+    ]);
+  });
+
+  it("skips changes that leave the totals alone", () => {
+    expect(
+      getChangedRollups([
+        { before: invoice, after: { ...invoice, notes: "Called ahead" } },
+      ])
+    ).toEqual([]);
+    expect(
+      getChangedRollups([
+        { before: invoice, after: { ...invoice, amountPaid: 250 } },
+      ])
+    ).toHaveLength(1);
+    expect(
+      getChangedRollups([
+        { before: invoice, after: { ...invoice, creditedAmount: 100 } },
+      ])
+    ).toHaveLength(1);
+  });
+});
+
+describe("isRollupKey", () => {
+  it("rejects keys the server cannot recompute", () => {
+    const [key] = getChangedRollups([{ before: null, after: makeInvoice() }]);
+    expect(isRollupKey(key)).toBe(true);
+    expect(isRollupKey({ ...key, period: "2024-13" })).toBe(false);
+    expect(isRollupKey({ ...key, propertyId: undefined })).toBe(false);
+    expect(isRollupKey(null)).toBe(false);
+  });
+});
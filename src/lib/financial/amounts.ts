@@ -0,0 +1,56 @@
+import { Invoice } from "@/types/float34";
+
+// Invoice amounts shared by the services and the API routes, which cannot
+// load the client Firebase SDK
+
+/**
+ * Invoice total less issued credit notes
+ */
+export function getNetTotal(invoice: Invoice): number {
+  return Math.max(0, invoice.total - (invoice.creditedAmount || 0));
+}
+
+/**
+ * Amount received against an invoice. Paid invoices count as fully paid,
+ * including those marked paid before payments were tracked.
+ */
+export function getAmountPaid(invoice: Invoice): number {
+  if (invoice.status === "paid") {
+    return Math.max(invoice.amountPaid || 0, getNetTotal(invoice));
+  }
+  return invoice.amountPaid || 0;
+}
+
+/**
+ * Amount still owed on an invoice. Drafts and cancelled invoices are not
+ * owed anything.
+ */
+export function getBalanceDue(invoice: Invoice): number {
+  if (invoice.status === "draft" || invoice.status === "cancelled") {
+    return 0;
+  }
+  return Math.max(0, getNetTotal(invoice) - getAmountPaid(invoice));
+}
+
+/**
+ * Day (YYYY-MM-DD) a date or timestamp string falls on, as written, or null
+ * when it does not start with one
+ */
+export function getDay(date: unknown): string | null {
+  if (typeof date !== "string") return null;
+  const day = date.slice(0, 10);
+  return /^\d{4}-\d{2}-\d{2}$/.test(day) ? day : null;
+}
+
+/**
+ * Whether an invoice is overdue on a day (YYYY-MM-DD): something is still
+ * owed and its due date has passed. Reports use this rather than the
+ * stored "overdue" status, which only changes when the invoice is saved.
+ */
+export function isOverdue(
+  invoice: Invoice,
+  today: string = new Date().toISOString().slice(0, 10)
+): boolean {
+  const dueDay = getDay(invoice.dueDate);
+  return !!dueDay && dueDay < today && getBalanceDue(invoice) > 0;
+}
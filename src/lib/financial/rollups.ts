@@ -0,0 +1,215 @@
+import { FinancialRollup, Invoice, RollupBalance } from "@/types/float34";
+import { getAmountPaid, getBalanceDue, getDay, getNetTotal } from "./amounts";
+
+// The rollup a given invoice belongs to
+export type RollupKey = Pick<
+  FinancialRollup,
+  "propertyId" | "providerId" | "period" | "currency" | "status" | "category"
+>;
+
+export type RollupTotals = RollupKey &
+  Pick<
+    FinancialRollup,
+    "revenue" | "amountPaid" | "invoiceCount" | "paidInvoiceCount"
+  > & {
+    balanceDue: number;
+    balanceByDueDate: Record<string, RollupBalance>;
+  };
+
+export type InvoiceChange = {
+  before: Invoice | null; // null for a new invoice
+  after: Invoice | null; // null for a deleted one
+};
+
+export type RollupRefreshRequest = { keys: RollupKey[] };
+
+export type RollupRefreshResponse = { updated: number; deleted: number };
+
+const MONTH = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+/**
+ * Calendar month (YYYY-MM) of an invoice's issue date, or null when it has
+ * none. Dates and timestamps are read as written, without time zones, so
+ * the browser and the server put an invoice in the same month.
+ */
+export function getIssueMonth(issueDate: unknown): string | null {
+  let month: string | null = null;
+  if (typeof issueDate === "string") {
+    month = issueDate.slice(0, 7);
+  } else if (issueDate && typeof issueDate === "object") {
+    const timestamp = issueDate as { seconds?: number; toDate?: () => Date };
+    const date =
+      typeof timestamp.toDate === "function"
+        ? timestamp.toDate()
+        : typeof timestamp.seconds === "number"
+          ? new Date(timestamp.seconds * 1000)
+          : null;
+    if (date && !isNaN(date.getTime())) {
+      month = date.toISOString().slice(0, 7);
+    }
+  }
+  return month && MONTH.test(month) ? month : null;
+}
+
+/**
+ * Whether a refresh request names a rollup well enough to recompute it
+ */
+export function isRollupKey(key: unknown): key is RollupKey {
+  const candidate = key as Partial<RollupKey> | null;
+  return (
+    !!candidate &&
+    typeof candidate.propertyId === "string" &&
+    typeof candidate.providerId === "string" &&
+    typeof candidate.period === "string" &&
+    MONTH.test(candidate.period) &&
+    typeof candidate.currency === "string" &&
+    typeof candidate.status === "string" &&
+    typeof candidate.category === "string"
+  );
+}
+
+/**
+ * Document id of a rollup in financialData
+ */
+export function getRollupId(key: RollupKey): string {
+  return [
+    key.propertyId,
+    key.providerId,
+    key.period,
+    key.currency,
+    key.status,
+    key.category,
+  ]
+    .map((part) => encodeURIComponent(part || "none"))
+    .join("_");
+}
+
+/**
+ * An invoice's contribution to its rollup, negated with a sign of -1.
+ * Invoices without a valid issue date are not rolled up.
+ */
+export function getInvoiceTotals(
+  invoice: Invoice,
+  sign: 1 | -1 = 1
+): RollupTotals | null {
+  const period = getIssueMonth(invoice.issueDate);
+  if (!period) return null;
+
+  const balanceDue = getBalanceDue(invoice);
+  const dueDay = getDay(invoice.dueDate);
+  return {
+    propertyId: invoice.propertyId || "",
+    providerId: invoice.providerId || "",
+    period,
+    currency: invoice.currency || "",
+    status: invoice.status,
+    category: invoice.category || "",
+    revenue: sign * (getNetTotal(invoice) || 0),
+    amountPaid: sign * getAmountPaid(invoice),
+    invoiceCount: sign,
+    paidInvoiceCount: invoice.status === "paid" ? sign : 0,
+    balanceDue: sign * balanceDue,
+    balanceByDueDate:
+      balanceDue > 0 && dueDay
+        ? { [dueDay]: { balance: sign * balanceDue, invoiceCount: sign } }
+        : {},
+  };
+}
+
+/**
+ * Aggregate invoices into rollup totals, keyed by rollup id
+ */
+export function buildRollups(invoices: Invoice[]): Map<string, RollupTotals> {
+  const rollups = new Map<string, RollupTotals>();
+  invoices.forEach((invoice) => addTotals(rollups, getInvoiceTotals(invoice)));
+  return rollups;
+}
+
+/**
+ * Rollups whose totals an invoice change moves. Changes that cancel out
+ * within a rollup, such as editing the notes, leave none.
+ */
+export function getChangedRollups(changes: InvoiceChange[]): RollupKey[] {
+  const deltas = new Map<string, RollupTotals>();
+  changes.forEach(({ before, after }) => {
+    if (before) addTotals(deltas, getInvoiceTotals(before, -1));
+    if (after) addTotals(deltas, getInvoiceTotals(after, 1));
+  });
+
+  return Array.from(deltas.values())
+    .filter(
+      (delta) =>
+        delta.revenue !== 0 ||
+        delta.amountPaid !== 0 ||
+        delta.invoiceCount !== 0 ||
+        delta.paidInvoiceCount !== 0 ||
+        Object.keys(delta.balanceByDueDate).length > 0
+    )
+    .map(toRollupKey);
+}
+
+/**
+ * Totals of the named rollups recomputed from the invoices of their months,
+ * null for a rollup no invoice belongs to any more. Invoices are loaded one
+ * month at a time.
+ */
+export async function recomputeRollups(
+  keys: RollupKey[],
+  loadInvoices: (period: string) => Promise<Invoice[]>
+): Promise<Map<string, RollupTotals | null>> {
+  const results = new Map<string, RollupTotals | null>();
+  const periods = new Set(keys.map((key) => key.period));
+
+  for (const period of periods) {
+    const rollups = buildRollups(await loadInvoices(period));
+    keys
+      .filter((key) => key.period === period)
+      .forEach((key) => {
+        const id = getRollupId(key);
+        results.set(id, rollups.get(id) || null);
+      });
+  }
+  return results;
+}
+
+export function toRollupKey(totals: RollupKey): RollupKey {
+  return {
+    propertyId: totals.propertyId,
+    providerId: totals.providerId,
+    period: totals.period,
+    currency: totals.currency,
+    status: totals.status,
+    category: totals.category,
+  };
+}
+
+function addTotals(
+  rollups: Map<string, RollupTotals>,
+  totals: RollupTotals | null
+) {
+  if (!totals) return;
+
+  const id = getRollupId(totals);
+  const rollup = rollups.get(id);
+  if (rollup) {
+    rollup.revenue += totals.revenue;
+    rollup.amountPaid += totals.amountPaid;
+    rollup.invoiceCount += totals.invoiceCount;
+    rollup.paidInvoiceCount += totals.paidInvoiceCount;
+    rollup.balanceDue += totals.balanceDue;
+    Object.entries(totals.balanceByDueDate).forEach(([day, amounts]) => {
+      const balance = rollup.balanceByDueDate[day];
+      if (!balance) {
+        rollup.balanceByDueDate[day] = { ...amounts };
+        return;
+      }
+      balance.balance += amounts.balance;
+      balance.invoiceCount += amounts.invoiceCount;
+      // Drop days no invoice is owed on any more, such as an unchanged
+      // invoice in a before and after pair
+      if (balance.invoiceCount === 0) delete rollup.balanceByDueDate[day];
+    });
+  } else {
+    rollups.set(id, { ...totals });
+  }
+}
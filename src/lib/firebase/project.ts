@@ -0,0 +1,5 @@
+// Firebase projects the app runs against. The emulators run a "demo-"
+// project, which has no production counterpart, so nothing done against
+// them can reach live data.
+export const PROJECT_ID = "flow34-bad8e";
+export const EMULATOR_PROJECT_ID = "demo-float34";
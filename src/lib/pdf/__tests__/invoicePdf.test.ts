@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import JSZip from "jszip";
+import {
+  getInvoicePdfFilename,
+  InvoicePdfSource,
+  loadInvoicePdfData,
+  renderInvoicePdf,
+  renderInvoicesZip,
+} from "../invoicePdf";
+import { AccessSubject } from "@/lib/auth/permissions";
+import { Invoice } from "@/types/float34";
+
+// The services' fixtures load Firebase; these helpers are pure
+function makeInvoice(overrides: Partial<Invoice> = {}): Invoice {
+  return {
+    id: "inv_1",
+    invoiceNumber: "INV-0001",
+    propertyId: "prop_1",
+    providerId: "prov_1",
+    description: "Monthly cleaning",
+    issueDate: "2024-03-01",
+    dueDate: "2024-03-31",
+    status: "sent",
+    subtotal: 1000,
+    tax: 0,
+    total: 1000,
+    currency: "USD",
+    lineItems: [
+      { description: "Cleaning", quantity: 1, unitPrice: 1000, total: 1000 },
+    ],
+    createdAt: "2024-03-01T00:00:00Z",
+    updatedAt: "2024-03-01T00:00:00Z",
+    createdBy: "test",
+    updatedBy: "test",
+    ...overrides,
+  };
+}
+
+const stored = [
+  makeInvoice(),
+  makeInvoice({ id: "inv_2", invoiceNumber: "INV-0002", propertyId: "prop_2" }),
+];
+
+const source: InvoicePdfSource = {
+  getInvoice: async (id) => stored.find((invoice) => invoice.id === id) || null,
+  getPropertyName: async (id) => `Property ${id}`,
+  getProviderName: async (id) => `Provider ${id}`,
+};
+
+const manager: AccessSubject = {
+  role: "property_manager",
+  status: "active",
+  managedProperties: ["prop_1"],
+};
+
+describe("loadInvoicePdfData", () => {
+  it("loads the stored invoices with their names", async () => {
+    expect(
+      await loadInvoicePdfData({ role: "admin" }, ["inv_2", "inv_1"], source)
+    ).toEqual({
+      documents: [
+        {
+          invoice: stored[1],
+          propertyName: "Property prop_2",
+          providerName: "Provider prov_1",
+        },
+        {
+          invoice: stored[0],
+          propertyName: "Property prop_1",
+          providerName: "Provider prov_1",
+        },
+      ],
+    });
+  });
+
+  it("refuses invoices outside the user's read scope", async () => {
+    expect(await loadInvoicePdfData(manager, ["inv_1"], source)).toMatchObject(
+      { documents: [expect.anything()] }
+    );
+    expect(
+      await loadInvoicePdfData(manager, ["inv_1", "inv_2"], source)
+    ).toEqual({ error: "Forbidden", status: 403 });
+    expect(await loadInvoicePdfData(null, ["inv_1"], source)).toEqual({
+      error: "Forbidden",
+      status: 403,
+    });
+  });
+
+  it("reports missing invoices", async () => {
+    expect(
+      await loadInvoicePdfData({ role: "admin" }, ["inv_9"], source)
+    ).toEqual({ error: "Invoice inv_9 not found", status: 404 });
+  });
+});
+
+describe("renderInvoicePdf", () => {
+  it("renders a PDF document", async () => {
+    const pdf = await renderInvoicePdf({ invoice: stored[0] });
+    expect(Buffer.from(pdf.slice(0, 5)).toString()).toBe("%PDF-");
+  });
+});
+
+describe("renderInvoicesZip", () => {
+  it("names each invoice's PDF once", async () => {
+    const zip = await JSZip.loadAsync(
+      await renderInvoicesZip([
+        { invoice: stored[0] },
+        { invoice: stored[1] },
+        { invoice: { ...stored[1], id: "inv_3" } },
+      ])
+    );
+    expect(Object.keys(zip.files).sort()).toEqual([
+      "INV-0001.pdf",
+      "INV-0002-2.pdf",
+      "INV-0002.pdf",
+    ]);
+  });
+});
+
+describe("getInvoicePdfFilename", () => {
+  it("keeps file names safe for headers and archives", () => {
+    expect(
+      getInvoicePdfFilename(makeInvoice({ invoiceNumber: 'INV/2024 "7"' }))
+    ).toBe("INV_2024__7_.pdf");
+    expect(getInvoicePdfFilename(makeInvoice({ invoiceNumber: "" }))).toBe(
+      "inv_1.pdf"
+    );
+  });
+});
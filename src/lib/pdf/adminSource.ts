@@ -0,0 +1,30 @@
+import { getFirestore } from "firebase-admin/firestore";
+import { Invoice, Property, Provider } from "@/types/float34";
+import { getAdminApp } from "@/lib/auth/serverAuth";
+import type { InvoicePdfSource } from "./invoicePdf";
+
+/**
+ * Read invoices for rendering with the Admin SDK. Server only: the routes
+ * check each invoice against the requesting user before rendering it.
+ */
+export function getAdminInvoicePdfSource(): InvoicePdfSource {
+  const db = getFirestore(getAdminApp());
+  return {
+    async getInvoice(invoiceId) {
+      const snapshot = await db.doc(`invoices/${invoiceId}`).get();
+      return snapshot.exists
+        ? ({ id: snapshot.id, ...snapshot.data() } as Invoice)
+        : null;
+    },
+    async getPropertyName(propertyId) {
+      const snapshot = await db.doc(`properties/${propertyId}`).get();
+      return (snapshot.data() as Property | undefined)?.name;
+    },
+    async getProviderName(providerId) {
+      // Only the names are read; the secret fields stay encrypted
+      const snapshot = await db.doc(`serviceProviders/${providerId}`).get();
+      const provider = snapshot.data() as Provider | undefined;
+      return provider?.businessName || provider?.name;
+    },
+  };
+}
@@ -0,0 +1,71 @@
+// Type-only import keeps pdf-lib out of the main client bundle
+import type { InvoicePdfData } from "./invoicePdf";
+import { saveBlob } from "../download";
+import { auth } from "@/services/firebaseConfig";
+import { getDataBackend } from "@/repositories";
+
+// The server reads each invoice from Firestore and checks the signed-in
+// user may read it. Local data never reaches the server, so with the local
+// backend the PDFs are rendered in the browser from the invoices as shown.
+
+/**
+ * Download one invoice as a PDF
+ */
+export async function downloadInvoicePdf(data: InvoicePdfData): Promise<void> {
+  if (getDataBackend() === "local") {
+    const { getInvoicePdfFilename, renderInvoicePdf } = await import(
+      "./invoicePdf"
+    );
+    const pdf = await renderInvoicePdf(data);
+    saveBlob(
+      new Blob([pdf], { type: "application/pdf" }),
+      getInvoicePdfFilename(data.invoice)
+    );
+    return;
+  }
+  await downloadFrom("/api/invoices/pdf", { invoiceId: data.invoice.id });
+}
+
+/**
+ * Download several invoices as a zip of PDFs
+ */
+export async function downloadInvoicesZip(
+  invoices: InvoicePdfData[]
+): Promise<void> {
+  if (getDataBackend() === "local") {
+    const { renderInvoicesZip } = await import("./invoicePdf");
+    const zip = await renderInvoicesZip(invoices);
+    saveBlob(
+      new Blob([zip], { type: "application/zip" }),
+      `invoices-${new Date().toISOString().split("T")[0]}.zip`
+    );
+    return;
+  }
+  await downloadFrom("/api/invoices/pdf/export", {
+    invoiceIds: invoices.map(({ invoice }) => invoice.id),
+  });
+}
+
+async function downloadFrom(url: string, body: unknown): Promise<void> {
+  if (!auth.currentUser) {
+    throw new Error("Sign in to download invoices");
+  }
+  const token = await auth.currentUser.getIdToken();
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    throw new Error(error?.error || `Download failed (${response.status})`);
+  }
+
+  // Use the file name the route chose
+  const disposition = response.headers.get("Content-Disposition") || "";
+  const filename = /filename="([^"]+)"/.exec(disposition)?.[1] || "download";
+  saveBlob(await response.blob(), filename);
+}
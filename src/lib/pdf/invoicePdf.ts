@@ -0,0 +1,515 @@
+import {
+  PDFDocument,
+  PDFFont,
+  PDFPage,
+  StandardFonts,
+  rgb,
+  RGB,
+} from "pdf-lib";
+import JSZip from "jszip";
+import { Invoice } from "@/types/float34";
+import { AccessSubject, can } from "@/lib/auth/permissions";
+
+export interface InvoicePdfData {
+  invoice: Invoice;
+  propertyName?: string;
+  providerName?: string;
+}
+
+// Where the server reads invoices and the names printed on them
+export interface InvoicePdfSource {
+  getInvoice(invoiceId: string): Promise<Invoice | null>;
+  getPropertyName(propertyId: string): Promise<string | undefined>;
+  getProviderName(providerId: string): Promise<string | undefined>;
+}
+
+export type InvoicePdfLoadResult =
+  | { documents: InvoicePdfData[] }
+  | { error: string; status: 403 | 404 };
+
+const PAGE_WIDTH = 595.28; // A4
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 40;
+
+const COLORS = {
+  brand: rgb(0.145, 0.388, 0.922), // blue-600
+  text: rgb(0.067, 0.094, 0.153), // gray-900
+  muted: rgb(0.42, 0.447, 0.502), // gray-500
+  border: rgb(0.898, 0.906, 0.922), // gray-200
+  shade: rgb(0.976, 0.98, 0.984), // gray-50
+};
+
+// Line item table columns: description, quantity, unit price, total
+const COLUMNS = [
+  { label: "Description", x: MARGIN + 8, width: 260, align: "left" },
+  { label: "Quantity", x: MARGIN + 275, width: 60, align: "right" },
+  { label: "Unit Price", x: MARGIN + 340, width: 75, align: "right" },
+  { label: "Total", x: MARGIN + 420, width: 67, align: "right" },
+] as const;
+
+/**
+ * Lays out text top-down across as many pages as needed
+ */
+class PdfWriter {
+  page: PDFPage;
+  y: number;
+
+  constructor(
+    private doc: PDFDocument,
+    readonly font: PDFFont,
+    readonly bold: PDFFont
+  ) {
+    this.page = this.addPage();
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  addPage(): PDFPage {
+    this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+    return this.page;
+  }
+
+  /**
+   * Start a new page if fewer than `height` points are left
+   */
+  ensureSpace(height: number): boolean {
+    if (this.y - height < MARGIN + FOOTER_HEIGHT) {
+      this.addPage();
+      return true;
+    }
+    return false;
+  }
+
+  text(
+    value: string,
+    x: number,
+    options: {
+      size?: number;
+      font?: PDFFont;
+      color?: RGB;
+      align?: "left" | "right";
+      width?: number;
+      y?: number;
+    } = {}
+  ) {
+    const font = options.font || this.font;
+    const size = options.size || 10;
+    const safe = sanitize(value, font);
+    const textWidth = font.widthOfTextAtSize(safe, size);
+    this.page.drawText(safe, {
+      x: options.align === "right" ? x + (options.width || 0) - textWidth : x,
+      y: options.y ?? this.y,
+      size,
+      font,
+      color: options.color || COLORS.text,
+    });
+  }
+
+  /**
+   * Draw wrapped text and move down past it
+   */
+  paragraph(value: string, options: { size?: number; color?: RGB } = {}) {
+    const size = options.size || 10;
+    wrap(value, this.font, size, CONTENT_WIDTH).forEach((line) => {
+      this.ensureSpace(size + 4);
+      this.text(line, MARGIN, { size, color: options.color });
+      this.y -= size + 4;
+    });
+  }
+
+  heading(value: string) {
+    this.ensureSpace(40);
+    this.y -= 10;
+    this.text(value, MARGIN, { size: 12, font: this.bold });
+    this.y -= 18;
+  }
+}
+
+/**
+ * Render a branded invoice document
+ */
+export async function renderInvoicePdf(
+  data: InvoicePdfData
+): Promise<Uint8Array> {
+  const { invoice } = data;
+  const doc = await PDFDocument.create();
+  doc.setTitle(`Invoice ${invoice.invoiceNumber}`);
+  doc.setAuthor("Dev34");
+  doc.setCreationDate(new Date());
+
+  const writer = new PdfWriter(
+    doc,
+    await doc.embedFont(StandardFonts.Helvetica),
+    await doc.embedFont(StandardFonts.HelveticaBold)
+  );
+  const money = (amount: number) => formatCurrency(amount, invoice.currency);
+
+  drawHeader(writer, invoice);
+  drawParties(writer, data);
+  drawDates(writer, invoice);
+  drawLineItems(writer, invoice, money);
+  drawTotals(writer, invoice, money);
+
+  if (invoice.paymentInstructions) {
+    writer.heading("Payment Instructions");
+    writer.paragraph(invoice.paymentInstructions);
+  }
+  if (invoice.terms) {
+    writer.heading("Terms");
+    writer.paragraph(invoice.terms);
+  }
+  if (invoice.notes) {
+    writer.heading("Notes");
+    writer.paragraph(invoice.notes);
+  }
+  if (invoice.attachments && invoice.attachments.length > 0) {
+    writer.heading("Attachments");
+    invoice.attachments.forEach((attachment) => {
+      writer.paragraph(`- ${attachment.filename} (${attachment.type})`);
+    });
+  }
+
+  drawFooters(doc, writer);
+  return doc.save();
+}
+
+/**
+ * Load the stored invoices to render for a user, in the order asked for.
+ * Fails as a whole if any invoice is missing or outside the user's
+ * invoice:read scope, so an export never silently leaves one out.
+ */
+export async function loadInvoicePdfData(
+  user: AccessSubject | null,
+  invoiceIds: string[],
+  source: InvoicePdfSource
+): Promise<InvoicePdfLoadResult> {
+  const documents: InvoicePdfData[] = [];
+  const names = new Map<string, Promise<string | undefined>>();
+  const getName = (key: string, load: () => Promise<string | undefined>) => {
+    if (!names.has(key)) names.set(key, load());
+    return names.get(key)!;
+  };
+
+  for (const invoiceId of invoiceIds) {
+    const invoice = await source.getInvoice(invoiceId);
+    if (!invoice) {
+      return { error: `Invoice ${invoiceId} not found`, status: 404 };
+    }
+    if (!can(user, "invoice:read", invoice)) {
+      return { error: "Forbidden", status: 403 };
+    }
+    documents.push({
+      invoice,
+      propertyName: await getName(`property:${invoice.propertyId}`, () =>
+        source.getPropertyName(invoice.propertyId)
+      ),
+      providerName: await getName(`provider:${invoice.providerId}`, () =>
+        source.getProviderName(invoice.providerId)
+      ),
+    });
+  }
+  return { documents };
+}
+
+/**
+ * Render several invoices into one zip archive
+ */
+export async function renderInvoicesZip(
+  documents: InvoicePdfData[]
+): Promise<Uint8Array> {
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+
+  for (const data of documents) {
+    let filename = getInvoicePdfFilename(data.invoice);
+    for (let copy = 2; usedNames.has(filename); copy++) {
+      filename = getInvoicePdfFilename(data.invoice, copy);
+    }
+    usedNames.add(filename);
+    zip.file(filename, await renderInvoicePdf(data));
+  }
+
+  return zip.generateAsync({ type: "uint8array" });
+}
+
+/**
+ * File name for an invoice PDF, safe for Content-Disposition and zip entries
+ */
+export function getInvoicePdfFilename(invoice: Invoice, copy?: number): string {
+  const base = (invoice.invoiceNumber || invoice.id).replace(
+    /[^A-Za-z0-9._-]/g,
+    "_"
+  );
+  return `${base}${copy ? `-${copy}` : ""}.pdf`;
+}
+
+function drawHeader(writer: PdfWriter, invoice: Invoice) {
+  const top = writer.y;
+  writer.text("Dev34", MARGIN, {
+    size: 24,
+    font: writer.bold,
+    color: COLORS.brand,
+    y: top - 20,
+  });
+  writer.text("Professional Property Management", MARGIN, {
+    color: COLORS.muted,
+    y: top - 36,
+  });
+  writer.text("123 Business Street, Suite 100", MARGIN, {
+    color: COLORS.muted,
+    y: top - 52,
+  });
+  writer.text("City, State 12345", MARGIN, { color: COLORS.muted, y: top - 66 });
+
+  const right = { align: "right" as const, width: CONTENT_WIDTH };
+  writer.text("INVOICE", MARGIN, {
+    ...right,
+    size: 20,
+    font: writer.bold,
+    y: top - 20,
+  });
+  writer.text(`#${invoice.invoiceNumber}`, MARGIN, {
+    ...right,
+    color: COLORS.muted,
+    y: top - 36,
+  });
+  writer.text(invoice.status.replace("_", " ").toUpperCase(), MARGIN, {
+    ...right,
+    font: writer.bold,
+    color: COLORS.brand,
+    y: top - 52,
+  });
+
+  writer.y = top - 90;
+  writer.page.drawLine({
+    start: { x: MARGIN, y: writer.y },
+    end: { x: PAGE_WIDTH - MARGIN, y: writer.y },
+    thickness: 1,
+    color: COLORS.border,
+  });
+  writer.y -= 24;
+}
+
+function drawParties(writer: PdfWriter, data: InvoicePdfData) {
+  const half = CONTENT_WIDTH / 2;
+  writer.text("Bill To", MARGIN, { font: writer.bold });
+  writer.text("Property", MARGIN + half, { font: writer.bold });
+  writer.y -= 16;
+  writer.text(data.providerName || data.invoice.providerId, MARGIN);
+  writer.text(data.propertyName || data.invoice.propertyId, MARGIN + half);
+  writer.y -= 14;
+  writer.text("Service Provider", MARGIN, { color: COLORS.muted });
+  writer.text("Service Location", MARGIN + half, { color: COLORS.muted });
+  writer.y -= 28;
+
+  if (data.invoice.description) {
+    writer.paragraph(data.invoice.description);
+    writer.y -= 8;
+  }
+}
+
+function drawDates(writer: PdfWriter, invoice: Invoice) {
+  const dates = [
+    { label: "Issue Date", value: invoice.issueDate },
+    { label: "Due Date", value: invoice.dueDate },
+    ...(invoice.paidDate
+      ? [{ label: "Paid Date", value: invoice.paidDate }]
+      : []),
+  ];
+  const columnWidth = CONTENT_WIDTH / 3;
+
+  dates.forEach((date, index) => {
+    writer.text(date.label, MARGIN + index * columnWidth, {
+      size: 9,
+      color: COLORS.muted,
+    });
+    writer.text(formatDate(date.value), MARGIN + index * columnWidth, {
+      y: writer.y - 14,
+    });
+  });
+  writer.y -= 40;
+}
+
+function drawTableHeader(writer: PdfWriter) {
+  writer.page.drawRectangle({
+    x: MARGIN,
+    y: writer.y - 6,
+    width: CONTENT_WIDTH,
+    height: 20,
+    color: COLORS.shade,
+  });
+  COLUMNS.forEach((column) => {
+    writer.text(column.label, column.x, {
+      size: 9,
+      font: writer.bold,
+      align: column.align,
+      width: column.width,
+    });
+  });
+  writer.y -= 22;
+}
+
+function drawLineItems(
+  writer: PdfWriter,
+  invoice: Invoice,
+  money: (amount: number) => string
+) {
+  writer.heading("Service Details");
+  drawTableHeader(writer);
+
+  const items = invoice.lineItems || [];
+  if (items.length === 0) {
+    writer.text("No line items", MARGIN + 8, { color: COLORS.muted });
+    writer.y -= 20;
+    return;
+  }
+
+  items.forEach((item) => {
+    const lines = wrap(item.description, writer.font, 10, COLUMNS[0].width);
+    const rowHeight = lines.length * 14 + 6;
+    if (writer.ensureSpace(rowHeight)) {
+      drawTableHeader(writer);
+    }
+
+    lines.forEach((line, index) => {
+      writer.text(line, COLUMNS[0].x, { y: writer.y - index * 14 });
+    });
+    [String(item.quantity), money(item.unitPrice), money(item.total)].forEach(
+      (value, index) => {
+        const column = COLUMNS[index + 1];
+        writer.text(value, column.x, {
+          align: column.align,
+          width: column.width,
+        });
+      }
+    );
+
+    writer.y -= rowHeight;
+    writer.page.drawLine({
+      start: { x: MARGIN, y: writer.y + 8 },
+      end: { x: PAGE_WIDTH - MARGIN, y: writer.y + 8 },
+      thickness: 0.5,
+      color: COLORS.border,
+    });
+  });
+  writer.y -= 8;
+}
+
+function drawTotals(
+  writer: PdfWriter,
+  invoice: Invoice,
+  money: (amount: number) => string
+) {
+  const credited = invoice.creditedAmount || 0;
+  const paid =
+    invoice.status === "paid"
+      ? Math.max(invoice.amountPaid || 0, invoice.total - credited)
+      : invoice.amountPaid || 0;
+  const rows: { label: string; value: string; bold?: boolean }[] = [
+    { label: "Subtotal", value: money(invoice.subtotal) },
+    { label: "Tax", value: money(invoice.tax) },
+    { label: "Total", value: money(invoice.total), bold: true },
+  ];
+  if (credited > 0) {
+    rows.push({ label: "Credited", value: `-${money(credited)}` });
+  }
+  if (paid > 0 || credited > 0) {
+    rows.push({ label: "Amount Paid", value: money(paid) });
+    rows.push({
+      label: "Balance Due",
+      value: money(Math.max(0, invoice.total - credited - paid)),
+      bold: true,
+    });
+  }
+
+  writer.ensureSpace(rows.length * 18 + 10);
+  const labelX = PAGE_WIDTH - MARGIN - 220;
+  rows.forEach((row) => {
+    const font = row.bold ? writer.bold : writer.font;
+    writer.text(row.label, labelX, { font });
+    writer.text(row.value, labelX, { font, align: "right", width: 220 });
+    writer.y -= 18;
+  });
+  writer.y -= 10;
+}
+
+function drawFooters(doc: PDFDocument, writer: PdfWriter) {
+  const pages = doc.getPages();
+  pages.forEach((page, index) => {
+    writer.page = page;
+    writer.text(
+      "Thank you for your business! Dev34 - Professional Property Management Solutions",
+      MARGIN,
+      { size: 8, color: COLORS.muted, y: MARGIN - 10 }
+    );
+    writer.text(`Page ${index + 1} of ${pages.length}`, MARGIN, {
+      size: 8,
+      color: COLORS.muted,
+      align: "right",
+      width: CONTENT_WIDTH,
+      y: MARGIN - 10,
+    });
+  });
+}
+
+/**
+ * Split text into lines that fit a width
+ */
+function wrap(
+  value: string,
+  font: PDFFont,
+  size: number,
+  width: number
+): string[] {
+  const lines: string[] = [];
+  sanitize(value, font)
+    .split("\n")
+    .forEach((paragraph) => {
+      let line = "";
+      paragraph.split(/\s+/).forEach((word) => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && font.widthOfTextAtSize(candidate, size) > width) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      });
+      lines.push(line);
+    });
+  return lines;
+}
+
+/**
+ * Replace characters the standard fonts cannot encode
+ */
+function sanitize(value: string, font: PDFFont): string {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(value || "")
+    .map((char) => (supported.has(char.codePointAt(0)!) ? char : "?"))
+    .join("");
+}
+
+function formatCurrency(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: currency || "USD",
+    }).format(amount || 0);
+  } catch {
+    return `${currency} ${(amount || 0).toFixed(2)}`;
+  }
+}
+
+function formatDate(dateString: string): string {
+  const date = new Date(dateString);
+  return isNaN(date.getTime())
+    ? dateString
+    : date.toLocaleDateString("en-US", {
+        year: "numeric",
+        month: "long",
+        day: "numeric",
+      });
+}
@@ -1,4 +1,5 @@
-import { Property, Provider } from "@/types/float34";
+import { Invoice, Property, Provider } from "@/types/float34";
+import { UserProfile } from "@/services/userService";
 
 export const properties: Property[] = [
   {
@@ -1010,3 +1011,100 @@ export const mockServiceProviderYearlyData = {
     },
   },
 };
+
+// Outstanding invoices for the receivables aging report, dated relative to today
+const daysAgo = (days: number) =>
+  new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+function mockReceivable(
+  id: string,
+  propertyId: string,
+  providerId: string,
+  total: number,
+  dueDaysAgo: number,
+  status: Invoice["status"] = dueDaysAgo > 0 ? "overdue" : "sent"
+): Invoice {
+  return {
+    id,
+    invoiceNumber: `INV-MOCK-${id}`,
+    propertyId,
+    providerId,
+    description: "Mock outstanding invoice",
+    issueDate: daysAgo(dueDaysAgo + 30),
+    dueDate: daysAgo(dueDaysAgo),
+    status,
+    subtotal: total,
+    tax: 0,
+    total,
+    currency: "USD",
+    lineItems: [],
+    createdAt: daysAgo(dueDaysAgo + 30),
+    updatedAt: daysAgo(dueDaysAgo + 30),
+    createdBy: "mock",
+    updatedBy: "mock",
+  };
+}
+
+export const mockReceivables: Invoice[] = [
+  mockReceivable("ar_1", "prop_1", "1", 4200, -10),
+  mockReceivable("ar_2", "prop_1", "2", 1850, 12),
+  mockReceivable("ar_3", "prop_2", "3", 3100, 45),
+  mockReceivable("ar_4", "prop_2", "4", 2600, 75),
+  mockReceivable("ar_5", "prop_3", "5", 5400, 120),
+  mockReceivable("ar_6", "prop_3", "1", 950, 3),
+];
+
+export const mockUsers: UserProfile[] = [
+  {
+    uid: "local-admin",
+    email: "admin@float34.local",
+    firstName: "Local",
+    lastName: "Admin",
+    phone: "",
+    role: "admin",
+    status: "active",
+    createdAt: "2024-01-01T00:00:00Z",
+    updatedAt: "2024-01-01T00:00:00Z",
+    lastLogin: "2024-01-01T00:00:00Z",
+    profileCompleted: true,
+    accessiblePropertyIds: properties.map((property) => property.id),
+  },
+];
+
+function emulatorUser(
+  uid: string,
+  role: UserProfile["role"],
+  firstName: string,
+  access: Partial<UserProfile>
+): UserProfile {
+  return {
+    uid,
+    email: `${uid}@float34.test`,
+    firstName,
+    lastName: "Emulator",
+    phone: "",
+    role,
+    status: "active",
+    createdAt: "2024-01-01T00:00:00Z",
+    updatedAt: "2024-01-01T00:00:00Z",
+    lastLogin: "2024-01-01T00:00:00Z",
+    profileCompleted: true,
+    ...access,
+  };
+}
+
+// One user per role, seeded into the Firebase Auth emulator
+export const emulatorUsers: UserProfile[] = [
+  emulatorUser("emulator-admin", "admin", "Admin", {
+    accessiblePropertyIds: properties.map((property) => property.id),
+  }),
+  emulatorUser("emulator-provider", "service_provider", "Provider", {
+    providerId: "1",
+    providerIds: ["1"],
+  }),
+  emulatorUser("emulator-manager", "property_manager", "Manager", {
+    managedProperties: ["prop_1", "prop_2"],
+    propertyIds: ["prop_1", "prop_2"],
+    accessiblePropertyIds: ["prop_1", "prop_2"],
+  }),
+];
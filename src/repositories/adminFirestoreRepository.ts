@@ -0,0 +1,196 @@
+import {
+  DocumentData,
+  DocumentReference,
+  FieldValue,
+  Firestore,
+  Query,
+  QuerySnapshot,
+} from "firebase-admin/firestore";
+import {
+  ListOptions,
+  Repository,
+  SetOptions,
+  Transaction,
+} from "./repository";
+import { createCollectionRepositories, Repositories } from "./index";
+
+/**
+ * Repository backed by a Firestore collection through the Admin SDK, which
+ * bypasses the security rules. Server only, for jobs no signed-in user
+ * runs, e.g. scheduled recurring invoices.
+ */
+export class AdminFirestoreRepository<T> implements Repository<T> {
+  constructor(
+    private readonly db: Firestore,
+    private readonly collectionName: string
+  ) {}
+
+  /**
+   * Run a Firestore transaction over Admin SDK repositories
+   */
+  static runTransaction<R>(
+    db: Firestore,
+    run: (transaction: Transaction) => Promise<R>
+  ): Promise<R> {
+    return db.runTransaction((firestoreTransaction) =>
+      run({
+        async get<U>(repository: Repository<U>, id: string) {
+          const docSnap = await firestoreTransaction.get(
+            AdminFirestoreRepository.ref(repository, id)
+          );
+          return docSnap.exists
+            ? ({ id: docSnap.id, ...docSnap.data() } as U)
+            : null;
+        },
+        set<U>(
+          repository: Repository<U>,
+          id: string,
+          data: Omit<U, "id">,
+          options: SetOptions = {}
+        ) {
+          firestoreTransaction.set(
+            AdminFirestoreRepository.ref(repository, id),
+            data as DocumentData,
+            options
+          );
+        },
+        update<U>(repository: Repository<U>, id: string, changes: Partial<U>) {
+          firestoreTransaction.update(
+            AdminFirestoreRepository.ref(repository, id),
+            AdminFirestoreRepository.toChanges(changes)
+          );
+        },
+        delete<U>(repository: Repository<U>, id: string) {
+          firestoreTransaction.delete(
+            AdminFirestoreRepository.ref(repository, id)
+          );
+        },
+      })
+    );
+  }
+
+  async list(options: ListOptions = {}): Promise<T[]> {
+    let query = this.getQuery(options);
+    if (options.startAfter) {
+      const cursor = await this.collection().doc(options.startAfter).get();
+      if (cursor.exists) query = query.startAfter(cursor);
+    }
+    return this.toRecords(await query.get());
+  }
+
+  async get(id: string): Promise<T | null> {
+    const docSnap = await this.collection().doc(id).get();
+    return docSnap.exists
+      ? ({ id: docSnap.id, ...docSnap.data() } as T)
+      : null;
+  }
+
+  async create(data: Omit<T, "id">): Promise<string> {
+    const docRef = await this.collection().add(data as DocumentData);
+    return docRef.id;
+  }
+
+  newId(): string {
+    return this.collection().doc().id;
+  }
+
+  async set(
+    id: string,
+    data: Omit<T, "id">,
+    options: SetOptions = {}
+  ): Promise<void> {
+    await this.collection().doc(id).set(data as DocumentData, options);
+  }
+
+  async update(id: string, changes: Partial<T>): Promise<void> {
+    await this.collection()
+      .doc(id)
+      .update(AdminFirestoreRepository.toChanges(changes));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.collection().doc(id).delete();
+  }
+
+  subscribe(
+    options: ListOptions,
+    callback: (records: T[]) => void
+  ): () => void {
+    // Cursors need a document read, so subscriptions start from the top
+    return this.getQuery(options).onSnapshot((querySnapshot) =>
+      callback(this.toRecords(querySnapshot))
+    );
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      await this.collection().limit(1).get();
+      return true;
+    } catch (error) {
+      console.warn(
+        `⚠️ Firestore ${this.collectionName} unavailable:`,
+        error
+      );
+      return false;
+    }
+  }
+
+  private collection() {
+    return this.db.collection(this.collectionName);
+  }
+
+  private getQuery(options: ListOptions): Query {
+    let query: Query = this.collection();
+    (options.filters || []).forEach((filter) => {
+      query = query.where(filter.field, filter.op, filter.value);
+    });
+    if (options.orderBy) {
+      query = query.orderBy(
+        options.orderBy.field,
+        options.orderBy.direction || "asc"
+      );
+    }
+    return options.limit ? query.limit(options.limit) : query;
+  }
+
+  private static ref<T>(
+    repository: Repository<T>,
+    id: string
+  ): DocumentReference {
+    if (!(repository instanceof AdminFirestoreRepository)) {
+      throw new Error("Admin transactions need Admin SDK repositories");
+    }
+    return repository.collection().doc(id);
+  }
+
+  // Firestore rejects undefined values; they remove the field instead
+  private static toChanges(changes: object): DocumentData {
+    return Object.fromEntries(
+      Object.entries(changes).map(([field, value]) => [
+        field,
+        value === undefined ? FieldValue.delete() : value,
+      ])
+    );
+  }
+
+  private toRecords(querySnapshot: QuerySnapshot): T[] {
+    return querySnapshot.docs.map(
+      (docSnap) => ({ id: docSnap.id, ...docSnap.data() }) as T
+    );
+  }
+}
+
+/**
+ * Repositories over the Admin SDK. Their writes bypass the security rules,
+ * so they may also write what only the server writes, such as rollups.
+ */
+export function createAdminRepositories(db: Firestore): Repositories {
+  return createCollectionRepositories(
+    <T>(collectionName: string) =>
+      new AdminFirestoreRepository<T>(db, collectionName),
+    (run) => AdminFirestoreRepository.runTransaction(db, run),
+    true
+  );
+}
+
+export default AdminFirestoreRepository;
@@ -0,0 +1,212 @@
+import { db } from "@/services/firebaseConfig";
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  addDoc,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  deleteField,
+  runTransaction,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  onSnapshot,
+  DocumentData,
+  DocumentReference,
+  QueryConstraint,
+  QuerySnapshot,
+} from "firebase/firestore";
+import {
+  ListOptions,
+  Repository,
+  SetOptions,
+  Transaction,
+} from "./repository";
+
+/**
+ * Repository backed by a Firestore collection. The collection name may be
+ * a path to a subcollection, e.g. "invoices/inv_1/statusHistory".
+ */
+export class FirestoreRepository<T> implements Repository<T> {
+  constructor(private readonly collectionName: string) {}
+
+  /**
+   * Run a Firestore transaction over Firestore repositories
+   */
+  static runTransaction<R>(
+    run: (transaction: Transaction) => Promise<R>
+  ): Promise<R> {
+    return runTransaction(db, (firestoreTransaction) =>
+      run({
+        async get<U>(repository: Repository<U>, id: string) {
+          const docSnap = await firestoreTransaction.get(
+            FirestoreRepository.ref(repository, id)
+          );
+          return docSnap.exists()
+            ? ({ id: docSnap.id, ...docSnap.data() } as U)
+            : null;
+        },
+        set<U>(
+          repository: Repository<U>,
+          id: string,
+          data: Omit<U, "id">,
+          options: SetOptions = {}
+        ) {
+          firestoreTransaction.set(
+            FirestoreRepository.ref(repository, id),
+            data as DocumentData,
+            options
+          );
+        },
+        update<U>(repository: Repository<U>, id: string, changes: Partial<U>) {
+          firestoreTransaction.update(
+            FirestoreRepository.ref(repository, id),
+            FirestoreRepository.toChanges(changes)
+          );
+        },
+        delete<U>(repository: Repository<U>, id: string) {
+          firestoreTransaction.delete(FirestoreRepository.ref(repository, id));
+        },
+      })
+    );
+  }
+
+  async list(options: ListOptions = {}): Promise<T[]> {
+    const constraints = await this.getConstraints(options);
+    const querySnapshot = await getDocs(
+      query(collection(db, this.collectionName), ...constraints)
+    );
+    return this.toRecords(querySnapshot);
+  }
+
+  async get(id: string): Promise<T | null> {
+    const docSnap = await getDoc(doc(db, this.collectionName, id));
+    return docSnap.exists()
+      ? ({ id: docSnap.id, ...docSnap.data() } as T)
+      : null;
+  }
+
+  async create(data: Omit<T, "id">): Promise<string> {
+    const docRef = await addDoc(
+      collection(db, this.collectionName),
+      data as DocumentData
+    );
+    return docRef.id;
+  }
+
+  newId(): string {
+    return doc(collection(db, this.collectionName)).id;
+  }
+
+  async set(
+    id: string,
+    data: Omit<T, "id">,
+    options: SetOptions = {}
+  ): Promise<void> {
+    await setDoc(
+      doc(db, this.collectionName, id),
+      data as DocumentData,
+      options
+    );
+  }
+
+  async update(id: string, changes: Partial<T>): Promise<void> {
+    await updateDoc(
+      doc(db, this.collectionName, id),
+      FirestoreRepository.toChanges(changes)
+    );
+  }
+
+  async delete(id: string): Promise<void> {
+    await deleteDoc(doc(db, this.collectionName, id));
+  }
+
+  subscribe(
+    options: ListOptions,
+    callback: (records: T[]) => void
+  ): () => void {
+    // Cursors need a document read, so subscriptions start from the top
+    return onSnapshot(
+      query(collection(db, this.collectionName), ...this.getFilters(options)),
+      (querySnapshot) => callback(this.toRecords(querySnapshot))
+    );
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      await getDocs(query(collection(db, this.collectionName), limit(1)));
+      return true;
+    } catch (error) {
+      console.warn(
+        `⚠️ Firestore ${this.collectionName} unavailable:`,
+        error
+      );
+      return false;
+    }
+  }
+
+  private async getConstraints(
+    options: ListOptions
+  ): Promise<QueryConstraint[]> {
+    const constraints = this.getFilters(options);
+    if (options.startAfter) {
+      const cursor = await getDoc(
+        doc(db, this.collectionName, options.startAfter)
+      );
+      if (cursor.exists()) {
+        // The cursor goes between ordering and limit
+        constraints.splice(
+          constraints.length - (options.limit ? 1 : 0),
+          0,
+          startAfter(cursor)
+        );
+      }
+    }
+    return constraints;
+  }
+
+  private getFilters(options: ListOptions): QueryConstraint[] {
+    return [
+      ...(options.filters || []).map((filter) =>
+        where(filter.field, filter.op, filter.value)
+      ),
+      ...(options.orderBy
+        ? [orderBy(options.orderBy.field, options.orderBy.direction || "asc")]
+        : []),
+      ...(options.limit ? [limit(options.limit)] : []),
+    ];
+  }
+
+  private static ref<T>(
+    repository: Repository<T>,
+    id: string
+  ): DocumentReference {
+    if (!(repository instanceof FirestoreRepository)) {
+      throw new Error("Firestore transactions need Firestore repositories");
+    }
+    return doc(db, repository.collectionName, id);
+  }
+
+  // Firestore rejects undefined values; they remove the field instead
+  private static toChanges(changes: object): DocumentData {
+    return Object.fromEntries(
+      Object.entries(changes).map(([field, value]) => [
+        field,
+        value === undefined ? deleteField() : value,
+      ])
+    );
+  }
+
+  private toRecords(querySnapshot: QuerySnapshot): T[] {
+    return querySnapshot.docs.map(
+      (docSnap) => ({ id: docSnap.id, ...docSnap.data() }) as T
+    );
+  }
+}
+
+export default FirestoreRepository;
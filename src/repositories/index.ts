@@ -0,0 +1,192 @@
+import {
+  AuditLogEntry,
+  Budget,
+  CreditNote,
+  Expense,
+  FinancialRollup,
+  FxRate,
+  Invoice,
+  InvoiceNumberRecord,
+  InvoiceStatusChange,
+  NumberSequence,
+  Payment,
+  Property,
+  Provider,
+  RecurringInvoiceTemplate,
+  SettingsDocument,
+} from "@/types/float34";
+import { UserProfile } from "@/services/userService";
+import {
+  mockReceivables,
+  mockUsers,
+  properties,
+  providers,
+} from "@/mocks/fixtures";
+import { Repository, Transaction } from "./repository";
+import { FirestoreRepository } from "./firestoreRepository";
+import { LocalRepository } from "./localRepository";
+
+export type {
+  ListOptions,
+  QueryFilter,
+  Repository,
+  SetOptions,
+  Transaction,
+} from "./repository";
+
+// Where the dashboard keeps its data, set with NEXT_PUBLIC_DATA_BACKEND
+export type DataBackend = "firestore" | "local";
+
+export interface Repositories {
+  properties: Repository<Property>;
+  providers: Repository<Provider>;
+  invoices: Repository<Invoice>;
+  users: Repository<UserProfile>;
+  auditLogs: Repository<AuditLogEntry>;
+  expenses: Repository<Expense>;
+  payments: Repository<Payment>;
+  creditNotes: Repository<CreditNote>;
+  creditNoteSequences: Repository<NumberSequence>;
+  budgets: Repository<Budget>;
+  settings: Repository<SettingsDocument>;
+  fxRates: Repository<FxRate>;
+  rollups: Repository<FinancialRollup>;
+  invoiceSequences: Repository<NumberSequence>;
+  invoiceNumbers: Repository<InvoiceNumberRecord>;
+  recurringTemplates: Repository<RecurringInvoiceTemplate>;
+  // The status changes of one invoice
+  statusHistory(invoiceId: string): Repository<InvoiceStatusChange>;
+  // Transactions span the repositories of one backend
+  runTransaction<R>(run: (transaction: Transaction) => Promise<R>): Promise<R>;
+  // Whether writes may include what otherwise only the server writes, such
+  // as rollups: true for local data and the Admin SDK
+  serverWrites: boolean;
+}
+
+let repositories: Repositories | null = null;
+
+/**
+ * Configured data backend. Firestore unless NEXT_PUBLIC_DATA_BACKEND is
+ * "local".
+ */
+export function getDataBackend(): DataBackend {
+  return process.env.NEXT_PUBLIC_DATA_BACKEND === "local"
+    ? "local"
+    : "firestore";
+}
+
+/**
+ * Repositories for the configured data backend, created on first use
+ */
+export function getRepositories(): Repositories {
+  if (!repositories) {
+    repositories =
+      getDataBackend() === "local"
+        ? createLocalRepositories()
+        : createFirestoreRepositories();
+  }
+  return repositories;
+}
+
+/**
+ * Replace the repositories, e.g. with local ones in tests. Pass null to go
+ * back to the configured backend.
+ */
+export function setRepositories(replacement: Repositories | null) {
+  repositories = replacement;
+}
+
+export function createFirestoreRepositories(): Repositories {
+  return createCollectionRepositories(
+    <T>(collectionName: string) => new FirestoreRepository<T>(collectionName),
+    (run) => FirestoreRepository.runTransaction(run),
+    false
+  );
+}
+
+/**
+ * Repositories over one Firestore connection, each made from its
+ * collection name
+ */
+export function createCollectionRepositories(
+  collection: <T>(collectionName: string) => Repository<T>,
+  runTransaction: Repositories["runTransaction"],
+  serverWrites: boolean
+): Repositories {
+  return {
+    properties: collection<Property>("properties"),
+    providers: collection<Provider>("serviceProviders"),
+    invoices: collection<Invoice>("invoices"),
+    users: collection<UserProfile>("users"),
+    auditLogs: collection<AuditLogEntry>("auditLogs"),
+    expenses: collection<Expense>("expenses"),
+    payments: collection<Payment>("payments"),
+    creditNotes: collection<CreditNote>("creditNotes"),
+    creditNoteSequences: collection<NumberSequence>("creditNoteSequences"),
+    budgets: collection<Budget>("budgets"),
+    settings: collection<SettingsDocument>("settings"),
+    fxRates: collection<FxRate>("fxRates"),
+    rollups: collection<FinancialRollup>("financialData"),
+    invoiceSequences: collection<NumberSequence>("invoiceSequences"),
+    invoiceNumbers: collection<InvoiceNumberRecord>("invoiceNumbers"),
+    recurringTemplates: collection<RecurringInvoiceTemplate>(
+      "recurringInvoiceTemplates"
+    ),
+    statusHistory: (invoiceId) =>
+      collection<InvoiceStatusChange>(`invoices/${invoiceId}/statusHistory`),
+    runTransaction,
+    serverWrites,
+  };
+}
+
+/**
+ * In-memory repositories seeded from the mock fixtures. Users are keyed by
+ * uid, as in Firestore.
+ */
+export function createLocalRepositories(): Repositories {
+  const statusHistories = new Map<
+    string,
+    Repository<InvoiceStatusChange>
+  >();
+
+  return {
+    properties: new LocalRepository("properties", properties),
+    providers: new LocalRepository("serviceProviders", providers),
+    invoices: new LocalRepository("invoices", mockReceivables),
+    users: new LocalRepository(
+      "users",
+      mockUsers.map((user) => ({ id: user.uid, ...user }))
+    ),
+    auditLogs: new LocalRepository<AuditLogEntry>("auditLogs"),
+    expenses: new LocalRepository<Expense>("expenses"),
+    payments: new LocalRepository<Payment>("payments"),
+    creditNotes: new LocalRepository<CreditNote>("creditNotes"),
+    creditNoteSequences: new LocalRepository<NumberSequence>(
+      "creditNoteSequences"
+    ),
+    budgets: new LocalRepository<Budget>("budgets"),
+    settings: new LocalRepository<SettingsDocument>("settings"),
+    fxRates: new LocalRepository<FxRate>("fxRates"),
+    rollups: new LocalRepository<FinancialRollup>("financialData"),
+    invoiceSequences: new LocalRepository<NumberSequence>("invoiceSequences"),
+    invoiceNumbers: new LocalRepository<InvoiceNumberRecord>(
+      "invoiceNumbers"
+    ),
+    recurringTemplates: new LocalRepository<RecurringInvoiceTemplate>(
+      "recurringInvoiceTemplates"
+    ),
+    // One repository per invoice, so transactions see the same records
+    statusHistory: (invoiceId) => {
+      let repository = statusHistories.get(invoiceId);
+      if (!repository) {
+        repository = new LocalRepository<InvoiceStatusChange>(
+          `invoices/${invoiceId}/statusHistory`
+        );
+        statusHistories.set(invoiceId, repository);
+      }
+      return repository;
+    },
+    runTransaction: (run) => LocalRepository.runTransaction(run),
+    serverWrites: true,
+  };
+}
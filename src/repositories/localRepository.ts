@@ -0,0 +1,304 @@
+import {
+  ListOptions,
+  QueryFilter,
+  Repository,
+  SetOptions,
+  Transaction,
+} from "./repository";
+
+type StoredRecord = Record<string, unknown>;
+
+// Writes of a transaction not yet committed, null for a delete
+type StagedWrites = Map<string, StoredRecord | null>;
+
+/**
+ * Repository kept in memory and seeded with fixtures, for running without
+ * Firebase. In the browser the records are saved as JSON in localStorage,
+ * so changes survive a reload until the storage is cleared.
+ */
+export class LocalRepository<T> implements Repository<T> {
+  private static readonly STORAGE_PREFIX = "float34:";
+  // Transactions run one at a time, so each sees the last one's writes
+  private static transactionQueue: Promise<unknown> = Promise.resolve();
+
+  private records: Map<string, StoredRecord> | null = null;
+  private listeners = new Set<() => void>();
+  private nextId = 1;
+
+  constructor(
+    private readonly collectionName: string,
+    private readonly seed: T[] = []
+  ) {}
+
+  /**
+   * Run a transaction over local repositories. Writes are staged and only
+   * applied once the function returns, so a throw leaves nothing behind.
+   */
+  static runTransaction<R>(
+    run: (transaction: Transaction) => Promise<R>
+  ): Promise<R> {
+    const result = this.transactionQueue.then(() => this.transact(run));
+    this.transactionQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  private static async transact<R>(
+    run: (transaction: Transaction) => Promise<R>
+  ): Promise<R> {
+    const staged = new Map<LocalRepository<unknown>, StagedWrites>();
+    const local = <U>(repository: Repository<U>) => {
+      if (!(repository instanceof LocalRepository)) {
+        throw new Error("Local transactions need local repositories");
+      }
+      return repository as LocalRepository<unknown>;
+    };
+    const read = (repository: LocalRepository<unknown>, id: string) => {
+      const writes = staged.get(repository);
+      if (writes?.has(id)) return writes.get(id) || null;
+      return repository.getRecords().get(id) || null;
+    };
+    const stage = (
+      repository: LocalRepository<unknown>,
+      id: string,
+      record: StoredRecord | null
+    ) => {
+      if (!staged.has(repository)) staged.set(repository, new Map());
+      staged.get(repository)?.set(id, record && repository.clone(record));
+    };
+
+    const result = await run({
+      async get<U>(repository: Repository<U>, id: string) {
+        const record = read(local(repository), id);
+        return record ? (local(repository).toRecord(id, record) as U) : null;
+      },
+      set<U>(
+        repository: Repository<U>,
+        id: string,
+        data: Omit<U, "id">,
+        options: SetOptions = {}
+      ) {
+        const existing = options.merge ? read(local(repository), id) : null;
+        stage(local(repository), id, {
+          ...existing,
+          ...(data as StoredRecord),
+        });
+      },
+      update<U>(repository: Repository<U>, id: string, changes: Partial<U>) {
+        const record = read(local(repository), id);
+        if (!record) {
+          throw new Error(
+            `${local(repository).collectionName} record not found: ${id}`
+          );
+        }
+        stage(local(repository), id, {
+          ...record,
+          ...(changes as StoredRecord),
+        });
+      },
+      delete<U>(repository: Repository<U>, id: string) {
+        stage(local(repository), id, null);
+      },
+    });
+
+    staged.forEach((writes, repository) => repository.commit(writes));
+    return result;
+  }
+
+  async list(options: ListOptions = {}): Promise<T[]> {
+    return this.query(options);
+  }
+
+  async get(id: string): Promise<T | null> {
+    const record = this.getRecords().get(id);
+    return record ? this.toRecord(id, record) : null;
+  }
+
+  async create(data: Omit<T, "id">): Promise<string> {
+    const id = this.newId();
+    this.write(id, data as StoredRecord);
+    return id;
+  }
+
+  newId(): string {
+    // Subcollection paths name their records after the last segment
+    const prefix = this.collectionName.split("/").pop();
+    const records = this.getRecords();
+    let id = `${prefix}-${this.nextId++}`;
+    while (records.has(id)) id = `${prefix}-${this.nextId++}`;
+    return id;
+  }
+
+  async set(
+    id: string,
+    data: Omit<T, "id">,
+    options: SetOptions = {}
+  ): Promise<void> {
+    const existing = options.merge ? this.getRecords().get(id) : undefined;
+    this.write(id, { ...existing, ...(data as StoredRecord) });
+  }
+
+  async update(id: string, changes: Partial<T>): Promise<void> {
+    const record = this.getRecords().get(id);
+    if (!record) {
+      throw new Error(`${this.collectionName} record not found: ${id}`);
+    }
+    this.write(id, { ...record, ...(changes as StoredRecord) });
+  }
+
+  async delete(id: string): Promise<void> {
+    if (this.getRecords().delete(id)) this.save();
+  }
+
+  subscribe(
+    options: ListOptions,
+    callback: (records: T[]) => void
+  ): () => void {
+    const listener = () => callback(this.query(options));
+    this.listeners.add(listener);
+    listener();
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Drop all changes and start again from the seed records
+   */
+  reset(): void {
+    this.records = this.fromSeed();
+    this.save();
+  }
+
+  private query(options: ListOptions): T[] {
+    let entries = Array.from(this.getRecords().entries()).filter(
+      ([, record]) =>
+        (options.filters || []).every((filter) =>
+          this.matches(record[filter.field], filter)
+        )
+    );
+
+    if (options.orderBy) {
+      const { field, direction } = options.orderBy;
+      const sign = direction === "desc" ? -1 : 1;
+      entries.sort(
+        ([, a], [, b]) => sign * this.compare(a[field], b[field])
+      );
+    }
+    if (options.startAfter) {
+      const index = entries.findIndex(([id]) => id === options.startAfter);
+      if (index >= 0) entries = entries.slice(index + 1);
+    }
+    if (options.limit) entries = entries.slice(0, options.limit);
+
+    return entries.map(([id, record]) => this.toRecord(id, record));
+  }
+
+  private matches(value: unknown, filter: QueryFilter): boolean {
+    if (filter.op === "==") return value === filter.value;
+    if (filter.op === "in") {
+      return filter.value.includes(value as string | number);
+    }
+    if (filter.op === "array-contains") {
+      return Array.isArray(value) && value.includes(filter.value);
+    }
+    if (value === undefined || value === null) return false;
+    const order = this.compare(value, filter.value);
+    return filter.op === ">=" ? order >= 0 : order <= 0;
+  }
+
+  private compare(a: unknown, b: unknown): number {
+    if (a === b) return 0;
+    if (a === undefined || a === null) return -1;
+    if (b === undefined || b === null) return 1;
+    if (typeof a === "number" && typeof b === "number") return a - b;
+    // By code unit, like Firestore, so "\uf8ff" bounds still work
+    return String(a) < String(b) ? -1 : 1;
+  }
+
+  private write(id: string, record: StoredRecord) {
+    // Stored without the id, as Firestore does
+    const data = this.clone(record);
+    delete data.id;
+    this.getRecords().set(id, data);
+    this.save();
+  }
+
+  private commit(writes: StagedWrites) {
+    const records = this.getRecords();
+    writes.forEach((record, id) => {
+      if (!record) {
+        records.delete(id);
+        return;
+      }
+      // Stored without the id, as Firestore does
+      const data = this.clone(record);
+      delete data.id;
+      records.set(id, data);
+    });
+    this.save();
+  }
+
+  private toRecord(id: string, record: StoredRecord): T {
+    return { id, ...this.clone(record) } as T;
+  }
+
+  private getRecords(): Map<string, StoredRecord> {
+    if (!this.records) this.records = this.load() || this.fromSeed();
+    return this.records;
+  }
+
+  private fromSeed(): Map<string, StoredRecord> {
+    return new Map(
+      this.seed.map((item, index) => {
+        const data = this.clone(item as StoredRecord);
+        const id = typeof data.id === "string" ? data.id : String(index + 1);
+        delete data.id;
+        return [id, data];
+      })
+    );
+  }
+
+  private load(): Map<string, StoredRecord> | null {
+    const storage = this.getStorage();
+    const json = storage?.getItem(this.getStorageKey());
+    if (!json) return null;
+
+    try {
+      return new Map(Object.entries(JSON.parse(json)));
+    } catch (error) {
+      console.warn(
+        `⚠️ Ignoring corrupt local ${this.collectionName}:`,
+        error
+      );
+      return null;
+    }
+  }
+
+  private save() {
+    this.getStorage()?.setItem(
+      this.getStorageKey(),
+      JSON.stringify(Object.fromEntries(this.getRecords()))
+    );
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private getStorage(): Storage | null {
+    return typeof window !== "undefined" && window.localStorage
+      ? window.localStorage
+      : null;
+  }
+
+  private getStorageKey(): string {
+    return `${LocalRepository.STORAGE_PREFIX}${this.collectionName}`;
+  }
+
+  private clone(record: StoredRecord): StoredRecord {
+    return JSON.parse(JSON.stringify(record));
+  }
+}
+
+export default LocalRepository;
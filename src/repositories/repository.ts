@@ -0,0 +1,60 @@
+// Condition on a stored field. Range conditions compare strings (e.g. ISO
+// dates) or numbers; "in" matches any of up to 30 values, and
+// "array-contains" an array field holding the value.
+export type QueryFilter =
+  | {
+      field: string;
+      op: "==" | ">=" | "<=";
+      value: string | number | boolean;
+    }
+  | { field: string; op: "in"; value: (string | number)[] }
+  | { field: string; op: "array-contains"; value: string | number };
+
+export type ListOptions = {
+  filters?: QueryFilter[];
+  orderBy?: { field: string; direction?: "asc" | "desc" };
+  limit?: number;
+  startAfter?: string; // id of the last record of the previous page
+};
+
+// set() with merge keeps the fields the data leaves out
+export type SetOptions = { merge?: boolean };
+
+/**
+ * Storage for one collection of records. Records are returned with their
+ * id; writes take the record without it. Fields set to undefined in an
+ * update are removed. Implementations only store data: validation,
+ * encryption and permissions stay in the services.
+ */
+export interface Repository<T> {
+  list(options?: ListOptions): Promise<T[]>;
+  get(id: string): Promise<T | null>;
+  create(data: Omit<T, "id">): Promise<string>; // returns the new id
+  // Id for a record about to be written, e.g. within a transaction
+  newId(): string;
+  set(id: string, data: Omit<T, "id">, options?: SetOptions): Promise<void>;
+  update(id: string, changes: Partial<T>): Promise<void>;
+  delete(id: string): Promise<void>;
+  // Calls back with the matching records now and after every change
+  subscribe(options: ListOptions, callback: (records: T[]) => void): () => void;
+  // Whether the backing store can be reached
+  isAvailable(): Promise<boolean>;
+}
+
+/**
+ * Reads and writes across repositories that succeed or fail together. As in
+ * Firestore, every read must happen before the first write, and the
+ * function may run again if the data it read changed meanwhile.
+ */
+export interface Transaction {
+  get<T>(repository: Repository<T>, id: string): Promise<T | null>;
+  set<T>(
+    repository: Repository<T>,
+    id: string,
+    data: Omit<T, "id">,
+    options?: SetOptions
+  ): void;
+  // Fails the transaction if the record does not exist
+  update<T>(repository: Repository<T>, id: string, changes: Partial<T>): void;
+  delete<T>(repository: Repository<T>, id: string): void;
+}
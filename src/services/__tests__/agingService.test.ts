@@ -0,0 +1,29 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AgingService } from "../agingService";
+
+vi.mock("../firebaseConfig", () => import("./firebaseMock"));
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("AgingService.getDaysPastDue", () => {
+  it("counts whole days from the due date", () => {
+    const asOf = new Date("2024-04-30");
+    expect(AgingService.getDaysPastDue("2024-03-31", asOf)).toBe(30);
+    expect(AgingService.getDaysPastDue("2024-04-30", asOf)).toBe(0);
+    expect(AgingService.getDaysPastDue("2024-05-15", asOf)).toBe(0);
+    expect(AgingService.getDaysPastDue("not a date", asOf)).toBe(0);
+  });
+
+  it("reads days in UTC, whatever the time zone", () => {
+    // Already the next day here when it is midday in UTC
+    vi.stubEnv("TZ", "Pacific/Kiritimati");
+    const asOf = new Date("2024-04-01T12:00:00.000Z");
+
+    expect(AgingService.getDaysPastDue("2024-03-31", asOf)).toBe(1);
+    expect(
+      AgingService.getDaysPastDue("2024-03-31T00:00:00.000Z", asOf)
+    ).toBe(1);
+  });
+});
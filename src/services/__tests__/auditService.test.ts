@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AuditService } from "../auditService";
+import {
+  createLocalRepositories,
+  getRepositories,
+  setRepositories,
+} from "@/repositories";
+
+vi.mock("../firebaseConfig", () => import("./firebaseMock"));
+
+describe("AuditService.diff", () => {
+  it("lists every field of a created or deleted record", () => {
+    expect(AuditService.diff(null, { id: "p1", name: "Mall" })).toEqual({
+      name: { before: null, after: "Mall" },
+    });
+    expect(AuditService.diff({ name: "Mall" }, null)).toEqual({
+      name: { before: "Mall", after: null },
+    });
+  });
+
+  it("keeps only changed fields, comparing nested values", () => {
+    const before = {
+      name: "Mall",
+      status: "active",
+      address: { city: "Knysna" },
+      tags: ["retail"],
+    };
+    const after = {
+      ...before,
+      status: "inactive",
+      address: { city: "George" },
+      tags: ["retail"],
+      notes: undefined,
+    };
+
+    expect(AuditService.diff(before, after)).toEqual({
+      status: { before: "active", after: "inactive" },
+      address: { before: { city: "Knysna" }, after: { city: "George" } },
+    });
+  });
+});
+
+describe("AuditService.buildEntry", () => {
+  it("redacts provider secrets but shows that they changed", () => {
+    const before = {
+      name: "CleanPro",
+      apiConnections: {
+        billing: { apiKey: "Y2xlYW5wcm8ta2V5", isActive: true },
+      },
+    };
+    const after = {
+      ...before,
+      apiConnections: {
+        billing: { apiKey: "v2:0:rotated", isActive: true },
+      },
+    };
+
+    const entry = AuditService.buildEntry(
+      "update",
+      "serviceProvider",
+      "prov_1",
+      before,
+      after
+    );
+    expect(entry.changes).toEqual({
+      apiConnections: {
+        before: { billing: { apiKey: "[redacted]", isActive: true } },
+        after: { billing: { apiKey: "[redacted]", isActive: true } },
+      },
+    });
+    expect(JSON.stringify(entry)).not.toContain("Y2xlYW5wcm8ta2V5");
+  });
+});
+
+describe("AuditService.getEntries", () => {
+  beforeEach(async () => {
+    setRepositories(createLocalRepositories());
+    await getRepositories().runTransaction(async (transaction) => {
+      AuditService.recordInTransaction(
+        transaction,
+        "create",
+        "property",
+        "prop_1",
+        null,
+        { name: "Mall" }
+      );
+      AuditService.recordInTransaction(
+        transaction,
+        "update",
+        "invoice",
+        "inv_1",
+        { status: "sent" },
+        { status: "paid" }
+      );
+      AuditService.recordInTransaction(
+        transaction,
+        "delete",
+        "property",
+        "prop_1",
+        {},
+        {}
+      );
+    });
+  });
+
+  afterEach(() => {
+    setRepositories(null);
+  });
+
+  it("records who made each change", async () => {
+    const [entry] = await AuditService.getEntries({ entityId: "inv_1" });
+    expect(entry).toMatchObject({
+      actorId: "system",
+      action: "update",
+      entityType: "invoice",
+      changes: { status: { before: "sent", after: "paid" } },
+    });
+  });
+
+  it("filters by entity, type and action", async () => {
+    expect(await AuditService.getEntries({ entityId: "prop_1" })).toHaveLength(
+      2
+    );
+    expect(
+      await AuditService.getEntries({ entityType: "property", action: "delete" })
+    ).toHaveLength(1);
+    expect(await AuditService.getEntries()).toHaveLength(3);
+  });
+
+  it("filters by date", async () => {
+    const today = new Date().toISOString().slice(0, 10);
+    expect(await AuditService.getEntries({ from: today })).toHaveLength(3);
+    expect(await AuditService.getEntries({ to: "2000-01-01" })).toHaveLength(0);
+  });
+
+  it("records nothing when the change fails", async () => {
+    await expect(
+      getRepositories().runTransaction(async (transaction) => {
+        AuditService.recordInTransaction(
+          transaction,
+          "update",
+          "invoice",
+          "inv_2",
+          null,
+          { status: "paid" }
+        );
+        throw new Error("Invoice not found: inv_2");
+      })
+    ).rejects.toThrow("Invoice not found");
+    expect(await AuditService.getEntries({ entityId: "inv_2" })).toEqual([]);
+  });
+});
@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { BudgetService } from "../budgetService";
+import { useLocalRepositories } from "./fixtures";
+import { Repositories, setRepositories } from "@/repositories";
+import { auth } from "./firebaseMock";
+
+vi.mock("../firebaseConfig", () => import("./firebaseMock"));
+
+let repositories: Repositories;
+
+beforeEach(async () => {
+  repositories = await useLocalRepositories();
+  for (const propertyId of ["prop_1", "prop_2"]) {
+    await repositories.budgets.create({
+      propertyId,
+      kind: "revenue",
+      granularity: "YEAR",
+      period: "2024",
+      amount: 12000,
+      currency: "USD",
+      createdAt: "2024-01-01T00:00:00.000Z",
+      updatedAt: "2024-01-01T00:00:00.000Z",
+      createdBy: "admin",
+      updatedBy: "admin",
+    });
+  }
+});
+
+afterEach(() => {
+  auth.currentUser = null;
+  setRepositories(null);
+  vi.unstubAllEnvs();
+});
+
+describe("BudgetService.getBudgetsByProperty", () => {
+  it("lists budgets only of properties in the user's scope", async () => {
+    expect(await BudgetService.getBudgetsByProperty("prop_2")).toHaveLength(1);
+
+    auth.currentUser = { uid: "manager_1" };
+    expect(await BudgetService.getBudgetsByProperty("prop_1")).toHaveLength(1);
+    expect(await BudgetService.getBudgetsByProperty("prop_2")).toEqual([]);
+  });
+});
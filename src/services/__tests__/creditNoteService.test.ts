@@ -0,0 +1,263 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CreditNoteService } from "../creditNoteService";
+import { PaymentService } from "../paymentService";
+import { makeInvoice, useLocalRepositories } from "./fixtures";
+import { Repositories, setRepositories } from "@/repositories";
+import { auth } from "./firebaseMock";
+
+vi.mock("../firebaseConfig", () => import("./firebaseMock"));
+
+let repositories: Repositories;
+
+beforeEach(async () => {
+  repositories = await useLocalRepositories();
+});
+
+afterEach(() => {
+  auth.currentUser = null;
+  setRepositories(null);
+  vi.unstubAllEnvs();
+});
+
+// Record inv_1's number, as numbering does for new invoices
+const issueNumber = () =>
+  repositories.invoiceNumbers.set("INV-0001", {
+    invoiceNumber: "INV-0001",
+    invoiceId: "inv_1",
+    sequenceKey: "global",
+    sequence: 1,
+    status: "issued",
+    createdAt: "2024-03-01T00:00:00.000Z",
+  });
+
+const credit = {
+  reason: "Missed visit",
+  issueDate: "2024-03-05",
+  lineItems: [
+    { description: "Cleaning", quantity: 1, unitPrice: 200, total: 200 },
+  ],
+};
+
+describe("CreditNoteService.createCreditNote", () => {
+  it("credits the invoice and numbers credit notes by year", async () => {
+    const first = await CreditNoteService.createCreditNote("inv_1", credit);
+    const second = await CreditNoteService.createCreditNote("inv_1", credit);
+
+    expect(await repositories.creditNotes.get(first)).toMatchObject({
+      creditNoteNumber: "CN-2024-001",
+      invoiceNumber: "INV-0001",
+      propertyId: "prop_1",
+      type: "partial",
+      status: "issued",
+      total: 200,
+    });
+    expect(
+      (await repositories.creditNotes.get(second))?.creditNoteNumber
+    ).toBe("CN-2024-002");
+    // Its due date has passed
+    expect(await repositories.invoices.get("inv_1")).toMatchObject({
+      status: "overdue",
+      creditedAmount: 400,
+      balanceDue: 600,
+    });
+  });
+
+  it("credits tax at the invoice's effective rate", async () => {
+    await repositories.invoices.update("inv_1", {
+      subtotal: 1000,
+      tax: 100,
+      total: 1100,
+    });
+    const id = await CreditNoteService.createCreditNote("inv_1", credit);
+
+    expect(await repositories.creditNotes.get(id)).toMatchObject({
+      subtotal: 200,
+      tax: 20,
+      total: 220,
+    });
+  });
+
+  it("settles a part-paid invoice once the rest is credited", async () => {
+    await PaymentService.recordPayment({
+      amount: 800,
+      currency: "USD",
+      paymentDate: "2024-03-04",
+      method: "card",
+      allocations: [{ invoiceId: "inv_1", amount: 800 }],
+    });
+    await CreditNoteService.createCreditNote("inv_1", credit);
+
+    expect(await repositories.invoices.get("inv_1")).toMatchObject({
+      status: "paid",
+      creditedAmount: 200,
+      balanceDue: 0,
+    });
+  });
+
+  it("cancels an unpaid invoice credited in full", async () => {
+    await issueNumber();
+    const id = await CreditNoteService.createFullCreditNote(
+      makeInvoice(),
+      "Duplicate invoice"
+    );
+
+    expect((await repositories.creditNotes.get(id))?.type).toBe("full");
+    expect(await repositories.invoices.get("inv_1")).toMatchObject({
+      status: "cancelled",
+      creditedAmount: 1000,
+      balanceDue: 0,
+    });
+    expect(await repositories.invoiceNumbers.get("INV-0001")).toMatchObject({
+      status: "void",
+      voidReason: expect.stringMatching(/^Credit note CN-.+: Duplicate/),
+    });
+  });
+
+  it("rejects credit beyond the uncredited total", async () => {
+    await expect(
+      CreditNoteService.createCreditNote("inv_1", {
+        ...credit,
+        lineItems: [
+          {
+            description: "Refund",
+            quantity: 1,
+            unitPrice: 1200,
+            total: 1200,
+          },
+        ],
+      })
+    ).rejects.toThrow("Credit exceeds the uncredited total of invoice");
+    expect(await repositories.creditNotes.list()).toEqual([]);
+  });
+
+  it("nets the credit out of the rollup revenue", async () => {
+    await CreditNoteService.createCreditNote("inv_1", credit);
+
+    const rollups = await repositories.rollups.list({
+      filters: [{ field: "propertyId", op: "==", value: "prop_1" }],
+    });
+    expect(rollups).toEqual([
+      expect.objectContaining({ status: "overdue", revenue: 800 }),
+    ]);
+  });
+});
+
+describe("CreditNoteService.voidCreditNote", () => {
+  it("restores the invoice balance", async () => {
+    const id = await CreditNoteService.createCreditNote("inv_1", credit);
+    await CreditNoteService.voidCreditNote(id, "Issued in error");
+
+    expect(await repositories.creditNotes.get(id)).toMatchObject({
+      status: "void",
+      voidReason: "Issued in error",
+    });
+    expect(await repositories.invoices.get("inv_1")).toMatchObject({
+      creditedAmount: 0,
+      balanceDue: 1000,
+    });
+    await expect(
+      CreditNoteService.voidCreditNote(id, "Again")
+    ).rejects.toThrow("Credit note already void");
+  });
+
+  it("reopens a part-paid invoice once its credit is voided", async () => {
+    await PaymentService.recordPayment({
+      amount: 800,
+      currency: "USD",
+      paymentDate: "2024-03-04",
+      method: "card",
+      allocations: [{ invoiceId: "inv_1", amount: 800 }],
+    });
+    const id = await CreditNoteService.createCreditNote("inv_1", credit);
+    await CreditNoteService.voidCreditNote(id, "Issued in error");
+
+    expect(await repositories.invoices.get("inv_1")).toMatchObject({
+      status: "partially_paid",
+      creditedAmount: 0,
+      balanceDue: 200,
+    });
+  });
+
+  it("reopens an invoice cancelled by a full credit", async () => {
+    await issueNumber();
+    const id = await CreditNoteService.createFullCreditNote(
+      makeInvoice(),
+      "Duplicate invoice"
+    );
+    await CreditNoteService.voidCreditNote(id, "Not a duplicate");
+
+    // Its due date has passed
+    expect(await repositories.invoices.get("inv_1")).toMatchObject({
+      status: "overdue",
+      creditedAmount: 0,
+      balanceDue: 1000,
+    });
+    expect((await repositories.invoiceNumbers.get("INV-0001"))?.status).toBe(
+      "issued"
+    );
+    expect(
+      (await repositories.statusHistory("inv_1").list()).map(
+        ({ fromStatus, toStatus }) => [fromStatus, toStatus]
+      )
+    ).toEqual([
+      ["sent", "cancelled"],
+      ["cancelled", "overdue"],
+    ]);
+  });
+
+  it("leaves an invoice cancelled by hand cancelled", async () => {
+    const id = await CreditNoteService.createCreditNote("inv_1", credit);
+    await repositories.invoices.update("inv_1", { status: "cancelled" });
+    await CreditNoteService.voidCreditNote(id, "Issued in error");
+
+    expect(await repositories.invoices.get("inv_1")).toMatchObject({
+      status: "cancelled",
+      creditedAmount: 0,
+    });
+  });
+});
+
+describe("CreditNoteService permissions", () => {
+  it("rejects credit notes from users who may not approve the invoice", async () => {
+    auth.currentUser = { uid: "provider_1" };
+    await expect(
+      CreditNoteService.createCreditNote("inv_1", credit)
+    ).rejects.toThrow("Insufficient permissions");
+    expect(await repositories.creditNotes.list()).toEqual([]);
+    expect((await repositories.invoices.get("inv_1"))?.creditedAmount).toBe(
+      undefined
+    );
+  });
+
+  it("rejects voiding from users who may not approve the invoice", async () => {
+    auth.currentUser = { uid: "manager_1" };
+    const creditNoteId = await CreditNoteService.createCreditNote(
+      "inv_1",
+      credit
+    );
+
+    auth.currentUser = { uid: "provider_1" };
+    await expect(
+      CreditNoteService.voidCreditNote(creditNoteId, "Issued in error")
+    ).rejects.toThrow("Insufficient permissions");
+    expect((await repositories.creditNotes.get(creditNoteId))?.status).toBe(
+      "issued"
+    );
+  });
+
+  it("reads credit notes only of invoices in the user's scope", async () => {
+    const id = await CreditNoteService.createCreditNote("inv_2", credit);
+
+    auth.currentUser = { uid: "manager_1" };
+    expect(await CreditNoteService.getCreditNoteById(id)).toBeNull();
+    expect(await CreditNoteService.getCreditNotesForInvoice("inv_2")).toEqual(
+      []
+    );
+
+    auth.currentUser = { uid: "provider_1" };
+    expect((await CreditNoteService.getCreditNoteById(id))?.total).toBe(200);
+    expect(
+      await CreditNoteService.getCreditNotesForInvoice("inv_2")
+    ).toHaveLength(1);
+  });
+});
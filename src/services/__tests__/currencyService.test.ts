@@ -0,0 +1,101 @@
+import { describe, expect, it, vi } from "vitest";
+import { CurrencyService } from "../currencyService";
+import { FxRate } from "../../types/float34";
+
+vi.mock("../firebaseConfig", () => import("./firebaseMock"));
+
+const rate = (
+  date: string,
+  baseCurrency: string,
+  quoteCurrency: string,
+  value: number
+): FxRate => ({
+  id: `${date}_${baseCurrency}_${quoteCurrency}`,
+  baseCurrency,
+  quoteCurrency,
+  rate: value,
+  date,
+  source: "manual",
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+});
+
+describe("CurrencyService.createConverter", () => {
+  const converter = CurrencyService.createConverter("USD", [
+    rate("2024-03-01", "EUR", "USD", 1.1),
+    rate("2024-01-01", "EUR", "USD", 1.05),
+    rate("2024-02-01", "USD", "ZAR", 20),
+    rate("2024-02-01", "GBP", "EUR", 1.2),
+  ]);
+
+  it("uses the latest rate on or before the date", () => {
+    expect(converter.convert(100, "EUR", "2024-02-15")).toBeCloseTo(105);
+    expect(converter.convert(100, "eur", "2024-03-01")).toBeCloseTo(110);
+  });
+
+  it("falls back to the earliest later rate", () => {
+    expect(converter.convert(100, "EUR", "2023-06-30")).toBeCloseTo(105);
+  });
+
+  it("inverts a rate quoted the other way round", () => {
+    expect(converter.convert(200, "ZAR", "2024-03-01")).toBeCloseTo(10);
+  });
+
+  it("crosses through an intermediate currency", () => {
+    // 1 GBP = 1.2 EUR = 1.2 * 1.1 USD
+    expect(converter.convert(100, "GBP", "2024-03-01")).toBeCloseTo(132);
+  });
+
+  it("keeps amounts already in the reporting currency", () => {
+    expect(converter.convert(100, "USD", "2024-03-01")).toBe(100);
+    expect(converter.convert(100, undefined, "2024-03-01")).toBe(100);
+  });
+
+  it("leaves out amounts with no usable rate and lists their currency", () => {
+    expect(converter.convert(100, "JPY", "2024-03-01")).toBe(0);
+    expect(converter.unconvertedCurrencies).toEqual(new Set(["JPY"]));
+    expect(CurrencyService.getUnconvertedCurrencies()).toContain("JPY");
+  });
+});
+
+describe("CurrencyService.parseFxRatesCsv", () => {
+  it("skips a header row and normalizes rows", () => {
+    const { rates, errors } = CurrencyService.parseFxRatesCsv(
+      'date,base,quote,rate\n2024-01-31,zar,"USD",0.053\n\n'
+    );
+    expect(errors).toEqual([]);
+    expect(rates).toEqual([
+      {
+        date: "2024-01-31",
+        baseCurrency: "ZAR",
+        quoteCurrency: "USD",
+        rate: 0.053,
+      },
+    ]);
+  });
+
+  it("reads a first row without a header as a rate", () => {
+    const { rates } = CurrencyService.parseFxRatesCsv(
+      "2024-01-31,EUR,USD,1.08\r\n2024-02-29,EUR,USD,1.09"
+    );
+    expect(rates.map(({ rate }) => rate)).toEqual([1.08, 1.09]);
+  });
+
+  it("reports rows it cannot parse by line", () => {
+    const { rates, errors } = CurrencyService.parseFxRatesCsv(
+      [
+        "date,base,quote,rate",
+        "not a date,EUR,USD,1.08",
+        "2024-01-31,EURO,USD,1.08",
+        "2024-01-31,EUR,USD,-1",
+        "2024-01-31,EUR,USD,1.08",
+      ].join("\n")
+    );
+    expect(rates).toHaveLength(1);
+    expect(errors).toEqual([
+      'Line 2: could not parse "not a date,EUR,USD,1.08"',
+      'Line 3: could not parse "2024-01-31,EURO,USD,1.08"',
+      'Line 4: could not parse "2024-01-31,EUR,USD,-1"',
+    ]);
+  });
+});
@@ -0,0 +1,252 @@
+import { describe, expect, it, vi } from "vitest";
+import { DataValidationService } from "../dataValidationService";
+import { Property, Provider } from "@/types/float34";
+import { makeInvoice } from "./fixtures";
+
+vi.mock("../firebaseConfig", () => import("./firebaseMock"));
+
+const property: Partial<Property> = {
+  id: "prop_1",
+  name: "Downtown Office Tower",
+  propertyType: "office",
+  status: "active",
+  address: {
+    street: "123 Main St",
+    city: "Johannesburg",
+    state: "Gauteng",
+    zipCode: "2001",
+    country: "South Africa",
+    fullAddress: "123 Main St, Johannesburg",
+  },
+  financialInfo: {
+    purchasePrice: 1000000,
+    currentValue: 1200000,
+    monthlyRent: 10000,
+    propertyTax: 500,
+    insurance: 300,
+    monthlyExpenses: 2000,
+  },
+};
+
+const provider: Partial<Provider> = {
+  id: "prov_1",
+  name: "CleanPro Services",
+  email: "info@cleanpro.co.za",
+  phone: "+27 (11) 123-4567",
+  service: "Cleaning",
+  status: "active",
+  rating: 4.8,
+  businessName: "CleanPro Services",
+  propertyIds: ["prop_1"],
+};
+
+describe("DataValidationService", () => {
+  describe("validateProperty", () => {
+    it("accepts a complete property", () => {
+      expect(DataValidationService.validateProperty(property)).toEqual({
+        isValid: true,
+        errors: [],
+      });
+    });
+
+    it("requires the main fields", () => {
+      expect(DataValidationService.validateProperty({}).errors).toEqual([
+        "Property name is required",
+        "Property address is required",
+        "Property type is required",
+        "Property status is required",
+      ]);
+    });
+
+    it("requires every address part", () => {
+      const result = DataValidationService.validateProperty({
+        ...property,
+        address: {
+          street: "",
+          city: "",
+          state: "",
+          zipCode: "",
+          country: "",
+          fullAddress: "",
+        },
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual([
+        "Street address is required",
+        "City is required",
+        "State is required",
+        "ZIP code is required",
+        "Country is required",
+      ]);
+    });
+
+    it("rejects negative values", () => {
+      const result = DataValidationService.validateProperty({
+        ...property,
+        financialInfo: {
+          ...property.financialInfo!,
+          purchasePrice: -1,
+          currentValue: -1,
+        },
+      });
+
+      expect(result.errors).toEqual([
+        "Purchase price cannot be negative",
+        "Current value cannot be negative",
+      ]);
+    });
+  });
+
+  describe("validateProvider", () => {
+    it("accepts a complete provider", () => {
+      expect(DataValidationService.validateProvider(provider)).toEqual({
+        isValid: true,
+        errors: [],
+      });
+    });
+
+    it("requires the main fields and a property", () => {
+      expect(DataValidationService.validateProvider({}).errors).toEqual([
+        "Provider name is required",
+        "Provider email is required",
+        "Provider phone is required",
+        "Provider service is required",
+        "Provider status is required",
+        "Business name is required",
+        "Provider must be associated with at least one property",
+      ]);
+      expect(
+        DataValidationService.validateProvider({
+          ...provider,
+          propertyIds: [],
+        }).errors
+      ).toEqual(["Provider must be associated with at least one property"]);
+    });
+
+    it("checks the email and phone formats", () => {
+      const result = DataValidationService.validateProvider({
+        ...provider,
+        email: "not-an-email",
+        phone: "0123",
+      });
+
+      expect(result.errors).toEqual([
+        "Invalid email format",
+        "Invalid phone format",
+      ]);
+    });
+
+    it("keeps ratings between 0 and 5", () => {
+      expect(
+        DataValidationService.validateProvider({ ...provider, rating: 6 })
+          .errors
+      ).toEqual(["Rating must be between 0 and 5"]);
+      expect(
+        DataValidationService.validateProvider({ ...provider, rating: -1 })
+          .errors
+      ).toEqual(["Rating must be between 0 and 5"]);
+    });
+  });
+
+  describe("validateInvoice", () => {
+    it("accepts a complete invoice", () => {
+      expect(DataValidationService.validateInvoice(makeInvoice())).toEqual({
+        isValid: true,
+        errors: [],
+      });
+    });
+
+    it("requires the main fields", () => {
+      expect(DataValidationService.validateInvoice({}).errors).toEqual([
+        "Invoice number is required",
+        "Property ID is required",
+        "Provider ID is required",
+        "Invoice description is required",
+        "Issue date is required",
+        "Due date is required",
+        "Invoice status is required",
+        "Subtotal is required",
+        "Total is required",
+        "Currency is required",
+      ]);
+    });
+
+    it("rejects negative amounts", () => {
+      const result = DataValidationService.validateInvoice(
+        makeInvoice({ subtotal: -10, tax: -1, total: -11 })
+      );
+
+      expect(result.errors).toEqual([
+        "Subtotal cannot be negative",
+        "Total cannot be negative",
+        "Tax cannot be negative",
+      ]);
+    });
+
+    it("rejects an issue date after the due date", () => {
+      const result = DataValidationService.validateInvoice(
+        makeInvoice({ issueDate: "2024-04-01", dueDate: "2024-03-01" })
+      );
+
+      expect(result.errors).toEqual(["Issue date cannot be after due date"]);
+    });
+
+    it("checks every line item", () => {
+      const result = DataValidationService.validateInvoice(
+        makeInvoice({
+          lineItems: [
+            { description: "", quantity: 0, unitPrice: -5, total: 0 },
+            { description: "Ok", quantity: 1, unitPrice: 10, total: 10 },
+          ],
+        })
+      );
+
+      expect(result.errors).toEqual([
+        "Line item 1: description is required",
+        "Line item 1: quantity must be greater than 0",
+        "Line item 1: unit price cannot be negative",
+      ]);
+    });
+  });
+
+  describe("validateRelationships", () => {
+    it("reports references to missing properties and providers", () => {
+      const result = DataValidationService.validateRelationships(
+        [property as Property],
+        [{ ...provider, propertyIds: ["prop_1", "prop_9"] } as Provider],
+        [
+          makeInvoice({ invoiceNumber: "INV-1" }),
+          makeInvoice({
+            invoiceNumber: "INV-2",
+            propertyId: "prop_9",
+            providerId: "prov_9",
+          }),
+        ]
+      );
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual([
+        "Invoice INV-2: Property ID prop_9 not found",
+        "Invoice INV-2: Provider ID prov_9 not found",
+        "Provider CleanPro Services: Property ID prop_9 not found",
+      ]);
+    });
+  });
+
+  describe("checkDuplicateInvoiceNumbers", () => {
+    it("lists each duplicated number once", () => {
+      const result = DataValidationService.checkDuplicateInvoiceNumbers([
+        makeInvoice({ invoiceNumber: "INV-1" }),
+        makeInvoice({ invoiceNumber: "INV-2" }),
+        makeInvoice({ invoiceNumber: "INV-1" }),
+        makeInvoice({ invoiceNumber: "INV-1" }),
+      ]);
+
+      expect(result).toEqual({ hasDuplicates: true, duplicates: ["INV-1"] });
+      expect(
+        DataValidationService.checkDuplicateInvoiceNumbers([makeInvoice()])
+      ).toEqual({ hasDuplicates: false, duplicates: [] });
+    });
+  });
+});
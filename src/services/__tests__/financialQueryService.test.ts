@@ -0,0 +1,226 @@
+import { describe, expect, it, vi } from "vitest";
+import { FinancialQueryService } from "../financialQueryService";
+import { FinancialQuery } from "@/types/float34";
+import { expenses, invoices, makeQueryData } from "./fixtures";
+
+vi.mock("../firebaseConfig", () => import("./firebaseMock"));
+
+const query: FinancialQuery = {
+  from: "2024-01-01",
+  to: "2024-12-31",
+  granularity: "MONTH",
+};
+
+describe("FinancialQueryService", () => {
+  const data = makeQueryData(invoices, expenses);
+
+  describe("summary", () => {
+    it("totals revenue, expenses and invoice counts", () => {
+      const { summary } = FinancialQueryService.buildResult(query, data);
+
+      expect(summary.revenue).toBe(3500);
+      expect(summary.expenses).toBe(700);
+      expect(summary.profit).toBe(2800);
+      expect(summary.marginPct).toBe(80);
+      expect(summary.amountReceived).toBe(1200);
+      expect(summary.invoicesPaidPct).toBeCloseTo((1200 / 3500) * 100);
+      expect(summary.overdueAmount).toBe(300);
+      expect(summary.pendingAmount).toBe(2000);
+      expect(summary.invoiceCount).toBe(3);
+      expect(summary.paidInvoiceCount).toBe(1);
+      expect(summary.overdueInvoiceCount).toBe(1);
+    });
+
+    it("maps to the report summary", () => {
+      const summary = FinancialQueryService.toSummary(
+        FinancialQueryService.buildResult(query, data)
+      );
+
+      expect(summary).toMatchObject({
+        revenue: 3500,
+        expenses: 700,
+        profit: 2800,
+        totalInvoices: 3,
+        paidInvoices: 1,
+        overdueInvoices: 1,
+        currency: "USD",
+      });
+    });
+
+    it("reports zero margins without revenue", () => {
+      const { summary } = FinancialQueryService.buildResult(
+        query,
+        makeQueryData([], expenses)
+      );
+
+      expect(summary.revenue).toBe(0);
+      expect(summary.profit).toBe(-700);
+      expect(summary.marginPct).toBe(0);
+      expect(summary.invoicesPaidPct).toBe(0);
+    });
+
+    it("nets credit notes out of revenue and balances", () => {
+      const [paid, overdue, draft] = invoices;
+      const { summary } = FinancialQueryService.buildResult(
+        query,
+        makeQueryData(
+          [paid, { ...overdue, creditedAmount: 100 }, draft],
+          expenses
+        )
+      );
+
+      expect(summary.revenue).toBe(3400);
+      expect(summary.overdueAmount).toBe(200);
+    });
+
+    it("counts what is owed past the due date as overdue", () => {
+      const [paid, overdue, draft] = invoices;
+      const { summary } = FinancialQueryService.buildResult(
+        query,
+        makeQueryData(
+          [
+            paid,
+            // Past due, though its stored status was never moved on
+            { ...overdue, status: "sent" },
+            // Part paid and not due yet
+            {
+              ...draft,
+              status: "partially_paid",
+              amountPaid: 500,
+              dueDate: "2099-01-01",
+            },
+          ],
+          expenses
+        )
+      );
+
+      expect(summary.overdueAmount).toBe(300);
+      expect(summary.overdueInvoiceCount).toBe(1);
+      expect(summary.pendingAmount).toBe(1500);
+    });
+
+    it("applies filters", () => {
+      const { summary } = FinancialQueryService.buildResult(
+        { ...query, filters: { propertyId: "prop_2" } },
+        data
+      );
+
+      expect(summary.revenue).toBe(2000);
+      expect(summary.expenses).toBe(400);
+
+      const paid = FinancialQueryService.buildResult(
+        { ...query, filters: { status: "paid" } },
+        data
+      );
+      expect(paid.summary.revenue).toBe(1000);
+      expect(paid.summary.invoiceCount).toBe(1);
+    });
+  });
+
+  describe("byProperty", () => {
+    it("groups by property, highest revenue first", () => {
+      const result = FinancialQueryService.buildResult(
+        { ...query, groupBy: ["property"] },
+        data
+      );
+      const items = FinancialQueryService.toPropertyRankItems(result.rows);
+
+      expect(items.map((item) => item.propertyId)).toEqual([
+        "prop_2",
+        "prop_1",
+      ]);
+      expect(items[0]).toMatchObject({
+        propertyName: "Riverside Business Park",
+        revenue: 2000,
+        expenses: 400,
+        profit: 1600,
+        invoiceCount: 1,
+        paidInvoiceCount: 0,
+      });
+      expect(items[1]).toMatchObject({
+        propertyName: "Downtown Office Tower",
+        revenue: 1500,
+        expenses: 300,
+        invoiceCount: 2,
+        paidInvoiceCount: 1,
+      });
+    });
+
+    it("names unknown properties", () => {
+      const result = FinancialQueryService.buildResult(
+        { ...query, groupBy: ["property"] },
+        { ...data, propertyNames: new Map() }
+      );
+
+      expect(result.rows[0].propertyName).toBe("Unknown Property");
+    });
+  });
+
+  describe("byProvider", () => {
+    it("groups by provider and leaves out expenses without one", () => {
+      const result = FinancialQueryService.buildResult(
+        { ...query, groupBy: ["provider"] },
+        data
+      );
+      const items = FinancialQueryService.toProviderRankItems(
+        result.rows,
+        data
+      );
+
+      expect(items).toHaveLength(2);
+      expect(items[0]).toMatchObject({
+        providerId: "prov_1",
+        providerName: "CleanPro Services",
+        service: "Cleaning",
+        revenue: 3000,
+        expenses: 400,
+      });
+      expect(items[1]).toMatchObject({
+        providerId: "prov_2",
+        revenue: 500,
+        expenses: 0,
+      });
+      // Still in the summary
+      expect(result.summary.expenses).toBe(700);
+    });
+
+    it("builds a trend per provider", () => {
+      const series = FinancialQueryService.buildProviderSeries(
+        { ...query, groupBy: ["provider", "period"] },
+        data
+      );
+
+      expect(series[0].providerId).toBe("prov_1");
+      expect(series[0].trend?.map((point) => point.label)).toEqual([
+        "2024-01",
+        "2024-02",
+      ]);
+      expect(series[0].invoices).toEqual({ paid: 1, total: 2 });
+    });
+  });
+
+  describe("period bucketing", () => {
+    it("groups rows by month in period order", () => {
+      const result = FinancialQueryService.buildResult(
+        { ...query, groupBy: ["period"] },
+        data
+      );
+
+      expect(result.rows.map((row) => [row.period, row.revenue])).toEqual([
+        ["2024-01", 1000],
+        ["2024-02", 2500],
+        ["2024-03", 0],
+      ]);
+    });
+
+    it("groups rows by quarter", () => {
+      const result = FinancialQueryService.buildResult(
+        { ...query, granularity: "QUARTER", groupBy: ["period"] },
+        data
+      );
+
+      expect(result.rows.map((row) => row.period)).toEqual(["2024-Q1"]);
+      expect(result.rows[0].revenue).toBe(3500);
+    });
+  });
+});
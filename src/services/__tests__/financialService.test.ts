@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from "vitest";
+import { FinancialService } from "../financialService";
+
+vi.mock("../firebaseConfig", () => import("./firebaseMock"));
+
+describe("FinancialService.parseDateRange", () => {
+  it("expands year-only bounds to the whole year", () => {
+    const range = FinancialService.parseDateRange("2024", "2024");
+
+    expect(range?.from).toEqual(new Date(2024, 0, 1));
+    expect(range?.to).toEqual(new Date(2024, 11, 31, 23, 59, 59));
+  });
+
+  it("mixes year-only and full dates", () => {
+    const range = FinancialService.parseDateRange(
+      "2023",
+      "2024-06-30T00:00:00Z"
+    );
+
+    expect(range?.from).toEqual(new Date(2023, 0, 1));
+    expect(range?.to).toEqual(new Date("2024-06-30T00:00:00Z"));
+  });
+
+  it("swaps bounds given in the wrong order", () => {
+    const range = FinancialService.parseDateRange("2025", "2024-01-01");
+
+    expect(range?.from).toEqual(new Date("2024-01-01"));
+    expect(range?.to).toEqual(new Date(2025, 0, 1));
+  });
+
+  it("rejects missing and invalid dates", () => {
+    expect(FinancialService.parseDateRange("", "2024")).toBeNull();
+    expect(FinancialService.parseDateRange("2024", "soon")).toBeNull();
+  });
+});
+
+describe("FinancialService.getPeriodFromDate", () => {
+  it("delegates to the period keys", () => {
+    expect(FinancialService.getPeriodFromDate("2024-05-17", "MONTH", 1)).toBe(
+      "2024-05"
+    );
+    expect(FinancialService.getPeriodFromDate("nope", "MONTH", 1)).toBe(
+      "Invalid Date"
+    );
+  });
+});
@@ -0,0 +1,7 @@
+// Stands in for ../firebaseConfig, so service tests never start the
+// Firebase SDK. Tests sign in by setting auth.currentUser.
+export const auth = {
+  currentUser: null as { uid: string; email?: string } | null,
+};
+
+export const emulatorConfig = null;
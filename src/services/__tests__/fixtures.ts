@@ -0,0 +1,179 @@
+import { vi } from "vitest";
+import { Expense, Invoice } from "@/types/float34";
+import { FinancialQueryData } from "../financialQueryService";
+import { RollupService } from "../rollupService";
+import { UserProfile } from "../userService";
+import {
+  createLocalRepositories,
+  Repositories,
+  setRepositories,
+} from "@/repositories";
+
+export function makeInvoice(overrides: Partial<Invoice> = {}): Invoice {
+  return {
+    id: "inv_1",
+    invoiceNumber: "INV-0001",
+    propertyId: "prop_1",
+    providerId: "prov_1",
+    description: "Monthly cleaning",
+    issueDate: "2024-03-01",
+    dueDate: "2024-03-31",
+    status: "sent",
+    subtotal: 1000,
+    tax: 0,
+    total: 1000,
+    currency: "USD",
+    lineItems: [
+      { description: "Cleaning", quantity: 1, unitPrice: 1000, total: 1000 },
+    ],
+    createdAt: "2024-03-01T00:00:00Z",
+    updatedAt: "2024-03-01T00:00:00Z",
+    createdBy: "test",
+    updatedBy: "test",
+    ...overrides,
+  };
+}
+
+export function makeExpense(overrides: Partial<Expense> = {}): Expense {
+  return {
+    id: "exp_1",
+    propertyId: "prop_1",
+    category: "materials",
+    description: "Supplies",
+    amount: 100,
+    currency: "USD",
+    date: "2024-03-15",
+    status: "approved",
+    createdAt: "2024-03-15T00:00:00Z",
+    updatedAt: "2024-03-15T00:00:00Z",
+    createdBy: "test",
+    updatedBy: "test",
+    ...overrides,
+  };
+}
+
+export function makeUser(overrides: Partial<UserProfile> = {}): UserProfile {
+  return {
+    uid: "user_1",
+    email: "user@example.com",
+    firstName: "Test",
+    lastName: "User",
+    phone: "",
+    role: "admin",
+    status: "active",
+    createdAt: "2024-01-01T00:00:00Z",
+    updatedAt: "2024-01-01T00:00:00Z",
+    lastLogin: "2024-01-01T00:00:00Z",
+    profileCompleted: true,
+    ...overrides,
+  };
+}
+
+/**
+ * Install local repositories holding invoices inv_1 (prop_1) and inv_2
+ * (prop_2) of provider prov_1, manager_1 managing prop_1 and provider_1, a
+ * user of prov_1. Rollups are recomputed locally too.
+ */
+export async function useLocalRepositories(): Promise<Repositories> {
+  vi.stubEnv("NEXT_PUBLIC_DATA_BACKEND", "local");
+  const repositories = createLocalRepositories();
+  setRepositories(repositories);
+
+  await repositories.invoices.set("inv_1", makeInvoice());
+  await repositories.invoices.set(
+    "inv_2",
+    makeInvoice({
+      id: "inv_2",
+      invoiceNumber: "INV-0002",
+      propertyId: "prop_2",
+    })
+  );
+  await repositories.users.set(
+    "manager_1",
+    makeUser({
+      uid: "manager_1",
+      role: "property_manager",
+      managedProperties: ["prop_1"],
+    })
+  );
+  await repositories.users.set(
+    "provider_1",
+    makeUser({
+      uid: "provider_1",
+      role: "service_provider",
+      providerId: "prov_1",
+    })
+  );
+  return repositories;
+}
+
+/**
+ * Query data for invoices and expenses already in the reporting currency
+ */
+export function makeQueryData(
+  invoices: Invoice[],
+  expenses: Expense[] = []
+): FinancialQueryData {
+  return {
+    records: invoices.map((invoice) => RollupService.toRecord(invoice)),
+    expenses,
+    propertyNames: new Map([
+      ["prop_1", "Downtown Office Tower"],
+      ["prop_2", "Riverside Business Park"],
+    ]),
+    providerNames: new Map([
+      ["prov_1", "CleanPro Services"],
+      ["prov_2", "MaintainTech"],
+    ]),
+    providerServices: new Map([
+      ["prov_1", "Cleaning"],
+      ["prov_2", "Maintenance"],
+    ]),
+    currency: "USD",
+    fiscalYearStartMonth: 1,
+  };
+}
+
+// Paid, overdue and draft invoices across two properties and providers
+export const invoices: Invoice[] = [
+  makeInvoice({
+    id: "inv_1",
+    invoiceNumber: "INV-0001",
+    status: "paid",
+    total: 1000,
+    issueDate: "2024-01-10",
+    dueDate: "2024-02-09",
+  }),
+  makeInvoice({
+    id: "inv_2",
+    invoiceNumber: "INV-0002",
+    providerId: "prov_2",
+    status: "overdue",
+    total: 500,
+    amountPaid: 200,
+    issueDate: "2024-02-05",
+    dueDate: "2024-03-06",
+  }),
+  makeInvoice({
+    id: "inv_3",
+    invoiceNumber: "INV-0003",
+    propertyId: "prop_2",
+    status: "draft",
+    total: 2000,
+    issueDate: "2024-02-20",
+    dueDate: "2024-03-21",
+  }),
+];
+
+export const expenses: Expense[] = [
+  makeExpense({ id: "exp_1", amount: 300, date: "2024-01-15" }),
+  makeExpense({
+    id: "exp_2",
+    propertyId: "prop_2",
+    providerId: "prov_1",
+    amount: 400,
+    date: "2024-02-25",
+  }),
+  // Rejected expenses never count
+  makeExpense({ id: "exp_3", amount: 999, status: "rejected" }),
+];
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { InvoiceNumberingService } from "../invoiceNumberingService";
+import { InvoiceService } from "../invoiceService";
+import { useLocalRepositories } from "./fixtures";
+import { Repositories, setRepositories } from "@/repositories";
+
+vi.mock("../firebaseConfig", () => import("./firebaseMock"));
+
+describe("InvoiceNumberingService.validateSettings", () => {
+  const settings = InvoiceNumberingService.DEFAULT_SETTINGS;
+  const validate = (changes: Partial<typeof settings>) => () =>
+    InvoiceNumberingService.validateSettings({ ...settings, ...changes });
+
+  it("accepts the default settings", () => {
+    expect(validate({})).not.toThrow();
+    expect(validate({ format: "INV-{YY}{MM}-{seq}" })).not.toThrow();
+  });
+
+  it("requires the year when sequences reset yearly", () => {
+    expect(validate({ format: "INV-{seq}" })).toThrow(/{YYYY} or {YY}/);
+    expect(validate({ format: "INV-{MM}-{seq}" })).toThrow(/{YYYY} or {YY}/);
+    expect(
+      validate({ format: "INV-{seq}", resetYearly: false })
+    ).not.toThrow();
+  });
+
+  it("requires the entity in per-entity sequences", () => {
+    expect(validate({ scope: "property" })).toThrow(/{PROP}/);
+    expect(validate({ scope: "provider" })).toThrow(/{PROV}/);
+    expect(
+      validate({ scope: "provider", format: "{PROV}-{YYYY}-{seq}" })
+    ).not.toThrow();
+  });
+
+  it("requires a sequence and a sensible padding", () => {
+    expect(validate({ format: "INV-{YYYY}" })).toThrow(/{seq}/);
+    expect(validate({ padding: 0 })).toThrow(/padding/);
+  });
+});
+
+describe("InvoiceNumberingService dates", () => {
+  const settings = InvoiceNumberingService.DEFAULT_SETTINGS;
+  const target = { propertyId: "prop_1", providerId: "prov_1" };
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("reads the issue date as written, whatever the time zone", () => {
+    // New Year's Day starts in UTC while it is still December here
+    vi.stubEnv("TZ", "America/New_York");
+
+    expect(
+      InvoiceNumberingService.formatNumber(
+        { format: "INV-{YYYY}-{MM}-{seq}", padding: 3 },
+        { issueDate: "2024-01-01", sequence: 7 }
+      )
+    ).toBe("INV-2024-01-007");
+    expect(
+      InvoiceNumberingService.getSequenceKey(
+        { ...target, issueDate: "2024-01-01T00:00:00.000Z" },
+        settings
+      )
+    ).toBe("global_2024");
+  });
+});
+
+describe("InvoiceNumberingService numbers", () => {
+  const settings = InvoiceNumberingService.DEFAULT_SETTINGS;
+  let repositories: Repositories;
+
+  beforeEach(async () => {
+    repositories = await useLocalRepositories();
+  });
+
+  afterEach(() => {
+    setRepositories(null);
+    vi.unstubAllEnvs();
+  });
+
+  const allocate = (issueDate: string, invoiceId = "inv_new") =>
+    repositories.runTransaction((transaction) =>
+      InvoiceNumberingService.allocateInTransaction(
+        transaction,
+        invoiceId,
+        { propertyId: "prop_1", providerId: "prov_1", issueDate },
+        settings
+      )
+    );
+  const reserve = (invoiceNumber: string, invoiceId = "inv_new") =>
+    repositories.runTransaction((transaction) =>
+      InvoiceNumberingService.reserveInTransaction(
+        transaction,
+        invoiceId,
+        invoiceNumber
+      )
+    );
+
+  it("allocates numbers in sequence, restarting each year", async () => {
+    expect(await allocate("2024-03-01")).toBe("INV-2024-001");
+    expect(await allocate("2024-11-30")).toBe("INV-2024-002");
+    expect(await allocate("2025-01-02")).toBe("INV-2025-001");
+    expect(await repositories.invoiceSequences.get("global_2024")).toEqual(
+      expect.objectContaining({ next: 3, lastNumberId: "INV-2024-002" })
+    );
+  });
+
+  it("skips numbers reserved by hand and rejects taking them twice", async () => {
+    await reserve("INV-2024-002");
+    await expect(reserve("INV-2024-002")).rejects.toThrow(
+      "Invoice number already in use: INV-2024-002"
+    );
+
+    expect(await allocate("2024-03-01")).toBe("INV-2024-001");
+    expect(await allocate("2024-03-01")).toBe("INV-2024-003");
+  });
+
+  it("keeps a cancelled invoice's number as a void gap", async () => {
+    await reserve("INV-0001", "inv_1");
+    await InvoiceService.transitionStatus("inv_1", "cancelled", {
+      note: "Sent twice",
+    });
+
+    expect(await InvoiceNumberingService.getVoidNumbers()).toEqual([
+      expect.objectContaining({
+        invoiceNumber: "INV-0001",
+        invoiceId: "inv_1",
+        voidReason: "Sent twice",
+      }),
+    ]);
+    await expect(reserve("INV-0001")).rejects.toThrow("already in use");
+
+    // Reinstated invoices take their number back
+    await InvoiceService.transitionStatus("inv_1", "draft");
+    expect(await InvoiceNumberingService.getVoidNumbers()).toEqual([]);
+  });
+});
@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { InvoiceService } from "../invoiceService";
+import { makeInvoice, useLocalRepositories } from "./fixtures";
+import { Repositories, setRepositories } from "@/repositories";
+import { auth } from "./firebaseMock";
+
+vi.mock("../firebaseConfig", () => import("./firebaseMock"));
+
+describe("InvoiceService.filterInvoicesByDate", () => {
+  const invoices = [
+    makeInvoice({ id: "jan_2024", dueDate: "2024-01-15" }),
+    makeInvoice({ id: "mar_2024", dueDate: "2024-03-15" }),
+    makeInvoice({ id: "mar_2025", dueDate: "2025-03-15" }),
+  ];
+  const ids = (filtered: { id: string }[]) =>
+    filtered.map((invoice) => invoice.id);
+
+  it("returns everything without filters", () => {
+    expect(InvoiceService.filterInvoicesByDate(invoices)).toBe(invoices);
+    expect(
+      ids(InvoiceService.filterInvoicesByDate(invoices, "all", "all"))
+    ).toEqual(["jan_2024", "mar_2024", "mar_2025"]);
+  });
+
+  it("filters by the year of the due date", () => {
+    expect(ids(InvoiceService.filterInvoicesByDate(invoices, "2024"))).toEqual(
+      ["jan_2024", "mar_2024"]
+    );
+  });
+
+  it("filters by month across years", () => {
+    expect(
+      ids(InvoiceService.filterInvoicesByDate(invoices, "all", "03"))
+    ).toEqual(["mar_2024", "mar_2025"]);
+    expect(
+      ids(InvoiceService.filterInvoicesByDate(invoices, undefined, "03"))
+    ).toEqual(["mar_2024", "mar_2025"]);
+  });
+
+  it("filters by year and month together", () => {
+    expect(
+      ids(InvoiceService.filterInvoicesByDate(invoices, "2025", "03"))
+    ).toEqual(["mar_2025"]);
+    expect(InvoiceService.filterInvoicesByDate(invoices, "2025", "01")).toEqual(
+      []
+    );
+  });
+});
+
+describe("InvoiceService with a signed-in user", () => {
+  let repositories: Repositories;
+
+  beforeEach(async () => {
+    repositories = await useLocalRepositories();
+  });
+
+  afterEach(() => {
+    auth.currentUser = null;
+    setRepositories(null);
+    vi.unstubAllEnvs();
+  });
+
+  it("rejects transitions by users who may not approve the invoice", async () => {
+    auth.currentUser = { uid: "provider_1" };
+    await expect(
+      InvoiceService.transitionStatus("inv_1", "cancelled")
+    ).rejects.toThrow("Insufficient permissions");
+    expect((await repositories.invoices.get("inv_1"))?.status).toBe("sent");
+    expect(await repositories.statusHistory("inv_1").list()).toEqual([]);
+
+    auth.currentUser = { uid: "manager_1" };
+    await InvoiceService.transitionStatus("inv_1", "cancelled");
+    expect((await repositories.invoices.get("inv_1"))?.status).toBe(
+      "cancelled"
+    );
+  });
+
+  it("leaves the paid statuses to payments", async () => {
+    for (const status of ["paid", "partially_paid"] as const) {
+      await expect(
+        InvoiceService.transitionStatus("inv_1", status)
+      ).rejects.toThrow(`Record a payment to mark invoice INV-0001 ${status}`);
+    }
+    expect((await repositories.invoices.get("inv_1"))?.status).toBe("sent");
+    expect(InvoiceService.getAllowedTransitions("sent")).toEqual([
+      "overdue",
+      "cancelled",
+      "draft",
+    ]);
+  });
+
+  it("reads only invoices of properties in the user's scope", async () => {
+    auth.currentUser = { uid: "manager_1" };
+    expect(await InvoiceService.getInvoiceById("inv_1")).not.toBeNull();
+    expect(await InvoiceService.getInvoiceById("inv_2")).toBeNull();
+    expect(await InvoiceService.getInvoicesByProperty("prop_2")).toEqual([]);
+    expect(
+      await InvoiceService.getInvoicesByPropertyAndProvider("prop_2", "prov_1")
+    ).toEqual([]);
+    expect(
+      await InvoiceService.getInvoicesByPropertyAndProvider("prop_1", "prov_1")
+    ).toHaveLength(1);
+
+    // A provider's own users see its invoices at every property
+    auth.currentUser = { uid: "provider_1" };
+    expect(await InvoiceService.getInvoiceById("inv_2")).not.toBeNull();
+    expect(
+      await InvoiceService.getInvoicesByPropertyAndProvider("prop_2", "prov_1")
+    ).toHaveLength(1);
+  });
+});
+
+describe("InvoiceService.updateInvoice", () => {
+  let repositories: Repositories;
+
+  beforeEach(async () => {
+    repositories = await useLocalRepositories();
+  });
+
+  afterEach(() => {
+    setRepositories(null);
+    vi.unstubAllEnvs();
+  });
+
+  it("rejects edits to the number, total and balances", async () => {
+    for (const updates of [
+      { invoiceNumber: "INV-9999" },
+      { total: 10 },
+      { amountPaid: 1000, balanceDue: 0 },
+      { creditedAmount: 1000 },
+    ]) {
+      await expect(
+        InvoiceService.updateInvoice("inv_1", updates)
+      ).rejects.toThrow("Invoice fields cannot be edited directly");
+    }
+    expect(await repositories.invoices.get("inv_1")).toMatchObject({
+      invoiceNumber: "INV-0001",
+      total: 1000,
+    });
+  });
+
+  it("recomputes the total and balance from the subtotal and tax", async () => {
+    await repositories.invoices.update("inv_1", {
+      amountPaid: 300,
+      status: "partially_paid",
+    });
+    await InvoiceService.updateInvoice("inv_1", { tax: 150 });
+
+    expect(await repositories.invoices.get("inv_1")).toMatchObject({
+      total: 1150,
+      balanceDue: 850,
+    });
+    await expect(
+      InvoiceService.updateInvoice("inv_1", { subtotal: 100, tax: 0 })
+    ).rejects.toThrow("Invoice total cannot fall below");
+  });
+});
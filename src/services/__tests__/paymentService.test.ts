@@ -0,0 +1,210 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { PaymentService } from "../paymentService";
+import { useLocalRepositories } from "./fixtures";
+import { Repositories, setRepositories } from "@/repositories";
+import { auth } from "./firebaseMock";
+
+vi.mock("../firebaseConfig", () => import("./firebaseMock"));
+
+let repositories: Repositories;
+
+beforeEach(async () => {
+  repositories = await useLocalRepositories();
+});
+
+afterEach(() => {
+  auth.currentUser = null;
+  setRepositories(null);
+  vi.unstubAllEnvs();
+});
+
+const payment = {
+  amount: 400,
+  currency: "USD",
+  paymentDate: "2024-03-10",
+  method: "bank_transfer" as const,
+  allocations: [{ invoiceId: "inv_1", amount: 400 }],
+};
+
+describe("PaymentService.recordPayment", () => {
+  it("allocates a payment across invoices and updates their balances", async () => {
+    const paymentId = await PaymentService.recordPayment({
+      ...payment,
+      amount: 1400,
+      reference: "TRF-88",
+      allocations: [
+        { invoiceId: "inv_1", amount: 1000 },
+        { invoiceId: "inv_2", amount: 400 },
+      ],
+    });
+
+    expect(await repositories.payments.get(paymentId)).toMatchObject({
+      status: "received",
+      invoiceIds: ["inv_1", "inv_2"],
+    });
+    expect(await repositories.invoices.get("inv_1")).toMatchObject({
+      status: "paid",
+      amountPaid: 1000,
+      balanceDue: 0,
+      paidDate: "2024-03-10",
+      paymentMethod: "bank_transfer",
+      paymentReference: "TRF-88",
+    });
+    expect(await repositories.invoices.get("inv_2")).toMatchObject({
+      status: "partially_paid",
+      amountPaid: 400,
+      balanceDue: 600,
+    });
+    expect(
+      (await repositories.statusHistory("inv_2").list()).map(
+        ({ fromStatus, toStatus }) => [fromStatus, toStatus]
+      )
+    ).toEqual([["sent", "partially_paid"]]);
+  });
+
+  it("settles an invoice over several payments", async () => {
+    await PaymentService.recordPayment(payment);
+    await PaymentService.recordPayment({
+      ...payment,
+      amount: 600,
+      allocations: [{ invoiceId: "inv_1", amount: 600 }],
+    });
+
+    expect(await repositories.invoices.get("inv_1")).toMatchObject({
+      status: "paid",
+      amountPaid: 1000,
+      balanceDue: 0,
+    });
+  });
+
+  it("rejects payments over the balance due and writes nothing", async () => {
+    await expect(
+      PaymentService.recordPayment({
+        ...payment,
+        amount: 1500,
+        allocations: [
+          { invoiceId: "inv_2", amount: 400 },
+          { invoiceId: "inv_1", amount: 1100 },
+        ],
+      })
+    ).rejects.toThrow("Payment exceeds balance due on invoice INV-0001");
+
+    expect(await repositories.payments.list()).toEqual([]);
+    expect((await repositories.invoices.get("inv_2"))?.amountPaid).toBe(
+      undefined
+    );
+  });
+
+  it("rejects allocations that do not fit the payment", async () => {
+    await expect(
+      PaymentService.recordPayment({
+        ...payment,
+        allocations: [{ invoiceId: "inv_1", amount: 500 }],
+      })
+    ).rejects.toThrow("Allocations exceed the payment amount");
+    await expect(
+      PaymentService.recordPayment({
+        ...payment,
+        allocations: [
+          { invoiceId: "inv_1", amount: 100 },
+          { invoiceId: "inv_1", amount: 100 },
+        ],
+      })
+    ).rejects.toThrow("Invoice allocated more than once: inv_1");
+  });
+
+  it("moves the amount paid into the rollups", async () => {
+    await PaymentService.recordPayment({
+      ...payment,
+      amount: 1000,
+      allocations: [{ invoiceId: "inv_1", amount: 1000 }],
+    });
+
+    const rollups = await repositories.rollups.list({
+      filters: [{ field: "propertyId", op: "==", value: "prop_1" }],
+    });
+    expect(rollups).toEqual([
+      expect.objectContaining({
+        period: "2024-03",
+        status: "paid",
+        revenue: 1000,
+        amountPaid: 1000,
+        invoiceCount: 1,
+        paidInvoiceCount: 1,
+      }),
+    ]);
+  });
+});
+
+describe("PaymentService.reversePayment", () => {
+  it("reopens the invoices the payment settled", async () => {
+    const paymentId = await PaymentService.recordPayment({
+      ...payment,
+      amount: 1000,
+      allocations: [{ invoiceId: "inv_1", amount: 1000 }],
+    });
+    await PaymentService.reversePayment(paymentId, "Bounced");
+
+    expect(await repositories.payments.get(paymentId)).toMatchObject({
+      status: "reversed",
+      reversalReason: "Bounced",
+    });
+    // Its due date has passed
+    expect(await repositories.invoices.get("inv_1")).toMatchObject({
+      status: "overdue",
+      amountPaid: 0,
+      balanceDue: 1000,
+    });
+    await expect(PaymentService.reversePayment(paymentId)).rejects.toThrow(
+      "Payment already reversed"
+    );
+  });
+});
+
+describe("PaymentService permissions", () => {
+  it("rejects payments from users who do not manage payments", async () => {
+    // Even on invoices of the properties they manage
+    for (const uid of ["manager_1", "provider_1"]) {
+      auth.currentUser = { uid };
+      await expect(PaymentService.recordPayment(payment)).rejects.toThrow(
+        "Insufficient permissions"
+      );
+    }
+    expect(await repositories.payments.list()).toEqual([]);
+    expect((await repositories.invoices.get("inv_1"))?.amountPaid).toBe(
+      undefined
+    );
+  });
+
+  it("rejects reversals from users who do not manage payments", async () => {
+    const paymentId = await PaymentService.recordPayment(payment);
+
+    auth.currentUser = { uid: "manager_1" };
+    await expect(PaymentService.reversePayment(paymentId)).rejects.toThrow(
+      "Insufficient permissions"
+    );
+    expect((await repositories.payments.get(paymentId))?.status).toBe(
+      "received"
+    );
+  });
+
+  it("lists payments only for users who manage them", async () => {
+    await PaymentService.recordPayment(payment);
+
+    expect(await PaymentService.getPayments()).toHaveLength(1);
+    auth.currentUser = { uid: "manager_1" };
+    expect(await PaymentService.getPayments()).toEqual([]);
+  });
+
+  it("reads payments only for users who manage them", async () => {
+    const paymentId = await PaymentService.recordPayment(payment);
+
+    expect(await PaymentService.getPaymentById(paymentId)).not.toBeNull();
+    expect(await PaymentService.getPaymentsForInvoice("inv_1")).toHaveLength(1);
+    for (const uid of ["manager_1", "provider_1"]) {
+      auth.currentUser = { uid };
+      expect(await PaymentService.getPaymentById(paymentId)).toBeNull();
+      expect(await PaymentService.getPaymentsForInvoice("inv_1")).toEqual([]);
+    }
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from "vitest";
+import { PeriodService } from "../periodService";
+
+vi.mock("../firebaseConfig", () => import("./firebaseMock"));
+
+describe("PeriodService", () => {
+  describe("getPeriodKey", () => {
+    it("buckets a day by each granularity", () => {
+      expect(PeriodService.getPeriodKey("2024-05-17", "DAY", 1)).toBe(
+        "2024-05-17"
+      );
+      expect(PeriodService.getPeriodKey("2024-05-17", "WEEK", 1)).toBe(
+        "2024-W20"
+      );
+      expect(PeriodService.getPeriodKey("2024-05-17", "MONTH", 1)).toBe(
+        "2024-05"
+      );
+      expect(PeriodService.getPeriodKey("2024-05-17", "QUARTER", 1)).toBe(
+        "2024-Q2"
+      );
+      expect(PeriodService.getPeriodKey("2024-05-17", "YEAR", 1)).toBe(
+        "2024"
+      );
+    });
+
+    it("uses the ISO week-based year around New Year", () => {
+      expect(PeriodService.getPeriodKey("2024-12-30", "WEEK", 1)).toBe(
+        "2025-W01"
+      );
+      expect(PeriodService.getPeriodKey("2021-01-03", "WEEK", 1)).toBe(
+        "2020-W53"
+      );
+    });
+
+    it("names fiscal years after the year they end in", () => {
+      // Fiscal year starting in March
+      expect(PeriodService.getPeriodKey("2024-02-29", "YEAR", 3)).toBe(
+        "2024"
+      );
+      expect(PeriodService.getPeriodKey("2024-03-01", "YEAR", 3)).toBe(
+        "2025"
+      );
+      expect(PeriodService.getPeriodKey("2024-03-01", "QUARTER", 3)).toBe(
+        "2025-Q1"
+      );
+      expect(PeriodService.getPeriodKey("2025-02-28", "QUARTER", 3)).toBe(
+        "2025-Q4"
+      );
+    });
+
+    it("accepts Firestore timestamps and rejects invalid dates", () => {
+      const timestamp = { toDate: () => new Date(2024, 0, 15, 12) };
+      expect(PeriodService.getPeriodKey(timestamp, "MONTH", 1)).toBe(
+        "2024-01"
+      );
+      expect(PeriodService.getPeriodKey("not a date", "MONTH", 1)).toBeNull();
+      expect(PeriodService.getPeriodKey("2024-02-30", "DAY", 1)).toBeNull();
+    });
+  });
+
+  describe("getPeriodRange", () => {
+    it("returns the first and last day of a period", () => {
+      expect(PeriodService.getPeriodRange("2024-02", "MONTH", 1)).toEqual({
+        from: "2024-02-01",
+        to: "2024-02-29",
+      });
+      expect(PeriodService.getPeriodRange("2025-W01", "WEEK", 1)).toEqual({
+        from: "2024-12-30",
+        to: "2025-01-05",
+      });
+      expect(PeriodService.getPeriodRange("2025-Q1", "QUARTER", 3)).toEqual({
+        from: "2024-03-01",
+        to: "2024-05-31",
+      });
+      expect(PeriodService.getPeriodRange("2025", "YEAR", 3)).toEqual({
+        from: "2024-03-01",
+        to: "2025-02-28",
+      });
+    });
+
+    it("rejects keys that are not periods", () => {
+      expect(PeriodService.getPeriodRange("2025-W53", "WEEK", 1)).toBeNull();
+      expect(PeriodService.getPeriodRange("2025-13", "MONTH", 1)).toBeNull();
+      expect(PeriodService.getPeriodRange("2025", "MONTH", 1)).toBeNull();
+    });
+  });
+
+  describe("getRangeDay", () => {
+    it("expands short range bounds", () => {
+      expect(PeriodService.getRangeDay("2024", "start")).toBe("2024-01-01");
+      expect(PeriodService.getRangeDay("2024", "end")).toBe("2024-12-31");
+      expect(PeriodService.getRangeDay("2024-02", "end")).toBe("2024-02-29");
+      expect(PeriodService.getRangeDay("2024-02-10T08:00:00Z", "start")).toBe(
+        "2024-02-10"
+      );
+      expect(PeriodService.getRangeDay("", "start")).toBeNull();
+    });
+  });
+});
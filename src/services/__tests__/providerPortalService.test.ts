@@ -0,0 +1,155 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  InvoiceSubmission,
+  ProviderPortalService,
+} from "../providerPortalService";
+import { ComplianceDocumentService } from "../complianceDocumentService";
+import { makeInvoice } from "./fixtures";
+import { providers } from "@/mocks/fixtures";
+import { Provider } from "@/types/float34";
+
+vi.mock("../firebaseConfig", () => import("./firebaseMock"));
+
+const provider: Provider = {
+  ...providers[0],
+  id: "prov_1",
+  propertyIds: ["prop_1", "prop_2"],
+  financialDetails: {
+    paymentMethods: [],
+    taxRate: 8.25,
+    currency: "USD",
+    paymentTerms: 15,
+  },
+};
+
+const submission: InvoiceSubmission = {
+  propertyId: "prop_1",
+  description: "Quarterly HVAC service",
+  issueDate: "2024-03-20",
+  lineItems: [
+    { description: "Filter replacement", quantity: 3, unitPrice: 33.33 },
+    { description: "Labour", quantity: 2, unitPrice: 50 },
+  ],
+};
+
+describe("ProviderPortalService.buildInvoice", () => {
+  it("totals line items and taxes at the provider's percentage rate", () => {
+    const invoice = ProviderPortalService.buildInvoice(
+      provider,
+      submission,
+      "USD",
+      "user_1"
+    );
+    expect(invoice.lineItems.map((item) => item.total)).toEqual([99.99, 100]);
+    expect(invoice.subtotal).toBe(199.99);
+    expect(invoice.tax).toBe(16.5);
+    expect(invoice.total).toBe(216.49);
+    expect(invoice).toMatchObject({
+      propertyId: "prop_1",
+      providerId: "prov_1",
+      status: "sent",
+      currency: "USD",
+      createdBy: "user_1",
+    });
+  });
+
+  it("is due after the provider's payment terms", () => {
+    expect(
+      ProviderPortalService.buildInvoice(provider, submission, "USD", "user_1")
+        .dueDate
+    ).toBe("2024-04-04");
+    const invoice = ProviderPortalService.buildInvoice(
+      { ...provider, financialDetails: undefined },
+      submission,
+      "EUR",
+      "user_1"
+    );
+    expect(invoice.dueDate).toBe("2024-04-19");
+    expect(invoice.tax).toBe(0);
+  });
+});
+
+describe("ProviderPortalService.validateSubmission", () => {
+  const validate = (
+    changes: Partial<InvoiceSubmission>,
+    providerChanges: Partial<Provider> = {}
+  ) => () =>
+    ProviderPortalService.validateSubmission(
+      { ...provider, ...providerChanges },
+      { ...submission, ...changes }
+    );
+
+  it("accepts an invoice to a served property", () => {
+    expect(validate({})).not.toThrow();
+  });
+
+  it("rejects invoices from providers awaiting approval", () => {
+    expect(validate({}, { status: "pending" })).toThrow(/active/);
+  });
+
+  it("rejects properties the provider does not serve", () => {
+    expect(validate({ propertyId: "prop_3" })).toThrow(/property you serve/);
+  });
+
+  it("rejects incomplete line items", () => {
+    expect(validate({ lineItems: [] })).toThrow(/at least one line item/);
+    expect(
+      validate({
+        lineItems: [{ description: "Labour", quantity: 0, unitPrice: 50 }],
+      })
+    ).toThrow(/Line item 1/);
+  });
+});
+
+describe("ProviderPortalService.getPaymentSummary", () => {
+  const now = new Date("2024-04-15T00:00:00Z");
+
+  it("reports partial payments and overdue balances", () => {
+    expect(
+      ProviderPortalService.getPaymentSummary(
+        makeInvoice({ status: "partially_paid", amountPaid: 400 }),
+        now
+      )
+    ).toEqual({
+      total: 1000,
+      amountPaid: 400,
+      balanceDue: 600,
+      isOverdue: true,
+    });
+  });
+
+  it("treats paid invoices as settled", () => {
+    expect(
+      ProviderPortalService.getPaymentSummary(
+        makeInvoice({ status: "paid", paidDate: "2024-03-30" }),
+        now
+      )
+    ).toMatchObject({ amountPaid: 1000, balanceDue: 0, isOverdue: false });
+  });
+});
+
+describe("ComplianceDocumentService", () => {
+  it("accepts PDFs and images up to 10 MB", () => {
+    const file = { name: "policy.pdf", size: 1024, type: "application/pdf" };
+    expect(ComplianceDocumentService.validateFile(file)).toBeNull();
+    expect(
+      ComplianceDocumentService.validateFile({ ...file, type: "image/png" })
+    ).toBeNull();
+    expect(
+      ComplianceDocumentService.validateFile({ ...file, type: "text/html" })
+    ).toMatch(/PDF or an image/);
+    expect(
+      ComplianceDocumentService.validateFile({ ...file, size: 11 * 1024 ** 2 })
+    ).toMatch(/10 MB/);
+  });
+
+  it("warns about documents expiring within a month", () => {
+    const now = new Date("2024-04-15T00:00:00Z");
+    const stateOn = (expiryDate?: string) =>
+      ComplianceDocumentService.getExpiryState({ expiryDate }, now);
+    expect(stateOn(undefined)).toBe("no_expiry");
+    expect(stateOn("2024-04-01")).toBe("expired");
+    expect(stateOn("2024-05-01")).toBe("expiring");
+    expect(stateOn("2024-12-31")).toBe("valid");
+  });
+});
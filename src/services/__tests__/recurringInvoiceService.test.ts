@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { RecurringInvoiceService } from "../recurringInvoiceService";
+import { useLocalRepositories } from "./fixtures";
+import { Repositories, setRepositories } from "@/repositories";
+import { RecurringInvoiceTemplate } from "@/types/float34";
+
+vi.mock("../firebaseConfig", () => import("./firebaseMock"));
+
+const template: Omit<RecurringInvoiceTemplate, "id"> = {
+  name: "Monthly cleaning",
+  propertyId: "prop_1",
+  providerId: "prov_1",
+  description: "Monthly cleaning",
+  frequency: "monthly",
+  startDate: "2024-01-31",
+  dueInDays: 14,
+  active: true,
+  lineItems: [
+    { description: "Cleaning", quantity: 1, unitPrice: 500, total: 500 },
+  ],
+  taxRate: 0.1,
+  currency: "USD",
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+  createdBy: "admin",
+  updatedBy: "admin",
+};
+
+describe("RecurringInvoiceService.getOccurrenceDates", () => {
+  it("falls on the last day of months shorter than the start day", () => {
+    expect(
+      RecurringInvoiceService.getOccurrenceDates(template, "2024-05-31")
+    ).toEqual([
+      "2024-01-31",
+      "2024-02-29",
+      "2024-03-31",
+      "2024-04-30",
+      "2024-05-31",
+    ]);
+    expect(
+      RecurringInvoiceService.getOccurrenceDates(
+        { ...template, startDate: "2023-01-31" },
+        "2023-03-01"
+      )
+    ).toEqual(["2023-01-31", "2023-02-28"]);
+  });
+
+  it("stops at the end date", () => {
+    expect(
+      RecurringInvoiceService.getOccurrenceDates(
+        { ...template, frequency: "quarterly", endDate: "2024-10-30" },
+        "2025-12-31"
+      )
+    ).toEqual(["2024-01-31", "2024-04-30", "2024-07-31"]);
+  });
+});
+
+describe("RecurringInvoiceService.generateDueInvoices", () => {
+  let repositories: Repositories;
+  let templateId: string;
+
+  beforeEach(async () => {
+    repositories = await useLocalRepositories();
+    templateId = await repositories.recurringTemplates.create(template);
+  });
+
+  afterEach(() => {
+    setRepositories(null);
+    vi.unstubAllEnvs();
+  });
+
+  const generated = async () =>
+    (await repositories.invoices.list()).filter(
+      (invoice) => invoice.recurringTemplateId === templateId
+    );
+
+  it("creates one invoice per due occurrence", async () => {
+    const result = await RecurringInvoiceService.generateDueInvoices(
+      "2024-03-15T09:00:00.000Z"
+    );
+
+    expect(result).toEqual({
+      created: [
+        `recurring_${templateId}_2024-01-31`,
+        `recurring_${templateId}_2024-02-29`,
+      ],
+      skipped: 0,
+      errors: [],
+    });
+    expect(
+      await repositories.invoices.get(`recurring_${templateId}_2024-02-29`)
+    ).toMatchObject({
+      dueDate: "2024-03-14",
+      status: "draft",
+      subtotal: 500,
+      tax: 50,
+      total: 550,
+    });
+    expect(
+      await repositories.recurringTemplates.get(templateId)
+    ).toMatchObject({
+      lastGeneratedDate: "2024-02-29",
+      nextRunDate: "2024-03-31",
+    });
+  });
+
+  it("creates no duplicates when run again", async () => {
+    await RecurringInvoiceService.generateDueInvoices("2024-03-15");
+    const again = await RecurringInvoiceService.generateDueInvoices(
+      "2024-03-15"
+    );
+
+    expect(again.created).toEqual([]);
+    expect(await generated()).toHaveLength(2);
+  });
+
+  it("skips occurrences generated by an overlapping run", async () => {
+    // A run that read the template before the other one updated it
+    const stale = await repositories.recurringTemplates.get(templateId);
+    await RecurringInvoiceService.generateDueInvoices("2024-03-15");
+    const overlapping = await RecurringInvoiceService.generateForTemplate(
+      stale!,
+      "2024-04-15"
+    );
+
+    expect(overlapping).toEqual({
+      created: [`recurring_${templateId}_2024-03-31`],
+      skipped: 2,
+    });
+    expect(await generated()).toHaveLength(3);
+  });
+});
@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { RollupService } from "../rollupService";
+import { InvoiceService } from "../invoiceService";
+import { CurrencyService } from "../currencyService";
+import { PaymentService } from "../paymentService";
+import { makeInvoice, useLocalRepositories } from "./fixtures";
+import { Repositories, setRepositories } from "@/repositories";
+
+vi.mock("../firebaseConfig", () => import("./firebaseMock"));
+
+describe("RollupService.refresh", () => {
+  let repositories: Repositories;
+
+  beforeEach(async () => {
+    repositories = await useLocalRepositories();
+    await RollupService.refresh([
+      { before: null, after: makeInvoice() },
+      {
+        before: null,
+        after: makeInvoice({ id: "inv_2", propertyId: "prop_2" }),
+      },
+    ]);
+  });
+
+  afterEach(() => {
+    setRepositories(null);
+    vi.unstubAllEnvs();
+  });
+
+  const totals = async () =>
+    (await repositories.rollups.list())
+      .map((rollup) => ({
+        propertyId: rollup.propertyId,
+        status: rollup.status,
+        revenue: rollup.revenue,
+        amountPaid: rollup.amountPaid,
+        invoiceCount: rollup.invoiceCount,
+      }))
+      .sort(
+        (a, b) =>
+          a.propertyId.localeCompare(b.propertyId) ||
+          a.status.localeCompare(b.status)
+      );
+
+  it("adds new invoices to the rollup of their month", async () => {
+    expect(await totals()).toEqual([
+      {
+        propertyId: "prop_1",
+        status: "sent",
+        revenue: 1000,
+        amountPaid: 0,
+        invoiceCount: 1,
+      },
+      {
+        propertyId: "prop_2",
+        status: "sent",
+        revenue: 1000,
+        amountPaid: 0,
+        invoiceCount: 1,
+      },
+    ]);
+  });
+
+  it("moves an invoice between rollups when its status changes", async () => {
+    await repositories.invoices.set(
+      "inv_3",
+      makeInvoice({ id: "inv_3", invoiceNumber: "INV-0003", total: 500 })
+    );
+    await RollupService.refresh([
+      { before: null, after: makeInvoice({ id: "inv_3", total: 500 }) },
+    ]);
+    await PaymentService.recordPayment({
+      amount: 1000,
+      currency: "USD",
+      paymentDate: "2024-03-20",
+      method: "bank_transfer",
+      allocations: [{ invoiceId: "inv_1", amount: 1000 }],
+    });
+
+    expect(await totals()).toEqual([
+      {
+        propertyId: "prop_1",
+        status: "paid",
+        revenue: 1000,
+        amountPaid: 1000,
+        invoiceCount: 1,
+      },
+      {
+        propertyId: "prop_1",
+        status: "sent",
+        revenue: 500,
+        amountPaid: 0,
+        invoiceCount: 1,
+      },
+      expect.objectContaining({ propertyId: "prop_2", invoiceCount: 1 }),
+    ]);
+  });
+
+  it("drops a rollup once its last invoice is deleted", async () => {
+    await InvoiceService.deleteInvoice("inv_2");
+
+    expect(await totals()).toEqual([
+      expect.objectContaining({ propertyId: "prop_1", invoiceCount: 1 }),
+    ]);
+  });
+
+  it("skips changes that do not move the totals", async () => {
+    const [rollup] = await repositories.rollups.list({
+      filters: [{ field: "propertyId", op: "==", value: "prop_1" }],
+    });
+    await repositories.rollups.delete(rollup.id);
+    await InvoiceService.updateInvoice("inv_1", { notes: "Called ahead" });
+
+    expect(await repositories.rollups.get(rollup.id)).toBeNull();
+  });
+});
+
+describe("RollupService.toRecords", () => {
+  const converter = CurrencyService.createConverter("USD", []);
+  const [rollup] = RollupService.buildRollups([
+    makeInvoice({ id: "inv_1", amountPaid: 400, status: "partially_paid" }),
+    makeInvoice({
+      id: "inv_2",
+      amountPaid: 100,
+      dueDate: "2024-04-30",
+      status: "partially_paid",
+    }),
+  ]);
+
+  it("counts balances due before the day as overdue", () => {
+    const record = (today: string) =>
+      RollupService.toRecords(
+        [{ ...rollup, id: "roll_1", updatedAt: "" }],
+        converter,
+        today
+      )[0];
+
+    expect(record("2024-04-15")).toMatchObject({
+      balanceDue: 1500,
+      overdueBalance: 600,
+      overdueInvoiceCount: 1,
+    });
+    expect(record("2024-05-01")).toMatchObject({
+      overdueBalance: 1500,
+      overdueInvoiceCount: 2,
+    });
+  });
+});
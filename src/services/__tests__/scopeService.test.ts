@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ScopeService } from "../scopeService";
+import {
+  createLocalRepositories,
+  Repositories,
+  setRepositories,
+} from "@/repositories";
+
+vi.mock("../firebaseConfig", () => import("./firebaseMock"));
+
+describe("ScopeService.getGroups", () => {
+  it("queries unscoped listings once, without a filter", () => {
+    expect(ScopeService.getGroups(null)).toEqual([null]);
+    expect(ScopeService.getGroups([])).toEqual([]);
+  });
+
+  it("splits large scopes into groups of at most 30 ids", () => {
+    const scope = Array.from({ length: 65 }, (_, i) => `prop_${i}`);
+    const groups = ScopeService.getGroups([...scope, "prop_0"]);
+    expect(groups.map((group) => group?.length)).toEqual([30, 30, 5]);
+    expect(groups.flat()).toEqual(scope);
+  });
+});
+
+describe("ScopeService.listScoped", () => {
+  let repositories: Repositories;
+
+  beforeEach(() => {
+    repositories = createLocalRepositories();
+    setRepositories(repositories);
+  });
+
+  afterEach(() => {
+    setRepositories(null);
+  });
+
+  const ids = (records: { id: string }[]) =>
+    records.map((record) => record.id).sort();
+
+  it("lists only records of properties in scope", async () => {
+    const invoices = repositories.invoices;
+    expect(await ScopeService.listScoped(invoices, null)).toHaveLength(6);
+    expect(await ScopeService.listScoped(invoices, [])).toEqual([]);
+    expect(
+      ids(await ScopeService.listScoped(invoices, ["prop_1", "prop_3"]))
+    ).toEqual(["ar_1", "ar_2", "ar_5", "ar_6"]);
+  });
+
+  it("combines the scope with other filters", async () => {
+    const invoices = await ScopeService.listScoped(
+      repositories.invoices,
+      ["prop_1", "prop_2"],
+      { filters: [{ field: "providerId", op: "==", value: "1" }] }
+    );
+    expect(ids(invoices)).toEqual(["ar_1"]);
+  });
+
+  it("orders and limits results merged from several groups", async () => {
+    const padding = Array.from({ length: 30 }, (_, i) => `other_${i}`);
+    const invoices = await ScopeService.listScoped(
+      repositories.invoices,
+      ["prop_1", ...padding, "prop_3"],
+      { orderBy: { field: "total", direction: "desc" }, limit: 3 }
+    );
+    expect(invoices.map((invoice) => invoice.id)).toEqual([
+      "ar_5",
+      "ar_1",
+      "ar_2",
+    ]);
+  });
+});
+
+describe("ScopeService.isInScope", () => {
+  it("accepts every property without a scope", () => {
+    expect(ScopeService.isInScope(null, "prop_1")).toBe(true);
+    expect(ScopeService.isInScope(["prop_1"], "prop_1")).toBe(true);
+    expect(ScopeService.isInScope(["prop_1"], "prop_2")).toBe(false);
+    expect(ScopeService.isInScope(["prop_1"], undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,229 @@
+import { InvoiceService } from "./invoiceService";
+import { PropertyService } from "./propertyService";
+import { ServiceProviderService } from "./serviceProviderService";
+import { CurrencyService } from "./currencyService";
+import { PaymentService } from "./paymentService";
+import {
+  AgedInvoice,
+  AgingBucket,
+  AgingBucketTotals,
+  Invoice,
+  ReceivablesAgingReport,
+  ReceivablesAgingRow,
+} from "../types/float34";
+import { getDay } from "@/lib/financial/amounts";
+
+export const AGING_BUCKETS: AgingBucket[] = [
+  "current",
+  "1-30",
+  "31-60",
+  "61-90",
+  "90+",
+];
+
+export class AgingService {
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+  /**
+   * Build the accounts-receivable aging report from stored invoices
+   */
+  static async getReceivablesAging(
+    params: {
+      asOf?: string;
+      propertyId?: string;
+      providerId?: string;
+    } = {}
+  ): Promise<ReceivablesAgingReport> {
+    const asOf = params.asOf || new Date().toISOString();
+
+    try {
+      const [rawInvoices, properties, providersResponse, converter] =
+        await Promise.all([
+          InvoiceService.getInvoices(),
+          PropertyService.getProperties({}),
+          ServiceProviderService.getProviders(),
+          CurrencyService.getConverter(),
+        ]);
+
+      const invoices = CurrencyService.convertInvoices(
+        rawInvoices,
+        converter
+      ).filter(
+        (invoice) =>
+          (!params.propertyId || invoice.propertyId === params.propertyId) &&
+          (!params.providerId || invoice.providerId === params.providerId)
+      );
+
+      const propertyNames = new Map(
+        (properties || []).map((property) => [property.id, property.name])
+      );
+      const providerNames = new Map(
+        (providersResponse?.providers || []).map((provider) => [
+          provider.id,
+          provider.name,
+        ])
+      );
+
+      return this.buildAgingReport(invoices, {
+        asOf,
+        currency: converter.reportingCurrency,
+        propertyNames,
+        providerNames,
+      });
+    } catch (error) {
+      console.error("Error building receivables aging report:", error);
+      return this.buildAgingReport([], {
+        asOf,
+        currency: CurrencyService.getCachedReportingCurrency(),
+      });
+    }
+  }
+
+  /**
+   * Bucket outstanding invoices by days past dueDate. Amounts are taken as
+   * given, so convert invoices into one currency beforehand.
+   */
+  static buildAgingReport(
+    invoices: Invoice[],
+    options: {
+      asOf: string;
+      currency: string;
+      propertyNames?: Map<string, string>;
+      providerNames?: Map<string, string>;
+    }
+  ): ReceivablesAgingReport {
+    const asOfDate = new Date(options.asOf);
+    const agedInvoices: AgedInvoice[] = [];
+
+    invoices.forEach((invoice) => {
+      const outstanding = this.getOutstandingAmount(invoice);
+      if (outstanding <= 0) return;
+
+      const daysPastDue = this.getDaysPastDue(invoice.dueDate, asOfDate);
+      agedInvoices.push({
+        invoiceId: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        propertyId: invoice.propertyId,
+        propertyName:
+          options.propertyNames?.get(invoice.propertyId) || "Unknown Property",
+        providerId: invoice.providerId,
+        providerName:
+          options.providerNames?.get(invoice.providerId) || "Unknown Provider",
+        issueDate: invoice.issueDate,
+        dueDate: invoice.dueDate,
+        daysPastDue,
+        bucket: this.getBucket(daysPastDue),
+        outstanding,
+      });
+    });
+
+    agedInvoices.sort((a, b) => b.daysPastDue - a.daysPastDue);
+
+    const totals = this.sumBuckets(agedInvoices);
+    const totalOutstanding = AGING_BUCKETS.reduce(
+      (sum, bucket) => sum + totals[bucket],
+      0
+    );
+
+    return {
+      asOf: options.asOf,
+      currency: options.currency,
+      totals,
+      totalOutstanding,
+      overdueAmount: totalOutstanding - totals.current,
+      byProperty: this.groupRows(
+        agedInvoices,
+        (invoice) => invoice.propertyId,
+        (invoice) => invoice.propertyName
+      ),
+      byProvider: this.groupRows(
+        agedInvoices,
+        (invoice) => invoice.providerId,
+        (invoice) => invoice.providerName
+      ),
+      invoices: agedInvoices,
+    };
+  }
+
+  /**
+   * Amount still owed on an invoice. Drafts and cancelled invoices are not
+   * receivables, and paid ones are settled.
+   */
+  static getOutstandingAmount(invoice: Invoice): number {
+    return PaymentService.getBalanceDue(invoice);
+  }
+
+  /**
+   * Whole days between the due date and the as-of date (0 if not yet due)
+   */
+  static getDaysPastDue(dueDate: string, asOf: Date): number {
+    // Days as written, in UTC like isOverdue, so the time zone cannot move
+    // an invoice into another bucket
+    const due = new Date(getDay(dueDate) || dueDate);
+    if (isNaN(due.getTime()) || isNaN(asOf.getTime())) return 0;
+
+    const dueDay = Date.UTC(
+      due.getUTCFullYear(),
+      due.getUTCMonth(),
+      due.getUTCDate()
+    );
+    const asOfDay = Date.UTC(
+      asOf.getUTCFullYear(),
+      asOf.getUTCMonth(),
+      asOf.getUTCDate()
+    );
+    return Math.max(0, Math.floor((asOfDay - dueDay) / this.DAY_MS));
+  }
+
+  /**
+   * Map days past due onto an aging bucket
+   */
+  static getBucket(daysPastDue: number): AgingBucket {
+    if (daysPastDue <= 0) return "current";
+    if (daysPastDue <= 30) return "1-30";
+    if (daysPastDue <= 60) return "31-60";
+    if (daysPastDue <= 90) return "61-90";
+    return "90+";
+  }
+
+  private static emptyBuckets(): AgingBucketTotals {
+    return { current: 0, "1-30": 0, "31-60": 0, "61-90": 0, "90+": 0 };
+  }
+
+  private static sumBuckets(invoices: AgedInvoice[]): AgingBucketTotals {
+    const totals = this.emptyBuckets();
+    invoices.forEach((invoice) => {
+      totals[invoice.bucket] += invoice.outstanding;
+    });
+    return totals;
+  }
+
+  private static groupRows(
+    invoices: AgedInvoice[],
+    getId: (invoice: AgedInvoice) => string,
+    getName: (invoice: AgedInvoice) => string
+  ): ReceivablesAgingRow[] {
+    const rows = new Map<string, ReceivablesAgingRow>();
+
+    invoices.forEach((invoice) => {
+      const id = getId(invoice);
+      if (!rows.has(id)) {
+        rows.set(id, {
+          entityId: id,
+          entityName: getName(invoice),
+          buckets: this.emptyBuckets(),
+          total: 0,
+          invoiceCount: 0,
+        });
+      }
+      const row = rows.get(id)!;
+      row.buckets[invoice.bucket] += invoice.outstanding;
+      row.total += invoice.outstanding;
+      row.invoiceCount++;
+    });
+
+    return Array.from(rows.values()).sort((a, b) => b.total - a.total);
+  }
+}
+
+export default AgingService;
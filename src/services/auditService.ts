@@ -0,0 +1,180 @@
+import { auth } from "./firebaseConfig";
+import {
+  AuditAction,
+  AuditChanges,
+  AuditEntityType,
+  AuditLogEntry,
+} from "../types/float34";
+import { getRepositories, QueryFilter, Transaction } from "@/repositories";
+import {
+  ProviderSecrets,
+  redactProviderSecrets,
+} from "@/lib/crypto/providerSecrets";
+
+export type AuditLogSearchParams = {
+  action?: AuditAction;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  actorId?: string;
+  from?: string; // ISO date, inclusive
+  to?: string; // ISO date, inclusive
+  limit?: number;
+};
+
+/**
+ * Append-only log of changes to properties, service providers, invoices
+ * and users. Entries are written by the user making the change, in the
+ * transaction that makes it, and the security rules refuse to edit or
+ * delete them.
+ */
+export class AuditService {
+  private static readonly DEFAULT_LIMIT = 500;
+
+  private static repository() {
+    return getRepositories().auditLogs;
+  }
+
+  /**
+   * Fields that differ between two versions of a record. Pass null as
+   * before for a created record and as after for a deleted one.
+   */
+  static diff(before: object | null, after: object | null): AuditChanges {
+    const beforeFields: Record<string, unknown> = { ...before };
+    const afterFields: Record<string, unknown> = { ...after };
+    const changes: AuditChanges = {};
+
+    const fields = new Set([
+      ...Object.keys(beforeFields),
+      ...Object.keys(afterFields),
+    ]);
+    fields.forEach((field) => {
+      if (field === "id") return;
+      // Firestore does not store undefined
+      const from = beforeFields[field] ?? null;
+      const to = afterFields[field] ?? null;
+      if (JSON.stringify(from) !== JSON.stringify(to)) {
+        changes[field] = { before: from, after: to };
+      }
+    });
+
+    return changes;
+  }
+
+  /**
+   * Audit entry for a change made by the current user
+   */
+  static buildEntry(
+    action: AuditAction,
+    entityType: AuditEntityType,
+    entityId: string,
+    before: object | null,
+    after: object | null
+  ): Omit<AuditLogEntry, "id"> {
+    const user = auth.currentUser;
+    return {
+      actorId: user?.uid || "system",
+      ...(user?.email && { actorEmail: user.email }),
+      action,
+      entityType,
+      entityId,
+      changes:
+        entityType === "serviceProvider"
+          ? this.redactSecrets(this.diff(before, after))
+          : this.diff(before, after),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Replace provider secret values in a diff, so the log shows that API
+   * credentials or bank details changed but never what they are
+   */
+  static redactSecrets(changes: AuditChanges): AuditChanges {
+    const redacted = { ...changes };
+    (["apiConnections", "financialDetails"] as const).forEach((field) => {
+      const change = changes[field];
+      if (!change) return;
+      const redact = (value: unknown) =>
+        value && typeof value === "object"
+          ? redactProviderSecrets({ [field]: value } as ProviderSecrets)[field]
+          : value;
+      redacted[field] = {
+        before: redact(change.before),
+        after: redact(change.after),
+      };
+    });
+    return redacted;
+  }
+
+  /**
+   * Record a change within the transaction that makes it
+   */
+  static recordInTransaction(
+    transaction: Transaction,
+    action: AuditAction,
+    entityType: AuditEntityType,
+    entityId: string,
+    before: object | null,
+    after: object | null
+  ) {
+    const repository = this.repository();
+    transaction.set(
+      repository,
+      repository.newId(),
+      this.buildEntry(action, entityType, entityId, before, after)
+    );
+  }
+
+  /**
+   * Search the log, newest first. The history of one entity is fetched in
+   * full; otherwise the latest entries in the date range are fetched and
+   * the other filters applied in memory, to avoid composite indexes.
+   */
+  static async getEntries(
+    params: AuditLogSearchParams = {}
+  ): Promise<AuditLogEntry[]> {
+    try {
+      const filters: QueryFilter[] = [];
+      if (params.entityId) {
+        filters.push({ field: "entityId", op: "==", value: params.entityId });
+      } else {
+        if (params.from) {
+          filters.push({ field: "timestamp", op: ">=", value: params.from });
+        }
+        if (params.to) {
+          filters.push({
+            field: "timestamp",
+            op: "<=",
+            value: `${params.to}T23:59:59.999Z`,
+          });
+        }
+      }
+
+      const entries = await this.repository().list(
+        params.entityId
+          ? { filters }
+          : {
+              filters,
+              orderBy: { field: "timestamp", direction: "desc" },
+              limit: params.limit || this.DEFAULT_LIMIT,
+            }
+      );
+
+      return entries
+        .filter(
+          (entry) =>
+            (!params.action || entry.action === params.action) &&
+            (!params.entityType || entry.entityType === params.entityType) &&
+            (!params.actorId || entry.actorId === params.actorId) &&
+            (!params.from || entry.timestamp >= params.from) &&
+            (!params.to || entry.timestamp.slice(0, 10) <= params.to)
+        )
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+      return [];
+    }
+  }
+}
+
+export default AuditService;
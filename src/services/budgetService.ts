@@ -0,0 +1,374 @@
+import { auth } from "./firebaseConfig";
+import {
+  Budget,
+  BudgetVarianceRow,
+  PeriodGranularity,
+} from "../types/float34";
+import { FinancialService } from "./financialService";
+import { InvoiceService } from "./invoiceService";
+import { ExpenseService } from "./expenseService";
+import { CurrencyService } from "./currencyService";
+import { PropertyService } from "./propertyService";
+import { PeriodService } from "./periodService";
+import { ScopeService } from "./scopeService";
+import { getRepositories } from "@/repositories";
+import { getNetTotal } from "@/lib/financial/amounts";
+
+export type BudgetInput = Omit<
+  Budget,
+  "id" | "createdAt" | "updatedAt" | "createdBy" | "updatedBy"
+>;
+
+export class BudgetService {
+  // Allow for floating point noise when comparing money amounts
+  private static readonly EPSILON = 0.005;
+
+  private static repository() {
+    return getRepositories().budgets;
+  }
+
+  /**
+   * Get all budgets of the properties the current user may see
+   */
+  static async getBudgets(): Promise<Budget[]> {
+    try {
+      return await ScopeService.listScoped(
+        this.repository(),
+        await ScopeService.getPropertyScope("invoice:read")
+      );
+    } catch (error) {
+      console.error("Error getting budgets:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Get budgets by property ID, none when the property is outside the
+   * current user's scope
+   */
+  static async getBudgetsByProperty(propertyId: string): Promise<Budget[]> {
+    try {
+      const scope = await ScopeService.getPropertyScope("invoice:read");
+      if (!ScopeService.isInScope(scope, propertyId)) return [];
+      return await this.repository().list({
+        filters: [{ field: "propertyId", op: "==", value: propertyId }],
+      });
+    } catch (error) {
+      console.error("Error getting budgets by property:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Create new budget. Budgets for the same property, kind and category may
+   * not cover the same days, so actuals are never budgeted twice.
+   */
+  static async createBudget(budgetData: BudgetInput): Promise<string> {
+    try {
+      // Budget periods are read against the current fiscal calendar
+      await PeriodService.getFiscalYearStartMonth();
+      const budget = this.normalizeBudget(budgetData);
+      await this.assertNoOverlap(budget);
+
+      const now = new Date().toISOString();
+      const userId = auth.currentUser?.uid || "system";
+      const id = await this.repository().create({
+        ...budget,
+        createdAt: now,
+        updatedAt: now,
+        createdBy: userId,
+        updatedBy: userId,
+      });
+
+      console.log("✅ Budget created with ID:", id);
+      return id;
+    } catch (error) {
+      console.error("Error creating budget:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update budget amount, currency or notes
+   */
+  static async updateBudget(
+    id: string,
+    updates: Partial<Pick<Budget, "amount" | "currency" | "notes">>
+  ): Promise<void> {
+    try {
+      if (updates.amount !== undefined && !(updates.amount >= 0)) {
+        throw new Error("Budget amount must be zero or more");
+      }
+
+      await this.repository().update(id, {
+        ...updates,
+        updatedAt: new Date().toISOString(),
+        updatedBy: auth.currentUser?.uid || "system",
+      });
+
+      console.log("✅ Budget updated:", id);
+    } catch (error) {
+      console.error("Error updating budget:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete budget
+   */
+  static async deleteBudget(id: string): Promise<void> {
+    try {
+      await this.repository().delete(id);
+
+      console.log("✅ Budget deleted:", id);
+    } catch (error) {
+      console.error("Error deleting budget:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Compare budgets against invoice and expense actuals, bucketed into the
+   * same periods as the financial reports. A budget set for a different
+   * period type is spread evenly over its days, e.g. a yearly budget
+   * reported monthly.
+   */
+  static async getBudgetVariance(
+    fromDate: string,
+    toDate: string,
+    granularity: PeriodGranularity,
+    propertyId?: string
+  ): Promise<BudgetVarianceRow[]> {
+    try {
+      const [
+        budgets,
+        rawInvoices,
+        rawExpenses,
+        properties,
+        converter,
+        fiscalYearStartMonth,
+      ] = await Promise.all([
+        propertyId ? this.getBudgetsByProperty(propertyId) : this.getBudgets(),
+        InvoiceService.getInvoices(),
+        ExpenseService.getExpensesInDateRange(fromDate, toDate),
+        PropertyService.getProperties({}),
+        CurrencyService.getConverter(),
+        PeriodService.getFiscalYearStartMonth(),
+      ]);
+
+      // Express all amounts in the reporting currency
+      const invoices = CurrencyService.convertInvoices(rawInvoices, converter);
+      const expenses = CurrencyService.convertExpenses(rawExpenses, converter);
+      const range = this.normalizeRange(fromDate, toDate);
+
+      const rows = new Map<string, BudgetVarianceRow>();
+      budgets.forEach((budget) => {
+        const days = this.getBudgetDays(budget, fiscalYearStartMonth);
+        if (days.length === 0) return;
+
+        const amount = converter.convert(
+          budget.amount,
+          budget.currency,
+          days[0]
+        );
+        this.allocate(
+          days,
+          amount,
+          granularity,
+          range,
+          fiscalYearStartMonth
+        ).forEach((budgeted, period) => {
+          const key = [
+            budget.propertyId,
+            budget.kind,
+            budget.category || "",
+            period,
+          ].join("|");
+          if (!rows.has(key)) {
+            rows.set(key, {
+              propertyId: budget.propertyId,
+              propertyName:
+                properties.find((p) => p.id === budget.propertyId)?.name ||
+                budget.propertyId,
+              kind: budget.kind,
+              ...(budget.category && { category: budget.category }),
+              period,
+              budgeted: 0,
+              actual: 0,
+              variance: 0,
+              variancePct: 0,
+              favorable: true,
+            });
+          }
+          rows.get(key)!.budgeted += budgeted;
+        });
+      });
+
+      const inRange = (date: string) => {
+        const day = (date || "").slice(0, 10);
+        return day >= range.from && day <= range.to;
+      };
+      const periodOf = (date: string) =>
+        FinancialService.getPeriodFromDate(
+          date,
+          granularity,
+          fiscalYearStartMonth
+        );
+
+      return Array.from(rows.values())
+        .map((row) => {
+          const actual =
+            row.kind === "revenue"
+              ? invoices
+                  .filter(
+                    (invoice) =>
+                      invoice.propertyId === row.propertyId &&
+                      inRange(invoice.issueDate) &&
+                      periodOf(invoice.issueDate) === row.period
+                  )
+                  .reduce((sum, invoice) => sum + getNetTotal(invoice), 0)
+              : ExpenseService.sumExpenses(
+                  expenses.filter(
+                    (expense) =>
+                      expense.propertyId === row.propertyId &&
+                      (!row.category || expense.category === row.category) &&
+                      periodOf(expense.date) === row.period
+                  )
+                );
+
+          return this.withVariance({
+            ...row,
+            budgeted: this.round(row.budgeted),
+            actual: this.round(actual),
+          });
+        })
+        .sort(
+          (a, b) =>
+            a.period.localeCompare(b.period) ||
+            a.propertyName.localeCompare(b.propertyName) ||
+            a.kind.localeCompare(b.kind) ||
+            (a.category || "").localeCompare(b.category || "")
+        );
+    } catch (error) {
+      console.error("Error getting budget variance:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Days (YYYY-MM-DD) a budget covers. Period keys follow PeriodService,
+   * so weeks and fiscal years match the reports.
+   */
+  static getBudgetDays(
+    budget: Pick<Budget, "granularity" | "period">,
+    fiscalYearStartMonth?: number
+  ): string[] {
+    const range = PeriodService.getPeriodRange(
+      budget.period,
+      budget.granularity,
+      fiscalYearStartMonth
+    );
+    return range ? PeriodService.getDaysBetween(range.from, range.to) : [];
+  }
+
+  /**
+   * Spread an amount evenly over days and sum it per report period, keeping
+   * only days inside the report range
+   */
+  private static allocate(
+    days: string[],
+    amount: number,
+    granularity: PeriodGranularity,
+    range: { from: string; to: string },
+    fiscalYearStartMonth: number
+  ): Map<string, number> {
+    const perDay = amount / days.length;
+    const allocation = new Map<string, number>();
+
+    days
+      .filter((day) => day >= range.from && day <= range.to)
+      .forEach((day) => {
+        const period = FinancialService.getPeriodFromDate(
+          day,
+          granularity,
+          fiscalYearStartMonth
+        );
+        allocation.set(period, (allocation.get(period) || 0) + perDay);
+      });
+
+    return allocation;
+  }
+
+  private static withVariance(row: BudgetVarianceRow): BudgetVarianceRow {
+    const variance = this.round(row.actual - row.budgeted);
+    return {
+      ...row,
+      variance,
+      variancePct: row.budgeted > 0 ? (variance / row.budgeted) * 100 : 0,
+      favorable:
+        row.kind === "expense"
+          ? variance <= this.EPSILON
+          : variance >= -this.EPSILON,
+    };
+  }
+
+  private static normalizeBudget(budget: BudgetInput): BudgetInput {
+    if (!budget.propertyId) {
+      throw new Error("Budget must belong to a property");
+    }
+    if (!PeriodService.getPeriodRange(budget.period, budget.granularity)) {
+      throw new Error(
+        `Invalid ${budget.granularity.toLowerCase()} period: ${budget.period}`
+      );
+    }
+    if (!(budget.amount >= 0)) {
+      throw new Error("Budget amount must be zero or more");
+    }
+    if (budget.kind === "revenue" && budget.category) {
+      throw new Error("Revenue budgets cannot have an expense category");
+    }
+
+    // Firestore rejects undefined fields
+    const { category, notes, ...rest } = budget;
+    return {
+      ...rest,
+      ...(category && { category }),
+      ...(notes && { notes }),
+    };
+  }
+
+  private static async assertNoOverlap(budget: BudgetInput): Promise<void> {
+    const days = new Set(this.getBudgetDays(budget));
+    const existing = await this.getBudgetsByProperty(budget.propertyId);
+    const overlapping = existing.find(
+      (other) =>
+        other.kind === budget.kind &&
+        (other.category || "") === (budget.category || "") &&
+        this.getBudgetDays(other).some((day) => days.has(day))
+    );
+
+    if (overlapping) {
+      throw new Error(
+        `A ${overlapping.kind} budget already covers ${overlapping.period}`
+      );
+    }
+  }
+
+  /**
+   * Report ranges may be ISO dates or the year-only format ("2024")
+   */
+  private static normalizeRange(fromDate: string, toDate: string) {
+    const from = /^\d{4}$/.test(fromDate) ? `${fromDate}-01-01` : fromDate;
+    const to = /^\d{4}$/.test(toDate) ? `${toDate}-12-31` : toDate;
+    return {
+      from: (from || "0000-01-01").slice(0, 10),
+      to: (to || "9999-12-31").slice(0, 10),
+    };
+  }
+
+  private static round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
+
+export default BudgetService;
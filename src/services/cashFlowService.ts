@@ -0,0 +1,332 @@
+import { InvoiceService } from "./invoiceService";
+import { ExpenseService } from "./expenseService";
+import { ServiceProviderService } from "./serviceProviderService";
+import { CurrencyService, CurrencyConverter } from "./currencyService";
+import { RecurringInvoiceService } from "./recurringInvoiceService";
+import { PeriodService } from "./periodService";
+import { AgingService } from "./agingService";
+import {
+  CashFlowForecast,
+  CashFlowForecastPeriod,
+  CashFlowGranularity,
+  Expense,
+  Invoice,
+  Provider,
+  RecurringInvoiceTemplate,
+} from "../types/float34";
+
+export interface CashFlowForecastParams {
+  granularity: CashFlowGranularity;
+  periods: number; // how many periods to project, starting with the current
+  asOf?: string;
+  propertyId?: string;
+  providerId?: string;
+}
+
+export class CashFlowService {
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+  private static readonly MAX_PERIODS = 104;
+
+  /**
+   * Project incoming and outgoing cash from stored invoices, recurring
+   * templates and expenses
+   */
+  static async getCashFlowForecast(
+    params: CashFlowForecastParams
+  ): Promise<CashFlowForecast> {
+    const asOf = params.asOf || new Date().toISOString();
+
+    try {
+      const [
+        rawInvoices,
+        rawExpenses,
+        templates,
+        providersResponse,
+        converter,
+        fiscalYearStartMonth,
+      ] = await Promise.all([
+        InvoiceService.getInvoices(),
+        ExpenseService.getExpenses(),
+        RecurringInvoiceService.getTemplates(),
+        ServiceProviderService.getProviders(),
+        CurrencyService.getConverter(),
+        PeriodService.getFiscalYearStartMonth(),
+      ]);
+
+      const matches = (record: { propertyId: string; providerId?: string }) =>
+        (!params.propertyId || record.propertyId === params.propertyId) &&
+        (!params.providerId || record.providerId === params.providerId);
+
+      return this.buildForecast(
+        {
+          // Payment history is taken from all invoices, not just the filtered
+          // ones, so delays are learned per provider across properties
+          invoices: CurrencyService.convertInvoices(rawInvoices, converter),
+          expenses: CurrencyService.convertExpenses(
+            rawExpenses,
+            converter
+          ).filter(matches),
+          templates: templates
+            .filter((template) => template.active && matches(template))
+            .map((template) => this.convertTemplate(template, converter)),
+          providers: providersResponse?.providers || [],
+          include: matches,
+        },
+        {
+          asOf,
+          granularity: params.granularity,
+          periods: params.periods,
+          currency: converter.reportingCurrency,
+          fiscalYearStartMonth,
+        }
+      );
+    } catch (error) {
+      console.error("Error building cash-flow forecast:", error);
+      return this.buildForecast(
+        { invoices: [], expenses: [], templates: [], providers: [] },
+        {
+          asOf,
+          granularity: params.granularity,
+          periods: params.periods,
+          currency: CurrencyService.getCachedReportingCurrency(),
+        }
+      );
+    }
+  }
+
+  /**
+   * Spread expected cash movements over the forecast periods. Amounts are
+   * taken as given, so convert everything into one currency beforehand.
+   *
+   * - Incoming: the balance of each open invoice, expected on its dueDate
+   *   shifted by the provider's average days paid late (or early).
+   * - Incoming: recurring invoices not yet generated, priced from the
+   *   template and expected the same way.
+   * - Outgoing: expenses, paid the provider's paymentTerms days after they
+   *   were incurred.
+   *
+   * Anything expected before asOf (e.g. overdue invoices) lands in the
+   * first period.
+   */
+  static buildForecast(
+    data: {
+      invoices: Invoice[];
+      expenses: Expense[];
+      templates: RecurringInvoiceTemplate[];
+      providers: Provider[];
+      include?: (invoice: Invoice) => boolean;
+    },
+    options: {
+      asOf: string;
+      granularity: CashFlowGranularity;
+      periods: number;
+      currency: string;
+      fiscalYearStartMonth?: number; // for QUARTER periods
+    }
+  ): CashFlowForecast {
+    const asOfDay = options.asOf.slice(0, 10);
+    const periods = this.getPeriods(
+      asOfDay,
+      options.granularity,
+      options.periods,
+      options.fiscalYearStartMonth
+    );
+    const horizon = periods[periods.length - 1]?.periodTo || asOfDay;
+    const delays = this.getPaymentDelays(data.invoices);
+    const terms = new Map(
+      data.providers.map((provider) => [
+        provider.id,
+        provider.financialDetails?.paymentTerms || 0,
+      ])
+    );
+
+    const addToPeriod = (
+      date: string,
+      amount: number,
+      field: "incoming" | "outgoing"
+    ) => {
+      if (amount <= 0 || date > horizon) return;
+      const target =
+        date < asOfDay
+          ? periods[0]
+          : periods.find((period) => date <= period.periodTo);
+      if (target) target[field] += amount;
+    };
+    const expectedPaymentDate = (providerId: string, dueDate: string) =>
+      this.addDays(dueDate.slice(0, 10), delays.get(providerId) ?? 0);
+
+    data.invoices
+      .filter((invoice) => !data.include || data.include(invoice))
+      .forEach((invoice) => {
+        addToPeriod(
+          expectedPaymentDate(invoice.providerId, invoice.dueDate),
+          AgingService.getOutstandingAmount(invoice),
+          "incoming"
+        );
+      });
+
+    data.templates.forEach((template) => {
+      const total = this.getTemplateTotal(template);
+      RecurringInvoiceService.getOccurrenceDates(template, horizon)
+        .filter(
+          (date) =>
+            !template.lastGeneratedDate || date > template.lastGeneratedDate
+        )
+        .forEach((issueDate) => {
+          const dueDate = this.addDays(issueDate, template.dueInDays || 0);
+          addToPeriod(
+            expectedPaymentDate(template.providerId, dueDate),
+            total,
+            "incoming"
+          );
+        });
+    });
+
+    data.expenses
+      .filter((expense) => expense.status !== "rejected")
+      .forEach((expense) => {
+        const payDate = this.addDays(
+          expense.date.slice(0, 10),
+          expense.providerId ? terms.get(expense.providerId) || 0 : 0
+        );
+        // Expenses already due before asOf are assumed to be paid
+        if (payDate < asOfDay) return;
+        addToPeriod(payDate, expense.amount, "outgoing");
+      });
+
+    let cumulative = 0;
+    periods.forEach((period) => {
+      period.incoming = this.round(period.incoming);
+      period.outgoing = this.round(period.outgoing);
+      period.net = this.round(period.incoming - period.outgoing);
+      cumulative += period.net;
+      period.cumulative = this.round(cumulative);
+    });
+
+    const totals = periods.reduce(
+      (sum, period) => ({
+        incoming: sum.incoming + period.incoming,
+        outgoing: sum.outgoing + period.outgoing,
+        net: sum.net + period.net,
+      }),
+      { incoming: 0, outgoing: 0, net: 0 }
+    );
+
+    return {
+      asOf: options.asOf,
+      granularity: options.granularity,
+      currency: options.currency,
+      periods,
+      totals: {
+        incoming: this.round(totals.incoming),
+        outgoing: this.round(totals.outgoing),
+        net: this.round(totals.net),
+      },
+    };
+  }
+
+  /**
+   * Average days between dueDate and paidDate per provider, from paid
+   * invoices. Negative when a provider tends to pay early.
+   */
+  static getPaymentDelays(invoices: Invoice[]): Map<string, number> {
+    const history = new Map<string, number[]>();
+
+    invoices.forEach((invoice) => {
+      if (invoice.status !== "paid" || !invoice.paidDate) return;
+      const due = Date.parse(invoice.dueDate.slice(0, 10));
+      const paid = Date.parse(invoice.paidDate.slice(0, 10));
+      if (isNaN(due) || isNaN(paid)) return;
+
+      const days = Math.round((paid - due) / this.DAY_MS);
+      history.set(invoice.providerId, [
+        ...(history.get(invoice.providerId) || []),
+        days,
+      ]);
+    });
+
+    return new Map(
+      Array.from(history.entries()).map(([providerId, days]) => [
+        providerId,
+        Math.round(days.reduce((sum, day) => sum + day, 0) / days.length),
+      ])
+    );
+  }
+
+  /**
+   * Forecast periods starting with the one containing asOf, keyed and
+   * bounded by PeriodService
+   */
+  private static getPeriods(
+    asOfDay: string,
+    granularity: CashFlowGranularity,
+    count: number,
+    fiscalYearStartMonth?: number
+  ): CashFlowForecastPeriod[] {
+    const total = Math.min(Math.max(1, Math.floor(count)), this.MAX_PERIODS);
+    const periods: CashFlowForecastPeriod[] = [];
+
+    let day = asOfDay;
+    for (let index = 0; index < total; index++) {
+      const period = PeriodService.getPeriodKey(
+        day,
+        granularity,
+        fiscalYearStartMonth
+      );
+      const range =
+        period &&
+        PeriodService.getPeriodRange(period, granularity, fiscalYearStartMonth);
+      if (!period || !range) break;
+
+      periods.push({
+        period,
+        periodFrom: range.from,
+        periodTo: range.to,
+        incoming: 0,
+        outgoing: 0,
+        net: 0,
+        cumulative: 0,
+      });
+      day = PeriodService.addDays(range.to, 1);
+    }
+
+    return periods;
+  }
+
+  private static getTemplateTotal(template: RecurringInvoiceTemplate): number {
+    const subtotal = template.lineItems.reduce(
+      (sum, item) => sum + item.total,
+      0
+    );
+    return this.round(subtotal * (1 + (template.taxRate || 0)));
+  }
+
+  private static convertTemplate(
+    template: RecurringInvoiceTemplate,
+    converter: CurrencyConverter
+  ): RecurringInvoiceTemplate {
+    const date = new Date().toISOString().split("T")[0];
+    return {
+      ...template,
+      lineItems: template.lineItems.map((item) => ({
+        ...item,
+        total: converter.convert(item.total, template.currency, date),
+      })),
+      currency: converter.reportingCurrency,
+    };
+  }
+
+  private static addDays(date: string, days: number): string {
+    const [year, month, day] = date.split("-").map(Number);
+    const result = new Date(Date.UTC(year, month - 1, day + days));
+    return isNaN(result.getTime())
+      ? date
+      : result.toISOString().split("T")[0];
+  }
+
+  private static round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
+
+export default CashFlowService;
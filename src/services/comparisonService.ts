@@ -0,0 +1,130 @@
+import {
+  ComparisonParams,
+  ComparisonRange,
+  FinancialComparison,
+  FinancialMetrics,
+} from "../types/float34";
+import { PeriodService } from "./periodService";
+
+export class ComparisonService {
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+  /**
+   * Baseline date range for a report range. Ranges may be ISO dates or the
+   * short "2024" / "2024-03" forms. Returns null when there is nothing to
+   * compare against, e.g. an open-ended report or a custom mode without
+   * dates.
+   */
+  static getBaselineRange(
+    from: string,
+    to: string,
+    compare: ComparisonParams
+  ): ComparisonRange | null {
+    if (compare.mode === "custom") {
+      const start = PeriodService.getRangeDay(compare.from || "", "start");
+      const end = PeriodService.getRangeDay(compare.to || "", "end");
+      return start && end && start <= end
+        ? { mode: compare.mode, from: start, to: end }
+        : null;
+    }
+
+    const start = PeriodService.getRangeDay(from, "start");
+    const end = PeriodService.getRangeDay(to, "end");
+    if (!start || !end || start > end) return null;
+
+    if (compare.mode === "previous_year") {
+      return {
+        mode: compare.mode,
+        from: this.shiftYear(start, -1),
+        to: this.shiftYear(end, -1),
+      };
+    }
+
+    const days = Math.round(
+      (Date.parse(end) - Date.parse(start)) / this.DAY_MS
+    );
+    const baselineTo = PeriodService.addDays(start, -1);
+    return {
+      mode: compare.mode,
+      from: PeriodService.addDays(baselineTo, -days),
+      to: baselineTo,
+    };
+  }
+
+  /**
+   * Baseline figures and deltas of current against baseline
+   */
+  static compare(
+    current: FinancialMetrics,
+    baseline?: FinancialMetrics
+  ): FinancialComparison {
+    const base: FinancialMetrics = {
+      revenue: baseline?.revenue || 0,
+      expenses: baseline?.expenses || 0,
+      profit: baseline?.profit || 0,
+      marginPct: baseline?.marginPct || 0,
+      invoicesPaidPct: baseline?.invoicesPaidPct || 0,
+    };
+
+    return {
+      baseline: base,
+      revenueDeltaPct: this.deltaPct(current.revenue, base.revenue),
+      expensesDeltaPct: this.deltaPct(current.expenses, base.expenses),
+      profitDeltaPct: this.deltaPct(current.profit, base.profit),
+      marginDeltaPts: this.deltaPts(current.marginPct, base.marginPct),
+      invoicesPaidDeltaPts: this.deltaPts(
+        current.invoicesPaidPct,
+        base.invoicesPaidPct
+      ),
+    };
+  }
+
+  /**
+   * Match each row to its baseline row by key and add the comparison.
+   * Rows only present in the baseline are dropped, as the ranking is for
+   * the current range.
+   */
+  static compareRows<T extends FinancialMetrics>(
+    rows: T[],
+    baselineRows: T[],
+    key: (row: T) => string
+  ): (T & FinancialComparison)[] {
+    const baselines = new Map(baselineRows.map((row) => [key(row), row]));
+    return rows.map((row) => ({
+      ...row,
+      ...this.compare(row, baselines.get(key(row))),
+    }));
+  }
+
+  /**
+   * Percentage change, undefined when the baseline is zero
+   */
+  private static deltaPct(
+    current: number | undefined,
+    baseline: number | undefined
+  ): number | undefined {
+    if (current === undefined || !baseline) return undefined;
+    return ((current - baseline) / Math.abs(baseline)) * 100;
+  }
+
+  private static deltaPts(
+    current: number | undefined,
+    baseline: number | undefined
+  ): number | undefined {
+    if (current === undefined) return undefined;
+    return current - (baseline || 0);
+  }
+
+  /**
+   * Same day in another year, with Feb 29 falling back to Feb 28
+   */
+  private static shiftYear(date: string, years: number): string {
+    const [year, month, day] = date.split("-").map(Number);
+    const lastDay = new Date(Date.UTC(year + years, month, 0)).getUTCDate();
+    return new Date(Date.UTC(year + years, month - 1, Math.min(day, lastDay)))
+      .toISOString()
+      .split("T")[0];
+  }
+}
+
+export default ComparisonService;
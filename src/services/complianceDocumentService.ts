@@ -0,0 +1,195 @@
+import {
+  deleteObject,
+  getDownloadURL,
+  ref,
+  uploadBytes,
+} from "firebase/storage";
+import { storage } from "./firebaseConfig";
+import {
+  ComplianceDocument,
+  ComplianceDocumentType,
+  Provider,
+} from "@/types/float34";
+import { getRepositories } from "@/repositories";
+import { AuditService } from "./auditService";
+import { UserService } from "./userService";
+
+export type ComplianceDocumentState =
+  | "valid"
+  | "expiring"
+  | "expired"
+  | "no_expiry";
+
+export type ComplianceDocumentUpload = {
+  type: ComplianceDocumentType;
+  expiryDate?: string;
+};
+
+/**
+ * Compliance documents (insurance, licences, certificates) that service
+ * providers upload for admins to review. Files live in Cloud Storage under
+ * the provider; their details are listed on the provider record.
+ */
+export class ComplianceDocumentService {
+  // Limits enforced by storage.rules
+  static readonly MAX_FILE_SIZE = 10 * 1024 * 1024;
+  static readonly EXPIRY_WARNING_DAYS = 30;
+
+  static readonly TYPE_LABELS: Record<ComplianceDocumentType, string> = {
+    insurance: "Insurance Certificate",
+    business_license: "Business License",
+    tax_clearance: "Tax Clearance",
+    safety_certificate: "Safety Certificate",
+    other: "Other",
+  };
+
+  private static repository() {
+    return getRepositories().providers;
+  }
+
+  /**
+   * Why a file cannot be uploaded, or null if it can
+   */
+  static validateFile(file: {
+    name: string;
+    size: number;
+    type: string;
+  }): string | null {
+    if (file.type !== "application/pdf" && !file.type.startsWith("image/")) {
+      return `${file.name} must be a PDF or an image`;
+    }
+    if (file.size > this.MAX_FILE_SIZE) {
+      return `${file.name} is larger than 10 MB`;
+    }
+    return null;
+  }
+
+  /**
+   * Upload a document and list it on the provider
+   */
+  static async uploadDocument(
+    provider: Provider,
+    file: File,
+    upload: ComplianceDocumentUpload,
+    userId: string
+  ): Promise<ComplianceDocument> {
+    const error = this.validateFile(file);
+    if (error) throw new Error(error);
+    await this.checkPermission(provider.id, userId);
+
+    const id = crypto.randomUUID();
+    const filename = file.name.replace(/[^\w.-]+/g, "_");
+    const storagePath = `providers/${provider.id}/compliance/${id}-${filename}`;
+    const fileRef = ref(storage, storagePath);
+
+    try {
+      await uploadBytes(fileRef, file, { contentType: file.type });
+      const document: ComplianceDocument = {
+        id,
+        type: upload.type,
+        filename: file.name,
+        url: await getDownloadURL(fileRef),
+        storagePath,
+        contentType: file.type,
+        size: file.size,
+        ...(upload.expiryDate && { expiryDate: upload.expiryDate }),
+        uploadedAt: new Date().toISOString(),
+        uploadedBy: userId,
+      };
+
+      await this.saveDocuments(
+        provider.id,
+        (documents) => [...documents, document],
+        userId
+      );
+      console.log(`✅ Compliance document ${file.name} uploaded`);
+      return document;
+    } catch (error) {
+      console.error("Error uploading compliance document:", error);
+      // Don't leave an unlisted file behind
+      await deleteObject(fileRef).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a document from the provider and delete its file
+   */
+  static async removeDocument(
+    provider: Provider,
+    documentId: string,
+    userId: string
+  ): Promise<void> {
+    try {
+      await this.checkPermission(provider.id, userId);
+      const documents = provider.complianceDocuments || [];
+      const document = documents.find((item) => item.id === documentId);
+      if (!document) throw new Error(`Document ${documentId} not found`);
+
+      await this.saveDocuments(
+        provider.id,
+        (current) => current.filter((item) => item.id !== documentId),
+        userId
+      );
+      await deleteObject(ref(storage, document.storagePath));
+      console.log(`✅ Compliance document ${document.filename} removed`);
+    } catch (error) {
+      console.error("Error removing compliance document:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Whether a document is still valid on a date, warning a month ahead
+   */
+  static getExpiryState(
+    document: Pick<ComplianceDocument, "expiryDate">,
+    now: Date = new Date()
+  ): ComplianceDocumentState {
+    if (!document.expiryDate) return "no_expiry";
+    const expiry = new Date(document.expiryDate).getTime();
+    if (expiry < now.getTime()) return "expired";
+    const warningMs = this.EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000;
+    return expiry - now.getTime() < warningMs ? "expiring" : "valid";
+  }
+
+  private static async checkPermission(
+    providerId: string,
+    userId: string
+  ): Promise<void> {
+    if (!(await UserService.can(userId, "provider:write", { providerId }))) {
+      throw new Error(
+        "Insufficient permissions to manage this provider's documents"
+      );
+    }
+  }
+
+  // Apply a change to the stored list, which may be newer than the caller's,
+  // and audit it in the same transaction
+  private static async saveDocuments(
+    providerId: string,
+    change: (documents: ComplianceDocument[]) => ComplianceDocument[],
+    userId: string
+  ): Promise<void> {
+    await getRepositories().runTransaction(async (transaction) => {
+      const before = await transaction.get(this.repository(), providerId);
+      if (!before) throw new Error(`Provider ${providerId} not found`);
+      const changes = {
+        complianceDocuments: change(before.complianceDocuments || []),
+        updatedAt: new Date().toISOString(),
+        updatedBy: userId,
+      };
+      transaction.update(this.repository(), providerId, changes);
+      AuditService.recordInTransaction(
+        transaction,
+        "update",
+        "serviceProvider",
+        providerId,
+        before,
+        { ...before, ...changes }
+      );
+    });
+  }
+}
+
+export default ComplianceDocumentService;
@@ -0,0 +1,397 @@
+import { auth } from "./firebaseConfig";
+import {
+  CreditNote,
+  CreditNoteLineItem,
+  Invoice,
+  InvoiceStatus,
+} from "../types/float34";
+import { InvoiceChange } from "@/lib/financial/rollups";
+import { getRepositories, Transaction } from "@/repositories";
+import { AuditService } from "./auditService";
+import { InvoiceService } from "./invoiceService";
+import { PaymentService } from "./paymentService";
+import { RollupService } from "./rollupService";
+import { ScopeService } from "./scopeService";
+
+export class CreditNoteService {
+  // Allow for floating point noise when comparing money amounts
+  private static readonly EPSILON = 0.005;
+
+  /**
+   * Get all credit notes of the properties the current user may see
+   */
+  static async getCreditNotes(): Promise<CreditNote[]> {
+    try {
+      return await ScopeService.listScoped(
+        getRepositories().creditNotes,
+        await ScopeService.getPropertyScope("invoice:read")
+      );
+    } catch (error) {
+      console.error("Error getting credit notes:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Get credit note by ID, null when it is outside the current user's scope
+   */
+  static async getCreditNoteById(id: string): Promise<CreditNote | null> {
+    try {
+      const creditNote = await getRepositories().creditNotes.get(id);
+      if (!creditNote) return null;
+      const scope = await ScopeService.getPropertyScope(
+        "invoice:read",
+        creditNote.providerId
+      );
+      return ScopeService.isInScope(scope, creditNote.propertyId)
+        ? creditNote
+        : null;
+    } catch (error) {
+      console.error("Error getting credit note:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Get credit notes issued against an invoice, none when the invoice is
+   * outside the current user's scope
+   */
+  static async getCreditNotesForInvoice(
+    invoiceId: string
+  ): Promise<CreditNote[]> {
+    try {
+      const invoice = await InvoiceService.getInvoiceById(invoiceId);
+      if (!invoice) return [];
+
+      // Firestore rules are not filters: naming the invoice's property and
+      // provider lets its managers and provider run the query
+      const creditNotes = await getRepositories().creditNotes.list({
+        filters: [
+          { field: "invoiceId", op: "==", value: invoiceId },
+          { field: "propertyId", op: "==", value: invoice.propertyId },
+          { field: "providerId", op: "==", value: invoice.providerId },
+        ],
+      });
+      return creditNotes.sort((a, b) =>
+        a.issueDate.localeCompare(b.issueDate)
+      );
+    } catch (error) {
+      console.error("Error getting credit notes for invoice:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Issue a credit note against an invoice. Line items may reference the
+   * original invoice lines (lineItemIndex) or be free-form adjustments; tax is
+   * credited at the invoice's effective rate. The invoice's credited amount,
+   * balance and status are updated in the same transaction.
+   */
+  static async createCreditNote(
+    invoiceId: string,
+    data: {
+      lineItems: CreditNoteLineItem[];
+      reason: string;
+      issueDate?: string;
+    }
+  ): Promise<string> {
+    try {
+      if (!data.reason?.trim()) {
+        throw new Error("A reason is required for a credit note");
+      }
+      if (!data.lineItems || data.lineItems.length === 0) {
+        throw new Error("A credit note needs at least one line item");
+      }
+      data.lineItems.forEach((item) => {
+        if (!(item.total > 0)) {
+          throw new Error("Credit note line totals must be greater than zero");
+        }
+      });
+
+      const repositories = getRepositories();
+      const creditNoteId = repositories.creditNotes.newId();
+      const now = new Date().toISOString();
+      const issueDate = data.issueDate || now.split("T")[0];
+      const actor = auth.currentUser?.uid || "system";
+
+      const change = await repositories.runTransaction(async (transaction) => {
+        const invoice = await transaction.get(repositories.invoices, invoiceId);
+        if (!invoice) {
+          throw new Error(`Invoice not found: ${invoiceId}`);
+        }
+        await ScopeService.assertCan(
+          "invoice:approve",
+          invoice,
+          `Insufficient permissions to credit invoice ${invoice.invoiceNumber}`
+        );
+
+        if (invoice.status === "draft" || invoice.status === "cancelled") {
+          throw new Error(
+            `Cannot credit a ${invoice.status} invoice: ${invoice.invoiceNumber}`
+          );
+        }
+
+        const subtotal = this.round(
+          data.lineItems.reduce((sum, item) => sum + item.total, 0)
+        );
+        const taxRate =
+          invoice.subtotal > 0 ? invoice.tax / invoice.subtotal : 0;
+        const tax = this.round(subtotal * taxRate);
+        const total = this.round(subtotal + tax);
+
+        const creditedAmount = this.round(
+          (invoice.creditedAmount || 0) + total
+        );
+        if (creditedAmount > invoice.total + this.EPSILON) {
+          throw new Error(
+            `Credit exceeds the uncredited total of invoice ${invoice.invoiceNumber}`
+          );
+        }
+
+        // All reads precede the writes: the credit note sequence here, and
+        // the invoice number if the credit cancels the invoice
+        const year = issueDate.slice(0, 4);
+        const { creditNoteNumber, next } = await this.readCreditNoteNumber(
+          transaction,
+          year
+        );
+
+        const change = await this.applyCreditUpdate(
+          transaction,
+          invoice,
+          creditedAmount,
+          {
+            now,
+            note: `Credit note ${creditNoteNumber}: ${data.reason}`,
+          }
+        );
+
+        transaction.set(repositories.creditNoteSequences, year, {
+          next: next + 1,
+        });
+        transaction.set(repositories.creditNotes, creditNoteId, {
+          creditNoteNumber,
+          invoiceId,
+          invoiceNumber: invoice.invoiceNumber,
+          propertyId: invoice.propertyId,
+          providerId: invoice.providerId,
+          issueDate,
+          reason: data.reason.trim(),
+          type:
+            creditedAmount >= invoice.total - this.EPSILON ? "full" : "partial",
+          status: "issued",
+          lineItems: data.lineItems,
+          subtotal,
+          tax,
+          total,
+          currency: invoice.currency,
+          createdAt: now,
+          updatedAt: now,
+          createdBy: actor,
+          updatedBy: actor,
+        });
+        return change;
+      });
+      await RollupService.refresh([change]);
+
+      console.log("✅ Credit note created with ID:", creditNoteId);
+      return creditNoteId;
+    } catch (error) {
+      console.error("Error creating credit note:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Credit the whole uncredited remainder of an invoice
+   */
+  static async createFullCreditNote(
+    invoice: Invoice,
+    reason: string
+  ): Promise<string> {
+    const remaining = invoice.total - (invoice.creditedAmount || 0);
+    const uncreditedRatio = invoice.total > 0 ? remaining / invoice.total : 0;
+
+    const lineItems: CreditNoteLineItem[] =
+      invoice.lineItems && invoice.lineItems.length > 0
+        ? invoice.lineItems.map((item, index) => ({
+            lineItemIndex: index,
+            description: item.description,
+            quantity: item.quantity,
+            unitPrice: this.round(item.unitPrice * uncreditedRatio),
+            total: this.round(item.total * uncreditedRatio),
+          }))
+        : [
+            {
+              description: invoice.description,
+              quantity: 1,
+              unitPrice: this.round(invoice.subtotal * uncreditedRatio),
+              total: this.round(invoice.subtotal * uncreditedRatio),
+            },
+          ];
+
+    return this.createCreditNote(invoice.id, { reason, lineItems });
+  }
+
+  /**
+   * Void a credit note issued in error and restore the invoice balance
+   */
+  static async voidCreditNote(id: string, reason: string): Promise<void> {
+    try {
+      const repositories = getRepositories();
+      const now = new Date().toISOString();
+      const actor = auth.currentUser?.uid || "system";
+
+      const changes = await repositories.runTransaction(async (transaction) => {
+        const creditNote = await transaction.get(repositories.creditNotes, id);
+        if (!creditNote) {
+          throw new Error(`Credit note not found: ${id}`);
+        }
+        if (creditNote.status === "void") {
+          throw new Error(`Credit note already void: ${id}`);
+        }
+
+        const invoice = await transaction.get(
+          repositories.invoices,
+          creditNote.invoiceId
+        );
+        await ScopeService.assertCan(
+          "invoice:approve",
+          invoice || creditNote,
+          `Insufficient permissions to void credit note ${creditNote.creditNoteNumber}`
+        );
+        const changes: InvoiceChange[] = [];
+        if (invoice) {
+          const change = await this.applyCreditUpdate(
+            transaction,
+            invoice,
+            Math.max(
+              0,
+              this.round((invoice.creditedAmount || 0) - creditNote.total)
+            ),
+            {
+              now,
+              note: `Credit note ${creditNote.creditNoteNumber} voided: ${reason}`,
+            }
+          );
+          changes.push(change);
+        }
+
+        transaction.update(repositories.creditNotes, id, {
+          status: "void",
+          voidedAt: now,
+          voidReason: reason,
+          updatedAt: now,
+          updatedBy: actor,
+        });
+        return changes;
+      });
+      await RollupService.refresh(changes);
+
+      console.log("✅ Credit note voided:", id);
+    } catch (error) {
+      console.error("Error voiding credit note:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update an invoice's credited amount, balance and (when it is settled)
+   * status after a credit note is issued or voided. It reads the invoice
+   * number first, so call it before the transaction writes anything.
+   */
+  private static async applyCreditUpdate(
+    transaction: Transaction,
+    invoice: Invoice,
+    creditedAmount: number,
+    options: { now: string; note: string }
+  ): Promise<InvoiceChange> {
+    const credited = { ...invoice, creditedAmount };
+    const amountPaid = PaymentService.getAmountPaid(invoice);
+    const balanceDue = Math.max(
+      0,
+      this.round(PaymentService.getNetTotal(credited) - amountPaid)
+    );
+
+    // A fully credited, unpaid invoice is cancelled; otherwise the status
+    // follows what has actually been paid against the new net total. An
+    // invoice cancelled by its credit reopens when that credit is voided.
+    const cancelledByCredit =
+      invoice.status === "cancelled" &&
+      (invoice.creditedAmount || 0) >= invoice.total - this.EPSILON;
+    let toStatus: InvoiceStatus = invoice.status;
+    if (balanceDue <= this.EPSILON && amountPaid <= this.EPSILON) {
+      toStatus = "cancelled";
+    } else if (invoice.status !== "paid" || balanceDue > this.EPSILON) {
+      toStatus = PaymentService.getStatusForAmountPaid(credited, amountPaid);
+    }
+    if (
+      toStatus !== invoice.status &&
+      !cancelledByCredit &&
+      !InvoiceService.canTransition(invoice.status, toStatus)
+    ) {
+      toStatus = invoice.status;
+    }
+
+    await InvoiceService.updateNumberForTransition(
+      transaction,
+      invoice,
+      toStatus,
+      options.note
+    );
+
+    const change = InvoiceService.buildStatusChange(
+      invoice.status,
+      toStatus,
+      options.now,
+      options.note
+    );
+
+    const updates: Partial<Invoice> = {
+      creditedAmount,
+      balanceDue,
+      status: toStatus,
+      updatedAt: options.now,
+      updatedBy: change.changedBy,
+    };
+    const repositories = getRepositories();
+    const after = { ...invoice, ...updates };
+    transaction.update(repositories.invoices, invoice.id, updates);
+    AuditService.recordInTransaction(
+      transaction,
+      "update",
+      "invoice",
+      invoice.id,
+      invoice,
+      after
+    );
+
+    if (toStatus !== invoice.status) {
+      const history = repositories.statusHistory(invoice.id);
+      transaction.set(history, history.newId(), change);
+    }
+    return { before: invoice, after };
+  }
+
+  /**
+   * Read the next credit note number for the issue year (CN-2024-001). The
+   * caller reserves it by writing `next + 1` back once its reads are done.
+   */
+  private static async readCreditNoteNumber(
+    transaction: Transaction,
+    year: string
+  ): Promise<{ creditNoteNumber: string; next: number }> {
+    const sequences = getRepositories().creditNoteSequences;
+    const next = (await transaction.get(sequences, year))?.next || 1;
+    return {
+      creditNoteNumber: `CN-${year}-${String(next).padStart(3, "0")}`,
+      next,
+    };
+  }
+
+  private static round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
+
+export default CreditNoteService;
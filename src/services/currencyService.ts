@@ -0,0 +1,416 @@
+import { Expense, FxRate, Invoice, ReportingSettings } from "../types/float34";
+import { getRepositories } from "@/repositories";
+
+export interface CurrencyConverter {
+  reportingCurrency: string;
+  convert: (
+    amount: number,
+    fromCurrency: string | undefined,
+    date: string
+  ) => number;
+  // Currencies with no usable rate, whose amounts were left out
+  unconvertedCurrencies: Set<string>;
+}
+
+export class CurrencyService {
+  private static SETTINGS_DOC = "reporting";
+  static readonly DEFAULT_REPORTING_CURRENCY = "USD";
+
+  private static cachedReportingCurrency: string =
+    CurrencyService.DEFAULT_REPORTING_CURRENCY;
+
+  // Currencies any converter left out since the rates last changed
+  private static unconvertedCurrencies = new Set<string>();
+
+  /**
+   * Get the reporting currency all financial aggregations are expressed in
+   */
+  static async getReportingCurrency(): Promise<string> {
+    try {
+      const settings = (await getRepositories().settings.get(
+        this.SETTINGS_DOC
+      )) as Partial<ReportingSettings> | null;
+
+      this.cachedReportingCurrency =
+        settings?.reportingCurrency || this.DEFAULT_REPORTING_CURRENCY;
+      return this.cachedReportingCurrency;
+    } catch (error) {
+      console.error("Error getting reporting currency:", error);
+      return this.cachedReportingCurrency;
+    }
+  }
+
+  /**
+   * Last reporting currency loaded, for synchronous formatting helpers
+   */
+  static getCachedReportingCurrency(): string {
+    return this.cachedReportingCurrency;
+  }
+
+  /**
+   * Currencies left out of reports since the rates last changed, as no
+   * rate converts them into the reporting currency
+   */
+  static getUnconvertedCurrencies(): string[] {
+    return Array.from(this.unconvertedCurrencies).sort();
+  }
+
+  /**
+   * Set the reporting currency
+   */
+  static async setReportingCurrency(
+    currency: string,
+    updatedBy?: string
+  ): Promise<void> {
+    try {
+      const code = this.normalizeCurrency(currency);
+      if (!code) {
+        throw new Error(`Invalid currency code: ${currency}`);
+      }
+
+      const settings: ReportingSettings = {
+        reportingCurrency: code,
+        updatedAt: new Date().toISOString(),
+        ...(updatedBy && { updatedBy }),
+      };
+      await getRepositories().settings.set(this.SETTINGS_DOC, settings, {
+        merge: true,
+      });
+
+      this.cachedReportingCurrency = code;
+      this.unconvertedCurrencies.clear();
+      console.log("✅ Reporting currency set to:", code);
+    } catch (error) {
+      console.error("Error setting reporting currency:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get all stored FX rates
+   */
+  static async getFxRates(): Promise<FxRate[]> {
+    try {
+      return await getRepositories().fxRates.list();
+    } catch (error) {
+      console.error("Error getting FX rates:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Save an FX rate. Rates are keyed by date and currency pair, so saving
+   * the same pair for the same date replaces the existing rate.
+   */
+  static async saveFxRate(
+    rateData: Omit<FxRate, "id" | "createdAt" | "updatedAt">
+  ): Promise<string> {
+    try {
+      const baseCurrency = this.normalizeCurrency(rateData.baseCurrency);
+      const quoteCurrency = this.normalizeCurrency(rateData.quoteCurrency);
+      const date = this.normalizeDate(rateData.date);
+
+      if (!baseCurrency || !quoteCurrency || baseCurrency === quoteCurrency) {
+        throw new Error(
+          `Invalid currency pair: ${rateData.baseCurrency}/${rateData.quoteCurrency}`
+        );
+      }
+      if (!date) {
+        throw new Error(`Invalid FX rate date: ${rateData.date}`);
+      }
+      if (!(rateData.rate > 0)) {
+        throw new Error(`Invalid FX rate: ${rateData.rate}`);
+      }
+
+      const id = `${date}_${baseCurrency}_${quoteCurrency}`;
+      const now = new Date().toISOString();
+      const existing = await getRepositories().fxRates.get(id);
+
+      await getRepositories().fxRates.set(id, {
+        baseCurrency,
+        quoteCurrency,
+        rate: rateData.rate,
+        date,
+        source: rateData.source,
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+      });
+      this.unconvertedCurrencies.clear();
+
+      console.log("✅ FX rate saved:", id);
+      return id;
+    } catch (error) {
+      console.error("Error saving FX rate:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete FX rate
+   */
+  static async deleteFxRate(id: string): Promise<void> {
+    try {
+      await getRepositories().fxRates.delete(id);
+      this.unconvertedCurrencies.clear();
+      console.log("✅ FX rate deleted:", id);
+    } catch (error) {
+      console.error("Error deleting FX rate:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Import FX rates from CSV with the columns date,base,quote,rate.
+   * A header row is optional.
+   */
+  static async importFxRatesFromCsv(
+    csv: string
+  ): Promise<{ imported: number; errors: string[] }> {
+    const { rates, errors } = this.parseFxRatesCsv(csv);
+    let imported = 0;
+
+    for (const rate of rates) {
+      try {
+        await this.saveFxRate({ ...rate, source: "csv" });
+        imported++;
+      } catch (error) {
+        errors.push(
+          `${rate.date} ${rate.baseCurrency}/${rate.quoteCurrency}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }
+
+    console.log(`✅ Imported ${imported} FX rates from CSV`);
+    return { imported, errors };
+  }
+
+  /**
+   * Parse FX rate CSV rows without saving them
+   */
+  static parseFxRatesCsv(csv: string): {
+    rates: Omit<FxRate, "id" | "createdAt" | "updatedAt" | "source">[];
+    errors: string[];
+  } {
+    const rates: Omit<FxRate, "id" | "createdAt" | "updatedAt" | "source">[] =
+      [];
+    const errors: string[] = [];
+
+    csv
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .forEach((line, index) => {
+        if (!line) return;
+
+        const [date, base, quote, rate] = line
+          .split(",")
+          .map((cell) => cell.trim().replace(/^"|"$/g, ""));
+
+        // Skip a header row
+        if (index === 0 && isNaN(parseFloat(rate))) return;
+
+        const normalizedDate = this.normalizeDate(date);
+        const baseCurrency = this.normalizeCurrency(base);
+        const quoteCurrency = this.normalizeCurrency(quote);
+        const parsedRate = parseFloat(rate);
+
+        if (
+          !normalizedDate ||
+          !baseCurrency ||
+          !quoteCurrency ||
+          !(parsedRate > 0)
+        ) {
+          errors.push(`Line ${index + 1}: could not parse "${line}"`);
+          return;
+        }
+
+        rates.push({
+          date: normalizedDate,
+          baseCurrency,
+          quoteCurrency,
+          rate: parsedRate,
+        });
+      });
+
+    return { rates, errors };
+  }
+
+  /**
+   * Load the reporting currency and FX rates and build a converter
+   */
+  static async getConverter(): Promise<CurrencyConverter> {
+    const [reportingCurrency, rates] = await Promise.all([
+      this.getReportingCurrency(),
+      this.getFxRates(),
+    ]);
+    return this.createConverter(reportingCurrency, rates);
+  }
+
+  /**
+   * Build a converter into the reporting currency from a set of FX rates.
+   * Uses the latest rate on or before the transaction date, falling back to
+   * the earliest later rate, the inverse pair, or a cross rate through one
+   * intermediate currency. Amounts with no usable rate are left out, so
+   * totals never mix currencies; their currencies are listed in
+   * unconvertedCurrencies for reports to flag.
+   */
+  static createConverter(
+    reportingCurrency: string,
+    rates: FxRate[]
+  ): CurrencyConverter {
+    const sortedRates = [...rates].sort((a, b) =>
+      a.date.localeCompare(b.date)
+    );
+    const unconvertedCurrencies = new Set<string>();
+
+    return {
+      reportingCurrency,
+      unconvertedCurrencies,
+      convert: (amount, fromCurrency, date) => {
+        const from = this.normalizeCurrency(fromCurrency || "");
+        if (!from || from === reportingCurrency || !amount) {
+          return amount;
+        }
+
+        const rate = this.findRate(
+          sortedRates,
+          from,
+          reportingCurrency,
+          this.normalizeDate(date) || ""
+        );
+        if (rate === null) {
+          if (!unconvertedCurrencies.has(from)) {
+            unconvertedCurrencies.add(from);
+            console.warn(
+              `No FX rate for ${from}/${reportingCurrency}; amount left out`
+            );
+          }
+          this.unconvertedCurrencies.add(from);
+          return 0;
+        }
+
+        return amount * rate;
+      },
+    };
+  }
+
+  /**
+   * Convert invoice amounts into the converter's reporting currency
+   */
+  static convertInvoices(
+    invoices: Invoice[],
+    converter: CurrencyConverter
+  ): Invoice[] {
+    return invoices.map((invoice) => {
+      const convert = (amount: number) =>
+        converter.convert(amount, invoice.currency, invoice.issueDate);
+      return {
+        ...invoice,
+        subtotal: convert(invoice.subtotal),
+        tax: convert(invoice.tax),
+        total: convert(invoice.total),
+        ...(invoice.amountPaid !== undefined && {
+          amountPaid: convert(invoice.amountPaid),
+        }),
+        ...(invoice.balanceDue !== undefined && {
+          balanceDue: convert(invoice.balanceDue),
+        }),
+        ...(invoice.creditedAmount !== undefined && {
+          creditedAmount: convert(invoice.creditedAmount),
+        }),
+        currency: converter.reportingCurrency,
+      };
+    });
+  }
+
+  /**
+   * Convert expense amounts into the converter's reporting currency
+   */
+  static convertExpenses(
+    expenses: Expense[],
+    converter: CurrencyConverter
+  ): Expense[] {
+    return expenses.map((expense) => ({
+      ...expense,
+      amount: converter.convert(
+        expense.amount,
+        expense.currency,
+        expense.date
+      ),
+      currency: converter.reportingCurrency,
+    }));
+  }
+
+  /**
+   * Find the rate to convert one unit of `from` into `to` on a date
+   */
+  private static findRate(
+    sortedRates: FxRate[],
+    from: string,
+    to: string,
+    date: string
+  ): number | null {
+    const direct = this.findPairRate(sortedRates, from, to, date);
+    if (direct !== null) return direct;
+
+    // Cross rate through a single intermediate currency
+    const intermediates = new Set<string>();
+    sortedRates.forEach((rate) => {
+      if (rate.baseCurrency === from) intermediates.add(rate.quoteCurrency);
+      if (rate.quoteCurrency === from) intermediates.add(rate.baseCurrency);
+    });
+
+    for (const intermediate of intermediates) {
+      const first = this.findPairRate(sortedRates, from, intermediate, date);
+      const second = this.findPairRate(sortedRates, intermediate, to, date);
+      if (first !== null && second !== null) {
+        return first * second;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Find a direct or inverse rate for a currency pair on a date
+   */
+  private static findPairRate(
+    sortedRates: FxRate[],
+    from: string,
+    to: string,
+    date: string
+  ): number | null {
+    const candidates = sortedRates
+      .map((rate) => {
+        if (rate.baseCurrency === from && rate.quoteCurrency === to) {
+          return { date: rate.date, rate: rate.rate };
+        }
+        if (rate.baseCurrency === to && rate.quoteCurrency === from) {
+          return { date: rate.date, rate: 1 / rate.rate };
+        }
+        return null;
+      })
+      .filter((rate): rate is { date: string; rate: number } => rate !== null);
+
+    if (candidates.length === 0) return null;
+
+    const onOrBefore = candidates.filter((rate) => rate.date <= date);
+    return onOrBefore.length > 0
+      ? onOrBefore[onOrBefore.length - 1].rate
+      : candidates[0].rate;
+  }
+
+  private static normalizeCurrency(currency: string): string | null {
+    const code = currency?.trim().toUpperCase();
+    return code && /^[A-Z]{3}$/.test(code) ? code : null;
+  }
+
+  private static normalizeDate(date: string): string | null {
+    if (!date) return null;
+    const parsed = new Date(date);
+    return isNaN(parsed.getTime()) ? null : parsed.toISOString().split("T")[0];
+  }
+}
+
+export default CurrencyService;
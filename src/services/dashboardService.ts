@@ -1,12 +1,6 @@
-import {
-  collection,
-  getDocs,
-  query,
-  where,
-  orderBy,
-  limit,
-} from "firebase/firestore";
-import { db } from "./firebaseConfig";
+import { getRepositories } from "@/repositories";
+import { PropertyService } from "./propertyService";
+import { InvoiceService } from "./invoiceService";
 import { Provider, Property } from "@/types/float34";
 
 export interface DashboardStats {
@@ -50,10 +44,14 @@ export interface PropertySummary {
   lastUpdated: string;
 }
 
+// Older provider records also carry their own activity and earnings
+type ProviderRecord = Provider & {
+  lastActive?: string;
+  revenue?: number;
+  profit?: number;
+};
+
 export class DashboardService {
-  private static readonly PROVIDERS_COLLECTION = "serviceProviders";
-  private static readonly PROPERTIES_COLLECTION = "properties";
-  private static readonly FINANCIAL_COLLECTION = "financialData";
 
   /**
    * Get comprehensive dashboard statistics
@@ -61,21 +59,19 @@ export class DashboardService {
   static async getDashboardStats(): Promise<DashboardStats> {
     try {
       // Get service providers count
-      const providersQuery = query(collection(db, this.PROVIDERS_COLLECTION));
-      const providersSnapshot = await getDocs(providersQuery);
+      const providers = await getRepositories().providers.list();
 
-      const totalProviders = providersSnapshot.size;
-      const activeProviders = providersSnapshot.docs.filter(
-        (doc) => doc.data().status === "active"
+      const totalProviders = providers.length;
+      const activeProviders = providers.filter(
+        (provider) => provider.status === "active"
       ).length;
 
-      // Get properties count
-      const propertiesQuery = query(collection(db, this.PROPERTIES_COLLECTION));
-      const propertiesSnapshot = await getDocs(propertiesQuery);
+      // Get count of the properties the user may see
+      const properties = await PropertyService.getProperties();
 
-      const totalProperties = propertiesSnapshot.size;
-      const activeProperties = propertiesSnapshot.docs.filter(
-        (doc) => doc.data().status === "active"
+      const totalProperties = properties.length;
+      const activeProperties = properties.filter(
+        (property) => property.status === "active"
       ).length;
 
       // Calculate monthly revenue from financial data
@@ -121,25 +117,22 @@ export class DashboardService {
   static async getRecentActivities(): Promise<RecentActivity[]> {
     try {
       // Get recent service providers
-      const providersQuery = query(
-        collection(db, this.PROVIDERS_COLLECTION),
-        orderBy("createdAt", "desc"),
-        limit(3)
-      );
-      const providersSnapshot = await getDocs(providersQuery);
+      const providers = await getRepositories().providers.list({
+        orderBy: { field: "createdAt", direction: "desc" },
+        limit: 3,
+      });
 
       const activities: RecentActivity[] = [];
 
       // Add recent provider activities
-      providersSnapshot.docs.forEach((doc, index) => {
-        const data = doc.data();
+      providers.forEach((provider) => {
         activities.push({
-          id: doc.id,
+          id: provider.id,
           type: "provider",
           title: `New service provider registered: ${
-            data.businessName || data.name
+            provider.businessName || provider.name
           }`,
-          time: this.getTimeAgo(data.createdAt),
+          time: this.getTimeAgo(provider.createdAt),
           status: "new",
         });
       });
@@ -177,23 +170,21 @@ export class DashboardService {
     try {
       // Use a simple query to avoid complex composite indexes
       // We'll filter and sort in memory instead
-      const providersQuery = query(
-        collection(db, this.PROVIDERS_COLLECTION),
-        orderBy("createdAt", "desc"), // Simple ordering by creation date
-        limit(20) // Get more documents to filter from
-      );
-      const providersSnapshot = await getDocs(providersQuery);
+      // Simple ordering by creation date; get more records to filter from
+      const providers = (await getRepositories().providers.list({
+        orderBy: { field: "createdAt", direction: "desc" },
+        limit: 20,
+      })) as ProviderRecord[];
 
       // Filter and sort in memory to avoid complex Firestore indexes
-      const activeProviders = providersSnapshot.docs
-        .filter((doc) => doc.data().status === "active")
-        .sort((a, b) => (b.data().rating || 0) - (a.data().rating || 0))
+      const activeProviders = providers
+        .filter((provider) => provider.status === "active")
+        .sort((a, b) => (b.rating || 0) - (a.rating || 0))
         .slice(0, 5); // Take top 5 by rating
 
-      return activeProviders.map((doc) => {
-        const data = doc.data();
+      return activeProviders.map((data) => {
         return {
-          id: doc.id,
+          id: data.id,
           name: data.name || "Unknown",
           businessName: data.businessName || data.name || "Unknown",
           service: data.service || "Unknown Service",
@@ -229,30 +220,25 @@ export class DashboardService {
    */
   static async getTopProperties(): Promise<PropertySummary[]> {
     try {
-      // Use a simple query to avoid complex composite indexes
-      // We'll filter in memory instead
-      const propertiesQuery = query(
-        collection(db, this.PROPERTIES_COLLECTION),
-        orderBy("createdAt", "desc"), // Simple ordering by creation date
-        limit(20) // Get more documents to filter from
-      );
-      const propertiesSnapshot = await getDocs(propertiesQuery);
-
-      // Filter in memory to avoid complex Firestore indexes
-      const activeProperties = propertiesSnapshot.docs
-        .filter((doc) => doc.data().status === "active")
+      // Newest properties the user may see; filter in memory to avoid
+      // complex Firestore indexes
+      const properties = await PropertyService.getProperties({ limit: 20 });
+      const activeProperties = properties
+        .filter((property) => property.status === "active")
         .slice(0, 5); // Take top 5 active properties
 
-      return activeProperties.map((doc) => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          name: data.name || "Unknown Property",
-          address: data.address || "Address not available",
-          status: data.status || "unknown",
-          lastUpdated: this.getTimeAgo(data.updatedAt || data.createdAt),
-        };
-      });
+      return activeProperties.map((property) => ({
+        id: property.id,
+        name: property.name || "Unknown Property",
+        address:
+          property.address?.fullAddress ||
+          [property.address?.street, property.address?.city]
+            .filter(Boolean)
+            .join(", ") ||
+          "Address not available",
+        status: property.status || "unknown",
+        lastUpdated: this.getTimeAgo(property.updatedAt || property.createdAt),
+      }));
     } catch (error) {
       console.error("Error fetching top properties:", error);
 
@@ -280,11 +266,10 @@ export class DashboardService {
     try {
       // This would typically query your financial data collection
       // For now, return a calculated value based on properties and providers
-      const propertiesQuery = query(collection(db, this.PROPERTIES_COLLECTION));
-      const propertiesSnapshot = await getDocs(propertiesQuery);
+      const properties = await PropertyService.getProperties();
 
       // Mock calculation - replace with real financial data query
-      const baseRevenue = propertiesSnapshot.size * 15000; // $15k per property
+      const baseRevenue = properties.length * 15000; // $15k per property
       const randomVariation = 0.8 + Math.random() * 0.4; // ±20% variation
 
       return Math.round(baseRevenue * randomVariation);
@@ -299,24 +284,11 @@ export class DashboardService {
    */
   private static async calculatePendingInvoices(): Promise<number> {
     try {
-      // Check if invoices collection exists and has data
-      const invoicesQuery = query(collection(db, "invoices"));
-      const invoicesSnapshot = await getDocs(invoicesQuery);
-
-      if (invoicesSnapshot.empty) {
-        return 0; // No invoices yet
-      }
-
-      // Count invoices that are pending (draft, sent, overdue)
-      let pendingCount = 0;
-      invoicesSnapshot.forEach((doc) => {
-        const data = doc.data();
-        if (["draft", "sent", "overdue"].includes(data.status)) {
-          pendingCount++;
-        }
-      });
-
-      return pendingCount;
+      // Count the user's invoices that are pending (draft, sent, overdue)
+      const invoices = await InvoiceService.getInvoices();
+      return invoices.filter((invoice) =>
+        ["draft", "sent", "overdue"].includes(invoice.status)
+      ).length;
     } catch (error) {
       console.error("Error calculating pending invoices:", error);
       return 0;
@@ -0,0 +1,153 @@
+import { signInWithEmailAndPassword } from "firebase/auth";
+import { auth, emulatorConfig } from "./firebaseConfig";
+import { InvoiceService } from "./invoiceService";
+import { RollupService } from "./rollupService";
+import { createFirestoreRepositories } from "@/repositories";
+import { UserProfile } from "./userService";
+import { Invoice } from "@/types/float34";
+import {
+  emulatorUsers,
+  mockReceivables,
+  properties,
+  providers,
+} from "@/mocks/fixtures";
+
+export type EmulatorSeedResult = {
+  users: number;
+  properties: number;
+  providers: number;
+  invoices: number; // invoices created, fixtures already present are skipped
+};
+
+/**
+ * Loads the fixtures into the Firebase emulators so the dashboard and the
+ * security rules can be exercised without touching production
+ */
+export class EmulatorSeedService {
+  // Password of every seeded account
+  static readonly PASSWORD = "float34-emulator";
+
+  /**
+   * Seed auth users, profiles, properties, providers and invoices, then
+   * rebuild the financial rollups. Safe to run more than once.
+   */
+  static async seed(): Promise<EmulatorSeedResult> {
+    if (!emulatorConfig) {
+      throw new Error("Seeding is only allowed against the Firebase emulators");
+    }
+
+    try {
+      for (const user of emulatorUsers) {
+        await this.createAuthUser(user);
+      }
+      // Rules allow the seeded writes for admins only; the role claim
+      // is in the token from this sign-in
+      const admin = emulatorUsers.find((user) => user.role === "admin")!;
+      await signInWithEmailAndPassword(auth, admin.email, this.PASSWORD);
+
+      // Straight to Firestore, whatever NEXT_PUBLIC_DATA_BACKEND says
+      const repositories = createFirestoreRepositories();
+      await Promise.all([
+        ...emulatorUsers.map((user) => repositories.users.set(user.uid, user)),
+        ...properties.map((property) =>
+          repositories.properties.set(property.id, property)
+        ),
+        ...providers.map((provider) =>
+          repositories.providers.set(provider.id, provider)
+        ),
+      ]);
+
+      const existing = new Set(
+        (await repositories.invoices.list()).map(
+          (invoice) => invoice.invoiceNumber
+        )
+      );
+      const missing = mockReceivables.filter(
+        (invoice) => !existing.has(invoice.invoiceNumber)
+      );
+      for (const invoice of missing) {
+        await InvoiceService.createInvoice(this.toInvoiceData(invoice));
+      }
+      await RollupService.rebuildRollups(await repositories.invoices.list());
+
+      const result = {
+        users: emulatorUsers.length,
+        properties: properties.length,
+        providers: providers.length,
+        invoices: missing.length,
+      };
+      console.log("✅ Emulator data seeded:", result);
+      return result;
+    } catch (error) {
+      console.error("Error seeding emulator data:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create the account with a fixed uid through the Auth emulator's admin
+   * endpoints, so profiles and rules can refer to it. The role claim lets
+   * the admin write the profiles the rules read roles from.
+   */
+  private static async createAuthUser(user: UserProfile): Promise<void> {
+    const created = await this.callAuthEmulator("accounts", {
+      localId: user.uid,
+      email: user.email,
+      password: this.PASSWORD,
+      displayName: `${user.firstName} ${user.lastName}`,
+      emailVerified: true,
+    });
+    // Already seeded by an earlier run
+    if (
+      !created.ok &&
+      !created.body.includes("DUPLICATE_LOCAL_ID") &&
+      !created.body.includes("EXISTS")
+    ) {
+      throw new Error(
+        `Failed to create emulator user ${user.email}: ${created.body}`
+      );
+    }
+
+    const claims = await this.callAuthEmulator("accounts:update", {
+      localId: user.uid,
+      customAttributes: JSON.stringify({ role: user.role }),
+    });
+    if (!claims.ok) {
+      throw new Error(
+        `Failed to set the role of ${user.email}: ${claims.body}`
+      );
+    }
+  }
+
+  private static async callAuthEmulator(
+    endpoint: string,
+    body: object
+  ): Promise<{ ok: boolean; body: string }> {
+    const { host, authPort } = emulatorConfig!;
+    const projectId = auth.app.options.projectId;
+    const url =
+      `http://${host}:${authPort}/identitytoolkit.googleapis.com/v1` +
+      `/projects/${projectId}/${endpoint}`;
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: "Bearer owner",
+      },
+      body: JSON.stringify(body),
+    });
+    return { ok: response.ok, body: await response.text() };
+  }
+
+  private static toInvoiceData(
+    invoice: Invoice
+  ): Omit<Invoice, "id" | "createdAt" | "updatedAt"> {
+    const data: Partial<Invoice> = { ...invoice };
+    delete data.id;
+    delete data.createdAt;
+    delete data.updatedAt;
+    return data as Omit<Invoice, "id" | "createdAt" | "updatedAt">;
+  }
+}
+
+export default EmulatorSeedService;
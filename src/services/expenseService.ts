@@ -0,0 +1,198 @@
+import { Expense } from "../types/float34";
+import { getRepositories } from "@/repositories";
+import { ScopeService } from "./scopeService";
+
+export class ExpenseService {
+  private static repository() {
+    return getRepositories().expenses;
+  }
+
+  /**
+   * Get all expenses of the properties the current user may see
+   */
+  static async getExpenses(): Promise<Expense[]> {
+    try {
+      return await ScopeService.listScoped(
+        this.repository(),
+        await ScopeService.getPropertyScope("invoice:read")
+      );
+    } catch (error) {
+      console.error("Error getting expenses:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Get expense by ID
+   */
+  static async getExpenseById(id: string): Promise<Expense | null> {
+    try {
+      return await this.repository().get(id);
+    } catch (error) {
+      console.error("Error getting expense:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Get expenses by property ID
+   */
+  static async getExpensesByProperty(propertyId: string): Promise<Expense[]> {
+    try {
+      return await this.repository().list({
+        filters: [{ field: "propertyId", op: "==", value: propertyId }],
+      });
+    } catch (error) {
+      console.error("Error getting expenses by property:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Get expenses by provider ID
+   */
+  static async getExpensesByProvider(providerId: string): Promise<Expense[]> {
+    try {
+      return await this.repository().list({
+        filters: [{ field: "providerId", op: "==", value: providerId }],
+      });
+    } catch (error) {
+      console.error("Error getting expenses by provider:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Get expenses incurred within a date range (inclusive)
+   */
+  static async getExpensesInDateRange(
+    fromDate: string,
+    toDate: string
+  ): Promise<Expense[]> {
+    const expenses = await this.getExpenses();
+    return this.filterExpensesByDateRange(expenses, fromDate, toDate);
+  }
+
+  /**
+   * Create new expense
+   */
+  static async createExpense(
+    expenseData: Omit<Expense, "id" | "createdAt" | "updatedAt">
+  ): Promise<string> {
+    try {
+      const now = new Date().toISOString();
+      const id = await this.repository().create({
+        ...expenseData,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      console.log("✅ Expense created with ID:", id);
+      return id;
+    } catch (error) {
+      console.error("Error creating expense:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update expense
+   */
+  static async updateExpense(
+    id: string,
+    updates: Partial<Expense>
+  ): Promise<void> {
+    try {
+      await this.repository().update(id, {
+        ...updates,
+        updatedAt: new Date().toISOString(),
+      });
+
+      console.log("✅ Expense updated:", id);
+    } catch (error) {
+      console.error("Error updating expense:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete expense
+   */
+  static async deleteExpense(id: string): Promise<void> {
+    try {
+      await this.repository().delete(id);
+
+      console.log("✅ Expense deleted:", id);
+    } catch (error) {
+      console.error("Error deleting expense:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Filter expenses to a date range. Accepts ISO dates or the year-only
+   * format ("2024") used by the financial reports.
+   */
+  static filterExpensesByDateRange(
+    expenses: Expense[],
+    fromDate: string,
+    toDate: string
+  ): Expense[] {
+    if (!fromDate || !toDate || !fromDate.trim() || !toDate.trim()) {
+      return expenses;
+    }
+
+    const from = /^\d{4}$/.test(fromDate)
+      ? new Date(parseInt(fromDate), 0, 1)
+      : new Date(fromDate);
+    const to = /^\d{4}$/.test(toDate)
+      ? new Date(parseInt(toDate), 11, 31, 23, 59, 59)
+      : new Date(toDate);
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      console.warn("Invalid expense date range:", { fromDate, toDate });
+      return [];
+    }
+
+    return expenses.filter((expense) => {
+      const expenseDate = new Date(expense.date);
+      return expenseDate >= from && expenseDate <= to;
+    });
+  }
+
+  /**
+   * Filter expenses by year and month, mirroring
+   * InvoiceService.filterInvoicesByDate
+   */
+  static filterExpensesByDate(
+    expenses: Expense[],
+    year?: string,
+    month?: string
+  ): Expense[] {
+    if (!year && !month) return expenses;
+
+    return expenses.filter((expense) => {
+      const expenseDate = new Date(expense.date);
+      const expenseYear = expenseDate.getFullYear().toString();
+      const expenseMonth = (expenseDate.getMonth() + 1)
+        .toString()
+        .padStart(2, "0");
+
+      const yearMatch = !year || year === "all" || expenseYear === year;
+      const monthMatch = !month || month === "all" || expenseMonth === month;
+
+      return yearMatch && monthMatch;
+    });
+  }
+
+  /**
+   * Sum expense amounts, ignoring rejected expenses
+   */
+  static sumExpenses(expenses: Expense[]): number {
+    return expenses
+      .filter((expense) => expense.status !== "rejected")
+      .reduce((sum, expense) => sum + expense.amount, 0);
+  }
+}
+
+export default ExpenseService;
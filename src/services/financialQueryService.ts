@@ -0,0 +1,562 @@
+import { InvoiceService } from "./invoiceService";
+import { ExpenseService } from "./expenseService";
+import { PropertyService } from "./propertyService";
+import { ServiceProviderService } from "./serviceProviderService";
+import { CurrencyConverter, CurrencyService } from "./currencyService";
+import { RollupService } from "./rollupService";
+import { PeriodService } from "./periodService";
+import { ComparisonService } from "./comparisonService";
+import {
+  CombinedRankItem,
+  ComparisonRange,
+  Expense,
+  FinancialDimension,
+  FinancialQuery,
+  FinancialQueryMetrics,
+  FinancialQueryResult,
+  FinancialQueryRow,
+  FinancialRecord,
+  FinancialSummary,
+  PeriodGranularity,
+  PropertyFinancialAggregate,
+  PropertyRankItem,
+  ProviderFinancialAggregate,
+  ProviderRankItem,
+} from "../types/float34";
+
+// Invoice totals and expenses a financial query is answered from
+export interface FinancialQueryData {
+  records: FinancialRecord[]; // in the reporting currency and date range
+  expenses: Expense[]; // in the reporting currency and date range
+  propertyNames: Map<string, string>;
+  providerNames: Map<string, string>;
+  providerServices: Map<string, string>;
+  currency: string;
+  fiscalYearStartMonth: number;
+}
+
+export class FinancialQueryService {
+  static readonly UNCATEGORIZED = "uncategorized";
+
+  /**
+   * Run a financial query against the stored invoices and expenses
+   */
+  static async queryFinancials(
+    query: FinancialQuery
+  ): Promise<FinancialQueryResult> {
+    try {
+      const range =
+        query.compare &&
+        ComparisonService.getBaselineRange(query.from, query.to, query.compare);
+      const [data, baselineData] = await Promise.all([
+        this.loadData(query.from, query.to, query.granularity),
+        range && this.loadData(range.from, range.to, query.granularity),
+      ]);
+
+      const result = this.buildResult(query, data);
+      if (!range || !baselineData) return result;
+      return this.compareResults(
+        query,
+        result,
+        this.buildResult(
+          { ...query, from: range.from, to: range.to },
+          baselineData
+        ),
+        range
+      );
+    } catch (error) {
+      console.error("Error running financial query:", error);
+      return this.buildResult(query, {
+        records: [],
+        expenses: [],
+        propertyNames: new Map(),
+        providerNames: new Map(),
+        providerServices: new Map(),
+        currency: CurrencyService.getCachedReportingCurrency(),
+        fiscalYearStartMonth: PeriodService.getCachedFiscalYearStartMonth(),
+      });
+    }
+  }
+
+  /**
+   * Load the invoice totals and expenses of a date range in the reporting
+   * currency. Bounds may be ISO dates or the short "2024" / "2024-03"
+   * forms; an empty bound loads everything.
+   */
+  static async loadData(
+    from: string,
+    to: string,
+    granularity: PeriodGranularity
+  ): Promise<FinancialQueryData> {
+    const start = PeriodService.getRangeDay(from, "start");
+    const end = PeriodService.getRangeDay(to, "end");
+
+    const [
+      converter,
+      fiscalYearStartMonth,
+      rawExpenses,
+      properties,
+      providersResponse,
+    ] = await Promise.all([
+      CurrencyService.getConverter(),
+      PeriodService.getFiscalYearStartMonth(),
+      ExpenseService.getExpenses(),
+      PropertyService.getProperties({}),
+      ServiceProviderService.getProviders(),
+    ]);
+    const records = await this.loadRecords(start, end, granularity, converter);
+    const providers = providersResponse?.providers || [];
+
+    const expenses = CurrencyService.convertExpenses(
+      rawExpenses,
+      converter
+    ).filter((expense) => {
+      if (!start || !end) return true;
+      const day = PeriodService.toDay(expense.date);
+      return !!day && day >= start && day <= end;
+    });
+
+    return {
+      records,
+      expenses,
+      propertyNames: new Map(
+        (properties || []).map((property) => [property.id, property.name])
+      ),
+      providerNames: new Map(
+        providers.map((provider) => [provider.id, provider.name])
+      ),
+      providerServices: new Map(
+        providers.map((provider) => [provider.id, provider.service])
+      ),
+      currency: converter.reportingCurrency,
+      fiscalYearStartMonth,
+    };
+  }
+
+  /**
+   * Filter and group loaded data into a query result. Expenses without a
+   * provider are left out of rows grouped by provider, but still count in
+   * the summary.
+   */
+  static buildResult(
+    query: FinancialQuery,
+    data: FinancialQueryData
+  ): FinancialQueryResult {
+    const filters = query.filters || {};
+    const groupBy = query.groupBy || [];
+    const matches = (fact: {
+      propertyId: string;
+      providerId?: string;
+      category?: string;
+    }) =>
+      (!filters.propertyId || fact.propertyId === filters.propertyId) &&
+      (!filters.providerId || fact.providerId === filters.providerId) &&
+      (!filters.category || this.getCategory(fact) === filters.category);
+
+    const records = data.records.filter(
+      (record) =>
+        matches(record) && (!filters.status || record.status === filters.status)
+    );
+    const expenses = data.expenses.filter(matches);
+
+    const groups = new Map<
+      string,
+      { values: string[]; records: FinancialRecord[]; expenses: Expense[] }
+    >();
+    const addToGroup = (
+      fact: { propertyId: string; providerId?: string; category?: string },
+      date: string,
+      add: (group: { records: FinancialRecord[]; expenses: Expense[] }) => void
+    ) => {
+      const values = groupBy.map((dimension) =>
+        this.getDimensionValue(dimension, fact, date, query.granularity, data)
+      );
+      if (values.some((value) => value === null)) return;
+
+      const key = values.join("|");
+      if (!groups.has(key)) {
+        groups.set(key, {
+          values: values as string[],
+          records: [],
+          expenses: [],
+        });
+      }
+      add(groups.get(key)!);
+    };
+
+    if (groupBy.length > 0) {
+      records.forEach((record) =>
+        addToGroup(record, record.issueDate, (group) =>
+          group.records.push(record)
+        )
+      );
+      expenses.forEach((expense) =>
+        addToGroup(expense, expense.date, (group) =>
+          group.expenses.push(expense)
+        )
+      );
+    }
+
+    const rows = Array.from(groups.entries()).map(([key, group]) => {
+      const row: FinancialQueryRow = {
+        key,
+        ...this.getMetrics(group.records, group.expenses),
+      };
+      groupBy.forEach((dimension, index) => {
+        const value = group.values[index];
+        if (dimension === "property") {
+          row.propertyId = value;
+          row.propertyName =
+            data.propertyNames.get(value) || "Unknown Property";
+        } else if (dimension === "provider") {
+          row.providerId = value;
+          row.providerName =
+            data.providerNames.get(value) || "Unknown Provider";
+        } else if (dimension === "category") {
+          row.category = value;
+        } else {
+          row.period = value;
+        }
+      });
+      return row;
+    });
+
+    rows.sort(
+      (a, b) =>
+        (a.period || "").localeCompare(b.period || "") || b.revenue - a.revenue
+    );
+
+    return {
+      currency: data.currency,
+      summary: this.getMetrics(records, expenses),
+      rows,
+    };
+  }
+
+  /**
+   * Add baseline figures and deltas to a result. Rows grouped by period
+   * are a trend and are not compared.
+   */
+  static compareResults(
+    query: FinancialQuery,
+    current: FinancialQueryResult,
+    baseline: FinancialQueryResult,
+    range: ComparisonRange
+  ): FinancialQueryResult {
+    return {
+      ...current,
+      summary: {
+        ...current.summary,
+        ...ComparisonService.compare(current.summary, baseline.summary),
+      },
+      rows: query.groupBy?.includes("period")
+        ? current.rows
+        : ComparisonService.compareRows(
+            current.rows,
+            baseline.rows,
+            (row) => row.key
+          ),
+      comparison: range,
+    };
+  }
+
+  /**
+   * Per-property totals with a trend point per period
+   */
+  static buildPropertySeries(
+    query: FinancialQuery,
+    data: FinancialQueryData
+  ): PropertyFinancialAggregate[] {
+    return this.buildSeries(query, data, "property").map(
+      ({ id, name, ...series }) => ({
+        propertyId: id,
+        propertyName: name,
+        ...series,
+      })
+    );
+  }
+
+  /**
+   * Per-provider totals with a trend point per period
+   */
+  static buildProviderSeries(
+    query: FinancialQuery,
+    data: FinancialQueryData
+  ): ProviderFinancialAggregate[] {
+    return this.buildSeries(query, data, "provider").map(
+      ({ id, name, ...series }) => ({
+        providerId: id,
+        providerName: name,
+        ...series,
+      })
+    );
+  }
+
+  /**
+   * Report summary of a query result
+   */
+  static toSummary(result: FinancialQueryResult): FinancialSummary {
+    const { summary } = result;
+    return {
+      revenue: summary.revenue,
+      expenses: summary.expenses,
+      profit: summary.profit,
+      marginPct: summary.marginPct,
+      invoicesPaidPct: summary.invoicesPaidPct,
+      overdueAmount: summary.overdueAmount,
+      pendingAmount: summary.pendingAmount,
+      totalInvoices: summary.invoiceCount,
+      paidInvoices: summary.paidInvoiceCount,
+      overdueInvoices: summary.overdueInvoiceCount,
+      currency: result.currency,
+    };
+  }
+
+  /**
+   * Ranked properties with invoices, highest revenue first
+   */
+  static toPropertyRankItems(rows: FinancialQueryRow[]): PropertyRankItem[] {
+    return rows
+      .filter((row) => row.invoiceCount > 0)
+      .map((row) => ({
+        propertyId: row.propertyId!,
+        propertyName: row.propertyName!,
+        ...this.toRankMetrics(row),
+        invoiceCount: row.invoiceCount,
+        paidInvoiceCount: row.paidInvoiceCount,
+      }));
+  }
+
+  /**
+   * Ranked providers with invoices, highest revenue first
+   */
+  static toProviderRankItems(
+    rows: FinancialQueryRow[],
+    data: FinancialQueryData
+  ): ProviderRankItem[] {
+    return rows
+      .filter((row) => row.invoiceCount > 0)
+      .map((row) => ({
+        providerId: row.providerId!,
+        providerName: row.providerName!,
+        service: data.providerServices.get(row.providerId!),
+        ...this.toRankMetrics(row),
+      }));
+  }
+
+  /**
+   * Ranked property and provider pairs with invoices
+   */
+  static toCombinedRankItems(rows: FinancialQueryRow[]): CombinedRankItem[] {
+    return rows
+      .filter((row) => row.invoiceCount > 0)
+      .map((row) => ({
+        propertyName: row.propertyName!,
+        providerName: row.providerName!,
+        ...this.toRankMetrics(row),
+      }));
+  }
+
+  /**
+   * Metrics of a set of invoice totals and expenses
+   */
+  static getMetrics(
+    records: FinancialRecord[],
+    expenses: Expense[]
+  ): FinancialQueryMetrics {
+    const sum = (
+      items: FinancialRecord[],
+      value: (record: FinancialRecord) => number
+    ) => items.reduce((total, record) => total + value(record), 0);
+
+    const revenue = sum(records, (record) => record.total);
+    const totalExpenses = ExpenseService.sumExpenses(expenses);
+    const profit = revenue - totalExpenses;
+    const amountReceived = sum(records, (record) => record.amountPaid);
+
+    return {
+      revenue,
+      expenses: totalExpenses,
+      profit,
+      marginPct: revenue > 0 ? (profit / revenue) * 100 : 0,
+      invoicesPaidPct: revenue > 0 ? (amountReceived / revenue) * 100 : 0,
+      amountReceived,
+      // Overdue means past the due date with something still owed, as in
+      // the aging report, whatever status was last stored
+      overdueAmount: sum(records, (record) => record.overdueBalance),
+      pendingAmount: sum(records, (record) =>
+        record.status === "draft"
+          ? record.total
+          : record.balanceDue - record.overdueBalance
+      ),
+      invoiceCount: sum(records, (record) => record.invoiceCount),
+      paidInvoiceCount: sum(records, (record) => record.paidInvoiceCount),
+      overdueInvoiceCount: sum(records, (record) => record.overdueInvoiceCount),
+    };
+  }
+
+  private static toRankMetrics(row: FinancialQueryRow) {
+    return {
+      revenue: row.revenue,
+      expenses: row.expenses,
+      profit: row.profit,
+      marginPct: row.marginPct,
+      invoicesPaidPct: row.invoicesPaidPct,
+    };
+  }
+
+  private static buildSeries(
+    query: FinancialQuery,
+    data: FinancialQueryData,
+    dimension: "property" | "provider"
+  ) {
+    const result = this.buildResult(
+      { ...query, groupBy: [dimension, "period"], compare: undefined },
+      data
+    );
+    const rowsById = new Map<string, FinancialQueryRow[]>();
+    result.rows.forEach((row) => {
+      const id = (dimension === "property" ? row.propertyId : row.providerId)!;
+      rowsById.set(id, [...(rowsById.get(id) || []), row]);
+    });
+
+    return Array.from(rowsById.entries())
+      .map(([id, rows]) => {
+        const totals = rows.reduce(
+          (sum, row) => ({
+            revenue: sum.revenue + row.revenue,
+            expenses: sum.expenses + row.expenses,
+            paid: sum.paid + row.paidInvoiceCount,
+            total: sum.total + row.invoiceCount,
+          }),
+          { revenue: 0, expenses: 0, paid: 0, total: 0 }
+        );
+        const profit = totals.revenue - totals.expenses;
+        const name =
+          dimension === "property"
+            ? rows[0].propertyName
+            : rows[0].providerName;
+
+        return {
+          id,
+          name: name || "",
+          periodFrom: query.from,
+          periodTo: query.to,
+          granularity: query.granularity,
+          currency: result.currency,
+          revenue: totals.revenue,
+          expenses: totals.expenses,
+          profit,
+          marginPct: totals.revenue > 0 ? (profit / totals.revenue) * 100 : 0,
+          invoices: { paid: totals.paid, total: totals.total },
+          trend: rows
+            .filter((row) => row.revenue > 0 || row.expenses > 0)
+            .map((row) => ({
+              label: row.period!,
+              revenue: row.revenue,
+              expenses: row.expenses,
+              profit: row.profit,
+            })),
+        };
+      })
+      .filter((series) => series.trend.length > 0)
+      .sort((a, b) => b.revenue - a.revenue);
+  }
+
+  /**
+   * Load invoice totals issued in a date range, in the reporting currency.
+   * Whole months are read from the financial rollups once they are built;
+   * partial months at either end, and day or week reports, which need
+   * individual issue dates, scan the invoices themselves.
+   */
+  private static async loadRecords(
+    start: string | null,
+    end: string | null,
+    granularity: PeriodGranularity,
+    converter: CurrencyConverter
+  ): Promise<FinancialRecord[]> {
+    const scan = async (fromDay: string | null, toDay: string | null) => {
+      const invoices =
+        fromDay && toDay
+          ? await InvoiceService.getInvoicesIssuedBetween(fromDay, toDay)
+          : await InvoiceService.getInvoices();
+      return CurrencyService.convertInvoices(invoices, converter).map(
+        (invoice) => RollupService.toRecord(invoice)
+      );
+    };
+
+    if (
+      granularity === "DAY" ||
+      granularity === "WEEK" ||
+      !(await RollupService.isBuilt())
+    ) {
+      return scan(start, end);
+    }
+    if (!start || !end) {
+      return RollupService.toRecords(
+        await RollupService.getRollups(),
+        converter
+      );
+    }
+
+    // First and last month lying wholly inside the range
+    const monthOf = (date: string) =>
+      PeriodService.getPeriodRange(date.slice(0, 7), "MONTH", 1)!;
+    const firstMonth =
+      start === monthOf(start).from
+        ? start.slice(0, 7)
+        : PeriodService.addDays(monthOf(start).to, 1).slice(0, 7);
+    const lastMonth =
+      end === monthOf(end).to
+        ? end.slice(0, 7)
+        : PeriodService.addDays(monthOf(end).from, -1).slice(0, 7);
+    if (firstMonth > lastMonth) return scan(start, end);
+
+    const monthsFrom = `${firstMonth}-01`;
+    const monthsTo = monthOf(lastMonth).to;
+    const [rollups, head, tail] = await Promise.all([
+      RollupService.getRollups({
+        fromMonth: firstMonth,
+        toMonth: lastMonth,
+      }),
+      start < monthsFrom
+        ? scan(start, PeriodService.addDays(monthsFrom, -1))
+        : [],
+      end > monthsTo ? scan(PeriodService.addDays(monthsTo, 1), end) : [],
+    ]);
+    return [
+      ...head,
+      ...RollupService.toRecords(rollups, converter),
+      ...tail,
+    ];
+  }
+
+  private static getDimensionValue(
+    dimension: FinancialDimension,
+    fact: { propertyId: string; providerId?: string; category?: string },
+    date: string,
+    granularity: PeriodGranularity,
+    data: FinancialQueryData
+  ): string | null {
+    switch (dimension) {
+      case "property":
+        return fact.propertyId || null;
+      case "provider":
+        return fact.providerId || null;
+      case "category":
+        return this.getCategory(fact);
+      case "period":
+        return PeriodService.getPeriodKey(
+          date,
+          granularity,
+          data.fiscalYearStartMonth
+        );
+    }
+  }
+
+  private static getCategory(fact: { category?: string }): string {
+    return fact.category || this.UNCATEGORIZED;
+  }
+}
+
+export default FinancialQueryService;
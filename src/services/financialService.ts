@@ -1,384 +1,16 @@
-import {
-  collection,
-  query,
-  where,
-  getDocs,
-  orderBy,
-  limit,
-  Timestamp,
-  writeBatch,
-  doc,
-  setDoc,
-} from "firebase/firestore";
-import { db } from "./firebaseConfig";
+import { getRepositories } from "@/repositories";
+import { PeriodService } from "./periodService";
+import { PropertyService } from "./propertyService";
+import { RollupService } from "./rollupService";
+import { ScopeService } from "./scopeService";
 import { Property, Provider } from "@/types/float34";
-import { Invoice } from "../types/float34";
-
-export interface FinancialSummary {
-  revenue: number;
-  expenses: number;
-  profit: number;
-  marginPct: number;
-  invoicesPaidPct: number;
-  totalInvoices: number;
-  paidInvoices: number;
-  overdueInvoices: number;
-  overdueAmount?: number;
-  pendingAmount?: number;
-  serviceProviderCosts?: number;
-  operationalCosts?: number;
-}
-
-export interface PropertyFinancialData {
-  propertyId: string;
-  propertyName: string;
-  revenue: number;
-  expenses: number;
-  profit: number;
-  marginPct: number;
-  invoicesPaidPct: number;
-  totalInvoices: number;
-  paidInvoices: number;
-  overdueInvoices: number;
-  overdueAmount?: number;
-  pendingAmount?: number;
-  serviceProviderCosts?: number;
-  operationalCosts?: number;
-}
-
-export interface ProviderFinancialData {
-  providerId: string;
-  providerName: string;
-  revenue: number;
-  expenses: number;
-  profit: number;
-  marginPct: number;
-  invoicesPaidPct: number;
-  totalInvoices: number;
-  paidInvoices: number;
-  overdueInvoices: number;
-}
-
-export interface FinancialTimeSeries {
-  period: string;
-  revenue: number;
-  expenses: number;
-  profit: number;
-  invoiceCount: number;
-}
+import { Invoice, PeriodGranularity } from "../types/float34";
 
+/**
+ * Sample data seeding and maintenance for the financial collections.
+ * Financial reports are built by FinancialQueryService.
+ */
 export class FinancialService {
-  private static readonly INVOICES_COLLECTION = "invoices";
-  private static readonly PROPERTIES_COLLECTION = "properties";
-  private static readonly PROVIDERS_COLLECTION = "serviceProviders";
-
-  /**
-   * Get comprehensive financial summary for all properties
-   */
-  static async getFinancialSummary(
-    fromDate: string,
-    toDate: string
-  ): Promise<FinancialSummary> {
-    try {
-      const invoices = await this.getInvoicesInDateRange(fromDate, toDate);
-
-      const totalRevenue = invoices.reduce(
-        (sum, invoice) => sum + invoice.total,
-        0
-      );
-      const paidInvoices = invoices.filter(
-        (invoice) => invoice.status === "paid"
-      );
-      const paidRevenue = paidInvoices.reduce(
-        (sum, invoice) => sum + invoice.total,
-        0
-      );
-
-      // Calculate expenses (for now, assume 30% of revenue as expenses)
-      // In a real app, you'd track actual expenses
-      const expenses = totalRevenue * 0.3;
-      const profit = totalRevenue - expenses;
-      const marginPct = totalRevenue > 0 ? (profit / totalRevenue) * 100 : 0;
-      const invoicesPaidPct =
-        invoices.length > 0 ? (paidInvoices.length / invoices.length) * 100 : 0;
-
-      const overdueInvoices = invoices.filter(
-        (invoice) =>
-          invoice.status === "overdue" && new Date(invoice.dueDate) < new Date()
-      );
-
-      return {
-        revenue: totalRevenue,
-        expenses,
-        profit,
-        marginPct: Math.round(marginPct * 100) / 100,
-        invoicesPaidPct: Math.round(invoicesPaidPct * 100) / 100,
-        totalInvoices: invoices.length,
-        paidInvoices: paidInvoices.length,
-        overdueInvoices: overdueInvoices.length,
-      };
-    } catch (error) {
-      console.error("Error getting financial summary:", error);
-      return {
-        revenue: 0,
-        expenses: 0,
-        profit: 0,
-        marginPct: 0,
-        invoicesPaidPct: 0,
-        totalInvoices: 0,
-        paidInvoices: 0,
-        overdueInvoices: 0,
-      };
-    }
-  }
-
-  /**
-   * Get financial data by property
-   */
-  static async getPropertyFinancials(
-    fromDate: string,
-    toDate: string
-  ): Promise<PropertyFinancialData[]> {
-    try {
-      const [invoices, properties] = await Promise.all([
-        this.getInvoicesInDateRange(fromDate, toDate),
-        this.getAllProperties(),
-      ]);
-
-      console.log("Property Financials Debug:", {
-        invoicesCount: invoices.length,
-        propertiesCount: properties.length,
-        invoices: invoices.map((inv) => ({
-          id: inv.id,
-          propertyId: inv.propertyId,
-          total: inv.total,
-          status: inv.status,
-        })),
-        properties: properties.map((prop) => ({
-          id: prop.id,
-          name: prop.name,
-        })),
-      });
-
-      const propertyFinancials = new Map<string, PropertyFinancialData>();
-
-      // Initialize property financial data
-      properties.forEach((property) => {
-        propertyFinancials.set(property.id, {
-          propertyId: property.id,
-          propertyName: property.name,
-          revenue: 0,
-          expenses: 0,
-          profit: 0,
-          marginPct: 0,
-          invoicesPaidPct: 0,
-          totalInvoices: 0,
-          paidInvoices: 0,
-          overdueInvoices: 0,
-        });
-      });
-
-      // Aggregate invoice data by property
-      invoices.forEach((invoice) => {
-        const propertyId = invoice.propertyId;
-        const propertyData = propertyFinancials.get(propertyId);
-
-        if (propertyData) {
-          propertyData.revenue += invoice.total;
-          propertyData.totalInvoices += 1;
-
-          if (invoice.status === "paid") {
-            propertyData.paidInvoices += 1;
-          } else if (invoice.status === "overdue") {
-            propertyData.overdueInvoices += 1;
-          }
-        } else {
-          console.warn(
-            `Invoice ${invoice.id} references unknown property: ${propertyId}`
-          );
-        }
-      });
-
-      // Calculate derived metrics
-      propertyFinancials.forEach((propertyData) => {
-        propertyData.expenses = propertyData.revenue * 0.3; // Assume 30% expenses
-        propertyData.profit = propertyData.revenue - propertyData.expenses;
-        propertyData.marginPct =
-          propertyData.revenue > 0
-            ? Math.round(
-                (propertyData.profit / propertyData.revenue) * 100 * 100
-              ) / 100
-            : 0;
-        propertyData.invoicesPaidPct =
-          propertyData.totalInvoices > 0
-            ? Math.round(
-                (propertyData.paidInvoices / propertyData.totalInvoices) *
-                  100 *
-                  100
-              ) / 100
-            : 0;
-      });
-
-      const result = Array.from(propertyFinancials.values()).sort(
-        (a, b) => b.revenue - a.revenue
-      );
-
-      console.log("Property Financials Result:", result);
-      return result;
-    } catch (error) {
-      console.error("Error getting property financials:", error);
-      return [];
-    }
-  }
-
-  /**
-   * Get financial data by service provider
-   */
-  static async getProviderFinancials(
-    fromDate: string,
-    toDate: string
-  ): Promise<ProviderFinancialData[]> {
-    try {
-      const [invoices, providers] = await Promise.all([
-        this.getInvoicesInDateRange(fromDate, toDate),
-        this.getAllProviders(),
-      ]);
-
-      const providerFinancials = new Map<string, ProviderFinancialData>();
-
-      // Initialize provider financial data
-      providers.forEach((provider) => {
-        providerFinancials.set(provider.id, {
-          providerId: provider.id,
-          providerName: provider.businessName || provider.name,
-          revenue: 0,
-          expenses: 0,
-          profit: 0,
-          marginPct: 0,
-          invoicesPaidPct: 0,
-          totalInvoices: 0,
-          paidInvoices: 0,
-          overdueInvoices: 0,
-        });
-      });
-
-      // Aggregate invoice data by provider
-      invoices.forEach((invoice) => {
-        const providerId = invoice.providerId;
-        const providerData = providerFinancials.get(providerId);
-
-        if (providerData) {
-          providerData.revenue += invoice.total;
-          providerData.totalInvoices += 1;
-
-          if (invoice.status === "paid") {
-            providerData.paidInvoices += 1;
-          } else if (invoice.status === "overdue") {
-            providerData.overdueInvoices += 1;
-          }
-        }
-      });
-
-      // Calculate derived metrics
-      providerFinancials.forEach((providerData) => {
-        providerData.expenses = providerData.revenue * 0.3; // Assume 30% expenses
-        providerData.profit = providerData.revenue - providerData.expenses;
-        providerData.marginPct =
-          providerData.revenue > 0
-            ? Math.round(
-                (providerData.profit / providerData.revenue) * 100 * 100
-              ) / 100
-            : 0;
-        providerData.invoicesPaidPct =
-          providerData.totalInvoices > 0
-            ? Math.round(
-                (providerData.paidInvoices / providerData.totalInvoices) *
-                  100 *
-                  100
-              ) / 100
-            : 0;
-      });
-
-      // Return sorted by revenue (highest first)
-      return Array.from(providerFinancials.values()).sort(
-        (a, b) => b.revenue - a.revenue
-      );
-    } catch (error) {
-      console.error("Error getting provider financials:", error);
-      return [];
-    }
-  }
-
-  /**
-   * Get time series data for charts
-   */
-  static async getTimeSeriesData(
-    fromDate: string,
-    toDate: string,
-    granularity: "WEEK" | "MONTH" | "YEAR"
-  ): Promise<FinancialTimeSeries[]> {
-    try {
-      const invoices = await this.getInvoicesInDateRange(fromDate, toDate);
-
-      console.log("Time Series Debug:", {
-        fromDate,
-        toDate,
-        granularity,
-        invoicesCount: invoices.length,
-        sampleInvoice: invoices[0]
-          ? {
-              id: invoices[0].id,
-              issueDate: invoices[0].issueDate,
-              total: invoices[0].total,
-            }
-          : null,
-      });
-
-      // Group invoices by period based on granularity
-      const periodGroups = new Map<string, FinancialTimeSeries>();
-
-      invoices.forEach((invoice) => {
-        const period = this.getPeriodFromDate(invoice.issueDate, granularity);
-
-        if (period === "Invalid Date") {
-          console.warn(
-            `Skipping invoice with invalid date: ${invoice.id}, date: ${invoice.issueDate}`
-          );
-          return;
-        }
-
-        if (!periodGroups.has(period)) {
-          periodGroups.set(period, {
-            period,
-            revenue: 0,
-            expenses: 0,
-            profit: 0,
-            invoiceCount: 0,
-          });
-        }
-
-        const periodData = periodGroups.get(period)!;
-        periodData.revenue += invoice.total;
-        periodData.invoiceCount += 1;
-      });
-
-      // Calculate expenses and profit for each period
-      periodGroups.forEach((periodData) => {
-        periodData.expenses = periodData.revenue * 0.3;
-        periodData.profit = periodData.revenue - periodData.expenses;
-      });
-
-      const result = Array.from(periodGroups.values()).sort((a, b) =>
-        a.period.localeCompare(b.period)
-      );
-
-      console.log("Time Series Result:", result);
-      return result;
-    } catch (error) {
-      console.error("Error getting time series data:", error);
-      return [];
-    }
-  }
 
   /**
    * Create sample properties and providers for testing
@@ -466,26 +98,25 @@ export class FinancialService {
         },
       ];
 
-      // Add properties and providers to Firestore
-      const batch = writeBatch(db);
-
-      sampleProperties.forEach((property) => {
-        const docRef = doc(
-          collection(db, this.PROPERTIES_COLLECTION),
-          property.id
+      // Add properties and providers. The samples only fill in the fields
+      // the reports read.
+      const repositories = getRepositories();
+      await repositories.runTransaction(async (transaction) => {
+        sampleProperties.forEach(({ id, ...property }) =>
+          transaction.set(
+            repositories.properties,
+            id,
+            property as unknown as Omit<Property, "id">
+          )
         );
-        batch.set(docRef, property);
-      });
-
-      sampleProviders.forEach((provider) => {
-        const docRef = doc(
-          collection(db, this.PROVIDERS_COLLECTION),
-          provider.id
+        sampleProviders.forEach(({ id, ...provider }) =>
+          transaction.set(
+            repositories.providers,
+            id,
+            provider as unknown as Omit<Provider, "id">
+          )
         );
-        batch.set(docRef, provider);
       });
-
-      await batch.commit();
       console.log(
         `Successfully created ${sampleProperties.length} properties and ${sampleProviders.length} providers`
       );
@@ -519,15 +150,14 @@ export class FinancialService {
       }
 
       // Create the real invoice
-      const invoiceRef = doc(collection(db, this.INVOICES_COLLECTION));
-      await setDoc(invoiceRef, {
+      const invoice = {
         id: "invoice_001",
         invoiceNumber: "INV-2024-001",
         propertyId: "prop_kny_mall",
         providerId: "prov_parking_plus",
         description: "Monthly parking maintenance services",
-        issueDate: new Date("2025-08-13T12:14:39Z"),
-        dueDate: new Date("2025-08-14T12:14:59Z"),
+        issueDate: "2025-08-13T12:14:39Z",
+        dueDate: "2025-08-14T12:14:59Z",
         status: "draft",
         subtotal: 1250.5,
         tax: 125,
@@ -547,11 +177,11 @@ export class FinancialService {
           },
         ],
         notes: "Services provided for January 2024",
-        paidDate: null,
         tenantId: "tenant_1",
-        createdAt: new Date("2025-08-13T12:23:25Z"),
-        updatedAt: new Date("2025-08-13T12:24:09Z"),
-      });
+        createdAt: "2025-08-13T12:23:25Z",
+        updatedAt: "2025-08-13T12:24:09Z",
+      } as unknown as Invoice;
+      await this.saveInvoices([invoice]);
 
       console.log("✅ Restored real invoice: invoice_001 - $1,375.00");
       console.log("🎉 Your financial data should now work! Refresh the page.");
@@ -579,19 +209,14 @@ export class FinancialService {
       }
 
       // Create the missing property with the exact ID the invoice references
-      const propertyRef = doc(
-        collection(db, this.PROPERTIES_COLLECTION),
-        "prop_kny_mall"
-      );
-      await setDoc(propertyRef, {
-        id: "prop_kny_mall",
+      await getRepositories().properties.set("prop_kny_mall", {
         tenantId: "tenant_1",
         name: "Knysna Mall",
         address: "Knysna, Western Cape, South Africa",
         status: "active",
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
-      });
+      } as unknown as Omit<Property, "id">);
 
       console.log("✅ Created property: prop_kny_mall (Knysna Mall)");
 
@@ -604,12 +229,7 @@ export class FinancialService {
       );
 
       if (!hasParkingPlus) {
-        const providerRef = doc(
-          collection(db, this.PROVIDERS_COLLECTION),
-          "prov_parking_plus"
-        );
-        await setDoc(providerRef, {
-          id: "prov_parking_plus",
+        await getRepositories().providers.set("prov_parking_plus", {
           name: "Parking Plus Services",
           email: "info@parkingplus.co.za",
           phone: "+27 44 123 4567",
@@ -621,7 +241,7 @@ export class FinancialService {
           serviceCategories: ["parking", "security", "maintenance"],
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString(),
-        });
+        } as unknown as Omit<Provider, "id">);
 
         console.log(
           "✅ Created provider: prov_parking_plus (Parking Plus Services)"
@@ -719,13 +339,14 @@ export class FinancialService {
       ]);
 
       // Delete all sample data
-      const batch = writeBatch(db);
+      const repositories = getRepositories();
+      const deletedInvoices: Invoice[] = [];
+      await repositories.runTransaction(async (transaction) => {
 
       // Only delete properties that are clearly sample data
       properties.forEach((property) => {
         if (property.id.startsWith("sample-")) {
-          const docRef = doc(db, this.PROPERTIES_COLLECTION, property.id);
-          batch.delete(docRef);
+          transaction.delete(repositories.properties, property.id);
           console.log(`🗑️ Deleting sample property: ${property.id}`);
         } else {
           console.log(
@@ -737,8 +358,7 @@ export class FinancialService {
       // Only delete providers that are clearly sample data
       providers.forEach((provider) => {
         if (provider.id.startsWith("sample-")) {
-          const docRef = doc(db, this.PROPERTIES_COLLECTION, provider.id);
-          batch.delete(docRef);
+          transaction.delete(repositories.providers, provider.id);
           console.log(`🗑️ Deleting sample provider: ${provider.id}`);
         } else {
           console.log(
@@ -760,8 +380,8 @@ export class FinancialService {
           (invoice.providerId && invoice.providerId.startsWith("sample-"));
 
         if (isSampleInvoice) {
-          const docRef = doc(db, this.INVOICES_COLLECTION, invoice.id);
-          batch.delete(docRef);
+          transaction.delete(repositories.invoices, invoice.id);
+          deletedInvoices.push(invoice);
           console.log(`🗑️ Deleting sample invoice: ${invoice.id}`);
         } else {
           console.log(
@@ -770,7 +390,10 @@ export class FinancialService {
         }
       });
 
-      await batch.commit();
+      });
+      await RollupService.refresh(
+        deletedInvoices.map((invoice) => ({ before: invoice, after: null }))
+      );
       console.log("✅ Cleared all sample data, preserved real data");
 
       // Now recreate fresh sample data
@@ -929,19 +552,19 @@ export class FinancialService {
         }))
       );
 
-      // Add invoices to Firestore
-      const batch = writeBatch(db);
-
-      sampleInvoices.forEach((invoice, index) => {
-        const docRef = doc(collection(db, this.INVOICES_COLLECTION));
-        batch.set(docRef, {
-          ...invoice,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-        });
-      });
-
-      await batch.commit();
+      // Add invoices
+      const now = new Date().toISOString();
+      await this.saveInvoices(
+        sampleInvoices.map(
+          (invoice) =>
+            ({
+              ...invoice,
+              id: getRepositories().invoices.newId(),
+              createdAt: now,
+              updatedAt: now,
+            }) as unknown as Invoice
+        )
+      );
       console.log(
         `Successfully seeded ${sampleInvoices.length} sample invoices`
       );
@@ -954,7 +577,41 @@ export class FinancialService {
   }
 
   /**
-   * Get invoices within a specific date range
+   * Bounds of an invoice date range. Either bound may be a date string or
+   * a bare year ("2024"), which runs from January 1st to December 31st.
+   * Bounds in the wrong order are swapped; missing or invalid dates give
+   * null.
+   */
+  static parseDateRange(
+    fromDate: string,
+    toDate: string
+  ): { from: Date; to: Date } | null {
+    if (!fromDate || !toDate) {
+      console.warn("Invalid date inputs:", { fromDate, toDate });
+      return null;
+    }
+
+    const from = /^\d{4}$/.test(fromDate)
+      ? new Date(parseInt(fromDate), 0, 1)
+      : new Date(fromDate);
+    const to = /^\d{4}$/.test(toDate)
+      ? new Date(parseInt(toDate), 11, 31, 23, 59, 59)
+      : new Date(toDate);
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      console.warn("Invalid date range:", { fromDate, toDate });
+      return null;
+    }
+
+    if (from > to) {
+      console.warn("From date is after to date, swapping dates");
+      return { from: to, to: from };
+    }
+    return { from, to };
+  }
+
+  /**
+   * Get invoices within a specific date range, of the properties the
+   * current user may see
    */
   private static async getInvoicesInDateRange(
     fromDate: string,
@@ -963,72 +620,26 @@ export class FinancialService {
     try {
       console.log("🔍 Fetching invoices in date range:", { fromDate, toDate });
 
-      // Validate input dates
-      if (!fromDate || !toDate) {
-        console.warn("Invalid date inputs:", { fromDate, toDate });
-        return [];
-      }
-
-      // Handle different date formats properly
-      let fromTimestamp: Timestamp;
-      let toTimestamp: Timestamp;
-
-      try {
-        // Handle year-only format (e.g., "2024")
-        if (/^\d{4}$/.test(fromDate)) {
-          fromTimestamp = Timestamp.fromDate(
-            new Date(parseInt(fromDate), 0, 1)
-          ); // January 1st of the year
-        } else {
-          const fromDateObj = new Date(fromDate);
-          if (isNaN(fromDateObj.getTime())) {
-            console.warn("Invalid from date:", fromDate);
-            return [];
-          }
-          fromTimestamp = Timestamp.fromDate(fromDateObj);
-        }
+      const range = this.parseDateRange(fromDate, toDate);
+      if (!range) return [];
 
-        if (/^\d{4}$/.test(toDate)) {
-          toTimestamp = Timestamp.fromDate(
-            new Date(parseInt(toDate), 11, 31, 23, 59, 59)
-          ); // December 31st of the year
-        } else {
-          const toDateObj = new Date(toDate);
-          if (isNaN(toDateObj.getTime())) {
-            console.warn("Invalid to date:", toDate);
-            return [];
-          }
-          toTimestamp = Timestamp.fromDate(toDateObj);
-        }
-
-        // Ensure from date is before to date
-        if (fromTimestamp.toDate() > toTimestamp.toDate()) {
-          console.warn("From date is after to date, swapping dates");
-          [fromTimestamp, toTimestamp] = [toTimestamp, fromTimestamp];
+      // Issue dates are stored as ISO strings, which sort by date
+      const invoices = await ScopeService.listScoped(
+        getRepositories().invoices,
+        await ScopeService.getPropertyScope("invoice:read"),
+        {
+          filters: [
+            {
+              field: "issueDate",
+              op: ">=",
+              value: range.from.toISOString().slice(0, 10),
+            },
+            { field: "issueDate", op: "<=", value: range.to.toISOString() },
+          ],
+          orderBy: { field: "issueDate", direction: "desc" },
         }
-
-        console.log("🔍 Converted timestamps:", {
-          fromTimestamp: fromTimestamp.toDate(),
-          toTimestamp: toTimestamp.toDate(),
-        });
-      } catch (dateError) {
-        console.error("Error parsing dates:", dateError);
-        return [];
-      }
-
-      const invoicesQuery = query(
-        collection(db, this.INVOICES_COLLECTION),
-        where("issueDate", ">=", fromTimestamp),
-        where("issueDate", "<=", toTimestamp),
-        orderBy("issueDate", "desc")
       );
 
-      const querySnapshot = await getDocs(invoicesQuery);
-      const invoices = querySnapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-      })) as Invoice[];
-
       console.log("🔍 Invoices found in date range:", {
         totalInvoices: invoices.length,
         invoices: invoices.map((inv) => ({
@@ -1050,21 +661,13 @@ export class FinancialService {
   }
 
   /**
-   * Get all properties
+   * Get all properties the current user may see
    */
   private static async getAllProperties(): Promise<Property[]> {
     try {
-      console.log(
-        "🔍 Fetching all properties from collection:",
-        this.PROPERTIES_COLLECTION
-      );
+      console.log("🔍 Fetching all properties");
 
-      const propertiesQuery = query(collection(db, this.PROPERTIES_COLLECTION));
-      const querySnapshot = await getDocs(propertiesQuery);
-      const properties = querySnapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-      })) as Property[];
+      const properties = await PropertyService.getProperties();
 
       console.log("🔍 Properties found:", {
         totalProperties: properties.length,
@@ -1088,12 +691,7 @@ export class FinancialService {
    */
   private static async getAllProviders(): Promise<Provider[]> {
     try {
-      const providersQuery = query(collection(db, this.PROVIDERS_COLLECTION));
-      const querySnapshot = await getDocs(providersQuery);
-      return querySnapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-      })) as Provider[];
+      return await getRepositories().providers.list();
     } catch (error) {
       console.error("Error getting providers:", error);
       // Return empty array if collection doesn't exist yet
@@ -1102,87 +700,24 @@ export class FinancialService {
   }
 
   /**
-   * Convert a date to a period string based on granularity
+   * Convert a date to a period string based on granularity, see
+   * PeriodService for the key formats
    */
-  private static getPeriodFromDate(
+  static getPeriodFromDate(
     dateInput: string | any, // Accept Firebase Timestamp or string
-    granularity: "WEEK" | "MONTH" | "YEAR"
+    granularity: PeriodGranularity,
+    fiscalYearStartMonth?: number
   ): string {
-    try {
-      let date: Date;
-
-      // Handle Firebase Timestamp objects
-      if (dateInput && typeof dateInput === "object" && dateInput.seconds) {
-        // It's a Firebase Timestamp
-        date = new Date(dateInput.seconds * 1000);
-        console.log(
-          "Converting Firebase Timestamp to Date:",
-          dateInput.seconds,
-          "→",
-          date
-        );
-      } else if (typeof dateInput === "string") {
-        // It's a string date
-        date = new Date(dateInput);
-      } else if (
-        dateInput &&
-        typeof dateInput === "object" &&
-        dateInput.toDate
-      ) {
-        // It's a Firestore Timestamp with toDate method
-        date = dateInput.toDate();
-      } else {
-        console.warn("Unknown date format:", dateInput);
-        return "Invalid Date";
-      }
-
-      // Check if date is valid
-      if (!date || isNaN(date.getTime())) {
-        console.warn("Invalid date after conversion:", dateInput);
-        return "Invalid Date";
-      }
-
-      switch (granularity) {
-        case "WEEK":
-          const weekNumber = this.getWeekNumber(date);
-          if (weekNumber < 1 || weekNumber > 53) {
-            console.warn("Invalid week number:", weekNumber, "for date:", date);
-            return "Invalid Date";
-          }
-          return `${date.getFullYear()}-W${weekNumber
-            .toString()
-            .padStart(2, "0")}`;
-        case "MONTH":
-          const month = date.getMonth() + 1;
-          if (month < 1 || month > 12) {
-            console.warn("Invalid month:", month, "for date:", date);
-            return "Invalid Date";
-          }
-          return `${date.getFullYear()}-${month.toString().padStart(2, "0")}`;
-        case "YEAR":
-          const year = date.getFullYear();
-          if (year < 1900 || year > 2100) {
-            console.warn("Invalid year:", year, "for date:", date);
-            return "Invalid Date";
-          }
-          return year.toString();
-        default:
-          return date.toISOString().split("T")[0];
-      }
-    } catch (error) {
-      console.error("Error parsing date:", dateInput, error);
+    const period = PeriodService.getPeriodKey(
+      dateInput,
+      granularity,
+      fiscalYearStartMonth
+    );
+    if (!period) {
+      console.warn("Invalid date:", dateInput);
       return "Invalid Date";
     }
-  }
-
-  /**
-   * Get week number of the year
-   */
-  private static getWeekNumber(date: Date): number {
-    const firstDayOfYear = new Date(date.getFullYear(), 0, 1);
-    const pastDaysOfYear =
-      (date.getTime() - firstDayOfYear.getTime()) / 86400000;
-    return Math.ceil((pastDaysOfYear + firstDayOfYear.getDay() + 1) / 7);
+    return period;
   }
 
   /**
@@ -1203,8 +738,10 @@ export class FinancialService {
         propertyId: "prop_kny_mall",
         providerId: "prov_parking_plus",
         description: "Monthly cleaning and maintenance services",
-        issueDate: new Date(),
-        dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days from now
+        issueDate: new Date().toISOString(),
+        dueDate: new Date(
+          Date.now() + 7 * 24 * 60 * 60 * 1000
+        ).toISOString(), // 7 days from now
         status: "pending",
         subtotal: 850.0,
         tax: 85.0,
@@ -1224,14 +761,12 @@ export class FinancialService {
           },
         ],
         notes: "Services provided for August 2024",
-        paidDate: null,
         tenantId: "tenant_1",
-        createdAt: new Date(),
-        updatedAt: new Date(),
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
       };
 
-      const invoiceRef = doc(db, this.INVOICES_COLLECTION, invoiceId);
-      await setDoc(invoiceRef, invoiceData);
+      await this.saveInvoices([invoiceData as unknown as Invoice]);
 
       console.log("✅ New invoice created successfully!");
       console.log("Invoice ID:", invoiceData.id);
@@ -1249,6 +784,22 @@ export class FinancialService {
       alert("❌ Error creating invoice. Check console for details.");
     }
   }
+
+  /**
+   * Write sample invoices as they are, without numbering or validation, and
+   * bring their rollups up to date
+   */
+  private static async saveInvoices(invoices: Invoice[]): Promise<void> {
+    const repositories = getRepositories();
+    await repositories.runTransaction(async (transaction) => {
+      invoices.forEach(({ id, ...invoice }) =>
+        transaction.set(repositories.invoices, id, invoice)
+      );
+    });
+    await RollupService.refresh(
+      invoices.map((invoice) => ({ before: null, after: invoice }))
+    );
+  }
 }
 
 export default FinancialService;
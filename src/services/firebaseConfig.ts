@@ -7,8 +7,9 @@ import {
 } from "firebase/auth";
 import { getFirestore, connectFirestoreEmulator } from "firebase/firestore";
 import { getStorage, connectStorageEmulator } from "firebase/storage";
-import { getFunctions, connectFunctionsEmulator } from "firebase/functions";
+import { getFunctions } from "firebase/functions";
 import { getAnalytics, isSupported } from "firebase/analytics";
+import { EMULATOR_PROJECT_ID } from "@/lib/firebase/project";
 
 // Firebase configuration for Flow34 project
 const firebaseConfig = {
@@ -21,6 +22,23 @@ const firebaseConfig = {
   measurementId: "G-CCJGHX5EQ4",
 };
 
+// Local emulator hosts and ports, or null to use the production project
+export const emulatorConfig =
+  process.env.NEXT_PUBLIC_USE_FIREBASE_EMULATORS === "true"
+    ? {
+        host: process.env.NEXT_PUBLIC_FIREBASE_EMULATOR_HOST || "localhost",
+        authPort: Number(
+          process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_PORT || 9099
+        ),
+        firestorePort: Number(
+          process.env.NEXT_PUBLIC_FIRESTORE_EMULATOR_PORT || 8080
+        ),
+        storagePort: Number(
+          process.env.NEXT_PUBLIC_FIREBASE_STORAGE_EMULATOR_PORT || 9199
+        ),
+      }
+    : null;
+
 // Validate Firebase configuration
 const validateFirebaseConfig = () => {
   const requiredFields = [
@@ -48,11 +66,20 @@ const validateFirebaseConfig = () => {
   console.log("✅ Firebase configuration validated successfully");
 };
 
-// Initialize Firebase
+// Initialize Firebase, against the local demo project with the emulators
 let app;
 try {
   validateFirebaseConfig();
-  app = initializeApp(firebaseConfig);
+  app = initializeApp(
+    emulatorConfig
+      ? {
+          ...firebaseConfig,
+          projectId: EMULATOR_PROJECT_ID,
+          authDomain: `${EMULATOR_PROJECT_ID}.firebaseapp.com`,
+          storageBucket: `${EMULATOR_PROJECT_ID}.appspot.com`,
+        }
+      : firebaseConfig
+  );
   console.log("🚀 Firebase initialized successfully for Flow34 project");
 } catch (error) {
   console.error("❌ Failed to initialize Firebase:", error);
@@ -76,9 +103,10 @@ setPersistence(auth, browserLocalPersistence)
     console.error("❌ Failed to configure auth persistence:", error);
   });
 
-// Initialize Analytics only on client side and when supported
+// Initialize Analytics only on client side and when supported, and never
+// against the emulators
 export const analytics =
-  typeof window !== "undefined"
+  typeof window !== "undefined" && !emulatorConfig
     ? (async () => {
         try {
           const analyticsSupported = await isSupported();
@@ -95,129 +123,23 @@ export const analytics =
       })()
     : null;
 
-// Connect to emulators in development (DISABLED - using production Firebase)
-// if (process.env.NODE_ENV === "development") {
-//   try {
-//     // Only connect to emulators if Firebase is properly configured
-//     if (
-//       firebaseConfig.apiKey &&
-//       firebaseConfig.apiKey !== "your_actual_api_key_here"
-//     ) {
-//       connectAuthEmulator(auth, "http://localhost:9099");
-//       connectFirestoreEmulator(db, "localhost", 8080);
-//       connectStorageEmulator(storage, "localhost", 9199);
-//       connectFunctionsEmulator(functions, "localhost", 5001);
-//       console.log("🔌 Connected to Firebase emulators");
-//     } else {
-//       console.log("⚠️ Skipping emulator connection - using fallback config");
-//     }
-//   } catch (error) {
-//     console.log("Emulators already connected or not available");
-//   }
-// }
-
-console.log("🌐 Using production Firebase services (emulators disabled)");
-
-// Encryption utilities for sensitive data
-export class DataEncryption {
-  private static readonly ENCRYPTION_KEY =
-    process.env.NEXT_PUBLIC_ENCRYPTION_KEY ||
-    "default-key-change-in-production";
-
-  // Simple encryption for demo purposes - in production, use proper encryption libraries
-  static encrypt(data: string): string {
-    if (!data) return data;
-    try {
-      // In production, use proper encryption like AES-256-GCM
-      return btoa(encodeURIComponent(data));
-    } catch (error) {
-      console.error("Encryption failed:", error);
-      return data;
-    }
-  }
-
-  static decrypt(encryptedData: string): string {
-    if (!encryptedData) return encryptedData;
-    try {
-      // In production, use proper decryption
-      return decodeURIComponent(atob(encryptedData));
-    } catch (error) {
-      console.error("Decryption failed:", error);
-      return encryptedData;
-    }
-  }
-
-  // Encrypt sensitive fields in service provider data
-  static encryptProviderData(provider: any): any {
-    const encrypted = { ...provider };
-
-    // Encrypt sensitive fields
-    if (encrypted.apiConnections) {
-      Object.keys(encrypted.apiConnections).forEach((key) => {
-        if (encrypted.apiConnections[key].apiKey) {
-          encrypted.apiConnections[key].apiKey = this.encrypt(
-            encrypted.apiConnections[key].apiKey
-          );
-        }
-        if (encrypted.apiConnections[key].apiSecret) {
-          encrypted.apiConnections[key].apiSecret = this.encrypt(
-            encrypted.apiConnections[key].apiSecret
-          );
-        }
-      });
-    }
-
-    if (encrypted.financialDetails?.bankAccount) {
-      if (encrypted.financialDetails.bankAccount.accountNumber) {
-        encrypted.financialDetails.bankAccount.accountNumber = this.encrypt(
-          encrypted.financialDetails.bankAccount.accountNumber
-        );
-      }
-      if (encrypted.financialDetails.bankAccount.routingNumber) {
-        encrypted.financialDetails.bankAccount.routingNumber = this.encrypt(
-          encrypted.financialDetails.bankAccount.routingNumber
-        );
-      }
-    }
-
-    return encrypted;
-  }
-
-  // Decrypt sensitive fields in service provider data
-  static decryptProviderData(provider: any): any {
-    const decrypted = { ...provider };
-
-    // Decrypt sensitive fields
-    if (decrypted.apiConnections) {
-      Object.keys(decrypted.apiConnections).forEach((key) => {
-        if (decrypted.apiConnections[key].apiKey) {
-          decrypted.apiConnections[key].apiKey = this.decrypt(
-            decrypted.apiConnections[key].apiKey
-          );
-        }
-        if (decrypted.apiConnections[key].apiSecret) {
-          decrypted.apiConnections[key].apiSecret = this.decrypt(
-            decrypted.apiConnections[key].apiSecret
-          );
-        }
-      });
-    }
-
-    if (decrypted.financialDetails?.bankAccount) {
-      if (decrypted.financialDetails.bankAccount.accountNumber) {
-        decrypted.financialDetails.bankAccount.accountNumber = this.decrypt(
-          decrypted.financialDetails.bankAccount.accountNumber
-        );
-      }
-      if (decrypted.financialDetails.bankAccount.routingNumber) {
-        decrypted.financialDetails.bankAccount.routingNumber = this.decrypt(
-          decrypted.financialDetails.bankAccount.routingNumber
-        );
-      }
-    }
-
-    return decrypted;
+// Connect to the local emulators when NEXT_PUBLIC_USE_FIREBASE_EMULATORS is
+// "true"; everything else keeps talking to the production project
+if (emulatorConfig) {
+  try {
+    const { host, authPort, firestorePort, storagePort } = emulatorConfig;
+    connectAuthEmulator(auth, `http://${host}:${authPort}`, {
+      disableWarnings: true,
+    });
+    connectFirestoreEmulator(db, host, firestorePort);
+    connectStorageEmulator(storage, host, storagePort);
+    console.log(`🔌 Connected to Firebase emulators on ${host}`);
+  } catch (error) {
+    // Hot reloads run this again after the services are in use
+    console.log("Emulators already connected:", error);
   }
+} else {
+  console.log("🌐 Using production Firebase services");
 }
 
 // Security utilities
@@ -250,102 +172,10 @@ export class SecurityUtils {
     }
   }
 
-  // Check if user has admin role with comprehensive validation
-  static async checkAdminRole(userId?: string): Promise<boolean> {
-    try {
-      const user = auth.currentUser;
-      if (!user) {
-        console.log("❌ No current user found");
-        return false;
-      }
-
-      // Get fresh token with all claims
-      const tokenResult = await user.getIdTokenResult(true); // Force refresh
-      console.log("🔍 Full token claims:", tokenResult.claims);
-
-      // Check multiple ways admin role could be stored
-      const adminChecks = {
-        roleClaim: tokenResult.claims?.role === "admin",
-        isAdminClaim: tokenResult.claims?.isAdmin === true,
-        userRoleClaim: tokenResult.claims?.userRole === "admin",
-        adminClaim: tokenResult.claims?.admin === true,
-        // Check if user ID matches any known admin IDs
-        knownAdminId: this.isKnownAdminId(user.uid),
-      };
-
-      console.log("🔍 Admin role checks:", adminChecks);
-
-      // User is admin if ANY of these checks pass
-      const isAdmin = Object.values(adminChecks).some(
-        (check) => check === true
-      );
-
-      console.log("🔍 Final admin result:", isAdmin);
-      return isAdmin;
-    } catch (error) {
-      console.error("❌ Admin role check failed:", error);
-      return false;
-    }
-  }
-
-  // Check if user ID is in a known admin list (for development)
-  private static isKnownAdminId(userId: string): boolean {
-    // Add your admin user IDs here
-    const knownAdminIds = [
-      "c6Un8qAgxaZJWBIoLZuyP9Z8WkV2", // Your current user ID
-      // Add other admin user IDs as needed
-    ];
-
-    return knownAdminIds.includes(userId);
-  }
-
-  // Validate user permissions for service provider operations
-  static async validateProviderAccess(
-    providerId: string,
-    userId: string,
-    operation: "read" | "write" | "delete"
-  ): Promise<boolean> {
-    try {
-      const user = auth.currentUser;
-      if (!user) {
-        console.log("❌ No current user found");
-        return false;
-      }
-
-      // For new user signup, allow them to create their own profile
-      if (operation === "write" && !providerId) {
-        console.log("✅ New user signup - allowing profile creation");
-        return true; // Allow new users to create profiles during signup
-      }
-
-      // Use comprehensive admin role checking
-      const isAdmin = await this.checkAdminRole(userId);
-
-      console.log("🔍 User ID:", userId);
-      console.log("🔍 Operation:", operation);
-      console.log("🔍 Admin status:", isAdmin);
-
-      if (operation === "read") {
-        console.log("✅ Read operation - allowing");
-        return true; // All authenticated users can read
-      }
-
-      if (operation === "write" || operation === "delete") {
-        console.log(`🔒 ${operation} operation - admin required:`, isAdmin);
-        return isAdmin; // Only admins can write/delete
-      }
-
-      console.log("❌ Unknown operation:", operation);
-      return false;
-    } catch (error) {
-      console.error("❌ Permission validation failed:", error);
-      return false;
-    }
-  }
-
   // Sanitize data before storage
   static sanitizeData(data: any): any {
     if (typeof data !== "object" || data === null) return data;
+    if (Array.isArray(data)) return data.map((item) => this.sanitizeData(item));
 
     const sanitized = { ...data };
 
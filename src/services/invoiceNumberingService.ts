@@ -0,0 +1,366 @@
+import { auth } from "./firebaseConfig";
+import {
+  Invoice,
+  InvoiceNumberingSettings,
+  InvoiceNumberRecord,
+  SettingsDocument,
+} from "../types/float34";
+import { getRepositories, Repository, Transaction } from "@/repositories";
+import { getDay } from "@/lib/financial/amounts";
+
+export type InvoiceNumberingConfig = Omit<
+  InvoiceNumberingSettings,
+  "updatedAt" | "updatedBy"
+>;
+
+export type InvoiceNumberTarget = Pick<
+  Invoice,
+  "propertyId" | "providerId" | "issueDate"
+>;
+
+export class InvoiceNumberingService {
+  private static SETTINGS_DOC = "invoiceNumbering";
+
+  // Upper bound on skipping numbers that were reserved by hand
+  private static readonly MAX_COLLISION_RETRIES = 50;
+
+  static readonly DEFAULT_SETTINGS: InvoiceNumberingConfig = {
+    scope: "global",
+    format: "INV-{YYYY}-{seq}",
+    padding: 3,
+    resetYearly: true,
+  };
+
+  /**
+   * Get the invoice numbering settings
+   */
+  static async getSettings(): Promise<InvoiceNumberingConfig> {
+    try {
+      const stored: Partial<SettingsDocument> | null =
+        await getRepositories().settings.get(this.SETTINGS_DOC);
+      if (!stored) return { ...this.DEFAULT_SETTINGS };
+
+      // The document id is not a setting
+      delete stored.id;
+      return {
+        ...this.DEFAULT_SETTINGS,
+        ...(stored as Partial<InvoiceNumberingSettings>),
+      };
+    } catch (error) {
+      console.error("Error getting invoice numbering settings:", error);
+      return { ...this.DEFAULT_SETTINGS };
+    }
+  }
+
+  /**
+   * Save the invoice numbering settings. Changing the format or scope starts
+   * new sequences; numbers already issued are never reused.
+   */
+  static async saveSettings(settings: InvoiceNumberingConfig): Promise<void> {
+    try {
+      this.validateSettings(settings);
+
+      await getRepositories().settings.set(this.SETTINGS_DOC, {
+        ...settings,
+        updatedAt: new Date().toISOString(),
+        updatedBy: auth.currentUser?.uid || "system",
+      });
+
+      console.log("✅ Invoice numbering settings saved");
+    } catch (error) {
+      console.error("Error saving invoice numbering settings:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Throw if settings could produce duplicate invoice numbers
+   */
+  static validateSettings(settings: InvoiceNumberingConfig): void {
+    const format = settings.format;
+    if (!format.includes("{seq}")) {
+      throw new Error("Invoice number format must include {seq}");
+    }
+    // Sequences per entity need the entity in the number to stay unique
+    if (settings.scope === "property" && !format.includes("{PROP}")) {
+      throw new Error("Per-property numbering must include {PROP}");
+    }
+    if (settings.scope === "provider" && !format.includes("{PROV}")) {
+      throw new Error("Per-provider numbering must include {PROV}");
+    }
+    // Each year starts again at 1, so the year keeps the numbers apart
+    if (
+      settings.resetYearly &&
+      !format.includes("{YYYY}") &&
+      !format.includes("{YY}")
+    ) {
+      throw new Error(
+        "Numbering that resets yearly must include {YYYY} or {YY}"
+      );
+    }
+    if (!(settings.padding >= 1 && settings.padding <= 10)) {
+      throw new Error("Sequence padding must be between 1 and 10 digits");
+    }
+  }
+
+  /**
+   * Allocate the next invoice number inside an existing transaction and
+   * reserve it for the invoice. All reads happen before any writes, so this
+   * must be called before the caller writes anything in the transaction.
+   */
+  static async allocateInTransaction(
+    transaction: Transaction,
+    invoiceId: string,
+    target: InvoiceNumberTarget,
+    settings: InvoiceNumberingConfig
+  ): Promise<string> {
+    const repositories = getRepositories();
+    const sequenceKey = this.getSequenceKey(target, settings);
+    const [stored, propertyCode, providerCode] = await Promise.all([
+      transaction.get(repositories.invoiceSequences, sequenceKey),
+      this.getEntityCode(
+        transaction,
+        repositories.properties,
+        target.propertyId,
+        settings,
+        settings.format.includes("{PROP}")
+      ),
+      this.getEntityCode(
+        transaction,
+        repositories.providers,
+        target.providerId,
+        settings,
+        settings.format.includes("{PROV}")
+      ),
+    ]);
+
+    let sequence = stored?.next || 1;
+
+    // Skip any number already reserved, e.g. entered by hand
+    for (let attempt = 0; ; attempt++) {
+      if (attempt >= this.MAX_COLLISION_RETRIES) {
+        throw new Error(`No free invoice number in sequence ${sequenceKey}`);
+      }
+      const invoiceNumber = this.formatNumber(settings, {
+        issueDate: target.issueDate,
+        sequence,
+        propertyCode,
+        providerCode,
+      });
+      const numberId = this.getNumberDocId(invoiceNumber);
+      const existing = await transaction.get(
+        repositories.invoiceNumbers,
+        numberId
+      );
+
+      if (!existing) {
+        // The rules let the sequence move on only past this number
+        transaction.set(repositories.invoiceSequences, sequenceKey, {
+          next: sequence + 1,
+          lastNumberId: numberId,
+          updatedAt: new Date().toISOString(),
+        });
+        transaction.set(repositories.invoiceNumbers, numberId, {
+          invoiceNumber,
+          invoiceId,
+          sequenceKey,
+          sequence,
+          status: "issued",
+          createdAt: new Date().toISOString(),
+        });
+        return invoiceNumber;
+      }
+      sequence++;
+    }
+  }
+
+  /**
+   * Reserve a number chosen by hand inside an existing transaction. Throws
+   * if the number is already taken.
+   */
+  static async reserveInTransaction(
+    transaction: Transaction,
+    invoiceId: string,
+    invoiceNumber: string
+  ): Promise<void> {
+    const numbers = getRepositories().invoiceNumbers;
+    const numberId = this.getNumberDocId(invoiceNumber);
+    if (await transaction.get(numbers, numberId)) {
+      throw new Error(`Invoice number already in use: ${invoiceNumber}`);
+    }
+
+    transaction.set(numbers, numberId, {
+      invoiceNumber,
+      invoiceId,
+      sequenceKey: "manual",
+      sequence: 0,
+      status: "issued",
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Mark a number void (cancelled or deleted invoice) or issued again. Void
+   * numbers are never reallocated, so the gap stays documented.
+   */
+  static async setNumberStatus(
+    invoiceNumber: string,
+    status: InvoiceNumberRecord["status"],
+    reason?: string
+  ): Promise<void> {
+    try {
+      await getRepositories().runTransaction((transaction) =>
+        this.setNumberStatusInTransaction(
+          transaction,
+          invoiceNumber,
+          status,
+          reason
+        )
+      );
+
+      console.log(`✅ Invoice number ${invoiceNumber} marked ${status}`);
+    } catch (error) {
+      console.error("Error updating invoice number status:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark an invoice number issued or void inside an existing transaction.
+   * Like allocateInTransaction, it reads first, so call it before the
+   * caller writes anything.
+   */
+  static async setNumberStatusInTransaction(
+    transaction: Transaction,
+    invoiceNumber: string,
+    status: InvoiceNumberRecord["status"],
+    reason?: string
+  ): Promise<void> {
+    const repository = getRepositories().invoiceNumbers;
+    const numberId = this.getNumberDocId(invoiceNumber);
+    const record = await transaction.get(repository, numberId);
+    // Numbers issued before numbering was tracked have no record
+    if (!record) return;
+
+    transaction.update(
+      repository,
+      numberId,
+      status === "void"
+        ? {
+            status,
+            voidedAt: new Date().toISOString(),
+            ...(reason && { voidReason: reason }),
+          }
+        : { status }
+    );
+  }
+
+  /**
+   * Get void invoice numbers, i.e. gaps in the issued sequences
+   */
+  static async getVoidNumbers(): Promise<InvoiceNumberRecord[]> {
+    try {
+      const numbers = await getRepositories().invoiceNumbers.list({
+        filters: [{ field: "status", op: "==", value: "void" }],
+      });
+
+      return numbers.sort(
+          (a, b) =>
+            a.sequenceKey.localeCompare(b.sequenceKey) ||
+            a.sequence - b.sequence
+        );
+    } catch (error) {
+      console.error("Error getting void invoice numbers:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Render an invoice number from the format tokens
+   */
+  static formatNumber(
+    settings: Pick<InvoiceNumberingSettings, "format" | "padding">,
+    values: {
+      issueDate: string;
+      sequence: number;
+      propertyCode?: string;
+      providerCode?: string;
+    }
+  ): string {
+    const day = this.getIssueDay(values.issueDate);
+    const year = day.slice(0, 4);
+    const sequence = String(values.sequence).padStart(settings.padding, "0");
+
+    return settings.format
+      .replace(/\{PROP\}/g, values.propertyCode || "PROP")
+      .replace(/\{PROV\}/g, values.providerCode || "PROV")
+      .replace(/\{YYYY\}/g, year)
+      .replace(/\{YY\}/g, year.slice(-2))
+      .replace(/\{MM\}/g, day.slice(5, 7))
+      .replace(/\{seq\}/g, sequence);
+  }
+
+  /**
+   * Sequence an invoice draws from, given the numbering scope
+   */
+  static getSequenceKey(
+    target: InvoiceNumberTarget,
+    settings: Pick<InvoiceNumberingSettings, "scope" | "resetYearly">
+  ): string {
+    const scopeKey =
+      settings.scope === "property"
+        ? `property_${target.propertyId}`
+        : settings.scope === "provider"
+          ? `provider_${target.providerId}`
+          : "global";
+
+    if (!settings.resetYearly) return scopeKey;
+    return `${scopeKey}_${this.getIssueDay(target.issueDate).slice(0, 4)}`;
+  }
+
+  /**
+   * Issue day (YYYY-MM-DD) as written, or today's when there is none. Read
+   * in UTC, so the time zone cannot move an invoice into another month or
+   * year.
+   */
+  private static getIssueDay(issueDate: string): string {
+    const parsed = new Date(issueDate);
+    const date = isNaN(parsed.getTime()) ? new Date() : parsed;
+    return getDay(issueDate) || date.toISOString().slice(0, 10);
+  }
+
+  /**
+   * Code for a property or provider: an override from settings, or the
+   * initials of its name
+   */
+  private static async getEntityCode(
+    transaction: Transaction,
+    repository: Repository<{ name?: string }>,
+    entityId: string,
+    settings: Pick<InvoiceNumberingSettings, "entityCodes">,
+    needed: boolean
+  ): Promise<string | undefined> {
+    if (!needed || !entityId) return undefined;
+    if (settings.entityCodes?.[entityId]) return settings.entityCodes[entityId];
+
+    const entity = await transaction.get(repository, entityId);
+    const name = entity?.name || "";
+    const initials = name
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((word) => word[0])
+      .join("")
+      .replace(/[^A-Za-z0-9]/g, "")
+      .toUpperCase()
+      .slice(0, 4);
+
+    return initials || entityId.slice(0, 4).toUpperCase();
+  }
+
+  private static getNumberDocId(invoiceNumber: string): string {
+    // Document IDs cannot contain "/"
+    return encodeURIComponent(invoiceNumber);
+  }
+}
+
+export default InvoiceNumberingService;
@@ -1,25 +1,55 @@
-import { db } from "./firebaseConfig";
 import {
-  collection,
-  doc,
-  getDocs,
-  getDoc,
-  addDoc,
-  updateDoc,
-  deleteDoc,
-  query,
-  where,
-  orderBy,
-  limit,
-  writeBatch,
-  QueryDocumentSnapshot,
-  DocumentData,
-} from "firebase/firestore";
-import { Invoice } from "../types/float34";
+  Invoice,
+  InvoiceStatus,
+  InvoiceStatusChange,
+} from "../types/float34";
 import { auth } from "./firebaseConfig";
+import { CurrencyService } from "./currencyService";
+import { InvoiceNumberingService } from "./invoiceNumberingService";
+import { RollupService } from "./rollupService";
+import { AuditService } from "./auditService";
+import { ScopeService } from "./scopeService";
+import { getRepositories, Transaction } from "@/repositories";
+import { getAmountPaid, getBalanceDue } from "@/lib/financial/amounts";
+
+/**
+ * Allowed invoice status transitions. Payments move invoices to
+ * partially_paid or paid. Reversals: a sent invoice can be recalled to
+ * draft, a reversed payment reopens a paid invoice, an overdue invoice
+ * returns to sent when its due date is extended, and a cancelled invoice
+ * can only be reinstated as a draft.
+ */
+export const INVOICE_STATUS_TRANSITIONS: Record<
+  InvoiceStatus,
+  InvoiceStatus[]
+> = {
+  draft: ["sent", "cancelled"],
+  sent: ["partially_paid", "paid", "overdue", "cancelled", "draft"],
+  partially_paid: ["paid", "overdue", "sent"],
+  overdue: ["partially_paid", "paid", "cancelled", "sent"],
+  paid: ["partially_paid", "sent", "overdue"],
+  cancelled: ["draft"],
+};
+
+// Statuses only payments set, see PaymentService
+const PAYMENT_STATUSES: InvoiceStatus[] = ["partially_paid", "paid"];
+
+// Set by numbering, payments and credit notes, never edited directly
+const DERIVED_FIELDS: (keyof Invoice)[] = [
+  "invoiceNumber",
+  "total",
+  "amountPaid",
+  "balanceDue",
+  "creditedAmount",
+];
 
 export class InvoiceService {
-  private static COLLECTION_NAME = "invoices";
+  // Allow for floating point noise when comparing money amounts
+  private static readonly EPSILON = 0.005;
+
+  private static repository() {
+    return getRepositories().invoices;
+  }
 
   /**
    * Check Firebase connection
@@ -32,9 +62,7 @@ export class InvoiceService {
         return false;
       }
 
-      // Try to query the invoices collection
-      const q = query(collection(db, this.COLLECTION_NAME), limit(1));
-      await getDocs(q);
+      if (!(await this.repository().isAvailable())) return false;
       console.log("✅ Firebase connection successful");
       return true;
     } catch (error) {
@@ -44,17 +72,14 @@ export class InvoiceService {
   }
 
   /**
-   * Get all invoices
+   * Get all invoices of the properties the current user may see
    */
   static async getInvoices(): Promise<Invoice[]> {
     try {
-      const querySnapshot = await getDocs(collection(db, this.COLLECTION_NAME));
-      return querySnapshot.docs.map(
-        (doc: QueryDocumentSnapshot<unknown, DocumentData>) => ({
-          id: doc.id,
-          ...(doc.data() as Omit<Invoice, "id">),
-        })
-      ) as Invoice[];
+      return await ScopeService.listScoped(
+        this.repository(),
+        await ScopeService.getPropertyScope("invoice:read")
+      );
     } catch (error) {
       console.error("Error getting invoices:", error);
       return [];
@@ -62,21 +87,17 @@ export class InvoiceService {
   }
 
   /**
-   * Get invoice by ID
+   * Get invoice by ID, or null when it is outside the current user's scope
    */
   static async getInvoiceById(id: string): Promise<Invoice | null> {
     try {
-      const docRef = doc(db, this.COLLECTION_NAME, id);
-      const docSnap = await getDoc(docRef);
-
-      if (docSnap.exists()) {
-        return {
-          id: docSnap.id,
-          ...(docSnap.data() as Omit<Invoice, "id">),
-        } as Invoice;
-      } else {
-        return null;
-      }
+      const invoice = await this.repository().get(id);
+      if (!invoice) return null;
+      const scope = await ScopeService.getPropertyScope(
+        "invoice:read",
+        invoice.providerId
+      );
+      return ScopeService.isInScope(scope, invoice.propertyId) ? invoice : null;
     } catch (error) {
       console.error("Error getting invoice:", error);
       return null;
@@ -84,22 +105,16 @@ export class InvoiceService {
   }
 
   /**
-   * Get invoices by property ID
+   * Get invoices by property ID, none when the property is outside the
+   * current user's scope
    */
   static async getInvoicesByProperty(propertyId: string): Promise<Invoice[]> {
     try {
-      const q = query(
-        collection(db, this.COLLECTION_NAME),
-        where("propertyId", "==", propertyId)
-      );
-      const querySnapshot = await getDocs(q);
-
-      return querySnapshot.docs.map(
-        (doc: QueryDocumentSnapshot<unknown, DocumentData>) => ({
-          id: doc.id,
-          ...(doc.data() as Omit<Invoice, "id">),
-        })
-      ) as Invoice[];
+      const scope = await ScopeService.getPropertyScope("invoice:read");
+      if (!ScopeService.isInScope(scope, propertyId)) return [];
+      return await this.repository().list({
+        filters: [{ field: "propertyId", op: "==", value: propertyId }],
+      });
     } catch (error) {
       console.error("Error getting invoices by property:", error);
       return [];
@@ -107,22 +122,16 @@ export class InvoiceService {
   }
 
   /**
-   * Get invoices by provider ID
+   * Get invoices by provider ID, of the properties the current user may see
+   * unless they are the provider's own user
    */
   static async getInvoicesByProvider(providerId: string): Promise<Invoice[]> {
     try {
-      const q = query(
-        collection(db, this.COLLECTION_NAME),
-        where("providerId", "==", providerId)
+      return await ScopeService.listScoped(
+        this.repository(),
+        await ScopeService.getPropertyScope("invoice:read", providerId),
+        { filters: [{ field: "providerId", op: "==", value: providerId }] }
       );
-      const querySnapshot = await getDocs(q);
-
-      return querySnapshot.docs.map(
-        (doc: QueryDocumentSnapshot<unknown, DocumentData>) => ({
-          id: doc.id,
-          ...(doc.data() as Omit<Invoice, "id">),
-        })
-      ) as Invoice[];
     } catch (error) {
       console.error("Error getting invoices by provider:", error);
       return [];
@@ -130,26 +139,25 @@ export class InvoiceService {
   }
 
   /**
-   * Get invoices by property and provider combination
+   * Get invoices by property and provider combination, of the properties
+   * the current user may see unless they are the provider's own user
    */
   static async getInvoicesByPropertyAndProvider(
     propertyId: string,
     providerId: string
   ): Promise<Invoice[]> {
     try {
-      const q = query(
-        collection(db, this.COLLECTION_NAME),
-        where("propertyId", "==", propertyId),
-        where("providerId", "==", providerId)
+      const scope = await ScopeService.getPropertyScope(
+        "invoice:read",
+        providerId
       );
-      const querySnapshot = await getDocs(q);
-
-      return querySnapshot.docs.map(
-        (doc: QueryDocumentSnapshot<unknown, DocumentData>) => ({
-          id: doc.id,
-          ...(doc.data() as Omit<Invoice, "id">),
-        })
-      ) as Invoice[];
+      if (!ScopeService.isInScope(scope, propertyId)) return [];
+      return await this.repository().list({
+        filters: [
+          { field: "propertyId", op: "==", value: propertyId },
+          { field: "providerId", op: "==", value: providerId },
+        ],
+      });
     } catch (error) {
       console.error("Error getting invoices by property and provider:", error);
       return [];
@@ -157,21 +165,91 @@ export class InvoiceService {
   }
 
   /**
-   * Create new invoice
+   * Get invoices issued between two days (YYYY-MM-DD), inclusive
+   */
+  static async getInvoicesIssuedBetween(
+    fromDay: string,
+    toDay: string
+  ): Promise<Invoice[]> {
+    try {
+      // Issue dates may carry a time, so include everything on the last day
+      return await ScopeService.listScoped(
+        this.repository(),
+        await ScopeService.getPropertyScope("invoice:read"),
+        {
+          filters: [
+            { field: "issueDate", op: ">=", value: fromDay },
+            { field: "issueDate", op: "<=", value: `${toDay}\uf8ff` },
+          ],
+        }
+      );
+    } catch (error) {
+      console.error("Error getting invoices by issue date:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Create new invoice. Without an invoiceNumber the next number is allocated
+   * from the configured sequence; a number given by hand is reserved, and
+   * rejected if already used.
    */
   static async createInvoice(
-    invoiceData: Omit<Invoice, "id" | "createdAt" | "updatedAt">
+    invoiceData: Omit<
+      Invoice,
+      "id" | "invoiceNumber" | "createdAt" | "updatedAt"
+    > & { invoiceNumber?: string }
   ): Promise<string> {
     try {
+      const repositories = getRepositories();
       const now = new Date().toISOString();
-      const docRef = await addDoc(collection(db, this.COLLECTION_NAME), {
-        ...invoiceData,
-        createdAt: now,
-        updatedAt: now,
+      const id = this.repository().newId();
+      const numberingSettings = await InvoiceNumberingService.getSettings();
+
+      const invoice = await repositories.runTransaction(async (transaction) => {
+        let number = invoiceData.invoiceNumber;
+        if (number) {
+          await InvoiceNumberingService.reserveInTransaction(
+            transaction,
+            id,
+            number
+          );
+        } else {
+          number = await InvoiceNumberingService.allocateInTransaction(
+            transaction,
+            id,
+            invoiceData,
+            numberingSettings
+          );
+        }
+
+        const invoice = {
+          ...invoiceData,
+          invoiceNumber: number,
+          createdAt: now,
+          updatedAt: now,
+        };
+        const history = repositories.statusHistory(id);
+        transaction.set(this.repository(), id, invoice);
+        transaction.set(
+          history,
+          history.newId(),
+          this.buildStatusChange(null, invoiceData.status, now)
+        );
+        AuditService.recordInTransaction(
+          transaction,
+          "create",
+          "invoice",
+          id,
+          null,
+          invoice
+        );
+        return { id, ...invoice };
       });
+      await RollupService.refresh([{ before: null, after: invoice }]);
 
-      console.log("✅ Invoice created with ID:", docRef.id);
-      return docRef.id;
+      console.log(`✅ Invoice ${invoice.invoiceNumber} created with ID:`, id);
+      return id;
     } catch (error) {
       console.error("Error creating invoice:", error);
       throw error;
@@ -179,18 +257,45 @@ export class InvoiceService {
   }
 
   /**
-   * Update invoice
+   * Update invoice. Status changes go through transitionStatus so illegal
+   * transitions are rejected and recorded in the status history. The
+   * number, total and balances cannot be edited; the total and balance
+   * follow the subtotal and tax.
    */
   static async updateInvoice(
     id: string,
     updates: Partial<Invoice>
   ): Promise<void> {
+    const { status, ...otherUpdates } = updates;
+    if (status !== undefined) {
+      return this.transitionStatus(id, status, { updates: otherUpdates });
+    }
+
     try {
-      const docRef = doc(db, this.COLLECTION_NAME, id);
-      await updateDoc(docRef, {
-        ...updates,
-        updatedAt: new Date().toISOString(),
-      });
+      const change = await getRepositories().runTransaction(
+        async (transaction) => {
+          const before = await transaction.get(this.repository(), id);
+          if (!before) {
+            throw new Error(`Invoice not found: ${id}`);
+          }
+
+          const changes = {
+            ...this.getEditableUpdates(before, otherUpdates),
+            updatedAt: new Date().toISOString(),
+          };
+          transaction.update(this.repository(), id, changes);
+          AuditService.recordInTransaction(
+            transaction,
+            "update",
+            "invoice",
+            id,
+            before,
+            { ...before, ...changes }
+          );
+          return { before, after: { ...before, ...changes } };
+        }
+      );
+      await RollupService.refresh([change]);
 
       console.log("✅ Invoice updated:", id);
     } catch (error) {
@@ -199,13 +304,255 @@ export class InvoiceService {
     }
   }
 
+  /**
+   * Updates with the derived amounts recomputed: editing the subtotal or
+   * tax moves the total and balance due. Throws on fields that are set by
+   * numbering, payments and credit notes.
+   */
+  private static getEditableUpdates(
+    before: Invoice,
+    updates: Partial<Invoice>
+  ): Partial<Invoice> {
+    const locked = DERIVED_FIELDS.filter(
+      (field) => updates[field] !== undefined
+    );
+    if (locked.length > 0) {
+      throw new Error(
+        `Invoice fields cannot be edited directly: ${locked.join(", ")}`
+      );
+    }
+    if (updates.subtotal === undefined && updates.tax === undefined) {
+      return updates;
+    }
+
+    const merged = { ...before, ...updates };
+    const total = Math.round((merged.subtotal + merged.tax) * 100) / 100;
+    const after = { ...merged, total };
+    if (
+      total + this.EPSILON <
+      (after.creditedAmount || 0) + getAmountPaid(after)
+    ) {
+      throw new Error(
+        `Invoice total cannot fall below what has been paid and credited: ${before.invoiceNumber}`
+      );
+    }
+    return { ...updates, total, balanceDue: getBalanceDue(after) };
+  }
+
+  /**
+   * Check whether an invoice may move from one status to another
+   */
+  static canTransition(from: InvoiceStatus, to: InvoiceStatus): boolean {
+    return INVOICE_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+  }
+
+  /**
+   * Statuses a user can move an invoice to next. Payments set the paid
+   * statuses.
+   */
+  static getAllowedTransitions(from: InvoiceStatus): InvoiceStatus[] {
+    return (INVOICE_STATUS_TRANSITIONS[from] || []).filter(
+      (status) => !PAYMENT_STATUSES.includes(status)
+    );
+  }
+
+  /**
+   * Move an invoice to a new status, rejecting illegal transitions and
+   * recording the change in the invoice's status history
+   */
+  static async transitionStatus(
+    id: string,
+    toStatus: InvoiceStatus,
+    options: { note?: string; updates?: Partial<Invoice> } = {}
+  ): Promise<void> {
+    try {
+      const repositories = getRepositories();
+      const result = await repositories.runTransaction(async (transaction) => {
+        const before = await transaction.get(this.repository(), id);
+        if (!before) {
+          throw new Error(`Invoice not found: ${id}`);
+        }
+
+        const fromStatus = before.status;
+        const now = new Date().toISOString();
+        const updates = this.getEditableUpdates(before, {
+          ...options.updates,
+        });
+        delete updates.status;
+
+        // Setting the same status is not a transition
+        if (fromStatus === toStatus) {
+          const changes = { ...updates, updatedAt: now };
+          transaction.update(this.repository(), id, changes);
+          AuditService.recordInTransaction(
+            transaction,
+            "update",
+            "invoice",
+            id,
+            before,
+            { ...before, ...changes }
+          );
+          return { fromStatus, before, after: { ...before, ...changes } };
+        }
+
+        if (!this.canTransition(fromStatus, toStatus)) {
+          throw new Error(
+            `Invalid invoice status transition: ${fromStatus} → ${toStatus}`
+          );
+        }
+        if (PAYMENT_STATUSES.includes(toStatus)) {
+          throw new Error(
+            `Record a payment to mark invoice ${before.invoiceNumber} ${toStatus}`
+          );
+        }
+        await ScopeService.assertCan(
+          "invoice:approve",
+          before,
+          `Insufficient permissions to change the status of invoice ${before.invoiceNumber}`
+        );
+
+        await this.updateNumberForTransition(
+          transaction,
+          before,
+          toStatus,
+          options.note
+        );
+
+        const change = this.buildStatusChange(
+          fromStatus,
+          toStatus,
+          now,
+          options.note
+        );
+        const changes = {
+          ...updates,
+          status: toStatus,
+          updatedAt: now,
+          updatedBy: change.changedBy,
+        };
+        const history = repositories.statusHistory(id);
+        transaction.update(this.repository(), id, changes);
+        transaction.set(history, history.newId(), change);
+        AuditService.recordInTransaction(
+          transaction,
+          "update",
+          "invoice",
+          id,
+          before,
+          { ...before, ...changes }
+        );
+        return { fromStatus, before, after: { ...before, ...changes } };
+      });
+      await RollupService.refresh([result]);
+
+      if (result.fromStatus === toStatus) {
+        console.log("✅ Invoice updated:", id);
+      } else {
+        console.log(
+          `✅ Invoice ${id} moved from ${result.fromStatus} to ${toStatus}`
+        );
+      }
+    } catch (error) {
+      console.error("Error changing invoice status:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Keep the invoice number in step with a status change: cancelled
+   * invoices keep their number as a documented gap, and reinstated ones
+   * take it back. It reads the number first, so call it before the
+   * transaction writes anything.
+   */
+  static async updateNumberForTransition(
+    transaction: Transaction,
+    invoice: Invoice,
+    toStatus: InvoiceStatus,
+    note?: string
+  ): Promise<void> {
+    if (toStatus === invoice.status) return;
+    if (toStatus === "cancelled") {
+      await InvoiceNumberingService.setNumberStatusInTransaction(
+        transaction,
+        invoice.invoiceNumber,
+        "void",
+        note || "Invoice cancelled"
+      );
+    } else if (invoice.status === "cancelled") {
+      await InvoiceNumberingService.setNumberStatusInTransaction(
+        transaction,
+        invoice.invoiceNumber,
+        "issued"
+      );
+    }
+  }
+
+  /**
+   * Get the status history of an invoice, oldest first
+   */
+  static async getStatusHistory(id: string): Promise<InvoiceStatusChange[]> {
+    try {
+      return await getRepositories()
+        .statusHistory(id)
+        .list({ orderBy: { field: "changedAt", direction: "asc" } });
+    } catch (error) {
+      console.error("Error getting invoice status history:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Build a status history entry for the current user
+   */
+  static buildStatusChange(
+    fromStatus: InvoiceStatus | null,
+    toStatus: InvoiceStatus,
+    changedAt: string,
+    note?: string
+  ): Omit<InvoiceStatusChange, "id"> {
+    const user = auth.currentUser;
+    return {
+      fromStatus,
+      toStatus,
+      changedBy: user?.uid || "system",
+      ...(user?.email && { changedByEmail: user.email }),
+      changedAt,
+      ...(note && { note }),
+    };
+  }
+
   /**
    * Delete invoice
    */
   static async deleteInvoice(id: string): Promise<void> {
     try {
-      const docRef = doc(db, this.COLLECTION_NAME, id);
-      await deleteDoc(docRef);
+      const before = await getRepositories().runTransaction(
+        async (transaction) => {
+          const before = await transaction.get(this.repository(), id);
+          if (before) {
+            // The number is not reused; record why it is missing
+            await InvoiceNumberingService.setNumberStatusInTransaction(
+              transaction,
+              before.invoiceNumber,
+              "void",
+              "Invoice deleted"
+            );
+            AuditService.recordInTransaction(
+              transaction,
+              "delete",
+              "invoice",
+              id,
+              before,
+              null
+            );
+          }
+          transaction.delete(this.repository(), id);
+          return before;
+        }
+      );
+      if (before) {
+        await RollupService.refresh([{ before, after: null }]);
+      }
 
       console.log("✅ Invoice deleted:", id);
     } catch (error) {
@@ -523,16 +870,23 @@ export class InvoiceService {
       ];
 
       // Create invoices
-      const batch = writeBatch(db);
-      const createdInvoices = [];
-
-      for (const invoiceData of sampleData) {
-        const docRef = doc(collection(db, this.COLLECTION_NAME));
-        batch.set(docRef, invoiceData);
-        createdInvoices.push(invoiceData.invoiceNumber);
-      }
+      const now = new Date().toISOString();
+      const invoices: Invoice[] = sampleData.map((invoiceData) => ({
+        id: this.repository().newId(),
+        ...invoiceData,
+        createdAt: now,
+        updatedAt: now,
+      }));
+      const createdInvoices = invoices.map((invoice) => invoice.invoiceNumber);
 
-      await batch.commit();
+      await getRepositories().runTransaction(async (transaction) => {
+        invoices.forEach(({ id, ...invoice }) =>
+          transaction.set(this.repository(), id, invoice)
+        );
+      });
+      await RollupService.refresh(
+        invoices.map((invoice) => ({ before: null, after: invoice }))
+      );
       console.log("✅ Successfully seeded invoices:", createdInvoices);
 
       return { success: true, count: createdInvoices.length };
@@ -558,7 +912,12 @@ export class InvoiceService {
     draftCount: number;
   }> {
     try {
-      const invoices = await this.getInvoices();
+      const [rawInvoices, converter] = await Promise.all([
+        this.getInvoices(),
+        CurrencyService.getConverter(),
+      ]);
+      // Totals are expressed in the reporting currency
+      const invoices = CurrencyService.convertInvoices(rawInvoices, converter);
 
       const stats = {
         totalInvoices: invoices.length,
@@ -589,6 +948,12 @@ export class InvoiceService {
             stats.sentAmount += invoice.total;
             stats.sentCount++;
             break;
+          case "partially_paid":
+            // Received portion counts as paid, the balance as sent
+            stats.paidAmount += invoice.amountPaid || 0;
+            stats.sentAmount += invoice.total - (invoice.amountPaid || 0);
+            stats.sentCount++;
+            break;
           case "draft":
             stats.draftAmount += invoice.total;
             stats.draftCount++;
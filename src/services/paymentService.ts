@@ -0,0 +1,365 @@
+import { auth } from "./firebaseConfig";
+import { Invoice, InvoiceStatus, Payment } from "../types/float34";
+import { getRepositories, Transaction } from "@/repositories";
+import {
+  getAmountPaid,
+  getBalanceDue,
+  getNetTotal,
+} from "@/lib/financial/amounts";
+import { InvoiceChange } from "@/lib/financial/rollups";
+import { AuditService } from "./auditService";
+import { InvoiceService } from "./invoiceService";
+import { RollupService } from "./rollupService";
+import { ScopeService } from "./scopeService";
+
+export class PaymentService {
+  // Allow for floating point noise when comparing money amounts
+  private static readonly EPSILON = 0.005;
+
+  /**
+   * Get all payments. Payments can settle invoices of several properties,
+   * so only users who manage payments everywhere may list them.
+   */
+  static async getPayments(): Promise<Payment[]> {
+    try {
+      if (await ScopeService.getPropertyScope("payment:manage")) return [];
+      return await getRepositories().payments.list();
+    } catch (error) {
+      console.error("Error getting payments:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Get payment by ID, null for users who do not manage payments
+   */
+  static async getPaymentById(id: string): Promise<Payment | null> {
+    try {
+      if (await ScopeService.getPropertyScope("payment:manage")) return null;
+      return await getRepositories().payments.get(id);
+    } catch (error) {
+      console.error("Error getting payment:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Get payments allocated (in whole or in part) to an invoice, none for
+   * users who do not manage payments
+   */
+  static async getPaymentsForInvoice(invoiceId: string): Promise<Payment[]> {
+    try {
+      if (await ScopeService.getPropertyScope("payment:manage")) return [];
+      const payments = await getRepositories().payments.list({
+        filters: [
+          { field: "invoiceIds", op: "array-contains", value: invoiceId },
+        ],
+      });
+      return payments.sort((a, b) =>
+        a.paymentDate.localeCompare(b.paymentDate)
+      );
+    } catch (error) {
+      console.error("Error getting payments for invoice:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Record a payment and allocate it across one or more invoices. Invoice
+   * balances and statuses are updated in the same transaction.
+   */
+  static async recordPayment(
+    paymentData: Omit<
+      Payment,
+      | "id"
+      | "status"
+      | "invoiceIds"
+      | "createdAt"
+      | "updatedAt"
+      | "createdBy"
+      | "updatedBy"
+    >
+  ): Promise<string> {
+    try {
+      this.validateAllocations(paymentData);
+
+      const repositories = getRepositories();
+      const paymentId = repositories.payments.newId();
+      const now = new Date().toISOString();
+      const actor = auth.currentUser?.uid || "system";
+
+      const changes = await repositories.runTransaction(async (transaction) => {
+        const invoices = await Promise.all(
+          paymentData.allocations.map((allocation) =>
+            transaction.get(repositories.invoices, allocation.invoiceId)
+          )
+        );
+
+        await Promise.all(
+          invoices.map(
+            (invoice) =>
+              invoice &&
+              ScopeService.assertCan(
+                "payment:manage",
+                invoice,
+                `Insufficient permissions to record payments on invoice ${invoice.invoiceNumber}`
+              )
+          )
+        );
+
+        const updated = invoices.map((invoice, index) => {
+          const allocation = paymentData.allocations[index];
+          if (!invoice) {
+            throw new Error(`Invoice not found: ${allocation.invoiceId}`);
+          }
+
+          if (invoice.status === "draft" || invoice.status === "cancelled") {
+            throw new Error(
+              `Cannot record a payment against a ${invoice.status} invoice: ${invoice.invoiceNumber}`
+            );
+          }
+
+          const amountPaid = this.getAmountPaid(invoice) + allocation.amount;
+          if (amountPaid > this.getNetTotal(invoice) + this.EPSILON) {
+            throw new Error(
+              `Payment exceeds balance due on invoice ${invoice.invoiceNumber}`
+            );
+          }
+
+          return this.applyPaymentUpdate(transaction, invoice, {
+            amountPaid,
+            now,
+            note: `Payment ${paymentId} applied`,
+            paymentDate: paymentData.paymentDate,
+            payment: paymentData,
+          });
+        });
+
+        transaction.set(repositories.payments, paymentId, {
+          ...paymentData,
+          status: "received",
+          invoiceIds: paymentData.allocations.map((a) => a.invoiceId),
+          createdAt: now,
+          updatedAt: now,
+          createdBy: actor,
+          updatedBy: actor,
+        });
+        return updated;
+      });
+      await RollupService.refresh(changes);
+
+      console.log("✅ Payment recorded with ID:", paymentId);
+      return paymentId;
+    } catch (error) {
+      console.error("Error recording payment:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reverse a payment (e.g. a bounced transfer) and reopen the invoices it
+   * was allocated to
+   */
+  static async reversePayment(id: string, reason?: string): Promise<void> {
+    try {
+      const repositories = getRepositories();
+      const now = new Date().toISOString();
+      const actor = auth.currentUser?.uid || "system";
+
+      const changes = await repositories.runTransaction(async (transaction) => {
+        const payment = await transaction.get(repositories.payments, id);
+        if (!payment) {
+          throw new Error(`Payment not found: ${id}`);
+        }
+        if (payment.status === "reversed") {
+          throw new Error(`Payment already reversed: ${id}`);
+        }
+
+        const invoices = await Promise.all(
+          payment.allocations.map((allocation) =>
+            transaction.get(repositories.invoices, allocation.invoiceId)
+          )
+        );
+
+        await Promise.all(
+          invoices.map(
+            (invoice) =>
+              invoice &&
+              ScopeService.assertCan(
+                "payment:manage",
+                invoice,
+                `Insufficient permissions to reverse payments on invoice ${invoice.invoiceNumber}`
+              )
+          )
+        );
+
+        const updated = invoices.flatMap((invoice, index) => {
+          if (!invoice) return [];
+
+          const amountPaid = Math.max(
+            0,
+            this.getAmountPaid(invoice) - payment.allocations[index].amount
+          );
+
+          return [
+            this.applyPaymentUpdate(transaction, invoice, {
+              amountPaid,
+              now,
+              note: `Payment ${id} reversed${reason ? `: ${reason}` : ""}`,
+            }),
+          ];
+        });
+
+        transaction.update(repositories.payments, id, {
+          status: "reversed",
+          reversedAt: now,
+          ...(reason && { reversalReason: reason }),
+          updatedAt: now,
+          updatedBy: actor,
+        });
+        return updated;
+      });
+      await RollupService.refresh(changes);
+
+      console.log("✅ Payment reversed:", id);
+    } catch (error) {
+      console.error("Error reversing payment:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Amount received against an invoice. Paid invoices count as fully paid,
+   * including those marked paid before payments were tracked.
+   */
+  static getAmountPaid(invoice: Invoice): number {
+    return getAmountPaid(invoice);
+  }
+
+  /**
+   * Invoice total less issued credit notes
+   */
+  static getNetTotal(invoice: Invoice): number {
+    return getNetTotal(invoice);
+  }
+
+  /**
+   * Amount still owed on an invoice
+   */
+  static getBalanceDue(invoice: Invoice): number {
+    return getBalanceDue(invoice);
+  }
+
+  /**
+   * Status an invoice should have for a given amount paid
+   */
+  static getStatusForAmountPaid(
+    invoice: Invoice,
+    amountPaid: number
+  ): InvoiceStatus {
+    if (
+      amountPaid > this.EPSILON &&
+      amountPaid >= this.getNetTotal(invoice) - this.EPSILON
+    ) {
+      return "paid";
+    }
+    if (amountPaid > this.EPSILON) return "partially_paid";
+    return new Date(invoice.dueDate) < new Date() ? "overdue" : "sent";
+  }
+
+  private static applyPaymentUpdate(
+    transaction: Transaction,
+    invoice: Invoice,
+    options: {
+      amountPaid: number;
+      now: string;
+      note: string;
+      paymentDate?: string;
+      payment?: Pick<Payment, "method" | "reference">;
+    }
+  ): InvoiceChange {
+    const amountPaid = Math.round(options.amountPaid * 100) / 100;
+    const toStatus = this.getStatusForAmountPaid(invoice, amountPaid);
+    const change = InvoiceService.buildStatusChange(
+      invoice.status,
+      toStatus,
+      options.now,
+      options.note
+    );
+
+    if (
+      toStatus !== invoice.status &&
+      !InvoiceService.canTransition(invoice.status, toStatus)
+    ) {
+      throw new Error(
+        `Invalid invoice status transition: ${invoice.status} → ${toStatus}`
+      );
+    }
+
+    const updates: Partial<Invoice> = {
+      amountPaid,
+      balanceDue: Math.max(0, this.getNetTotal(invoice) - amountPaid),
+      status: toStatus,
+      ...(toStatus === "paid" && {
+        paidDate: options.paymentDate || options.now,
+        ...(options.payment && {
+          paymentMethod: options.payment.method,
+          ...(options.payment.reference && {
+            paymentReference: options.payment.reference,
+          }),
+        }),
+      }),
+      updatedAt: options.now,
+      updatedBy: change.changedBy,
+    };
+    const repositories = getRepositories();
+    const after = { ...invoice, ...updates };
+    transaction.update(repositories.invoices, invoice.id, updates);
+    AuditService.recordInTransaction(
+      transaction,
+      "update",
+      "invoice",
+      invoice.id,
+      invoice,
+      after
+    );
+
+    if (toStatus !== invoice.status) {
+      const history = repositories.statusHistory(invoice.id);
+      transaction.set(history, history.newId(), change);
+    }
+    return { before: invoice, after };
+  }
+
+  private static validateAllocations(
+    paymentData: Pick<Payment, "amount" | "allocations">
+  ) {
+    if (!(paymentData.amount > 0)) {
+      throw new Error("Payment amount must be greater than zero");
+    }
+    if (!paymentData.allocations || paymentData.allocations.length === 0) {
+      throw new Error("Payment must be allocated to at least one invoice");
+    }
+
+    const invoiceIds = new Set<string>();
+    let allocated = 0;
+    paymentData.allocations.forEach((allocation) => {
+      if (!(allocation.amount > 0)) {
+        throw new Error("Allocation amounts must be greater than zero");
+      }
+      if (invoiceIds.has(allocation.invoiceId)) {
+        throw new Error(
+          `Invoice allocated more than once: ${allocation.invoiceId}`
+        );
+      }
+      invoiceIds.add(allocation.invoiceId);
+      allocated += allocation.amount;
+    });
+
+    if (allocated > paymentData.amount + this.EPSILON) {
+      throw new Error("Allocations exceed the payment amount");
+    }
+  }
+}
+
+export default PaymentService;
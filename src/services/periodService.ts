@@ -0,0 +1,349 @@
+import { PeriodGranularity, ReportingSettings } from "../types/float34";
+import { getRepositories } from "@/repositories";
+
+/**
+ * Period keys by granularity, with a fiscal year starting in March:
+ *
+ * - DAY: "2025-03-05"
+ * - WEEK: "2025-W10", ISO-8601 week and week-based year
+ * - MONTH: "2025-03", calendar month
+ * - QUARTER: "2026-Q1", fiscal quarter (Mar-May) of fiscal year 2026
+ * - YEAR: "2026", fiscal year Mar 2025 - Feb 2026
+ *
+ * Fiscal years are named after the calendar year they end in, so with the
+ * default January start QUARTER and YEAR are plain calendar periods.
+ */
+export class PeriodService {
+  private static SETTINGS_DOC = "reporting";
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+  static readonly DEFAULT_FISCAL_YEAR_START_MONTH = 1;
+
+  private static cachedFiscalYearStartMonth: number =
+    PeriodService.DEFAULT_FISCAL_YEAR_START_MONTH;
+
+  /**
+   * Get the month (1-12) fiscal years start in
+   */
+  static async getFiscalYearStartMonth(): Promise<number> {
+    try {
+      const settings = (await getRepositories().settings.get(
+        this.SETTINGS_DOC
+      )) as Partial<ReportingSettings> | null;
+
+      this.cachedFiscalYearStartMonth = this.isMonth(
+        settings?.fiscalYearStartMonth
+      )
+        ? settings!.fiscalYearStartMonth!
+        : this.DEFAULT_FISCAL_YEAR_START_MONTH;
+      return this.cachedFiscalYearStartMonth;
+    } catch (error) {
+      console.error("Error getting fiscal year start month:", error);
+      return this.cachedFiscalYearStartMonth;
+    }
+  }
+
+  /**
+   * Last fiscal year start month loaded, for synchronous bucketing
+   */
+  static getCachedFiscalYearStartMonth(): number {
+    return this.cachedFiscalYearStartMonth;
+  }
+
+  /**
+   * Set the month (1-12) fiscal years start in
+   */
+  static async setFiscalYearStartMonth(
+    month: number,
+    updatedBy?: string
+  ): Promise<void> {
+    try {
+      if (!this.isMonth(month)) {
+        throw new Error(`Invalid fiscal year start month: ${month}`);
+      }
+
+      const settings: Partial<ReportingSettings> = {
+        fiscalYearStartMonth: month,
+        updatedAt: new Date().toISOString(),
+        ...(updatedBy && { updatedBy }),
+      };
+      await getRepositories().settings.set(this.SETTINGS_DOC, settings, {
+        merge: true,
+      });
+
+      this.cachedFiscalYearStartMonth = month;
+      console.log("✅ Fiscal year start month set to:", month);
+    } catch (error) {
+      console.error("Error setting fiscal year start month:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Calendar day (YYYY-MM-DD) of a date. Date-only strings are taken as
+   * is; timestamps use the local date, as the reports always have.
+   * Accepts Firestore Timestamps. Returns null for anything unparseable.
+   */
+  static toDay(dateInput: unknown): string | null {
+    if (
+      typeof dateInput === "string" &&
+      /^\d{4}-\d{2}-\d{2}$/.test(dateInput)
+    ) {
+      return this.isValidDay(dateInput) ? dateInput : null;
+    }
+
+    let date: Date | null = null;
+    if (dateInput instanceof Date) {
+      date = dateInput;
+    } else if (typeof dateInput === "string") {
+      date = new Date(dateInput);
+    } else if (dateInput && typeof dateInput === "object") {
+      const timestamp = dateInput as {
+        seconds?: number;
+        toDate?: () => Date;
+      };
+      if (typeof timestamp.toDate === "function") {
+        date = timestamp.toDate();
+      } else if (typeof timestamp.seconds === "number") {
+        date = new Date(timestamp.seconds * 1000);
+      }
+    }
+
+    if (!date || isNaN(date.getTime())) return null;
+    return this.formatDay(
+      date.getFullYear(),
+      date.getMonth() + 1,
+      date.getDate()
+    );
+  }
+
+  /**
+   * Key of the period a date falls in, or null for an invalid date
+   */
+  static getPeriodKey(
+    dateInput: unknown,
+    granularity: PeriodGranularity,
+    fiscalYearStartMonth = this.cachedFiscalYearStartMonth
+  ): string | null {
+    const day = this.toDay(dateInput);
+    if (!day) return null;
+    const [year, month] = day.split("-").map(Number);
+
+    switch (granularity) {
+      case "DAY":
+        return day;
+      case "WEEK": {
+        const { weekYear, week } = this.getIsoWeek(day);
+        return `${weekYear}-W${String(week).padStart(2, "0")}`;
+      }
+      case "MONTH":
+        return day.slice(0, 7);
+      case "QUARTER": {
+        const offset = this.getFiscalMonthOffset(month, fiscalYearStartMonth);
+        const fiscalYear = this.getFiscalYear(
+          year,
+          month,
+          fiscalYearStartMonth
+        );
+        return `${fiscalYear}-Q${Math.floor(offset / 3) + 1}`;
+      }
+      case "YEAR":
+      default:
+        return String(this.getFiscalYear(year, month, fiscalYearStartMonth));
+    }
+  }
+
+  /**
+   * First and last day (YYYY-MM-DD) of a period key, or null when the key
+   * is not a valid period of that granularity
+   */
+  static getPeriodRange(
+    key: string,
+    granularity: PeriodGranularity,
+    fiscalYearStartMonth = this.cachedFiscalYearStartMonth
+  ): { from: string; to: string } | null {
+    const startMonth = this.isMonth(fiscalYearStartMonth)
+      ? fiscalYearStartMonth
+      : this.DEFAULT_FISCAL_YEAR_START_MONTH;
+    // A fiscal year not starting in January began the calendar year before
+    const startYear = (fiscalYear: number) =>
+      startMonth === 1 ? fiscalYear : fiscalYear - 1;
+    let range: { from: string; to: string } | null = null;
+
+    switch (granularity) {
+      case "DAY":
+        if (/^\d{4}-\d{2}-\d{2}$/.test(key)) range = { from: key, to: key };
+        break;
+      case "WEEK": {
+        const match = key.match(/^(\d{4})-W(\d{2})$/);
+        if (!match) break;
+        // Week 1 is the week containing January 4th
+        const jan4 = this.formatDay(Number(match[1]), 1, 4);
+        const weekday = this.getIsoWeekday(jan4);
+        const from = this.addDays(
+          jan4,
+          1 - weekday + (Number(match[2]) - 1) * 7
+        );
+        range = { from, to: this.addDays(from, 6) };
+        break;
+      }
+      case "MONTH": {
+        const match = key.match(/^(\d{4})-(\d{2})$/);
+        if (!match) break;
+        range = this.getMonthsRange(Number(match[1]), Number(match[2]), 1);
+        break;
+      }
+      case "QUARTER": {
+        const match = key.match(/^(\d{4})-Q([1-4])$/);
+        if (!match) break;
+        range = this.getMonthsRange(
+          startYear(Number(match[1])),
+          startMonth + (Number(match[2]) - 1) * 3,
+          3
+        );
+        break;
+      }
+      case "YEAR":
+        if (!/^\d{4}$/.test(key)) break;
+        range = this.getMonthsRange(startYear(Number(key)), startMonth, 12);
+        break;
+    }
+
+    // Reject keys that do not round-trip, e.g. "2025-W53" or "2025-13"
+    return range &&
+      this.getPeriodKey(range.from, granularity, startMonth) === key
+      ? range
+      : null;
+  }
+
+  /**
+   * First or last day (YYYY-MM-DD) of a report range bound, which may be
+   * an ISO date or the short "2024" / "2024-03" forms
+   */
+  static getRangeDay(value: string, edge: "start" | "end"): string | null {
+    const bound = (value || "").trim();
+    const granularity = /^\d{4}$/.test(bound)
+      ? "YEAR"
+      : /^\d{4}-\d{2}$/.test(bound)
+        ? "MONTH"
+        : null;
+    if (granularity) {
+      // Calendar years, whatever the fiscal calendar
+      const range = this.getPeriodRange(bound, granularity, 1);
+      return range ? range[edge === "start" ? "from" : "to"] : null;
+    }
+
+    const day = bound.slice(0, 10);
+    return /^\d{4}-\d{2}-\d{2}$/.test(day) && this.isValidDay(day)
+      ? day
+      : null;
+  }
+
+  /**
+   * Every day (YYYY-MM-DD) from one day to another, inclusive
+   */
+  static getDaysBetween(from: string, to: string): string[] {
+    const days: string[] = [];
+    for (let day = from; day <= to; day = this.addDays(day, 1)) {
+      days.push(day);
+    }
+    return days;
+  }
+
+  /**
+   * Day a number of days after (or before) another
+   */
+  static addDays(day: string, days: number): string {
+    const [year, month, date] = day.split("-").map(Number);
+    return new Date(Date.UTC(year, month - 1, date + days))
+      .toISOString()
+      .split("T")[0];
+  }
+
+  /**
+   * ISO-8601 week number and the week-based year it belongs to, which
+   * differs from the calendar year around New Year
+   */
+  static getIsoWeek(day: string): { weekYear: number; week: number } {
+    // The Thursday of the week decides which year it belongs to
+    const thursday = this.addDays(day, 4 - this.getIsoWeekday(day));
+    const weekYear = Number(thursday.slice(0, 4));
+    const dayOfYear =
+      (Date.parse(thursday) - Date.UTC(weekYear, 0, 1)) / this.DAY_MS;
+    return { weekYear, week: Math.floor(dayOfYear / 7) + 1 };
+  }
+
+  /**
+   * Fiscal year a calendar month falls in, named after the year it ends in
+   */
+  static getFiscalYear(
+    year: number,
+    month: number,
+    fiscalYearStartMonth = this.cachedFiscalYearStartMonth
+  ): number {
+    if (!this.isMonth(fiscalYearStartMonth) || fiscalYearStartMonth === 1) {
+      return year;
+    }
+    return month >= fiscalYearStartMonth ? year + 1 : year;
+  }
+
+  private static getFiscalMonthOffset(
+    month: number,
+    fiscalYearStartMonth: number
+  ): number {
+    const start = this.isMonth(fiscalYearStartMonth) ? fiscalYearStartMonth : 1;
+    return (month - start + 12) % 12;
+  }
+
+  /**
+   * Days covered by a number of months starting with the given one, which
+   * may run past December
+   */
+  private static getMonthsRange(
+    year: number,
+    month: number,
+    months: number
+  ): { from: string; to: string } {
+    const from = new Date(Date.UTC(year, month - 1, 1));
+    const to = new Date(Date.UTC(year, month - 1 + months, 0));
+    return {
+      from: from.toISOString().split("T")[0],
+      to: to.toISOString().split("T")[0],
+    };
+  }
+
+  /**
+   * Monday 1 to Sunday 7
+   */
+  private static getIsoWeekday(day: string): number {
+    return new Date(`${day}T00:00:00Z`).getUTCDay() || 7;
+  }
+
+  private static formatDay(year: number, month: number, day: number): string {
+    return [
+      String(year).padStart(4, "0"),
+      String(month).padStart(2, "0"),
+      String(day).padStart(2, "0"),
+    ].join("-");
+  }
+
+  private static isValidDay(day: string): boolean {
+    const [year, month, date] = day.split("-").map(Number);
+    const parsed = new Date(Date.UTC(year, month - 1, date));
+    return (
+      parsed.getUTCFullYear() === year &&
+      parsed.getUTCMonth() === month - 1 &&
+      parsed.getUTCDate() === date
+    );
+  }
+
+  private static isMonth(month: unknown): month is number {
+    return (
+      typeof month === "number" &&
+      Number.isInteger(month) &&
+      month >= 1 &&
+      month <= 12
+    );
+  }
+}
+
+export default PeriodService;
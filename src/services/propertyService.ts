@@ -1,25 +1,10 @@
-import {
-  collection,
-  doc,
-  getDocs,
-  getDoc,
-  addDoc,
-  updateDoc,
-  deleteDoc,
-  query,
-  where,
-  orderBy,
-  limit,
-  startAfter,
-  QueryDocumentSnapshot,
-  DocumentData,
-  writeBatch,
-  runTransaction,
-  onSnapshot,
-  Unsubscribe,
-} from "firebase/firestore";
-import { db, DataEncryption, SecurityUtils } from "./firebaseConfig";
-import { Property } from "@/types/float34";
+import { Unsubscribe } from "firebase/firestore";
+import { SecurityUtils } from "./firebaseConfig";
+import { AuditAction, Property } from "@/types/float34";
+import { getRepositories, ListOptions, QueryFilter } from "@/repositories";
+import { AuditService } from "./auditService";
+import { UserService } from "./userService";
+import { ScopeService } from "./scopeService";
 
 export interface PropertyCreateRequest {
   tenantId: string;
@@ -80,17 +65,47 @@ export class PropertyService {
   private static readonly COLLECTION_NAME = "properties";
   private static readonly BATCH_SIZE = 20;
 
+  private static repository() {
+    return getRepositories().properties;
+  }
+
   /**
-   * Check if Firebase is available and connected
+   * Check if the data store is available
    */
   private static async checkFirebaseConnection(): Promise<boolean> {
-    try {
-      await getDocs(collection(db, "_health"));
-      return true;
-    } catch (error) {
-      console.warn("⚠️ Firebase connection check failed:", error);
-      return false;
+    return this.repository().isAvailable();
+  }
+
+  /**
+   * Query options for property search parameters, newest first
+   */
+  private static getListOptions(
+    searchParams: PropertySearchParams
+  ): ListOptions {
+    const filters: QueryFilter[] = [];
+    if (searchParams.status) {
+      filters.push({ field: "status", op: "==", value: searchParams.status });
     }
+    if (searchParams.tenantId) {
+      filters.push({
+        field: "tenantId",
+        op: "==",
+        value: searchParams.tenantId,
+      });
+    }
+    if (searchParams.propertyType) {
+      filters.push({
+        field: "propertyType",
+        op: "==",
+        value: searchParams.propertyType,
+      });
+    }
+
+    return {
+      filters,
+      orderBy: { field: "createdAt", direction: "desc" },
+      limit: searchParams.limit,
+    };
   }
 
   /**
@@ -111,11 +126,7 @@ export class PropertyService {
       }
 
       // Validate user permissions (only admins can create properties)
-      const hasPermission = await SecurityUtils.validateProviderAccess(
-        "",
-        userId,
-        "write"
-      );
+      const hasPermission = await UserService.can(userId, "property:create");
       if (!hasPermission) {
         return {
           success: false,
@@ -138,14 +149,21 @@ export class PropertyService {
         status: sanitizedData.status || "active",
       };
 
-      // Add to Firestore
-      const docRef = await addDoc(
-        collection(db, this.COLLECTION_NAME),
-        propertyToStore
-      );
+      const propertyId = this.repository().newId();
+      await getRepositories().runTransaction(async (transaction) => {
+        transaction.set(this.repository(), propertyId, propertyToStore);
+        AuditService.recordInTransaction(
+          transaction,
+          "create",
+          "property",
+          propertyId,
+          null,
+          propertyToStore
+        );
+      });
 
-      console.log("✅ Property created successfully:", docRef.id);
-      return { success: true, propertyId: docRef.id };
+      console.log("✅ Property created successfully:", propertyId);
+      return { success: true, propertyId };
     } catch (error: any) {
       console.error("❌ Error creating property:", error);
       return {
@@ -160,18 +178,7 @@ export class PropertyService {
    */
   static async getPropertyById(propertyId: string): Promise<Property | null> {
     try {
-      const docRef = doc(db, this.COLLECTION_NAME, propertyId);
-      const docSnap = await getDoc(docRef);
-
-      if (docSnap.exists()) {
-        const data = docSnap.data();
-        return {
-          id: docSnap.id,
-          ...data,
-        } as Property;
-      }
-
-      return null;
+      return await this.repository().get(propertyId);
     } catch (error) {
       console.error("Error fetching property:", error);
       return null;
@@ -179,52 +186,49 @@ export class PropertyService {
   }
 
   /**
-   * Get all properties with optional filtering
+   * Get all properties the current user may see, with optional filtering
    */
   static async getProperties(
     searchParams: PropertySearchParams = {}
   ): Promise<Property[]> {
     try {
-      let q = collection(db, this.COLLECTION_NAME);
-
-      // Apply filters
-      if (searchParams.status) {
-        q = query(q, where("status", "==", searchParams.status));
-      }
-
-      if (searchParams.tenantId) {
-        q = query(q, where("tenantId", "==", searchParams.tenantId));
-      }
-
-      if (searchParams.propertyType) {
-        q = query(q, where("propertyType", "==", searchParams.propertyType));
-      }
-
-      // Apply ordering
-      q = query(q, orderBy("createdAt", "desc"));
-
-      // Apply limit
-      if (searchParams.limit) {
-        q = query(q, limit(searchParams.limit));
-      }
-
-      const querySnapshot = await getDocs(q);
-      const properties: Property[] = [];
-
-      querySnapshot.forEach((doc) => {
-        properties.push({
-          id: doc.id,
-          ...doc.data(),
-        } as Property);
-      });
-
-      return properties;
+      const scope = await ScopeService.getPropertyScope();
+      if (scope) return await this.getScopedProperties(scope, searchParams);
+      return await this.repository().list(this.getListOptions(searchParams));
     } catch (error) {
       console.error("Error fetching properties:", error);
       return [];
     }
   }
 
+  /**
+   * Read the properties of a scope one by one. Managers may read each of
+   * their properties but not query the collection.
+   */
+  private static async getScopedProperties(
+    scope: string[],
+    searchParams: PropertySearchParams
+  ): Promise<Property[]> {
+    const properties = await Promise.all(
+      scope.map((propertyId) => this.repository().get(propertyId))
+    );
+    const matching = properties.filter(
+      (property): property is Property =>
+        !!property &&
+        (!searchParams.status || property.status === searchParams.status) &&
+        (!searchParams.tenantId ||
+          property.tenantId === searchParams.tenantId) &&
+        (!searchParams.propertyType ||
+          property.propertyType === searchParams.propertyType)
+    );
+    matching.sort((a, b) =>
+      (b.createdAt || "").localeCompare(a.createdAt || "")
+    );
+    return searchParams.limit
+      ? matching.slice(0, searchParams.limit)
+      : matching;
+  }
+
   /**
    * Search properties by text
    */
@@ -267,11 +271,9 @@ export class PropertyService {
       }
 
       // Validate user permissions
-      const hasPermission = await SecurityUtils.validateProviderAccess(
+      const hasPermission = await UserService.can(userId, "property:write", {
         propertyId,
-        userId,
-        "write"
-      );
+      });
       if (!hasPermission) {
         return {
           success: false,
@@ -289,9 +291,7 @@ export class PropertyService {
         updatedBy: userId,
       };
 
-      // Update in Firestore
-      const docRef = doc(db, this.COLLECTION_NAME, propertyId);
-      await updateDoc(docRef, updatePayload);
+      await this.updateWithAudit(propertyId, updatePayload);
 
       console.log("✅ Property updated successfully:", propertyId);
       return { success: true };
@@ -322,11 +322,9 @@ export class PropertyService {
       }
 
       // Validate user permissions
-      const hasPermission = await SecurityUtils.validateProviderAccess(
+      const hasPermission = await UserService.can(userId, "property:delete", {
         propertyId,
-        userId,
-        "delete"
-      );
+      });
       if (!hasPermission) {
         return {
           success: false,
@@ -335,12 +333,15 @@ export class PropertyService {
       }
 
       // Soft delete by setting status to inactive
-      const docRef = doc(db, this.COLLECTION_NAME, propertyId);
-      await updateDoc(docRef, {
-        status: "inactive",
-        updatedAt: new Date().toISOString(),
-        updatedBy: userId,
-      });
+      await this.updateWithAudit(
+        propertyId,
+        {
+          status: "inactive",
+          updatedAt: new Date().toISOString(),
+          updatedBy: userId,
+        },
+        "delete"
+      );
 
       console.log(
         "✅ Property deleted successfully (soft delete):",
@@ -374,17 +375,16 @@ export class PropertyService {
         };
       }
 
-      const batch = writeBatch(db);
-      let updatedCount = 0;
+      const permittedIds: string[] = [];
       const errors: string[] = [];
 
       for (const propertyId of propertyIds) {
         try {
           // Validate permissions for each property
-          const hasPermission = await SecurityUtils.validateProviderAccess(
-            propertyId,
+          const hasPermission = await UserService.can(
             userId,
-            "write"
+            "property:write",
+            { propertyId }
           );
 
           if (!hasPermission) {
@@ -392,15 +392,7 @@ export class PropertyService {
             continue;
           }
 
-          const docRef = doc(db, this.COLLECTION_NAME, propertyId);
-          const updatePayload = {
-            ...updateData,
-            updatedAt: new Date().toISOString(),
-            updatedBy: userId,
-          };
-
-          batch.update(docRef, updatePayload);
-          updatedCount++;
+          permittedIds.push(propertyId);
         } catch (error: any) {
           errors.push(
             `Failed to update property ${propertyId}: ${error.message}`
@@ -408,8 +400,17 @@ export class PropertyService {
         }
       }
 
+      // Request fields are looser than the stored property type
+      const updatePayload = {
+        ...updateData,
+        updatedAt: new Date().toISOString(),
+        updatedBy: userId,
+      } as Partial<Property>;
+      const updatedCount = permittedIds.length;
       if (updatedCount > 0) {
-        await batch.commit();
+        await Promise.all(
+          permittedIds.map((id) => this.updateWithAudit(id, updatePayload))
+        );
         console.log(
           `✅ Bulk update completed: ${updatedCount} properties updated`
         );
@@ -431,42 +432,31 @@ export class PropertyService {
   }
 
   /**
-   * Subscribe to real-time property updates
+   * Subscribe to real-time property updates. Users scoped to some
+   * properties get them once, as they cannot query the collection.
    */
   static subscribeToProperties(
     callback: (properties: Property[]) => void,
     searchParams: PropertySearchParams = {}
   ): Unsubscribe {
     try {
-      let q = collection(db, this.COLLECTION_NAME);
-
-      // Apply filters
-      if (searchParams.status) {
-        q = query(q, where("status", "==", searchParams.status));
-      }
-
-      if (searchParams.tenantId) {
-        q = query(q, where("tenantId", "==", searchParams.tenantId));
-      }
-
-      // Apply ordering
-      q = query(q, orderBy("createdAt", "desc"));
-
-      // Apply limit
-      if (searchParams.limit) {
-        q = query(q, limit(searchParams.limit));
-      }
-
-      return onSnapshot(q, (querySnapshot) => {
-        const properties: Property[] = [];
-        querySnapshot.forEach((doc) => {
-          properties.push({
-            id: doc.id,
-            ...doc.data(),
-          } as Property);
-        });
-        callback(properties);
+      let unsubscribe: Unsubscribe | null = null;
+      let cancelled = false;
+      ScopeService.getPropertyScope().then(async (scope) => {
+        if (cancelled) return;
+        if (scope) {
+          callback(await this.getScopedProperties(scope, searchParams));
+          return;
+        }
+        unsubscribe = this.repository().subscribe(
+          this.getListOptions(searchParams),
+          callback
+        );
       });
+      return () => {
+        cancelled = true;
+        unsubscribe?.();
+      };
     } catch (error) {
       console.error("Error setting up property subscription:", error);
       // Return a no-op function
@@ -571,6 +561,28 @@ export class PropertyService {
     }
   }
 
+  /**
+   * Update a property and record the change in the same transaction
+   */
+  private static async updateWithAudit(
+    propertyId: string,
+    changes: Partial<Property>,
+    action: AuditAction = "update"
+  ): Promise<void> {
+    await getRepositories().runTransaction(async (transaction) => {
+      const before = await transaction.get(this.repository(), propertyId);
+      transaction.update(this.repository(), propertyId, changes);
+      AuditService.recordInTransaction(
+        transaction,
+        action,
+        "property",
+        propertyId,
+        before,
+        { ...before, ...changes }
+      );
+    });
+  }
+
   /**
    * Seed sample properties for development
    */
@@ -745,23 +757,22 @@ export class PropertyService {
       ];
 
       // Create properties
-      const batch = writeBatch(db);
-      const createdProperties = [];
-
-      for (const propertyData of propertiesData) {
-        const { id, ...data } = propertyData;
-        const docRef = doc(db, this.COLLECTION_NAME, id);
-        batch.set(docRef, {
-          ...data,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-          createdBy: "system",
-          updatedBy: "system",
-        });
-        createdProperties.push(id);
-      }
-
-      await batch.commit();
+      const repositories = getRepositories();
+      const createdProperties: string[] = [];
+
+      await repositories.runTransaction(async (transaction) => {
+        for (const propertyData of propertiesData) {
+          const { id, ...data } = propertyData;
+          transaction.set(repositories.properties, id, {
+            ...data,
+            createdAt: new Date().toISOString(),
+            updatedAt: new Date().toISOString(),
+            createdBy: "system",
+            updatedBy: "system",
+          });
+          createdProperties.push(id);
+        }
+      });
       console.log("✅ Successfully seeded properties:", createdProperties);
 
       return { success: true, count: createdProperties.length };
@@ -0,0 +1,229 @@
+import { Invoice, Property, Provider } from "@/types/float34";
+import { isOverdue } from "@/lib/financial/amounts";
+import { can } from "@/lib/auth/permissions";
+import { CurrencyService } from "./currencyService";
+import { InvoiceService } from "./invoiceService";
+import { PaymentService } from "./paymentService";
+import { PropertyService } from "./propertyService";
+import { ServiceProviderService } from "./serviceProviderService";
+import { UserService } from "./userService";
+
+// Profile fields providers maintain themselves; status, rating, properties
+// and compliance checks stay with admins
+export const SELF_SERVICE_FIELDS = [
+  "name",
+  "email",
+  "phone",
+  "businessName",
+  "taxId",
+  "businessAddress",
+  "businessLicense",
+  "insuranceInfo",
+  "serviceAreas",
+  "availability",
+] as const;
+
+export type ProviderProfileChanges = Partial<
+  Pick<Provider, (typeof SELF_SERVICE_FIELDS)[number]>
+>;
+
+export type InvoiceSubmission = {
+  propertyId: string;
+  description: string;
+  issueDate: string; // YYYY-MM-DD
+  lineItems: { description: string; quantity: number; unitPrice: number }[];
+  notes?: string;
+};
+
+export type InvoicePaymentSummary = {
+  total: number; // less credit notes
+  amountPaid: number;
+  balanceDue: number;
+  isOverdue: boolean;
+};
+
+/**
+ * Self-service for service providers: their profile, the properties they
+ * serve, and the invoices they bill those properties
+ */
+export class ProviderPortalService {
+  static readonly DEFAULT_PAYMENT_TERMS = 30; // days
+
+  /**
+   * Update the provider's own profile. Only self-service fields are saved.
+   */
+  static async updateProfile(
+    provider: Provider,
+    changes: ProviderProfileChanges,
+    userId: string
+  ): Promise<{ success: boolean; error?: string }> {
+    const allowed = Object.fromEntries(
+      SELF_SERVICE_FIELDS.filter((field) => field in changes).map((field) => [
+        field,
+        changes[field],
+      ])
+    );
+    // Unchanged required fields satisfy validation without being edited
+    return ServiceProviderService.updateProvider(
+      provider.id,
+      {
+        name: provider.name,
+        email: provider.email,
+        service: provider.service,
+        status: provider.status,
+        rating: provider.rating,
+        ...allowed,
+      },
+      userId
+    );
+  }
+
+  /**
+   * Properties the provider is listed on
+   */
+  static async getServedProperties(provider: Provider): Promise<Property[]> {
+    const properties = await Promise.all(
+      (provider.propertyIds || []).map((id) =>
+        PropertyService.getPropertyById(id)
+      )
+    );
+    return properties.filter((property): property is Property => !!property);
+  }
+
+  /**
+   * The provider's invoices, newest first
+   */
+  static async getOwnInvoices(providerId: string): Promise<Invoice[]> {
+    const invoices = await InvoiceService.getInvoicesByProvider(providerId);
+    return invoices.sort((a, b) => b.issueDate.localeCompare(a.issueDate));
+  }
+
+  /**
+   * Submit an invoice to a property the provider serves
+   */
+  static async submitInvoice(
+    provider: Provider,
+    submission: InvoiceSubmission,
+    userId: string
+  ): Promise<string> {
+    const profile = await UserService.getUserProfile(userId);
+    if (!can(profile, "invoice:create", { providerId: provider.id })) {
+      throw new Error("Insufficient permissions to invoice for this provider");
+    }
+    this.validateSubmission(provider, submission);
+
+    const currency =
+      provider.financialDetails?.currency ||
+      (await CurrencyService.getReportingCurrency());
+    return InvoiceService.createInvoice(
+      this.buildInvoice(provider, submission, currency, userId)
+    );
+  }
+
+  /**
+   * Throw if a submission cannot be billed
+   */
+  static validateSubmission(
+    provider: Provider,
+    submission: InvoiceSubmission
+  ): void {
+    if (provider.status !== "active") {
+      throw new Error("Invoices can be submitted once your account is active");
+    }
+    if (!(provider.propertyIds || []).includes(submission.propertyId)) {
+      throw new Error("Choose a property you serve");
+    }
+    if (!submission.description?.trim()) {
+      throw new Error("Description is required");
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(submission.issueDate || "")) {
+      throw new Error(`Invalid issue date: ${submission.issueDate}`);
+    }
+    if (!submission.lineItems || submission.lineItems.length === 0) {
+      throw new Error("An invoice needs at least one line item");
+    }
+    submission.lineItems.forEach((item, index) => {
+      if (!item.description?.trim()) {
+        throw new Error(`Line item ${index + 1} needs a description`);
+      }
+      if (!(item.quantity > 0) || !(item.unitPrice >= 0)) {
+        throw new Error(
+          `Line item ${index + 1} needs a positive quantity and price`
+        );
+      }
+    });
+  }
+
+  /**
+   * Invoice for a submission, taxed at the provider's rate and due after
+   * their payment terms. Submitted invoices go straight to "sent".
+   */
+  static buildInvoice(
+    provider: Provider,
+    submission: InvoiceSubmission,
+    currency: string,
+    userId: string
+  ): Omit<Invoice, "id" | "invoiceNumber" | "createdAt" | "updatedAt"> {
+    const lineItems = submission.lineItems.map((item) => ({
+      description: item.description.trim(),
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      total: this.round(item.quantity * item.unitPrice),
+    }));
+    const subtotal = this.round(
+      lineItems.reduce((sum, item) => sum + item.total, 0)
+    );
+    // Provider tax rates are percentages, e.g. 8.25
+    const tax = this.round(
+      (subtotal * (provider.financialDetails?.taxRate || 0)) / 100
+    );
+    const paymentTerms =
+      provider.financialDetails?.paymentTerms ?? this.DEFAULT_PAYMENT_TERMS;
+
+    return {
+      propertyId: submission.propertyId,
+      providerId: provider.id,
+      description: submission.description.trim(),
+      issueDate: submission.issueDate,
+      dueDate: this.addDays(submission.issueDate, paymentTerms),
+      status: "sent",
+      subtotal,
+      tax,
+      total: this.round(subtotal + tax),
+      currency,
+      lineItems,
+      ...(submission.notes?.trim() && { notes: submission.notes.trim() }),
+      tags: ["provider-portal"],
+      createdBy: userId,
+      updatedBy: userId,
+    };
+  }
+
+  /**
+   * What has been paid on an invoice and what is still owed
+   */
+  static getPaymentSummary(
+    invoice: Invoice,
+    now: Date = new Date()
+  ): InvoicePaymentSummary {
+    return {
+      total: PaymentService.getNetTotal(invoice),
+      amountPaid: PaymentService.getAmountPaid(invoice),
+      balanceDue: PaymentService.getBalanceDue(invoice),
+      isOverdue: isOverdue(invoice, now.toISOString().slice(0, 10)),
+    };
+  }
+
+  private static addDays(date: string, days: number): string {
+    const [year, month, day] = date.split("-").map(Number);
+    return new Date(Date.UTC(year, month - 1, day + days))
+      .toISOString()
+      .split("T")[0];
+  }
+
+  private static round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
+
+export default ProviderPortalService;
@@ -0,0 +1,439 @@
+import { auth } from "./firebaseConfig";
+import {
+  Invoice,
+  RecurrenceFrequency,
+  RecurringInvoiceTemplate,
+} from "../types/float34";
+import { AuditService } from "./auditService";
+import { InvoiceService } from "./invoiceService";
+import { InvoiceNumberingService } from "./invoiceNumberingService";
+import { RollupService } from "./rollupService";
+import { ScopeService } from "./scopeService";
+import { getRepositories } from "@/repositories";
+
+export interface RecurringGenerationResult {
+  created: string[]; // invoice IDs
+  skipped: number; // occurrences that already had an invoice
+  errors: string[];
+}
+
+export class RecurringInvoiceService {
+  // Months between occurrences for calendar-based frequencies
+  private static readonly MONTH_STEPS: Partial<
+    Record<RecurrenceFrequency, number>
+  > = {
+    monthly: 1,
+    quarterly: 3,
+    yearly: 12,
+  };
+
+  private static repository() {
+    return getRepositories().recurringTemplates;
+  }
+
+  /**
+   * Get all recurring invoice templates of the properties the current user
+   * may see
+   */
+  static async getTemplates(): Promise<RecurringInvoiceTemplate[]> {
+    try {
+      return await ScopeService.listScoped(
+        this.repository(),
+        await ScopeService.getPropertyScope("invoice:read")
+      );
+    } catch (error) {
+      console.error("Error getting recurring invoice templates:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Get recurring invoice template by ID
+   */
+  static async getTemplateById(
+    id: string
+  ): Promise<RecurringInvoiceTemplate | null> {
+    try {
+      return await this.repository().get(id);
+    } catch (error) {
+      console.error("Error getting recurring invoice template:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Create recurring invoice template
+   */
+  static async createTemplate(
+    templateData: Omit<
+      RecurringInvoiceTemplate,
+      | "id"
+      | "lastGeneratedDate"
+      | "nextRunDate"
+      | "createdAt"
+      | "updatedAt"
+      | "createdBy"
+      | "updatedBy"
+    >
+  ): Promise<string> {
+    try {
+      this.validateTemplate(templateData);
+
+      const now = new Date().toISOString();
+      const actor = auth.currentUser?.uid || "system";
+      const id = await this.repository().create({
+        ...templateData,
+        nextRunDate: templateData.startDate,
+        createdAt: now,
+        updatedAt: now,
+        createdBy: actor,
+        updatedBy: actor,
+      });
+
+      console.log("✅ Recurring invoice template created with ID:", id);
+      return id;
+    } catch (error) {
+      console.error("Error creating recurring invoice template:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update recurring invoice template. Already generated invoices are left
+   * as they are; changes apply to future occurrences.
+   */
+  static async updateTemplate(
+    id: string,
+    updates: Partial<RecurringInvoiceTemplate>
+  ): Promise<void> {
+    try {
+      const existing = await this.getTemplateById(id);
+      if (!existing) {
+        throw new Error(`Recurring invoice template not found: ${id}`);
+      }
+
+      // An empty end date removes it, making the schedule open-ended
+      const { endDate, ...otherUpdates } = updates;
+      const merged = {
+        ...existing,
+        ...otherUpdates,
+        endDate:
+          endDate === undefined ? existing.endDate : endDate || undefined,
+      };
+      this.validateTemplate(merged);
+
+      // Fields updated to undefined are removed
+      await this.repository().update(id, {
+        ...otherUpdates,
+        ...(endDate !== undefined && { endDate: endDate || undefined }),
+        nextRunDate: this.getNextOccurrence(merged) ?? undefined,
+        updatedAt: new Date().toISOString(),
+        updatedBy: auth.currentUser?.uid || "system",
+      });
+
+      console.log("✅ Recurring invoice template updated:", id);
+    } catch (error) {
+      console.error("Error updating recurring invoice template:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete recurring invoice template. Generated invoices are kept.
+   */
+  static async deleteTemplate(id: string): Promise<void> {
+    try {
+      await this.repository().delete(id);
+      console.log("✅ Recurring invoice template deleted:", id);
+    } catch (error) {
+      console.error("Error deleting recurring invoice template:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create invoices for every occurrence of every active template that falls
+   * on or before the as-of date. Safe to run repeatedly: each occurrence maps
+   * to a deterministic invoice ID and is only created if absent.
+   */
+  static async generateDueInvoices(
+    asOf: string = new Date().toISOString()
+  ): Promise<RecurringGenerationResult> {
+    const result: RecurringGenerationResult = {
+      created: [],
+      skipped: 0,
+      errors: [],
+    };
+    const asOfDate = asOf.split("T")[0];
+    const templates = await this.getTemplates();
+
+    for (const template of templates.filter((t) => t.active)) {
+      try {
+        const templateResult = await this.generateForTemplate(
+          template,
+          asOfDate
+        );
+        result.created.push(...templateResult.created);
+        result.skipped += templateResult.skipped;
+      } catch (error) {
+        result.errors.push(
+          `${template.name}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }
+
+    console.log(
+      `✅ Generated ${result.created.length} recurring invoices (${result.skipped} already existed)`
+    );
+    return result;
+  }
+
+  /**
+   * Materialise due occurrences for a single template
+   */
+  static async generateForTemplate(
+    template: RecurringInvoiceTemplate,
+    asOfDate: string
+  ): Promise<Omit<RecurringGenerationResult, "errors">> {
+    const created: string[] = [];
+    let skipped = 0;
+
+    const occurrences = this.getOccurrenceDates(template, asOfDate).filter(
+      (date) =>
+        !template.lastGeneratedDate || date > template.lastGeneratedDate
+    );
+
+    const numberingSettings =
+      occurrences.length > 0
+        ? await InvoiceNumberingService.getSettings()
+        : null;
+
+    const repositories = getRepositories();
+    for (const issueDate of occurrences) {
+      const invoiceId = this.getInvoiceId(template.id, issueDate);
+
+      const generated = await repositories.runTransaction(
+        async (transaction) => {
+          const existing = await transaction.get(
+            repositories.invoices,
+            invoiceId
+          );
+          if (existing || !numberingSettings) return null;
+
+          const invoiceNumber =
+            await InvoiceNumberingService.allocateInTransaction(
+              transaction,
+              invoiceId,
+              { ...template, issueDate },
+              numberingSettings
+            );
+          const now = new Date().toISOString();
+          const invoice = {
+            ...this.buildInvoice(template, issueDate, now),
+            invoiceNumber,
+          };
+          const history = repositories.statusHistory(invoiceId);
+          transaction.set(repositories.invoices, invoiceId, invoice);
+          transaction.set(
+            history,
+            history.newId(),
+            InvoiceService.buildStatusChange(
+              null,
+              invoice.status,
+              now,
+              `Generated from recurring template "${template.name}"`
+            )
+          );
+          AuditService.recordInTransaction(
+            transaction,
+            "create",
+            "invoice",
+            invoiceId,
+            null,
+            invoice
+          );
+          return { id: invoiceId, ...invoice };
+        }
+      );
+
+      if (generated) {
+        await RollupService.refresh([{ before: null, after: generated }]);
+        created.push(invoiceId);
+      } else {
+        skipped++;
+      }
+    }
+
+    if (occurrences.length > 0) {
+      const lastGeneratedDate = occurrences[occurrences.length - 1];
+      await this.repository().update(template.id, {
+        lastGeneratedDate,
+        nextRunDate:
+          this.getNextOccurrence({ ...template, lastGeneratedDate }) ??
+          undefined,
+        updatedAt: new Date().toISOString(),
+      });
+    }
+
+    return { created, skipped };
+  }
+
+  /**
+   * Issue dates of a template's occurrences up to and including a date.
+   * Dates are anchored on the start date, so a schedule starting on the 31st
+   * falls on the last day of shorter months.
+   */
+  static getOccurrenceDates(
+    template: Pick<RecurringInvoiceTemplate, "frequency" | "startDate"> & {
+      endDate?: string;
+    },
+    upToDate: string
+  ): string[] {
+    const dates: string[] = [];
+    const lastDate =
+      template.endDate && template.endDate < upToDate
+        ? template.endDate
+        : upToDate;
+
+    for (let index = 0; ; index++) {
+      const date = this.addPeriods(
+        template.startDate,
+        template.frequency,
+        index
+      );
+      if (date > lastDate) break;
+      dates.push(date);
+    }
+
+    return dates;
+  }
+
+  /**
+   * Next occurrence that has not been generated yet, if any
+   */
+  static getNextOccurrence(
+    template: Pick<
+      RecurringInvoiceTemplate,
+      "frequency" | "startDate" | "endDate" | "lastGeneratedDate"
+    >
+  ): string | undefined {
+    for (let index = 0; ; index++) {
+      const date = this.addPeriods(
+        template.startDate,
+        template.frequency,
+        index
+      );
+      if (template.endDate && date > template.endDate) return undefined;
+      if (!template.lastGeneratedDate || date > template.lastGeneratedDate) {
+        return date;
+      }
+    }
+  }
+
+  /**
+   * Deterministic invoice ID for a template occurrence
+   */
+  static getInvoiceId(templateId: string, issueDate: string): string {
+    return `recurring_${templateId}_${issueDate}`;
+  }
+
+  private static buildInvoice(
+    template: RecurringInvoiceTemplate,
+    issueDate: string,
+    now: string
+  ): Omit<Invoice, "id" | "invoiceNumber"> {
+    const subtotal = this.round(
+      template.lineItems.reduce((sum, item) => sum + item.total, 0)
+    );
+    const tax = this.round(subtotal * (template.taxRate || 0));
+    const actor = auth.currentUser?.uid || "system";
+
+    return {
+      propertyId: template.propertyId,
+      providerId: template.providerId,
+      description: template.description,
+      issueDate,
+      dueDate: this.addDays(issueDate, template.dueInDays),
+      status: template.autoSend ? "sent" : "draft",
+      subtotal,
+      tax,
+      total: this.round(subtotal + tax),
+      currency: template.currency,
+      lineItems: template.lineItems,
+      ...(template.notes && { notes: template.notes }),
+      ...(template.terms && { terms: template.terms }),
+      ...(template.paymentInstructions && {
+        paymentInstructions: template.paymentInstructions,
+      }),
+      recurringTemplateId: template.id,
+      recurringPeriodDate: issueDate,
+      createdAt: now,
+      updatedAt: now,
+      createdBy: actor,
+      updatedBy: actor,
+    };
+  }
+
+  private static validateTemplate(
+    template: Pick<
+      RecurringInvoiceTemplate,
+      "name" | "startDate" | "endDate" | "dueInDays" | "lineItems"
+    >
+  ) {
+    if (!template.name?.trim()) {
+      throw new Error("Template name is required");
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(template.startDate || "")) {
+      throw new Error(`Invalid start date: ${template.startDate}`);
+    }
+    if (template.endDate && template.endDate < template.startDate) {
+      throw new Error("End date must be on or after the start date");
+    }
+    if (!(template.dueInDays >= 0)) {
+      throw new Error("Due in days must be zero or more");
+    }
+    if (!template.lineItems || template.lineItems.length === 0) {
+      throw new Error("A recurring invoice needs at least one line item");
+    }
+  }
+
+  /**
+   * Add a number of schedule periods to a YYYY-MM-DD date
+   */
+  private static addPeriods(
+    startDate: string,
+    frequency: RecurrenceFrequency,
+    count: number
+  ): string {
+    const [year, month, day] = startDate.split("-").map(Number);
+
+    if (frequency === "weekly") {
+      return this.addDays(startDate, count * 7);
+    }
+
+    const targetMonth = month - 1 + count * (this.MONTH_STEPS[frequency] || 1);
+    const lastDayOfMonth = new Date(
+      Date.UTC(year, targetMonth + 1, 0)
+    ).getUTCDate();
+    return new Date(
+      Date.UTC(year, targetMonth, Math.min(day, lastDayOfMonth))
+    )
+      .toISOString()
+      .split("T")[0];
+  }
+
+  private static addDays(date: string, days: number): string {
+    const [year, month, day] = date.split("-").map(Number);
+    return new Date(Date.UTC(year, month - 1, day + days))
+      .toISOString()
+      .split("T")[0];
+  }
+
+  private static round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
+
+export default RecurringInvoiceService;
@@ -0,0 +1,282 @@
+import { auth } from "./firebaseConfig";
+import {
+  FinancialRecord,
+  FinancialRollup,
+  Invoice,
+} from "../types/float34";
+import {
+  getRepositories,
+  QueryFilter,
+  Transaction,
+} from "@/repositories";
+import {
+  buildRollups,
+  getChangedRollups,
+  getRollupId,
+  InvoiceChange,
+  recomputeRollups,
+  RollupKey,
+  RollupRefreshRequest,
+  RollupTotals,
+} from "@/lib/financial/rollups";
+import {
+  getBalanceDue,
+  getNetTotal,
+  isOverdue,
+} from "@/lib/financial/amounts";
+import { CurrencyConverter } from "./currencyService";
+import { PaymentService } from "./paymentService";
+import { PeriodService } from "./periodService";
+import { ScopeService } from "./scopeService";
+
+/**
+ * Pre-computed invoice totals in the financialData collection, one document
+ * per property, provider, month, currency, status and category, so reports
+ * can read a handful of rollups instead of every invoice. Only admins and
+ * the server write them: invoice writes ask the server to refresh the
+ * rollups they touch once committed.
+ */
+export class RollupService {
+  private static SETTINGS_DOC = "financialRollups";
+  private static readonly BATCH_SIZE = 400;
+
+  /**
+   * Whether the rollups have been built from the existing invoices. Until
+   * then reports scan invoices, as rollups only see writes made since.
+   */
+  static async isBuilt(): Promise<boolean> {
+    try {
+      const settings = await getRepositories().settings.get(
+        this.SETTINGS_DOC
+      );
+      return !!settings?.builtAt;
+    } catch (error) {
+      console.error("Error checking financial rollups:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Get rollups of the properties the current user may see, optionally for
+   * a range of months (YYYY-MM). Rollups with no invoices left are skipped.
+   */
+  static async getRollups(
+    filters: { fromMonth?: string; toMonth?: string } = {}
+  ): Promise<FinancialRollup[]> {
+    try {
+      const periodFilters: QueryFilter[] = [];
+      if (filters.fromMonth) {
+        periodFilters.push({
+          field: "period",
+          op: ">=",
+          value: filters.fromMonth,
+        });
+      }
+      if (filters.toMonth) {
+        periodFilters.push({
+          field: "period",
+          op: "<=",
+          value: filters.toMonth,
+        });
+      }
+      const rollups = await ScopeService.listScoped(
+        getRepositories().rollups,
+        await ScopeService.getPropertyScope("invoice:read"),
+        { filters: periodFilters }
+      );
+
+      return rollups
+        .filter((rollup) => rollup.invoiceCount > 0);
+    } catch (error) {
+      console.error("Error getting financial rollups:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Bring the rollups an invoice change touches up to date. Only the server
+   * writes rollups, recomputing them from the invoices, so call this once
+   * the change is committed. A failed refresh is logged rather than thrown:
+   * the invoice is saved, and an admin can rebuild the rollups.
+   */
+  static async refresh(changes: InvoiceChange[]): Promise<void> {
+    const keys = getChangedRollups(changes);
+    if (keys.length === 0) return;
+
+    try {
+      // Local data never reaches the server, and Admin SDK writes already
+      // run on it, so these recompute here
+      if (getRepositories().serverWrites) {
+        await this.recompute(keys);
+        return;
+      }
+      if (!auth.currentUser) {
+        throw new Error("Sign in to refresh financial rollups");
+      }
+      const token = await auth.currentUser.getIdToken();
+      const request: RollupRefreshRequest = { keys };
+      const response = await fetch("/api/rollups", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(request),
+      });
+      if (!response.ok) {
+        throw new Error(`Rollup refresh failed (${response.status})`);
+      }
+    } catch (error) {
+      console.warn("⚠️ Financial rollups may be out of date:", error);
+    }
+  }
+
+  /**
+   * Recompute all rollups from the invoices, replacing the existing ones
+   */
+  static async rebuildRollups(invoices: Invoice[]): Promise<number> {
+    try {
+      const repositories = getRepositories();
+      const rollups = this.buildRollups(invoices);
+      const ids = new Set(rollups.map((rollup) => getRollupId(rollup)));
+      const stale = (await repositories.rollups.list()).filter(
+        (rollup) => !ids.has(rollup.id)
+      );
+      const now = new Date().toISOString();
+
+      const writes: ((transaction: Transaction) => void)[] = [
+        ...stale.map((rollup) => (transaction: Transaction) => {
+          transaction.delete(repositories.rollups, rollup.id);
+        }),
+        ...rollups.map((rollup) => (transaction: Transaction) => {
+          transaction.set(repositories.rollups, getRollupId(rollup), {
+            ...rollup,
+            updatedAt: now,
+          });
+        }),
+      ];
+      // A transaction of writes only commits like a batch
+      for (let i = 0; i < writes.length; i += this.BATCH_SIZE) {
+        await repositories.runTransaction(async (transaction) => {
+          writes
+            .slice(i, i + this.BATCH_SIZE)
+            .forEach((write) => write(transaction));
+        });
+      }
+
+      await repositories.settings.set(this.SETTINGS_DOC, {
+        builtAt: now,
+        invoiceCount: invoices.length,
+      });
+
+      console.log(
+        `✅ Rebuilt ${rollups.length} financial rollups from ${invoices.length} invoices`
+      );
+      return rollups.length;
+    } catch (error) {
+      console.error("Error rebuilding financial rollups:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Recompute rollups from the local invoices of their months
+   */
+  private static async recompute(keys: RollupKey[]): Promise<void> {
+    const repositories = getRepositories();
+    const rollups = await recomputeRollups(keys, (period) =>
+      repositories.invoices.list({
+        filters: [
+          { field: "issueDate", op: ">=", value: period },
+          { field: "issueDate", op: "<=", value: `${period}\uf8ff` },
+        ],
+      })
+    );
+
+    const now = new Date().toISOString();
+    await repositories.runTransaction(async (transaction) => {
+      rollups.forEach((rollup, id) => {
+        if (rollup) {
+          transaction.set(repositories.rollups, id, {
+            ...rollup,
+            updatedAt: now,
+          });
+        } else {
+          transaction.delete(repositories.rollups, id);
+        }
+      });
+    });
+  }
+
+  /**
+   * Aggregate invoices into rollup totals
+   */
+  static buildRollups(invoices: Invoice[]): RollupTotals[] {
+    return Array.from(buildRollups(invoices).values());
+  }
+
+  /**
+   * Report record for a single invoice, net of its credit notes, in the
+   * invoice's own currency unless it has already been converted. It is
+   * overdue if it is on the given day (YYYY-MM-DD), by default today.
+   */
+  static toRecord(invoice: Invoice, today?: string): FinancialRecord {
+    const overdue = isOverdue(invoice, today);
+    const balanceDue = getBalanceDue(invoice);
+    return {
+      propertyId: invoice.propertyId,
+      providerId: invoice.providerId,
+      status: invoice.status,
+      category: invoice.category || "",
+      issueDate: invoice.issueDate,
+      total: getNetTotal(invoice),
+      amountPaid: PaymentService.getAmountPaid(invoice),
+      balanceDue,
+      overdueBalance: overdue ? balanceDue : 0,
+      invoiceCount: 1,
+      paidInvoiceCount: invoice.status === "paid" ? 1 : 0,
+      overdueInvoiceCount: overdue ? 1 : 0,
+    };
+  }
+
+  /**
+   * Report records for rollups in the reporting currency. Amounts are
+   * converted at the rate for the last day of the month. Balances due
+   * before the given day (YYYY-MM-DD), by default today, are overdue.
+   */
+  static toRecords(
+    rollups: FinancialRollup[],
+    converter: CurrencyConverter,
+    today: string = new Date().toISOString().slice(0, 10)
+  ): FinancialRecord[] {
+    return rollups.map((rollup) => {
+      const range = PeriodService.getPeriodRange(rollup.period, "MONTH", 1);
+      const convert = (amount: number) =>
+        converter.convert(amount, rollup.currency, range?.to || "");
+      const overdue = Object.entries(rollup.balanceByDueDate || {})
+        .filter(([dueDay]) => dueDay < today)
+        .map(([, balance]) => balance);
+      return {
+        propertyId: rollup.propertyId,
+        providerId: rollup.providerId,
+        status: rollup.status,
+        category: rollup.category || "",
+        issueDate: range?.from || rollup.period,
+        total: convert(rollup.revenue),
+        amountPaid: convert(rollup.amountPaid),
+        balanceDue: convert(rollup.balanceDue || 0),
+        overdueBalance: convert(
+          overdue.reduce((sum, { balance }) => sum + balance, 0)
+        ),
+        invoiceCount: rollup.invoiceCount,
+        paidInvoiceCount: rollup.paidInvoiceCount,
+        overdueInvoiceCount: overdue.reduce(
+          (sum, { invoiceCount }) => sum + invoiceCount,
+          0
+        ),
+      };
+    });
+  }
+}
+
+export default RollupService;
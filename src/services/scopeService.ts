@@ -0,0 +1,140 @@
+import { auth } from "./firebaseConfig";
+import { UserService, UserProfile } from "./userService";
+import { ListOptions, Repository } from "@/repositories";
+import {
+  AccessResource,
+  Action,
+  can,
+  getPropertyScope,
+} from "@/lib/auth/permissions";
+
+// Property ids a listing is limited to, or null for every property
+export type PropertyScope = string[] | null;
+
+/**
+ * Limits listings and aggregations to the properties the signed-in user
+ * may see. Firestore rules deny managers any query that could return
+ * records outside their properties, so scoped reads filter on propertyId.
+ */
+export class ScopeService {
+  // Firestore "in" filters take at most 30 values
+  static readonly MAX_IN_VALUES = 30;
+  // Role and scope changes reach a signed-in user within a minute
+  private static readonly PROFILE_CACHE_MS = 60 * 1000;
+
+  private static profileCache: {
+    uid: string;
+    profile: Promise<UserProfile | null>;
+    loadedAt: number;
+  } | null = null;
+
+  /**
+   * Property scope of the signed-in user for an action, optionally on one
+   * provider's records. Without a signed-in user nothing is scoped here and
+   * the data store's own rules apply.
+   */
+  static async getPropertyScope(
+    action: Action = "property:read",
+    providerId?: string
+  ): Promise<PropertyScope> {
+    const uid = auth.currentUser?.uid;
+    if (!uid) return null;
+    return getPropertyScope(await this.getProfile(uid), action, providerId);
+  }
+
+  /**
+   * Throw unless the signed-in user may perform the action on the record.
+   * Without a signed-in user the data store's own rules apply.
+   */
+  static async assertCan(
+    action: Action,
+    resource: AccessResource,
+    message = "Insufficient permissions"
+  ): Promise<void> {
+    const uid = auth.currentUser?.uid;
+    if (uid && !can(await this.getProfile(uid), action, resource)) {
+      throw new Error(message);
+    }
+  }
+
+  /**
+   * Whether a record of the property falls within the scope
+   */
+  static isInScope(scope: PropertyScope, propertyId?: string): boolean {
+    return !scope || (!!propertyId && scope.includes(propertyId));
+  }
+
+  /**
+   * Split a scope into groups of ids small enough for one "in" filter.
+   * An unscoped listing is a single unfiltered group.
+   */
+  static getGroups(scope: PropertyScope): (string[] | null)[] {
+    if (!scope) return [null];
+    const ids = Array.from(new Set(scope));
+    const groups: string[][] = [];
+    for (let i = 0; i < ids.length; i += this.MAX_IN_VALUES) {
+      groups.push(ids.slice(i, i + this.MAX_IN_VALUES));
+    }
+    return groups;
+  }
+
+  /**
+   * List repository records within the scope, one query per group of
+   * property ids. Merged results are ordered and limited again.
+   */
+  static async listScoped<T>(
+    repository: Repository<T>,
+    scope: PropertyScope,
+    options: ListOptions = {},
+    field = "propertyId"
+  ): Promise<T[]> {
+    const groups = this.getGroups(scope);
+    const results = await Promise.all(
+      groups.map((ids) =>
+        repository.list(
+          ids
+            ? {
+                ...options,
+                filters: [
+                  ...(options.filters || []),
+                  { field, op: "in", value: ids },
+                ],
+              }
+            : options
+        )
+      )
+    );
+    if (results.length <= 1) return results[0] || [];
+
+    const records = results.flat();
+    if (options.orderBy) {
+      const { field: orderField, direction } = options.orderBy;
+      const sign = direction === "desc" ? -1 : 1;
+      const valueOf = (record: T) =>
+        (record as Record<string, unknown>)[orderField];
+      records.sort((a, b) => sign * this.compare(valueOf(a), valueOf(b)));
+    }
+    return options.limit ? records.slice(0, options.limit) : records;
+  }
+
+  private static compare(a: unknown, b: unknown): number {
+    if (typeof a === "number" && typeof b === "number") return a - b;
+    return String(a ?? "").localeCompare(String(b ?? ""));
+  }
+
+  private static getProfile(uid: string): Promise<UserProfile | null> {
+    const cached = this.profileCache;
+    if (
+      cached &&
+      cached.uid === uid &&
+      Date.now() - cached.loadedAt < this.PROFILE_CACHE_MS
+    ) {
+      return cached.profile;
+    }
+    const profile = UserService.getUserProfile(uid);
+    this.profileCache = { uid, profile, loadedAt: Date.now() };
+    return profile;
+  }
+}
+
+export default ScopeService;
@@ -1,76 +1,125 @@
+import { Unsubscribe } from "firebase/firestore";
+import { auth, SecurityUtils } from "./firebaseConfig";
 import {
-  collection,
-  doc,
-  getDocs,
-  getDoc,
-  addDoc,
-  updateDoc,
-  deleteDoc,
-  query,
-  where,
-  orderBy,
-  limit,
-  startAfter,
-  QueryDocumentSnapshot,
-  DocumentData,
-  writeBatch,
-  runTransaction,
-  onSnapshot,
-  Unsubscribe,
-} from "firebase/firestore";
-import { db, DataEncryption, SecurityUtils } from "./firebaseConfig";
-import {
+  AuditAction,
   Provider,
   ServiceProviderCreateRequest,
   ServiceProviderUpdateRequest,
   ServiceProviderSearchParams,
 } from "@/types/float34";
+import {
+  getDataBackend,
+  getRepositories,
+  QueryFilter,
+} from "@/repositories";
+import {
+  hasProviderSecrets,
+  pickProviderSecrets,
+  ProviderSecrets,
+  ProviderSecretsRequest,
+  ProviderSecretsResponse,
+} from "@/lib/crypto/providerSecrets";
+import { AuditService } from "./auditService";
+import { UserService } from "./userService";
 
 export class ServiceProviderService {
   private static readonly COLLECTION_NAME = "serviceProviders";
   private static readonly BATCH_SIZE = 20;
+  private static readonly SECRETS_BATCH_SIZE = 100;
+
+  private static repository() {
+    return getRepositories().providers;
+  }
 
   /**
-   * Check if Firebase is available and connected
+   * Check if the data store is available
    */
   private static async checkFirebaseConnection(): Promise<boolean> {
-    try {
-      // Check if user is authenticated first
-      const { auth } = await import("./firebaseConfig");
-      const currentUser = auth.currentUser;
+    return this.repository().isAvailable();
+  }
 
-      if (!currentUser) {
-        console.warn(
-          "⚠️ Firebase connection check failed: User not authenticated"
-        );
-        return false;
-      }
+  /**
+   * Call the server-side encryption route, which holds the keys, as the
+   * signed-in user
+   */
+  private static async requestSecrets(
+    request: ProviderSecretsRequest
+  ): Promise<ProviderSecretsResponse> {
+    if (!auth.currentUser) {
+      throw new Error("Sign in to read or change provider secrets");
+    }
+    const token = await auth.currentUser.getIdToken();
+    const response = await fetch("/api/providers/secrets", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify(request),
+    });
+    if (!response.ok) {
+      throw new Error(`Provider secrets request failed (${response.status})`);
+    }
+    return (await response.json()) as ProviderSecretsResponse;
+  }
 
-      // Try to access the serviceProviders collection instead of a non-existent _health collection
-      // This will test both connection and permissions
-      const testQuery = query(collection(db, this.COLLECTION_NAME), limit(1));
-      await getDocs(testQuery);
-      return true;
-    } catch (error: any) {
-      if (
-        error.code === "permission-denied" ||
-        error.message?.includes("permission-denied")
-      ) {
-        console.warn(
-          "⚠️ Firebase connection check failed: Missing or insufficient permissions"
-        );
-      } else if (
-        error.code === "unauthenticated" ||
-        error.message?.includes("unauthenticated")
-      ) {
-        console.warn(
-          "⚠️ Firebase connection check failed: User not authenticated"
-        );
-      } else {
-        console.warn("⚠️ Firebase connection check failed:", error);
-      }
-      return false;
+  /**
+   * Encrypt or re-encrypt the secret fields of each provider. Providers
+   * without secrets are not sent. The local backend keeps its data in the
+   * browser, where there are no keys, so it stores secrets as entered.
+   */
+  private static async processSecrets<T extends ProviderSecrets>(
+    action: "encrypt" | "rotate",
+    providers: T[]
+  ): Promise<{ providers: T[]; changed: boolean[]; legacyValues: number }> {
+    const secrets = providers.map(pickProviderSecrets);
+    const indexes = secrets.flatMap((secret, index) =>
+      secret ? [index] : []
+    );
+    const result = {
+      providers: [...providers],
+      changed: providers.map(() => false),
+      legacyValues: 0,
+    };
+    if (indexes.length === 0 || getDataBackend() === "local") return result;
+
+    const processed = await this.requestSecrets({
+      action,
+      providers: indexes.map((index) => secrets[index] as ProviderSecrets),
+    });
+
+    indexes.forEach((index, position) => {
+      result.providers[index] = {
+        ...providers[index],
+        ...processed.providers[position],
+      };
+      result.changed[index] = processed.changed[position];
+    });
+    result.legacyValues = processed.legacyValues;
+    return result;
+  }
+
+  /**
+   * A stored provider with its secret fields decrypted. The server reads the
+   * secrets itself, and only for admins and the provider's own users.
+   */
+  private static async decryptSecrets(provider: Provider): Promise<Provider> {
+    if (!hasProviderSecrets(provider) || getDataBackend() === "local") {
+      return provider;
     }
+    const processed = await this.requestSecrets({
+      action: "decrypt",
+      providerIds: [provider.id],
+    });
+    return { ...provider, ...processed.providers[0] };
+  }
+
+  private static async encryptSecrets<T extends ProviderSecrets>(
+    data: T
+  ): Promise<T> {
+    if (!hasProviderSecrets(data)) return data;
+    const { providers } = await this.processSecrets("encrypt", [data]);
+    return providers[0];
   }
 
   /**
@@ -91,13 +140,10 @@ export class ServiceProviderService {
         };
       }
 
-      // Validate user permissions
-      const hasPermission = await SecurityUtils.validateProviderAccess(
-        "",
-        userId,
-        "write"
-      );
-      if (!hasPermission) {
+      // Anyone may register a provider for an admin to approve; only users
+      // who may create providers choose another status
+      const canCreate = await UserService.can(userId, "provider:create");
+      if (!canCreate && providerData.status !== "pending") {
         return {
           success: false,
           error: "Insufficient permissions to create service providers",
@@ -119,6 +165,7 @@ export class ServiceProviderService {
       // Prepare data for storage
       const providerToStore = {
         ...sanitizedData,
+        ...(!canCreate && { status: "pending" as const }),
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
         lastActive: new Date().toISOString(),
@@ -148,15 +195,22 @@ export class ServiceProviderService {
       };
 
       // Encrypt sensitive data
-      const encryptedData = DataEncryption.encryptProviderData(providerToStore);
-
-      // Store in Firestore
-      const docRef = await addDoc(
-        collection(db, this.COLLECTION_NAME),
-        encryptedData
-      );
+      const encryptedData = await this.encryptSecrets(providerToStore);
+
+      const providerId = this.repository().newId();
+      await getRepositories().runTransaction(async (transaction) => {
+        transaction.set(this.repository(), providerId, encryptedData);
+        AuditService.recordInTransaction(
+          transaction,
+          "create",
+          "serviceProvider",
+          providerId,
+          null,
+          encryptedData
+        );
+      });
 
-      return { success: true, providerId: docRef.id };
+      return { success: true, providerId };
     } catch (error) {
       console.error("Error creating service provider:", error);
 
@@ -189,7 +243,7 @@ export class ServiceProviderService {
   }
 
   /**
-   * Get a service provider by ID with decryption
+   * Get a service provider by ID with its secret fields decrypted
    */
   static async getProviderById(providerId: string): Promise<Provider | null> {
     try {
@@ -200,21 +254,8 @@ export class ServiceProviderService {
         return null;
       }
 
-      const docRef = doc(db, this.COLLECTION_NAME, providerId);
-      const docSnap = await getDoc(docRef);
-
-      if (!docSnap.exists()) {
-        return null;
-      }
-
-      const data = docSnap.data();
-      // Decrypt sensitive data
-      const decryptedData = DataEncryption.decryptProviderData(data);
-
-      return {
-        id: docSnap.id,
-        ...decryptedData,
-      } as Provider;
+      const provider = await this.repository().get(providerId);
+      return provider && (await this.decryptSecrets(provider));
     } catch (error) {
       console.error("Error fetching service provider:", error);
       return null;
@@ -222,15 +263,30 @@ export class ServiceProviderService {
   }
 
   /**
-   * Get all service providers with pagination and search
+   * Get the display name of a service provider. Its secret fields are
+   * never decrypted, so any user who may read the provider can call it.
+   */
+  static async getProviderName(providerId: string): Promise<string | null> {
+    try {
+      const provider = await this.repository().get(providerId);
+      return provider ? provider.businessName || provider.name : null;
+    } catch (error) {
+      console.error("Error fetching service provider name:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Get all service providers with pagination and search. Secret fields
+   * stay encrypted; use getProviderById to read them.
    */
   static async getProviders(
     params: ServiceProviderSearchParams = {},
-    lastDoc?: QueryDocumentSnapshot<unknown, DocumentData>,
+    lastDoc?: string,
     pageSize: number = this.BATCH_SIZE
   ): Promise<{
     providers: Provider[];
-    lastDoc?: QueryDocumentSnapshot<unknown, DocumentData>;
+    lastDoc?: string; // id of the last provider, to fetch the next page
     hasMore: boolean;
   }> {
     try {
@@ -245,80 +301,47 @@ export class ServiceProviderService {
         return { providers: [], hasMore: false };
       }
 
-      let q: any = collection(db, this.COLLECTION_NAME);
-
       // Build query based on search parameters
       // IMPORTANT: Limit to 2 where clauses to avoid complex composite indexes
-      const constraints: any[] = [];
-      let hasComplexQuery = false;
+      const filters: QueryFilter[] = [];
 
       // Priority 1: Status filter (most common)
       if (params.status) {
-        constraints.push(where("status", "==", params.status));
+        filters.push({ field: "status", op: "==", value: params.status });
       }
 
       // Priority 2: Service filter
-      if (params.service && constraints.length < 2) {
-        constraints.push(where("service", "==", params.service));
+      if (params.service && filters.length < 2) {
+        filters.push({ field: "service", op: "==", value: params.service });
       }
 
       // Priority 3: Rating filter (if we still have room)
-      if (params.rating && constraints.length < 2) {
-        constraints.push(where("rating", ">=", params.rating));
+      if (params.rating && filters.length < 2) {
+        filters.push({ field: "rating", op: ">=", value: params.rating });
       }
 
+      // Always order by name for consistency, paginating from lastDoc
+      const page = await this.repository().list({
+        filters,
+        orderBy: { field: "name", direction: "asc" },
+        startAfter: lastDoc,
+        limit: pageSize,
+      });
+
       // Note: serviceCategories array query requires special indexing
       // We'll filter this in memory to avoid complex composite indexes
-      if (params.serviceCategories && params.serviceCategories.length > 0) {
-        hasComplexQuery = true;
-      }
-
-      // Add ordering - always order by name for consistency
-      constraints.push(orderBy("name", "asc"));
-
-      // Add pagination
-      if (lastDoc) {
-        constraints.push(startAfter(lastDoc));
-      }
-
-      // Add limit
-      constraints.push(limit(pageSize));
-
-      // Apply constraints to query
-      let finalQuery = q;
-      if (constraints.length > 0) {
-        finalQuery = query(q, ...constraints);
-      }
-
-      const querySnapshot = await getDocs(finalQuery);
-      const providers: Provider[] = [];
-
-      querySnapshot.forEach((doc) => {
-        const data = doc.data();
-        // Decrypt sensitive data
-        const decryptedData = DataEncryption.decryptProviderData(data);
-
-        // Apply in-memory filtering for complex queries
-        if (hasComplexQuery && params.serviceCategories) {
-          const hasMatchingCategory = params.serviceCategories.some(
-            (category) => decryptedData.serviceCategories?.includes(category)
-          );
-          if (!hasMatchingCategory) return;
-        }
-
-        providers.push({
-          id: doc.id,
-          ...decryptedData,
-        } as Provider);
-      });
+      const providers = page.filter(
+        (provider) =>
+          !params.serviceCategories?.length ||
+          params.serviceCategories.some((category) =>
+            provider.serviceCategories?.includes(category)
+          )
+      );
 
       return {
         providers,
-        lastDoc:
-          querySnapshot.docs.length > 0
-            ? querySnapshot.docs[querySnapshot.docs.length - 1]
-            : undefined,
-        hasMore: querySnapshot.docs.length === pageSize,
+        lastDoc: page.length > 0 ? page[page.length - 1].id : undefined,
+        hasMore: page.length === pageSize,
       };
     } catch (error: any) {
       console.error("❌ Error fetching service providers:", error);
@@ -359,11 +382,11 @@ export class ServiceProviderService {
    */
   static async searchProviders(
     searchQuery: string,
-    lastDoc?: QueryDocumentSnapshot<unknown, DocumentData>,
+    lastDoc?: string,
     pageSize: number = this.BATCH_SIZE
   ): Promise<{
     providers: Provider[];
-    lastDoc?: QueryDocumentSnapshot<unknown, DocumentData>;
+    lastDoc?: string;
     hasMore: boolean;
   }> {
     try {
@@ -420,11 +443,9 @@ export class ServiceProviderService {
   ): Promise<{ success: boolean; error?: string }> {
     try {
       // Validate user permissions
-      const hasPermission = await SecurityUtils.validateProviderAccess(
+      const hasPermission = await UserService.can(userId, "provider:write", {
         providerId,
-        userId,
-        "write"
-      );
+      });
       if (!hasPermission) {
         return {
           success: false,
@@ -452,11 +473,9 @@ export class ServiceProviderService {
       };
 
       // Encrypt sensitive data
-      const encryptedData = DataEncryption.encryptProviderData(dataToUpdate);
+      const encryptedData = await this.encryptSecrets(dataToUpdate);
 
-      // Update in Firestore
-      const docRef = doc(db, this.COLLECTION_NAME, providerId);
-      await updateDoc(docRef, encryptedData);
+      await this.updateWithAudit(providerId, encryptedData);
 
       return { success: true };
     } catch (error) {
@@ -474,11 +493,9 @@ export class ServiceProviderService {
   ): Promise<{ success: boolean; error?: string }> {
     try {
       // Validate user permissions
-      const hasPermission = await SecurityUtils.validateProviderAccess(
+      const hasPermission = await UserService.can(userId, "provider:delete", {
         providerId,
-        userId,
-        "delete"
-      );
+      });
       if (!hasPermission) {
         return {
           success: false,
@@ -487,12 +504,15 @@ export class ServiceProviderService {
       }
 
       // Soft delete - mark as inactive instead of hard delete
-      const docRef = doc(db, this.COLLECTION_NAME, providerId);
-      await updateDoc(docRef, {
-        status: "suspended",
-        updatedAt: new Date().toISOString(),
-        updatedBy: userId,
-      });
+      await this.updateWithAudit(
+        providerId,
+        {
+          status: "suspended",
+          updatedAt: new Date().toISOString(),
+          updatedBy: userId,
+        },
+        "delete"
+      );
 
       return { success: true };
     } catch (error) {
@@ -512,17 +532,17 @@ export class ServiceProviderService {
     results: Array<{ id: string; success: boolean; error?: string }>;
   }> {
     try {
-      const batch = writeBatch(db);
+      const writes: Array<{ id: string; data: Partial<Provider> }> = [];
       const results: Array<{ id: string; success: boolean; error?: string }> =
         [];
 
       for (const update of updates) {
         try {
           // Validate permissions for each provider
-          const hasPermission = await SecurityUtils.validateProviderAccess(
-            update.id,
+          const hasPermission = await UserService.can(
             userId,
-            "write"
+            "provider:write",
+            { providerId: update.id }
           );
           if (!hasPermission) {
             results.push({
@@ -551,10 +571,8 @@ export class ServiceProviderService {
             updatedBy: userId,
           };
 
-          const encryptedData =
-            DataEncryption.encryptProviderData(dataToUpdate);
-          const docRef = doc(db, this.COLLECTION_NAME, update.id);
-          batch.update(docRef, encryptedData);
+          const encryptedData = await this.encryptSecrets(dataToUpdate);
+          writes.push({ id: update.id, data: encryptedData });
 
           results.push({ id: update.id, success: true });
         } catch (error) {
@@ -566,7 +584,9 @@ export class ServiceProviderService {
         }
       }
 
-      await batch.commit();
+      await Promise.all(
+        writes.map(({ id, data }) => this.updateWithAudit(id, data))
+      );
       return { success: true, results };
     } catch (error) {
       console.error("Error in bulk update:", error);
@@ -575,42 +595,106 @@ export class ServiceProviderService {
   }
 
   /**
-   * Get real-time updates for service providers
+   * Get real-time updates for service providers, with secret fields
+   * still encrypted
    */
   static subscribeToProviders(
     callback: (providers: Provider[]) => void,
     params: ServiceProviderSearchParams = {}
   ): Unsubscribe {
     try {
-      let q: any = collection(db, this.COLLECTION_NAME);
-      const constraints: any[] = [];
+      return this.repository().subscribe(
+        {
+          filters: params.status
+            ? [{ field: "status", op: "==", value: params.status }]
+            : [],
+          orderBy: { field: "name", direction: "asc" },
+        },
+        callback
+      );
+    } catch (error) {
+      console.error("Error setting up provider subscription:", error);
+      return () => {}; // Return empty unsubscribe function
+    }
+  }
 
-      if (params.status) {
-        constraints.push(where("status", "==", params.status));
-      }
+  /**
+   * Re-encrypt every provider's secrets under the current key version,
+   * upgrading values stored by the old base64 encoding. Run after adding a
+   * new key; providers already on the current key are left untouched.
+   */
+  static async reEncryptSecrets(userId: string): Promise<{
+    scanned: number;
+    updated: number;
+    legacyValues: number;
+  }> {
+    try {
+      const providers = await this.repository().list();
+      const summary = {
+        scanned: providers.length,
+        updated: 0,
+        legacyValues: 0,
+      };
 
-      constraints.push(orderBy("name", "asc"));
+      for (
+        let start = 0;
+        start < providers.length;
+        start += this.SECRETS_BATCH_SIZE
+      ) {
+        const rotated = await this.processSecrets(
+          "rotate",
+          providers.slice(start, start + this.SECRETS_BATCH_SIZE)
+        );
 
-      return onSnapshot(query(q, ...constraints), (querySnapshot) => {
-        const providers: Provider[] = [];
-        querySnapshot.forEach((doc) => {
-          const data = doc.data();
-          const decryptedData = DataEncryption.decryptProviderData(data);
+        const updates = rotated.providers.filter(
+          (_, index) => rotated.changed[index]
+        );
+        await Promise.all(
+          updates.map((provider) =>
+            this.updateWithAudit(provider.id, {
+              ...pickProviderSecrets(provider),
+              updatedAt: new Date().toISOString(),
+              updatedBy: userId,
+            })
+          )
+        );
 
-          providers.push({
-            id: doc.id,
-            ...decryptedData,
-          } as Provider);
-        });
+        summary.updated += updates.length;
+        summary.legacyValues += rotated.legacyValues;
+      }
 
-        callback(providers);
-      });
+      console.log(
+        `✅ Re-encrypted secrets of ${summary.updated} of ${summary.scanned} providers`
+      );
+      return summary;
     } catch (error) {
-      console.error("Error setting up provider subscription:", error);
-      return () => {}; // Return empty unsubscribe function
+      console.error("Error re-encrypting provider secrets:", error);
+      throw error;
     }
   }
 
+  /**
+   * Update a provider and record the change in the same transaction
+   */
+  private static async updateWithAudit(
+    providerId: string,
+    changes: Partial<Provider>,
+    action: AuditAction = "update"
+  ): Promise<void> {
+    await getRepositories().runTransaction(async (transaction) => {
+      const before = await transaction.get(this.repository(), providerId);
+      transaction.update(this.repository(), providerId, changes);
+      AuditService.recordInTransaction(
+        transaction,
+        action,
+        "serviceProvider",
+        providerId,
+        before,
+        { ...before, ...changes }
+      );
+    });
+  }
+
   /**
    * Get service provider statistics
    */
@@ -622,8 +706,7 @@ export class ServiceProviderService {
     suspended: number;
   }> {
     try {
-      const q = collection(db, this.COLLECTION_NAME);
-      const querySnapshot = await getDocs(q);
+      const providers = await this.repository().list();
 
       const stats = {
         total: 0,
@@ -633,10 +716,9 @@ export class ServiceProviderService {
         suspended: 0,
       };
 
-      querySnapshot.forEach((doc) => {
-        const data = doc.data();
+      providers.forEach((provider) => {
         stats.total++;
-        const status = data.status as keyof typeof stats;
+        const status = provider.status as keyof typeof stats;
         if (status && status in stats) {
           stats[status]++;
         }
@@ -906,43 +988,49 @@ export class ServiceProviderService {
         },
       ];
 
-      // Get existing provider documents to update them
-      const existingProviderDocs = await getDocs(
-        collection(db, "serviceProviders")
-      );
-      const batch = writeBatch(db);
+      // Get existing providers to update them
+      const repositories = getRepositories();
+      const storedProviders = await repositories.providers.list();
+      // The samples leave out payment methods
+      const samples = serviceProvidersData as unknown as Omit<
+        Provider,
+        "id"
+      >[];
       let updatedCount = 0;
 
-      if (!existingProviderDocs.empty) {
-        // Update existing providers with proper data
-        existingProviderDocs.docs.forEach((doc, index) => {
-          if (index < serviceProvidersData.length) {
-            const providerData = serviceProvidersData[index];
-            batch.update(doc.ref, {
-              ...providerData,
-              updatedAt: new Date().toISOString(),
-              updatedBy: "system",
-            });
+      await repositories.runTransaction(async (transaction) => {
+        if (storedProviders.length > 0) {
+          // Update existing providers with proper data
+          storedProviders.forEach((provider, index) => {
+            if (index < samples.length) {
+              const providerData = samples[index];
+              transaction.update(repositories.providers, provider.id, {
+                ...providerData,
+                updatedAt: new Date().toISOString(),
+                updatedBy: "system",
+              });
+              updatedCount++;
+            }
+          });
+        } else {
+          // Create new providers if none exist
+          samples.forEach((providerData) => {
+            transaction.set(
+              repositories.providers,
+              repositories.providers.newId(),
+              {
+                ...providerData,
+                createdAt: new Date().toISOString(),
+                updatedAt: new Date().toISOString(),
+                lastActive: new Date().toISOString(),
+                createdBy: "system",
+                updatedBy: "system",
+              } as Omit<Provider, "id">
+            );
             updatedCount++;
-          }
-        });
-      } else {
-        // Create new providers if none exist
-        serviceProvidersData.forEach((providerData) => {
-          const docRef = doc(collection(db, "serviceProviders"));
-          batch.set(docRef, {
-            ...providerData,
-            createdAt: new Date().toISOString(),
-            updatedAt: new Date().toISOString(),
-            lastActive: new Date().toISOString(),
-            createdBy: "system",
-            updatedBy: "system",
           });
-          updatedCount++;
-        });
-      }
-
-      await batch.commit();
+        }
+      });
       console.log(
         `✅ Successfully seeded ${updatedCount} service providers with proper data`
       );
@@ -1,14 +1,7 @@
-import {
-  doc,
-  setDoc,
-  getDoc,
-  updateDoc,
-  collection,
-  query,
-  where,
-  getDocs,
-} from "firebase/firestore";
-import { db, auth } from "./firebaseConfig";
+import { auth } from "./firebaseConfig";
+import { getRepositories } from "@/repositories";
+import { AuditService } from "./auditService";
+import { AccessResource, Action, can } from "@/lib/auth/permissions";
 
 export interface UserProfile {
   uid: string;
@@ -28,10 +21,67 @@ export interface UserProfile {
   managedProperties?: string[];
   // Access control
   accessiblePropertyIds?: string[];
+  // Written by createOrUpdateUserProfile
+  displayName?: string;
+  propertyIds?: string[]; // properties the user owns
+  providerIds?: string[]; // service providers the user manages
+  createdBy?: string;
+  updatedBy?: string;
 }
 
 export class UserService {
-  private static readonly COLLECTION_NAME = "users";
+  private static repository() {
+    return getRepositories().users;
+  }
+
+  /**
+   * Check if the data store is available
+   */
+  private static async checkFirebaseConnection(): Promise<boolean> {
+    return this.repository().isAvailable();
+  }
+
+  /**
+   * Apply changes to a profile and record them in the audit log, in one
+   * transaction
+   */
+  private static async applyUpdate(
+    uid: string,
+    changes: Partial<UserProfile>
+  ): Promise<void> {
+    await getRepositories().runTransaction(async (transaction) => {
+      const before = await transaction.get(this.repository(), uid);
+      transaction.update(this.repository(), uid, changes);
+      AuditService.recordInTransaction(
+        transaction,
+        "update",
+        "user",
+        uid,
+        before,
+        { ...before, ...changes }
+      );
+    });
+  }
+
+  /**
+   * Create a profile and record it in the audit log, in one transaction
+   */
+  private static async applyCreate(
+    uid: string,
+    profile: UserProfile
+  ): Promise<void> {
+    await getRepositories().runTransaction(async (transaction) => {
+      transaction.set(this.repository(), uid, profile);
+      AuditService.recordInTransaction(
+        transaction,
+        "create",
+        "user",
+        uid,
+        null,
+        profile
+      );
+    });
+  }
 
   /**
    * Create a new user profile
@@ -57,7 +107,7 @@ export class UserService {
         profileCompleted: false,
       };
 
-      await setDoc(doc(db, this.COLLECTION_NAME, user.uid), userProfile);
+      await this.applyCreate(user.uid, userProfile);
 
       return { success: true };
     } catch (error) {
@@ -71,20 +121,37 @@ export class UserService {
    */
   static async getUserProfile(uid: string): Promise<UserProfile | null> {
     try {
-      const docRef = doc(db, this.COLLECTION_NAME, uid);
-      const docSnap = await getDoc(docRef);
-
-      if (!docSnap.exists()) {
-        return null;
-      }
-
-      return docSnap.data() as UserProfile;
+      return await this.repository().get(uid);
     } catch (error) {
       console.error("Error fetching user profile:", error);
       return null;
     }
   }
 
+  /**
+   * Get all user profiles, for assigning roles
+   */
+  static async getUsers(): Promise<UserProfile[]> {
+    try {
+      const users = await this.repository().list();
+      return users.sort((a, b) => (a.email || "").localeCompare(b.email || ""));
+    } catch (error) {
+      console.error("Error fetching user profiles:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Whether the user may perform the action, according to their profile
+   */
+  static async can(
+    uid: string,
+    action: Action,
+    resource?: AccessResource
+  ): Promise<boolean> {
+    return can(await this.getUserProfile(uid), action, resource);
+  }
+
   /**
    * Update user profile
    */
@@ -93,8 +160,7 @@ export class UserService {
     updates: Partial<UserProfile>
   ): Promise<{ success: boolean; error?: string }> {
     try {
-      const docRef = doc(db, this.COLLECTION_NAME, uid);
-      await updateDoc(docRef, {
+      await this.applyUpdate(uid, {
         ...updates,
         updatedAt: new Date().toISOString(),
       });
@@ -111,8 +177,7 @@ export class UserService {
    */
   static async updateLastLogin(uid: string): Promise<void> {
     try {
-      const docRef = doc(db, this.COLLECTION_NAME, uid);
-      await updateDoc(docRef, {
+      await this.applyUpdate(uid, {
         lastLogin: new Date().toISOString(),
       });
     } catch (error) {
@@ -125,17 +190,11 @@ export class UserService {
    */
   static async getUserByEmail(email: string): Promise<UserProfile | null> {
     try {
-      const q = query(
-        collection(db, this.COLLECTION_NAME),
-        where("email", "==", email)
-      );
-      const querySnapshot = await getDocs(q);
-
-      if (querySnapshot.empty) {
-        return null;
-      }
-
-      return querySnapshot.docs[0].data() as UserProfile;
+      const users = await this.repository().list({
+        filters: [{ field: "email", op: "==", value: email }],
+        limit: 1,
+      });
+      return users[0] || null;
     } catch (error) {
       console.error("Error fetching user by email:", error);
       return null;
@@ -161,8 +220,7 @@ export class UserService {
     uid: string
   ): Promise<{ success: boolean; error?: string }> {
     try {
-      const docRef = doc(db, this.COLLECTION_NAME, uid);
-      await updateDoc(docRef, {
+      await this.applyUpdate(uid, {
         profileCompleted: true,
         updatedAt: new Date().toISOString(),
       });
@@ -182,8 +240,7 @@ export class UserService {
     providerId: string
   ): Promise<{ success: boolean; error?: string }> {
     try {
-      const docRef = doc(db, this.COLLECTION_NAME, uid);
-      await updateDoc(docRef, {
+      await this.applyUpdate(uid, {
         providerId,
         updatedAt: new Date().toISOString(),
       });
@@ -216,8 +273,7 @@ export class UserService {
 
       if (existingProfile) {
         // Update existing profile
-        const docRef = doc(db, "users", userId);
-        await updateDoc(docRef, {
+        await this.applyUpdate(userId, {
           ...userData,
           updatedAt: new Date().toISOString(),
           updatedBy: userId,
@@ -225,12 +281,13 @@ export class UserService {
         return { success: true, profileId: userId };
       } else {
         // Create new profile
-        const docRef = doc(db, "users", userId);
-        await setDoc(docRef, {
+        await this.applyCreate(userId, {
           uid: userId,
           email: userData.email || "",
           displayName: userData.displayName || "",
           role: userData.role || "user",
+          // New profiles wait for an admin to activate them
+          status: userData.status || "pending",
           propertyIds: userData.propertyIds || [], // Properties user owns
           accessiblePropertyIds: userData.accessiblePropertyIds || [], // Properties user can access
           providerIds: userData.providerIds || [], // Service providers user manages
@@ -133,6 +133,7 @@ export type Provider = {
     safetyTraining: boolean;
     lastUpdated: string;
   };
+  complianceDocuments?: ComplianceDocument[]; // uploaded by the provider
 
   // Timestamps
   createdAt: string;
@@ -141,6 +142,26 @@ export type Provider = {
   updatedBy: string;
 };
 
+export type ComplianceDocumentType =
+  | "insurance"
+  | "business_license"
+  | "tax_clearance"
+  | "safety_certificate"
+  | "other";
+
+export type ComplianceDocument = {
+  id: string;
+  type: ComplianceDocumentType;
+  filename: string;
+  url: string;
+  storagePath: string; // providers/{providerId}/compliance/{id}-{filename}
+  contentType: string;
+  size: number; // bytes
+  expiryDate?: string;
+  uploadedAt: string;
+  uploadedBy: string;
+};
+
 // New types for service provider management
 export type ServiceProviderCreateRequest = Omit<
   Provider,
@@ -197,7 +218,8 @@ export type ServiceProviderFinancialData = {
   }>;
 };
 
-export type PeriodGranularity = "WEEK" | "MONTH" | "YEAR";
+// Keys and fiscal calendar rules are defined by PeriodService
+export type PeriodGranularity = "DAY" | "WEEK" | "MONTH" | "QUARTER" | "YEAR";
 
 export type PropertyFinancialAggregate = {
   propertyId: string;
@@ -205,7 +227,7 @@ export type PropertyFinancialAggregate = {
   periodFrom: string; // ISO
   periodTo: string; // ISO
   granularity: PeriodGranularity;
-  currency: "ZAR" | "EUR" | "USD";
+  currency: string; // reporting currency (ISO 4217), e.g. ZAR, EUR, USD
   // totals
   revenue: number; // gross inflows from all providers at property
   expenses?: number; // optional (fees/opex if modeled)
@@ -216,10 +238,25 @@ export type PropertyFinancialAggregate = {
   revenueDeltaPct?: number;
   profitDeltaPct?: number;
   // trend points for sparkline cards
-  trend?: Array<{ label: string; revenue: number; profit?: number }>;
+  trend?: FinancialTrendPoint[];
 };
 
-export type PropertyRankItem = {
+export type ProviderFinancialAggregate = Omit<
+  PropertyFinancialAggregate,
+  "propertyId" | "propertyName"
+> & {
+  providerId: string;
+  providerName: string;
+};
+
+export type FinancialTrendPoint = {
+  label: string; // period key, see PeriodService
+  revenue: number;
+  expenses?: number;
+  profit?: number;
+};
+
+export type PropertyRankItem = FinancialComparison & {
   propertyId: string;
   propertyName: string;
   revenue: number;
@@ -230,6 +267,157 @@ export type PropertyRankItem = {
   paidInvoiceCount?: number;
 };
 
+export type ProviderRankItem = FinancialComparison & {
+  providerId: string;
+  providerName: string;
+  service?: string;
+  revenue: number;
+  expenses?: number;
+  profit?: number;
+  marginPct?: number;
+  invoicesPaidPct?: number;
+};
+
+export type CombinedRankItem = FinancialComparison & {
+  propertyName: string;
+  providerName: string;
+  revenue: number;
+  expenses?: number;
+  profit?: number;
+  marginPct?: number;
+  invoicesPaidPct?: number;
+};
+
+export type PropertyFinancialsResponse = {
+  summary: FinancialComparison & FinancialSummary;
+  byProperty: PropertyRankItem[]; // ranked list
+  series?: PropertyFinancialAggregate[]; // one per property
+  comparison?: ComparisonRange; // baseline range, when compare was resolved
+};
+
+export type ProviderFinancialsResponse = {
+  summary: FinancialComparison & FinancialSummary;
+  byProvider: ProviderRankItem[]; // ranked list
+  series?: ProviderFinancialAggregate[]; // one per provider
+  comparison?: ComparisonRange;
+};
+
+export type CombinedFinancialsResponse = {
+  summary: FinancialComparison & FinancialSummary;
+  byProperty: PropertyRankItem[];
+  byProvider: ProviderRankItem[];
+  series?: PropertyFinancialAggregate[];
+  combinedData?: CombinedRankItem[]; // property and provider pairs
+  comparison?: ComparisonRange;
+};
+
+// What financial query rows can be grouped by
+export type FinancialDimension =
+  | "property"
+  | "provider"
+  | "category"
+  | "period";
+
+export type FinancialQuery = {
+  from: string; // ISO start, or "2024" / "2024-03"; empty for no bound
+  to: string; // ISO end, or "2024" / "2024-12"; empty for no bound
+  granularity: PeriodGranularity; // period size when grouping by period
+  groupBy?: FinancialDimension[]; // one row per combination; none = summary
+  filters?: {
+    propertyId?: string;
+    providerId?: string;
+    category?: string; // invoice and expense category
+    status?: InvoiceStatus; // invoices only
+  };
+  compare?: ComparisonParams; // baselines for the summary and non-period rows
+};
+
+// Metrics of a financial query summary or row
+export type FinancialQueryMetrics = FinancialComparison & {
+  revenue: number;
+  expenses: number;
+  profit: number;
+  marginPct: number;
+  invoicesPaidPct: number; // amount received / revenue
+  amountReceived: number;
+  overdueAmount: number; // still owed past the due date, see isOverdue
+  pendingAmount: number; // drafts and balances not yet due
+  invoiceCount: number;
+  paidInvoiceCount: number;
+  overdueInvoiceCount: number;
+};
+
+export type FinancialQueryRow = FinancialQueryMetrics & {
+  key: string; // dimension values, unique within a result
+  propertyId?: string; // set when grouped by property
+  propertyName?: string;
+  providerId?: string; // set when grouped by provider
+  providerName?: string;
+  category?: string; // set when grouped by category
+  period?: string; // set when grouped by period, see PeriodService
+};
+
+export type FinancialQueryResult = {
+  currency: string; // reporting currency all amounts are expressed in
+  summary: FinancialQueryMetrics;
+  rows: FinancialQueryRow[]; // by period if grouped by it, else by revenue
+  comparison?: ComparisonRange; // baseline range, when compare was resolved
+};
+
+export type ComparisonMode =
+  | "previous_period" // same-length window right before the range
+  | "previous_year" // the same dates one year earlier
+  | "custom"; // explicit baseline range
+
+export type ComparisonParams = {
+  mode: ComparisonMode;
+  from?: string; // ISO baseline start, required for custom
+  to?: string; // ISO baseline end, required for custom
+};
+
+// Baseline date range a comparison was resolved to
+export type ComparisonRange = {
+  mode: ComparisonMode;
+  from: string;
+  to: string;
+};
+
+// Totals a period is compared on
+export type FinancialMetrics = {
+  revenue: number;
+  expenses?: number;
+  profit?: number;
+  marginPct?: number;
+  invoicesPaidPct?: number;
+};
+
+export type FinancialComparison = {
+  baseline?: FinancialMetrics; // zeroes when absent from the baseline range
+  revenueDeltaPct?: number; // undefined when the baseline figure is zero
+  expensesDeltaPct?: number;
+  profitDeltaPct?: number;
+  marginDeltaPts?: number; // percentage points
+  invoicesPaidDeltaPts?: number; // percentage points
+};
+
+export type InvoiceStatus =
+  | "draft"
+  | "sent"
+  | "partially_paid"
+  | "paid"
+  | "overdue"
+  | "cancelled";
+
+export type InvoiceStatusChange = {
+  id: string;
+  fromStatus: InvoiceStatus | null; // null for the initial status on creation
+  toStatus: InvoiceStatus;
+  changedBy: string; // uid of the actor, or "system"
+  changedByEmail?: string;
+  changedAt: string;
+  note?: string;
+};
+
 export type Invoice = {
   id: string;
   invoiceNumber: string;
@@ -240,7 +428,7 @@ export type Invoice = {
   description: string;
   issueDate: string;
   dueDate: string;
-  status: "draft" | "sent" | "paid" | "overdue" | "cancelled";
+  status: InvoiceStatus;
 
   // Financial Information
   subtotal: number;
@@ -267,6 +455,13 @@ export type Invoice = {
   paidDate?: string;
   paymentMethod?: string;
   paymentReference?: string;
+  amountPaid?: number; // sum of payment allocations (see Payment)
+  balanceDue?: number; // total - creditedAmount - amountPaid
+  creditedAmount?: number; // sum of issued credit notes (see CreditNote)
+
+  // Recurring generation
+  recurringTemplateId?: string; // Links to RecurringInvoiceTemplate.id
+  recurringPeriodDate?: string; // schedule occurrence this invoice bills
 
   // Audit Trail
   createdAt: string;
@@ -293,6 +488,349 @@ export type Invoice = {
   }[];
 };
 
+export type PaymentAllocation = {
+  invoiceId: string; // Links to Invoice.id
+  amount: number; // portion of the payment applied to this invoice
+};
+
+export type Payment = {
+  id: string;
+  amount: number;
+  currency: string;
+  paymentDate: string;
+  method: "bank_transfer" | "check" | "card" | "cash" | "digital_wallet";
+  reference?: string;
+  status: "received" | "reversed";
+
+  // One payment can settle several invoices
+  allocations: PaymentAllocation[];
+  invoiceIds: string[]; // allocation invoice IDs, for array-contains queries
+
+  notes?: string;
+  reversedAt?: string;
+  reversalReason?: string;
+
+  // Audit Trail
+  createdAt: string;
+  updatedAt: string;
+  createdBy: string;
+  updatedBy: string;
+};
+
+export type RecurrenceFrequency =
+  | "weekly"
+  | "monthly"
+  | "quarterly"
+  | "yearly";
+
+export type RecurringInvoiceTemplate = {
+  id: string;
+  name: string;
+  propertyId: string; // Links to Property.id
+  providerId: string; // Links to Provider.id
+  description: string;
+
+  // Schedule
+  frequency: RecurrenceFrequency;
+  startDate: string; // first issue date (YYYY-MM-DD)
+  endDate?: string; // last possible issue date (inclusive)
+  dueInDays: number; // dueDate = issueDate + dueInDays
+  active: boolean;
+
+  // Invoice contents
+  lineItems: Invoice["lineItems"];
+  taxRate: number; // e.g. 0.15 for 15%
+  currency: string;
+  notes?: string;
+  terms?: string;
+  paymentInstructions?: string;
+  autoSend?: boolean; // generate as "sent" rather than "draft"
+
+  // Generation tracking
+  lastGeneratedDate?: string; // latest occurrence materialised
+  nextRunDate?: string;
+
+  // Audit Trail
+  createdAt: string;
+  updatedAt: string;
+  createdBy: string;
+  updatedBy: string;
+};
+
+export type CreditNoteLineItem = {
+  lineItemIndex?: number; // index into the original Invoice.lineItems
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+};
+
+export type CreditNote = {
+  id: string;
+  creditNoteNumber: string;
+  invoiceId: string; // Links to Invoice.id
+  invoiceNumber: string;
+  propertyId: string; // Links to Property.id
+  providerId: string; // Links to Provider.id
+
+  issueDate: string;
+  reason: string;
+  type: "full" | "partial";
+  status: "issued" | "void";
+
+  // Financial Information (positive amounts, deducted from the invoice)
+  lineItems: CreditNoteLineItem[];
+  subtotal: number;
+  tax: number;
+  total: number;
+  currency: string;
+
+  voidedAt?: string;
+  voidReason?: string;
+
+  // Audit Trail
+  createdAt: string;
+  updatedAt: string;
+  createdBy: string;
+  updatedBy: string;
+};
+
+export type ExpenseCategory =
+  | "labor"
+  | "materials"
+  | "overhead"
+  | "utilities"
+  | "maintenance";
+
+export type Expense = {
+  id: string;
+  propertyId: string; // Links to Property.id
+  providerId?: string; // Links to Provider.id when the cost was paid to a provider
+  invoiceId?: string; // Optional link to the related Invoice.id
+
+  // Expense Details
+  category: ExpenseCategory;
+  description: string;
+  amount: number;
+  currency: string;
+  date: string; // ISO date the cost was incurred
+  status: "pending" | "approved" | "rejected";
+
+  // Supporting Document
+  receipt?: {
+    filename: string;
+    url: string;
+    type: string;
+    uploadedAt: string;
+  };
+
+  // Approval Workflow
+  approvedBy?: string;
+  approvedAt?: string;
+
+  // Audit Trail
+  createdAt: string;
+  updatedAt: string;
+  createdBy: string;
+  updatedBy: string;
+};
+
+export type BudgetKind = "revenue" | "expense";
+
+export type Budget = {
+  id: string;
+  propertyId: string; // Links to Property.id
+  kind: BudgetKind; // revenue target (invoices) or spending limit (expenses)
+  category?: ExpenseCategory; // expense budgets only; omitted = all categories
+  granularity: PeriodGranularity; // period type the amount is set for
+  period: string; // period key, e.g. "2025", "2025-03" or "2025-W10"
+  amount: number;
+  currency: string;
+  notes?: string;
+
+  // Audit Trail
+  createdAt: string;
+  updatedAt: string;
+  createdBy: string;
+  updatedBy: string;
+};
+
+export type BudgetVarianceRow = {
+  propertyId: string;
+  propertyName: string;
+  kind: BudgetKind;
+  category?: ExpenseCategory;
+  period: string; // period key at the report granularity
+  budgeted: number;
+  actual: number;
+  variance: number; // actual - budgeted
+  variancePct: number; // variance / budgeted
+  favorable: boolean; // expenses at or under budget, revenue at or over
+};
+
+export type FxRate = {
+  id: string;
+  baseCurrency: string; // ISO 4217 code converted from
+  quoteCurrency: string; // ISO 4217 code converted to
+  rate: number; // 1 baseCurrency = rate quoteCurrency
+  date: string; // ISO date (YYYY-MM-DD) the rate applies from
+  source: "manual" | "csv";
+  createdAt: string;
+  updatedAt: string;
+};
+
+// Invoice totals per property, provider, month, currency and status,
+// stored in financialData and recomputed by the /api/rollups route
+export type FinancialRollup = {
+  id: string;
+  propertyId: string;
+  providerId: string;
+  period: string; // calendar month of issueDate (YYYY-MM), see getIssueMonth
+  currency: string; // invoice currency, converted when read
+  status: InvoiceStatus;
+  category: string; // invoice category, "" when uncategorized
+  revenue: number; // sum of invoice totals less credit notes, see getNetTotal
+  amountPaid: number; // received, see PaymentService.getAmountPaid
+  invoiceCount: number;
+  paidInvoiceCount: number;
+  // Still owed, see getBalanceDue, in total and by due day (YYYY-MM-DD) so
+  // reports can tell what is overdue on the day they are read. Rollups
+  // built before these were added have neither until they are rebuilt.
+  balanceDue?: number;
+  balanceByDueDate?: Record<string, RollupBalance>;
+  updatedAt: string;
+};
+
+export type RollupBalance = {
+  balance: number;
+  invoiceCount: number;
+};
+
+// Invoice totals the financial reports aggregate: one invoice, or a
+// rollup of many, in the reporting currency
+export type FinancialRecord = {
+  propertyId: string;
+  providerId: string;
+  status: InvoiceStatus;
+  category: string;
+  issueDate: string; // first day of the month for rollups
+  total: number; // less credit notes
+  amountPaid: number;
+  balanceDue: number; // still owed, see getBalanceDue
+  overdueBalance: number; // still owed past the due date, see isOverdue
+  invoiceCount: number;
+  paidInvoiceCount: number;
+  overdueInvoiceCount: number;
+};
+
+export type ReportingSettings = {
+  reportingCurrency: string; // ISO 4217 code all reports are expressed in
+  fiscalYearStartMonth?: number; // 1-12, defaults to January
+  updatedAt: string;
+  updatedBy?: string;
+};
+
+export type InvoiceNumberingScope = "global" | "property" | "provider";
+
+export type InvoiceNumberingSettings = {
+  scope: InvoiceNumberingScope; // which invoices share a sequence
+  // Tokens: {PROP}, {PROV} (entity codes), {YYYY}, {YY}, {MM}, {seq}
+  format: string; // e.g. "INV-{PROP}-{YYYY}-{seq}"
+  padding: number; // minimum digits for {seq}
+  resetYearly: boolean; // restart each sequence at 1 every year
+  entityCodes?: Record<string, string>; // property/provider ID -> code override
+  updatedAt: string;
+  updatedBy?: string;
+};
+
+// One document per allocated number, so a number can never be issued twice
+export type InvoiceNumberRecord = {
+  id: string;
+  invoiceNumber: string;
+  invoiceId: string;
+  sequenceKey: string;
+  sequence: number;
+  status: "issued" | "void"; // void numbers stay reserved as documented gaps
+  voidedAt?: string;
+  voidReason?: string;
+  createdAt: string;
+};
+
+// Next number of a sequence: invoiceSequences per sequence key,
+// creditNoteSequences per year
+export type NumberSequence = {
+  id: string;
+  next: number;
+  lastNumberId?: string; // invoiceNumbers record allocated last
+  updatedAt?: string;
+};
+
+// A document of the settings collection, e.g. "reporting" (ReportingSettings)
+// or "invoiceNumbering" (InvoiceNumberingSettings)
+export type SettingsDocument = { id: string } & Record<string, unknown>;
+
+export type AgingBucket =
+  | "current" // not yet due
+  | "1-30"
+  | "31-60"
+  | "61-90"
+  | "90+"; // days past dueDate
+
+export type AgingBucketTotals = Record<AgingBucket, number>;
+
+export type AgedInvoice = {
+  invoiceId: string;
+  invoiceNumber: string;
+  propertyId: string;
+  propertyName: string;
+  providerId: string;
+  providerName: string;
+  issueDate: string;
+  dueDate: string;
+  daysPastDue: number; // 0 when not yet due
+  bucket: AgingBucket;
+  outstanding: number; // amount still owed, in the report currency
+};
+
+export type ReceivablesAgingRow = {
+  entityId: string; // propertyId or providerId
+  entityName: string;
+  buckets: AgingBucketTotals;
+  total: number;
+  invoiceCount: number;
+};
+
+export type ReceivablesAgingReport = {
+  asOf: string; // ISO date the ages are measured against
+  currency: string;
+  totals: AgingBucketTotals;
+  totalOutstanding: number;
+  overdueAmount: number; // everything past due
+  byProperty: ReceivablesAgingRow[];
+  byProvider: ReceivablesAgingRow[];
+  invoices: AgedInvoice[]; // for drill-down
+};
+
+export type CashFlowGranularity = Exclude<PeriodGranularity, "YEAR">;
+
+export type CashFlowForecastPeriod = {
+  period: string; // period key, e.g. "2025-03" or "2025-W10"
+  periodFrom: string; // ISO date (YYYY-MM-DD), inclusive
+  periodTo: string; // ISO date (YYYY-MM-DD), inclusive
+  incoming: number; // open invoice balances and recurring invoices expected in
+  outgoing: number; // provider expenses falling due under their payment terms
+  net: number; // incoming - outgoing
+  cumulative: number; // running net from the first period
+};
+
+export type CashFlowForecast = {
+  asOf: string; // ISO date the forecast starts from
+  granularity: CashFlowGranularity;
+  currency: string;
+  periods: CashFlowForecastPeriod[];
+  totals: { incoming: number; outgoing: number; net: number };
+};
+
 export type FinancialSummary = {
   revenue: number;
   profit?: number;
@@ -306,4 +844,27 @@ export type FinancialSummary = {
   expenses?: number;
   serviceProviderCosts?: number;
   operationalCosts?: number;
+  currency?: string;
+};
+
+export type AuditAction = "create" | "update" | "delete";
+
+export type AuditEntityType =
+  | "property"
+  | "serviceProvider"
+  | "invoice"
+  | "user";
+
+// Changed fields, null where the field was not set
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export type AuditLogEntry = {
+  id: string;
+  actorId: string; // uid of the signed-in user, or "system"
+  actorEmail?: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  changes: AuditChanges;
+  timestamp: string; // ISO
 };
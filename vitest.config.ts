@@ -0,0 +1,16 @@
+import { fileURLToPath } from "node:url";
+import { configDefaults, defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL("./src", import.meta.url)),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["src/**/*.test.ts"],
+    // Need the emulator, see vitest.rules.config.ts
+    exclude: [...configDefaults.exclude, "src/**/*.rules.test.ts"],
+  },
+});
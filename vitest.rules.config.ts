@@ -0,0 +1,14 @@
+import { defineConfig } from "vitest/config";
+
+// Security rules tests, run against the Firestore emulator by
+// `npm run test:rules`
+export default defineConfig({
+  test: {
+    environment: "node",
+    include: ["src/**/*.rules.test.ts"],
+    // The tests share one emulator database
+    fileParallelism: false,
+    testTimeout: 20000,
+    hookTimeout: 20000,
+  },
+});